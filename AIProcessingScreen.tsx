@@ -1,6 +1,11 @@
 import React, { useEffect, useState } from "react";
 import { View, StyleSheet, Image, ActivityIndicator } from "react-native";
-import { useNavigation, useRoute, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
 import { LinearGradient } from "expo-linear-gradient";
 import Animated, {
   useAnimatedStyle,
@@ -44,12 +49,12 @@ export default function AIProcessingScreen() {
     rotation.value = withRepeat(
       withTiming(360, { duration: 2000, easing: Easing.linear }),
       -1,
-      false
+      false,
     );
     pulse.value = withRepeat(
       withTiming(1.5, { duration: 1500, easing: Easing.out(Easing.ease) }),
       -1,
-      false
+      false,
     );
   }, []);
 
@@ -58,10 +63,10 @@ export default function AIProcessingScreen() {
       try {
         setStatus("Analyzing card...");
         await new Promise((resolve) => setTimeout(resolve, 1000));
-        
+
         setStatus("Extracting details...");
         const extractedData = await extractCardData(imageBase64);
-        
+
         setStatus("Complete!");
         await new Promise((resolve) => setTimeout(resolve, 500));
 
@@ -91,7 +96,11 @@ export default function AIProcessingScreen() {
   return (
     <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
       <Animated.View entering={FadeIn.delay(100)} style={styles.imageContainer}>
-        <Image source={{ uri: imageUri }} style={styles.cardImage} resizeMode="contain" />
+        <Image
+          source={{ uri: imageUri }}
+          style={styles.cardImage}
+          resizeMode="contain"
+        />
         <LinearGradient
           colors={["transparent", theme.backgroundRoot]}
           style={styles.imageGradient}
@@ -109,14 +118,24 @@ export default function AIProcessingScreen() {
               style={styles.spinner}
             />
           </Animated.View>
-          <ActivityIndicator size="large" color={AppColors.primary} style={styles.activityIndicator} />
+          <ActivityIndicator
+            size="large"
+            color={AppColors.primary}
+            style={styles.activityIndicator}
+          />
         </View>
 
-        <Animated.View entering={FadeIn.delay(300)} style={styles.statusContainer}>
+        <Animated.View
+          entering={FadeIn.delay(300)}
+          style={styles.statusContainer}
+        >
           <ThemedText type="h3" style={styles.statusText}>
             {status}
           </ThemedText>
-          <ThemedText type="body" style={{ color: theme.textSecondary, textAlign: "center" }}>
+          <ThemedText
+            type="body"
+            style={{ color: theme.textSecondary, textAlign: "center" }}
+          >
             Our AI is reading the business card details
           </ThemedText>
         </Animated.View>
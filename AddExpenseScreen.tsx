@@ -0,0 +1,471 @@
+import React, { useState, useLayoutEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  Alert,
+  Image,
+} from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { storage } from "@/utils/storage";
+import { useProfile } from "@/hooks/useStore";
+import { fromDateInput, toDateInput } from "@/utils/format";
+import { isPositive, parseMoney, toMajor } from "@/utils/money";
+import { EXPENSE_CATEGORIES } from "@/utils/expenses";
+import { Expense } from "@/types";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type AddExpenseRouteProp = RouteProp<RootStackParamList, "AddExpense">;
+
+const PAYMENT_METHODS: { key: Expense["method"]; label: string }[] = [
+  { key: "cash", label: "Cash" },
+  { key: "upi", label: "UPI" },
+  { key: "bank", label: "Bank" },
+  { key: "other", label: "Other" },
+];
+
+export default function AddExpenseScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<AddExpenseRouteProp>();
+  const { theme } = useTheme();
+  const { expense: editing } = route.params;
+  const profile = useProfile();
+  // An existing expense keeps its own currency.
+  const currency = editing ? editing.amount.currency : profile.currency;
+
+  const [category, setCategory] = useState<Expense["category"]>(
+    editing?.category || "rent",
+  );
+  const [amount, setAmount] = useState(
+    editing ? String(toMajor(editing.amount)) : "",
+  );
+  const [method, setMethod] = useState<Expense["method"]>(
+    editing?.method || "cash",
+  );
+  const [date, setDate] = useState(() =>
+    toDateInput(editing ? editing.date : new Date().toISOString()),
+  );
+  const [receiptUri, setReceiptUri] = useState(editing?.receiptUri);
+  const [notes, setNotes] = useState(editing?.notes || "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const parsed = parseMoney(amount, currency);
+    if (!parsed || !isPositive(parsed)) {
+      Alert.alert("Invalid", "Please enter a valid amount.");
+      return;
+    }
+    const expenseDate = fromDateInput(
+      date,
+      editing ? editing.date : new Date().toISOString(),
+    );
+    if (!expenseDate) {
+      Alert.alert("Invalid", "Please enter the date as YYYY-MM-DD.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const fields = {
+        category,
+        amount: parsed,
+        method,
+        date: expenseDate,
+        receiptUri,
+        notes: notes.trim() || undefined,
+      };
+      if (editing) {
+        await storage.updateExpense(editing.id, fields);
+      } else {
+        await storage.addExpense(fields);
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to save expense. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const pickReceipt = async (source: "camera" | "library") => {
+    try {
+      if (source === "camera") {
+        const { status } = await ImagePicker.requestCameraPermissionsAsync();
+        if (status !== "granted") {
+          Alert.alert(
+            "Permission Needed",
+            "Allow camera access to photograph receipts.",
+          );
+          return;
+        }
+      }
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ["images"],
+        quality: 0.6,
+      };
+      const result =
+        source === "camera"
+          ? await ImagePicker.launchCameraAsync(options)
+          : await ImagePicker.launchImageLibraryAsync(options);
+      if (!result.canceled && result.assets[0]) {
+        setReceiptUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      Alert.alert("Error", "Failed to add the receipt. Please try again.");
+    }
+  };
+
+  const handleAddReceipt = () => {
+    Alert.alert("Receipt Photo", undefined, [
+      { text: "Take Photo", onPress: () => pickReceipt("camera") },
+      { text: "Choose from Library", onPress: () => pickReceipt("library") },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const handleDelete = () => {
+    if (!editing) return;
+    Alert.alert(
+      "Delete Expense",
+      "Delete this expense? This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await storage.deleteExpense(editing.id);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                "Failed to delete expense. Please try again.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: editing ? "Edit Expense" : "Add Expense",
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={{ padding: Spacing.sm }}
+        >
+          <ThemedText type="body" style={{ color: theme.text }}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+      ),
+      headerRight: () => (
+        <Pressable
+          onPress={handleSave}
+          disabled={isSaving}
+          style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
+        >
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </ThemedText>
+        </Pressable>
+      ),
+    });
+  }, [
+    navigation,
+    category,
+    amount,
+    method,
+    date,
+    receiptUri,
+    notes,
+    isSaving,
+    theme,
+  ]);
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <ThemedText
+        type="small"
+        style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+      >
+        Category
+      </ThemedText>
+      <View style={[styles.section, styles.chipRow]}>
+        {EXPENSE_CATEGORIES.map((option) => (
+          <Pressable
+            key={option.key}
+            onPress={() => setCategory(option.key)}
+            style={[
+              styles.chip,
+              {
+                backgroundColor:
+                  category === option.key
+                    ? AppColors.primary
+                    : theme.backgroundSecondary,
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{
+                color: category === option.key ? "#FFFFFF" : theme.text,
+              }}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={[styles.section, styles.fieldRow]}>
+        <View style={{ flex: 1 }}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+          >
+            Amount
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundDefault, color: theme.text },
+            ]}
+            value={amount}
+            onChangeText={setAmount}
+            placeholder="0"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+          >
+            Date
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundDefault, color: theme.text },
+            ]}
+            value={date}
+            onChangeText={setDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      </View>
+
+      <ThemedText
+        type="small"
+        style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+      >
+        Paid By
+      </ThemedText>
+      <View style={[styles.section, styles.chipRow]}>
+        {PAYMENT_METHODS.map((option) => (
+          <Pressable
+            key={option.key}
+            onPress={() => setMethod(option.key)}
+            style={[
+              styles.chip,
+              {
+                backgroundColor:
+                  method === option.key
+                    ? AppColors.primary
+                    : theme.backgroundSecondary,
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: method === option.key ? "#FFFFFF" : theme.text }}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Receipt (Optional)
+        </ThemedText>
+        {receiptUri ? (
+          <View
+            style={[
+              styles.receiptCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Image
+              source={{ uri: receiptUri }}
+              style={styles.receiptImage}
+              resizeMode="contain"
+            />
+            <View style={styles.receiptActions}>
+              <Pressable
+                onPress={handleAddReceipt}
+                style={{ padding: Spacing.sm }}
+              >
+                <ThemedText type="small" style={{ color: AppColors.primary }}>
+                  Replace
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => setReceiptUri(undefined)}
+                style={{ padding: Spacing.sm }}
+              >
+                <ThemedText type="small" style={{ color: AppColors.error }}>
+                  Remove
+                </ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        ) : (
+          <Pressable
+            onPress={handleAddReceipt}
+            style={[
+              styles.addReceiptButton,
+              { borderColor: AppColors.primary },
+            ]}
+          >
+            <Feather name="camera" size={20} color={AppColors.primary} />
+            <ThemedText
+              type="body"
+              style={{ color: AppColors.primary, marginLeft: Spacing.sm }}
+            >
+              Add Receipt Photo
+            </ThemedText>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Notes (Optional)
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            styles.notesInput,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="e.g., who was paid, or what for"
+          placeholderTextColor={theme.textSecondary}
+          multiline
+          textAlignVertical="top"
+        />
+      </View>
+
+      {editing ? (
+        <Pressable
+          onPress={handleDelete}
+          style={({ pressed }) => [
+            styles.deleteButton,
+            { borderColor: AppColors.error, opacity: pressed ? 0.8 : 1 },
+          ]}
+        >
+          <Feather name="trash-2" size={18} color={AppColors.error} />
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.error, fontWeight: "600" }}
+          >
+            Delete Expense
+          </ThemedText>
+        </Pressable>
+      ) : null}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  receiptCard: {
+    borderRadius: BorderRadius.lg,
+    overflow: "hidden",
+  },
+  receiptImage: {
+    width: "100%",
+    height: 180,
+  },
+  receiptActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    paddingHorizontal: Spacing.sm,
+  },
+  addReceiptButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  notesInput: {
+    height: 100,
+    paddingTop: Spacing.md,
+  },
+  deleteButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    height: Spacing.buttonHeight,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing["2xl"],
+  },
+});
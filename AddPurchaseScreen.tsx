@@ -0,0 +1,554 @@
+import React, { useState, useLayoutEffect } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { storage } from "@/utils/storage";
+import { useCustomer, useProfile } from "@/hooks/useStore";
+import {
+  formatCurrency,
+  formatDate,
+  fromDateInput,
+  toDateInput,
+} from "@/utils/format";
+import {
+  Money,
+  compare,
+  multiply,
+  parseMoney,
+  sum,
+  toMajor,
+  zero,
+} from "@/utils/money";
+import {
+  customerTerms,
+  dueDateFor,
+  dueDateOf,
+  termsLabel,
+} from "@/utils/terms";
+import { ProductItem } from "@/types";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type AddPurchaseRouteProp = RouteProp<RootStackParamList, "AddPurchase">;
+
+interface LineForm {
+  name: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const EMPTY_LINE: LineForm = { name: "", quantity: "1", unitPrice: "" };
+
+export default function AddPurchaseScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<AddPurchaseRouteProp>();
+  const { theme } = useTheme();
+  const { supplierId, purchase: editing } = route.params;
+  const profile = useProfile();
+  const supplier = useCustomer(supplierId);
+  // An existing bill keeps its own currency.
+  const currency = editing ? editing.totalAmount.currency : profile.currency;
+  const terms = customerTerms(supplier);
+
+  const [lines, setLines] = useState<LineForm[]>(() =>
+    editing
+      ? editing.products.map((p) => ({
+          name: p.name,
+          quantity: String(p.quantity),
+          unitPrice: String(toMajor(p.unitPrice)),
+        }))
+      : [EMPTY_LINE],
+  );
+  const [billNumber, setBillNumber] = useState(editing?.billNumber || "");
+  const [date, setDate] = useState(() =>
+    toDateInput(editing ? editing.date : new Date().toISOString()),
+  );
+  const [dueDate, setDueDate] = useState(() =>
+    editing ? toDateInput(dueDateOf(editing)) : "",
+  );
+  const [amountPaid, setAmountPaid] = useState("");
+  const [notes, setNotes] = useState(editing?.notes || "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const lineTotal = (line: LineForm): Money => {
+    const price = parseMoney(line.unitPrice, currency);
+    const quantity = parseFloat(line.quantity);
+    return price && quantity > 0 ? multiply(price, quantity) : zero(currency);
+  };
+  const totalAmount = sum(lines.map(lineTotal), currency);
+
+  const updateLine = (index: number, field: keyof LineForm, value: string) => {
+    setLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)),
+    );
+  };
+
+  const handleSave = async () => {
+    const validLines = lines.filter(
+      (l) =>
+        l.name.trim() &&
+        parseFloat(l.quantity) > 0 &&
+        parseMoney(l.unitPrice, currency),
+    );
+    if (validLines.length === 0) {
+      Alert.alert(
+        "Required",
+        "Please add at least one item with name, quantity, and price.",
+      );
+      return;
+    }
+
+    const products: ProductItem[] = validLines.map((l) => ({
+      name: l.name.trim(),
+      quantity: parseFloat(l.quantity),
+      unitPrice: parseMoney(l.unitPrice, currency)!,
+      total: lineTotal(l),
+    }));
+    const billTotal = sum(
+      products.map((p) => p.total),
+      currency,
+    );
+
+    const billDate = fromDateInput(
+      date,
+      editing ? editing.date : new Date().toISOString(),
+    );
+    if (!billDate) {
+      Alert.alert("Invalid", "Please enter the bill date as YYYY-MM-DD.");
+      return;
+    }
+    const billDueDate = dueDate.trim()
+      ? fromDateInput(dueDate, billDate)
+      : dueDateFor(billDate, terms);
+    if (!billDueDate) {
+      Alert.alert("Invalid", "Please enter the due date as YYYY-MM-DD.");
+      return;
+    }
+    if (billDueDate < billDate) {
+      Alert.alert("Invalid", "The due date cannot be before the bill date.");
+      return;
+    }
+
+    if (editing && compare(editing.amountPaid, billTotal) > 0) {
+      Alert.alert(
+        "Invalid",
+        `The total cannot be less than the ${formatCurrency(editing.amountPaid)} already paid.`,
+      );
+      return;
+    }
+    const paid = editing
+      ? undefined
+      : parseMoney(amountPaid, currency) || zero(currency);
+    if (paid && compare(paid, billTotal) > 0) {
+      Alert.alert(
+        "Invalid",
+        "The amount paid cannot be more than the bill total.",
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const fields = {
+        billNumber: billNumber.trim() || undefined,
+        date: billDate,
+        dueDate: billDueDate,
+        products,
+        totalAmount: billTotal,
+        notes: notes.trim() || undefined,
+      };
+      if (editing) {
+        await storage.updatePurchase(editing.id, fields);
+      } else {
+        await storage.addPurchase({ ...fields, customerId: supplierId }, paid);
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to save purchase bill. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editing) return;
+    Alert.alert(
+      "Delete Bill",
+      editing.payments.length > 0
+        ? "Delete this bill and the payments made on it? This cannot be undone."
+        : "Delete this bill? This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await storage.deletePurchase(editing.id);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                "Failed to delete purchase bill. Please try again.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: editing ? "Edit Purchase Bill" : "Add Purchase Bill",
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={{ padding: Spacing.sm }}
+        >
+          <ThemedText type="body" style={{ color: theme.text }}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+      ),
+      headerRight: () => (
+        <Pressable
+          onPress={handleSave}
+          disabled={isSaving}
+          style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
+        >
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </ThemedText>
+        </Pressable>
+      ),
+    });
+  }, [
+    navigation,
+    lines,
+    billNumber,
+    date,
+    dueDate,
+    amountPaid,
+    notes,
+    supplier,
+    isSaving,
+    theme,
+  ]);
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Bill Number (Optional)
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={billNumber}
+          onChangeText={setBillNumber}
+          placeholder="The supplier's invoice number"
+          placeholderTextColor={theme.textSecondary}
+          autoCapitalize="characters"
+        />
+      </View>
+
+      <View style={[styles.section, styles.lineRow]}>
+        <View style={{ flex: 1 }}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+          >
+            Bill Date
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundDefault, color: theme.text },
+            ]}
+            value={date}
+            onChangeText={setDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+          >
+            Due Date
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundDefault, color: theme.text },
+            ]}
+            value={dueDate}
+            onChangeText={setDueDate}
+            placeholder={termsLabel(terms)}
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      </View>
+
+      <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
+        Items
+      </ThemedText>
+      <View style={styles.lineList}>
+        {lines.map((line, index) => (
+          <Animated.View
+            key={index}
+            entering={FadeInDown.delay(100 + index * 50).springify()}
+            style={[
+              styles.lineCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View style={styles.lineHeader}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Item {index + 1}
+              </ThemedText>
+              {lines.length > 1 ? (
+                <Pressable
+                  onPress={() =>
+                    setLines((prev) => prev.filter((_, i) => i !== index))
+                  }
+                  style={{ padding: Spacing.xs }}
+                >
+                  <Feather name="x" size={18} color={AppColors.error} />
+                </Pressable>
+              ) : null}
+            </View>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={line.name}
+              onChangeText={(text) => updateLine(index, "name", text)}
+              placeholder="Item name"
+              placeholderTextColor={theme.textSecondary}
+            />
+            <View style={styles.lineRow}>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    flex: 1,
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                  },
+                ]}
+                value={line.quantity}
+                onChangeText={(text) => updateLine(index, "quantity", text)}
+                placeholder="Qty"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    flex: 1.5,
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                  },
+                ]}
+                value={line.unitPrice}
+                onChangeText={(text) => updateLine(index, "unitPrice", text)}
+                placeholder="Unit cost"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="numeric"
+              />
+            </View>
+          </Animated.View>
+        ))}
+      </View>
+
+      <Pressable
+        onPress={() => setLines((prev) => [...prev, EMPTY_LINE])}
+        style={[styles.addLineButton, { borderColor: AppColors.primary }]}
+      >
+        <Feather name="plus" size={20} color={AppColors.primary} />
+        <ThemedText
+          type="body"
+          style={{ color: AppColors.primary, marginLeft: Spacing.sm }}
+        >
+          Add Item
+        </ThemedText>
+      </Pressable>
+
+      <View
+        style={[styles.totalCard, { backgroundColor: theme.backgroundDefault }]}
+      >
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          Bill Total
+        </ThemedText>
+        <ThemedText type="h3" style={{ color: AppColors.primary }}>
+          {formatCurrency(totalAmount)}
+        </ThemedText>
+      </View>
+
+      {editing ? (
+        <ThemedText
+          type="small"
+          style={[styles.section, { color: theme.textSecondary }]}
+        >
+          {formatCurrency(editing.amountPaid)} already paid. Record further
+          payments from the supplier&apos;s page.
+        </ThemedText>
+      ) : (
+        <View style={styles.section}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+          >
+            Amount Paid Now
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundDefault, color: theme.text },
+            ]}
+            value={amountPaid}
+            onChangeText={setAmountPaid}
+            placeholder="Enter amount paid"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numeric"
+          />
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginTop: Spacing.md }}
+          >
+            Due {formatDate(dueDateFor(new Date().toISOString(), terms))} (
+            {termsLabel(terms)}) unless a due date is entered
+          </ThemedText>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Notes (Optional)
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            styles.notesInput,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Add any notes about this bill"
+          placeholderTextColor={theme.textSecondary}
+          multiline
+          textAlignVertical="top"
+        />
+      </View>
+
+      {editing ? (
+        <Pressable
+          onPress={handleDelete}
+          style={({ pressed }) => [
+            styles.deleteButton,
+            { borderColor: AppColors.error, opacity: pressed ? 0.8 : 1 },
+          ]}
+        >
+          <Feather name="trash-2" size={18} color={AppColors.error} />
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.error, fontWeight: "600" }}
+          >
+            Delete Bill
+          </ThemedText>
+        </Pressable>
+      ) : null}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  lineList: {
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  lineCard: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  lineHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  lineRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  addLineButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    marginBottom: Spacing["2xl"],
+  },
+  totalCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+    marginBottom: Spacing["2xl"],
+  },
+  notesInput: {
+    height: 100,
+    paddingTop: Spacing.md,
+  },
+  deleteButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    height: Spacing.buttonHeight,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing["2xl"],
+  },
+});
@@ -1,38 +1,200 @@
-import React, { useState, useLayoutEffect } from "react";
-import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
-import { useNavigation, useRoute, NavigationProp, RouteProp } from "@react-navigation/native";
+import React, { useState, useLayoutEffect, useMemo } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  Alert,
+  Switch,
+} from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { storage } from "@/utils/storage";
-import { ProductItem } from "@/types";
+import {
+  useCredits,
+  useCustomer,
+  useProducts,
+  useProfile,
+  useStockMovements,
+} from "@/hooks/useStore";
+import {
+  formatCurrency,
+  formatDate,
+  fromDateInput,
+  toDateInput,
+} from "@/utils/format";
+import {
+  Money,
+  compare,
+  isNegative,
+  isPositive,
+  parseMoney,
+  subtract,
+  sum,
+  toMajor,
+  zero,
+} from "@/utils/money";
+import { getCreditBalance } from "@/utils/analytics";
+import { deriveStatus } from "@/utils/integrity";
+import { findProductByName, searchProducts } from "@/utils/catalog";
+import { getStockLevels } from "@/utils/stock";
+import {
+  customerTerms,
+  dueDateFor,
+  dueDateOf,
+  termsLabel,
+} from "@/utils/terms";
+import {
+  customerState,
+  isInterState,
+  stateFromGstin,
+  summarizeTax,
+} from "@/utils/gst";
+import { LineInput, lineDiscountGiven, priceLines } from "@/utils/pricing";
+import { validUntilFor } from "@/utils/quotations";
+import { RECURRENCE_FREQUENCIES } from "@/utils/recurring";
+import {
+  Discount,
+  Product,
+  Quotation,
+  RecurrenceSchedule,
+  RecurringTemplate,
+} from "@/types";
 import { RootStackParamList } from "@/navigation/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
 type AddTransactionRouteProp = RouteProp<RootStackParamList, "AddTransaction">;
 
 interface ProductForm {
+  /** Set when the line was picked from the catalog; typing a new name clears it. */
+  productId?: string;
+  /** Copied from the catalog with `productId`. Existing lines keep the cost they were sold at. */
+  costPrice?: Money;
   name: string;
   quantity: string;
   unitPrice: string;
+  /** GST rate in percent; empty for an untaxed line. */
+  taxRate: string;
+  hsnCode: string;
+  discount: string;
+  discountType: Discount["type"];
+}
+
+const EMPTY_LINE: ProductForm = {
+  name: "",
+  quantity: "",
+  unitPrice: "",
+  taxRate: "",
+  hsnCode: "",
+  discount: "",
+  discountType: "percent",
+};
+
+const discountText = (discount?: Discount) =>
+  !discount
+    ? ""
+    : discount.type === "percent"
+      ? String(discount.percent)
+      : String(toMajor(discount.amount));
+
+/** Reads a discount field. Empty means no discount; null means the text is not a valid one. */
+function parseDiscount(
+  text: string,
+  type: Discount["type"],
+  currency: string,
+): Discount | undefined | null {
+  if (!text.trim()) return undefined;
+  if (type === "percent") {
+    const percent = parseFloat(text);
+    return Number.isFinite(percent) && percent >= 0 && percent <= 100
+      ? { type, percent }
+      : null;
+  }
+  const amount = parseMoney(text, currency);
+  return amount && !isNegative(amount) ? { type, amount } : null;
+}
+
+function DiscountInput({
+  value,
+  type,
+  onChangeText,
+  onToggleType,
+  backgroundColor,
+}: {
+  value: string;
+  type: Discount["type"];
+  onChangeText: (text: string) => void;
+  onToggleType: () => void;
+  backgroundColor: string;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.productRow}>
+      <TextInput
+        style={[styles.input, { flex: 1, backgroundColor, color: theme.text }]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={type === "percent" ? "Discount %" : "Discount amount"}
+        placeholderTextColor={theme.textSecondary}
+        keyboardType="numeric"
+      />
+      <Pressable
+        onPress={onToggleType}
+        style={[
+          styles.discountToggle,
+          { backgroundColor: AppColors.primary + "20" },
+        ]}
+      >
+        <ThemedText
+          type="small"
+          style={{ color: AppColors.primary, fontWeight: "600" }}
+        >
+          {type === "percent" ? "%" : "Flat"}
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
 }
 
 function ProductInput({
   product,
   index,
+  catalog,
+  stockLevels,
+  showTax,
   onUpdate,
+  onToggleDiscountType,
+  onPick,
   onRemove,
   canRemove,
 }: {
   product: ProductForm;
   index: number;
+  catalog: Product[];
+  stockLevels: Map<string, number>;
+  showTax: boolean;
   onUpdate: (field: keyof ProductForm, value: string) => void;
+  onToggleDiscountType: () => void;
+  onPick: (product: Product) => void;
   onRemove: () => void;
   canRemove: boolean;
 }) {
   const { theme } = useTheme();
+  const [isFocused, setIsFocused] = useState(false);
+  const suggestions =
+    isFocused && !product.productId
+      ? searchProducts(catalog, product.name)
+      : [];
 
   return (
     <Animated.View
@@ -50,16 +212,69 @@ function ProductInput({
         ) : null}
       </View>
       <TextInput
-        style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+        style={[
+          styles.input,
+          { backgroundColor: theme.backgroundSecondary, color: theme.text },
+        ]}
         value={product.name}
         onChangeText={(text) => onUpdate("name", text)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
         placeholder="Product name"
         placeholderTextColor={theme.textSecondary}
       />
+      {suggestions.length > 0 ? (
+        <View
+          style={[
+            styles.suggestions,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+        >
+          {suggestions.map((suggestion) => (
+            <Pressable
+              key={suggestion.id}
+              onPress={() => onPick(suggestion)}
+              style={({ pressed }) => [
+                styles.suggestion,
+                { opacity: pressed ? 0.7 : 1 },
+              ]}
+            >
+              <View style={{ flex: 1 }}>
+                <ThemedText type="small">
+                  {suggestion.name}
+                  {suggestion.sku ? ` · ${suggestion.sku}` : ""}
+                </ThemedText>
+                {suggestion.trackStock ? (
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {stockLevels.get(suggestion.id) || 0} in stock
+                  </ThemedText>
+                ) : null}
+              </View>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {formatCurrency(suggestion.defaultPrice)}
+                {suggestion.unit ? ` / ${suggestion.unit}` : ""}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      ) : product.productId ? (
+        <View style={styles.catalogTag}>
+          <Feather name="tag" size={12} color={AppColors.primary} />
+          <ThemedText type="small" style={{ color: AppColors.primary }}>
+            From catalog
+          </ThemedText>
+        </View>
+      ) : null}
       <View style={styles.productRow}>
         <View style={{ flex: 1 }}>
           <TextInput
-            style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
             value={product.quantity}
             onChangeText={(text) => onUpdate("quantity", text)}
             placeholder="Qty"
@@ -69,7 +284,10 @@ function ProductInput({
         </View>
         <View style={{ flex: 1.5 }}>
           <TextInput
-            style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
             value={product.unitPrice}
             onChangeText={(text) => onUpdate("unitPrice", text)}
             placeholder="Unit price"
@@ -78,6 +296,49 @@ function ProductInput({
           />
         </View>
       </View>
+      <DiscountInput
+        value={product.discount}
+        type={product.discountType}
+        onChangeText={(text) => onUpdate("discount", text)}
+        onToggleType={onToggleDiscountType}
+        backgroundColor={theme.backgroundSecondary}
+      />
+      {showTax ? (
+        <View style={styles.productRow}>
+          <View style={{ flex: 1.5 }}>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={product.hsnCode}
+              onChangeText={(text) => onUpdate("hsnCode", text)}
+              placeholder="HSN/SAC code"
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="numeric"
+            />
+          </View>
+          <View style={{ flex: 1 }}>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={product.taxRate}
+              onChangeText={(text) => onUpdate("taxRate", text)}
+              placeholder="GST %"
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="numeric"
+            />
+          </View>
+        </View>
+      ) : null}
     </Animated.View>
   );
 }
@@ -86,79 +347,397 @@ export default function AddTransactionScreen() {
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const route = useRoute<AddTransactionRouteProp>();
   const { theme } = useTheme();
-  const { customerId } = route.params;
+  const {
+    customerId,
+    transaction: editing,
+    quotation,
+    asQuotation = false,
+  } = route.params;
+  // The form starts from the transaction being edited, or the quote being edited or converted.
+  const source = editing || quotation;
+  const editingQuote = asQuotation ? quotation : undefined;
+  const profile = useProfile();
+  // An existing transaction or quote keeps its own currency.
+  const currency = source ? source.totalAmount.currency : profile.currency;
+  const customer = useCustomer(customerId);
+  const catalog = useProducts({ activeOnly: true });
+  const movements = useStockMovements();
+  const stockLevels = useMemo(() => getStockLevels(movements), [movements]);
+  const terms = customerTerms(customer);
+  const credits = useCredits({ customerId });
+  const creditBalance = getCreditBalance(customerId, credits, currency);
+  // GST is only asked for once the business has a GSTIN, or when starting from taxed lines.
+  const showTax =
+    !!profile.gstin || !!source?.products.some((p) => p.taxRate !== undefined);
+  const interState = isInterState(
+    profile.state || stateFromGstin(profile.gstin),
+    customerState(customer),
+  );
 
-  const [products, setProducts] = useState<ProductForm[]>([
-    { name: "", quantity: "", unitPrice: "" },
-  ]);
+  const [products, setProducts] = useState<ProductForm[]>(() =>
+    source
+      ? source.products.map((p) => ({
+          productId: p.productId,
+          costPrice: p.costPrice,
+          name: p.name,
+          quantity: String(p.quantity),
+          unitPrice: String(toMajor(p.unitPrice)),
+          taxRate: p.taxRate !== undefined ? String(p.taxRate) : "",
+          hsnCode: p.hsnCode || "",
+          discount: discountText(p.discount),
+          discountType: p.discount?.type || "percent",
+        }))
+      : [EMPTY_LINE],
+  );
+  const [billDiscount, setBillDiscount] = useState(
+    discountText(source?.discount),
+  );
+  const [billDiscountType, setBillDiscountType] = useState<Discount["type"]>(
+    source?.discount?.type || "percent",
+  );
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(
+    source?.pricesIncludeTax ?? false,
+  );
   const [amountPaid, setAmountPaid] = useState("");
-  const [notes, setNotes] = useState("");
+  const [date, setDate] = useState(() =>
+    editing ? toDateInput(editing.date) : "",
+  );
+  const [dueDate, setDueDate] = useState(() =>
+    editing ? toDateInput(dueDateOf(editing)) : "",
+  );
+  const [validUntil, setValidUntil] = useState(() =>
+    toDateInput(
+      editingQuote
+        ? editingQuote.validUntil
+        : validUntilFor(new Date().toISOString()),
+    ),
+  );
+  const [notes, setNotes] = useState(source?.notes || "");
+  const [applyCredit, setApplyCredit] = useState(true);
+  const [repeat, setRepeat] = useState(false);
+  const [frequency, setFrequency] =
+    useState<RecurringTemplate["frequency"]>("monthly");
+  const [intervalDays, setIntervalDays] = useState("");
+  const [repeatUntil, setRepeatUntil] = useState("");
+  const [autoRepeat, setAutoRepeat] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
-  const updateProduct = (index: number, field: keyof ProductForm, value: string) => {
+  const updateProduct = (
+    index: number,
+    field: keyof ProductForm,
+    value: string,
+  ) => {
     setProducts((prev) => {
       const updated = [...prev];
       updated[index] = { ...updated[index], [field]: value };
+      if (field === "name") {
+        updated[index].productId = undefined;
+        updated[index].costPrice = undefined;
+      }
+      return updated;
+    });
+  };
+
+  const pickProduct = (index: number, product: Product) => {
+    setProducts((prev) => {
+      const updated = [...prev];
+      updated[index] = {
+        ...updated[index],
+        productId: product.id,
+        costPrice: product.costPrice,
+        name: product.name,
+        quantity: updated[index].quantity || "1",
+        unitPrice: String(toMajor(product.defaultPrice)),
+        taxRate:
+          product.taxRate !== undefined
+            ? String(product.taxRate)
+            : updated[index].taxRate,
+        hsnCode: product.hsnCode || updated[index].hsnCode,
+      };
+      return updated;
+    });
+  };
+
+  const toggleDiscountType = (index: number) => {
+    setProducts((prev) => {
+      const updated = [...prev];
+      const type =
+        updated[index].discountType === "percent" ? "flat" : "percent";
+      updated[index] = { ...updated[index], discountType: type };
       return updated;
     });
   };
 
   const addProduct = () => {
-    setProducts((prev) => [...prev, { name: "", quantity: "", unitPrice: "" }]);
+    setProducts((prev) => [...prev, EMPTY_LINE]);
   };
 
   const removeProduct = (index: number) => {
     setProducts((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const calculateTotal = () => {
-    return products.reduce((sum, p) => {
-      const qty = parseFloat(p.quantity) || 0;
-      const price = parseFloat(p.unitPrice) || 0;
-      return sum + qty * price;
-    }, 0);
+  const toLine = (p: ProductForm): LineInput => {
+    const rate = showTax && p.taxRate.trim() ? parseFloat(p.taxRate) : NaN;
+    // A typed name that matches the catalog exactly is linked too.
+    const match = p.productId ? undefined : findProductByName(catalog, p.name);
+    return {
+      productId: p.productId || match?.id,
+      costPrice: p.productId ? p.costPrice : match?.costPrice,
+      name: p.name.trim(),
+      quantity: parseFloat(p.quantity) || 0,
+      unitPrice: parseMoney(p.unitPrice, currency) || zero(currency),
+      discount:
+        parseDiscount(p.discount, p.discountType, currency) || undefined,
+      taxRate: Number.isNaN(rate) ? undefined : rate,
+      hsnCode: (showTax && p.hsnCode.trim()) || undefined,
+    };
   };
 
+  const priceBill = (lines: ProductForm[]) =>
+    priceLines(lines.map(toLine), {
+      currency,
+      discount:
+        parseDiscount(billDiscount, billDiscountType, currency) || undefined,
+      inclusive: pricesIncludeTax,
+      interState,
+    });
+
   const handleSave = async () => {
     const validProducts = products.filter(
-      (p) => p.name.trim() && p.quantity && p.unitPrice
+      (p) => p.name.trim() && p.quantity && parseMoney(p.unitPrice, currency),
     );
 
     if (validProducts.length === 0) {
-      Alert.alert("Required", "Please add at least one product with name, quantity, and price.");
+      Alert.alert(
+        "Required",
+        "Please add at least one product with name, quantity, and price.",
+      );
       return;
     }
 
-    const totalAmount = calculateTotal();
-    const paid = parseFloat(amountPaid) || 0;
+    const invalidRate = validProducts.find((p) => {
+      const rate = parseFloat(p.taxRate);
+      return p.taxRate.trim() && (Number.isNaN(rate) || rate < 0 || rate > 100);
+    });
+    if (showTax && invalidRate) {
+      Alert.alert(
+        "Invalid",
+        `Please enter a GST rate between 0 and 100 for ${invalidRate.name}.`,
+      );
+      return;
+    }
 
-    if (paid > totalAmount) {
-      Alert.alert("Invalid", "Amount paid cannot exceed total amount.");
+    const badDiscount = validProducts.find(
+      (p) => parseDiscount(p.discount, p.discountType, currency) === null,
+    );
+    if (
+      badDiscount ||
+      parseDiscount(billDiscount, billDiscountType, currency) === null
+    ) {
+      Alert.alert(
+        "Invalid",
+        badDiscount
+          ? `Please check the discount on ${badDiscount.name}.`
+          : "Please check the bill discount.",
+      );
       return;
     }
 
-    setIsSaving(true);
-    try {
-      const productItems: ProductItem[] = validProducts.map((p) => ({
-        name: p.name.trim(),
-        quantity: parseFloat(p.quantity),
-        unitPrice: parseFloat(p.unitPrice),
-        total: parseFloat(p.quantity) * parseFloat(p.unitPrice),
-      }));
-
-      await storage.addTransaction({
-        customerId,
-        date: new Date().toISOString(),
+    const bill = priceBill(validProducts);
+    const productItems = bill.items;
+    const totalAmount = bill.totalAmount;
+    const discount =
+      parseDiscount(billDiscount, billDiscountType, currency) || undefined;
+    const discountAmount = discount ? bill.discountAmount : undefined;
+
+    if (asQuotation) {
+      const quotationDate = editingQuote
+        ? editingQuote.date
+        : new Date().toISOString();
+      const quotationValidUntil = fromDateInput(validUntil, quotationDate);
+      if (!quotationValidUntil) {
+        Alert.alert(
+          "Invalid",
+          "Please enter the valid until date as YYYY-MM-DD.",
+        );
+        return;
+      }
+      if (quotationValidUntil < quotationDate) {
+        Alert.alert(
+          "Invalid",
+          "The quotation cannot expire before it was made.",
+        );
+        return;
+      }
+      saveQuotation({
+        validUntil: quotationValidUntil,
         products: productItems,
         totalAmount,
-        amountPaid: paid,
-        status: paid >= totalAmount ? "paid" : paid > 0 ? "partial" : "pending",
+        discount,
+        discountAmount,
+        pricesIncludeTax: showTax ? pricesIncludeTax : undefined,
         notes: notes.trim() || undefined,
       });
+      return;
+    }
+
+    const paid = editing
+      ? editing.amountPaid
+      : parseMoney(amountPaid, currency) || zero(currency);
+
+    if (editing && compare(paid, totalAmount) > 0) {
+      Alert.alert(
+        "Invalid",
+        `The total cannot be less than the ${formatCurrency(paid)} already paid. Void or reverse payments first.`,
+      );
+      return;
+    }
+
+    const transactionDate = editing
+      ? fromDateInput(date, editing.date)
+      : new Date().toISOString();
+    if (!transactionDate) {
+      Alert.alert("Invalid", "Please enter the date as YYYY-MM-DD.");
+      return;
+    }
+
+    const transactionDueDate = editing
+      ? fromDateInput(dueDate, dueDateOf(editing))
+      : dueDateFor(transactionDate, terms);
+    if (!transactionDueDate) {
+      Alert.alert("Invalid", "Please enter the due date as YYYY-MM-DD.");
+      return;
+    }
+    if (transactionDueDate < transactionDate) {
+      Alert.alert(
+        "Invalid",
+        "The due date cannot be before the transaction date.",
+      );
+      return;
+    }
+
+    let schedule: RecurrenceSchedule | undefined;
+    if (!editing && repeat) {
+      const days = parseInt(intervalDays, 10);
+      if (frequency === "custom" && !(days > 0)) {
+        Alert.alert(
+          "Invalid",
+          "Please enter how many days apart the orders repeat.",
+        );
+        return;
+      }
+      const endDate = repeatUntil.trim()
+        ? fromDateInput(repeatUntil, transactionDate)
+        : undefined;
+      if (endDate === null) {
+        Alert.alert(
+          "Invalid",
+          "Please enter the repeat end date as YYYY-MM-DD.",
+        );
+        return;
+      }
+      if (endDate && endDate < transactionDate) {
+        Alert.alert("Invalid", "The repeat end date cannot be before today.");
+        return;
+      }
+      schedule = {
+        frequency,
+        intervalDays: frequency === "custom" ? days : undefined,
+        endDate,
+        mode: autoRepeat ? "auto" : "confirm",
+      };
+    }
+
+    const save = async () => {
+      setIsSaving(true);
+      try {
+        const taxMode = showTax ? pricesIncludeTax : undefined;
+        if (editing) {
+          const updated = await storage.updateTransaction(editing.id, {
+            date: transactionDate,
+            dueDate: transactionDueDate,
+            products: productItems,
+            totalAmount,
+            discount,
+            discountAmount,
+            pricesIncludeTax: taxMode,
+            notes: notes.trim() || undefined,
+          });
+          if (!updated) {
+            Alert.alert(
+              "Cannot Save",
+              "This transaction has returns, or more has been paid than the new total.",
+            );
+            return;
+          }
+        } else {
+          await storage.addTransaction(
+            {
+              customerId,
+              date: transactionDate,
+              dueDate: transactionDueDate,
+              products: productItems,
+              totalAmount,
+              discount,
+              discountAmount,
+              pricesIncludeTax: taxMode,
+              amountPaid: paid,
+              status: deriveStatus(totalAmount, paid),
+              notes: notes.trim() || undefined,
+            },
+            {
+              applyCredit: applyCredit && isPositive(creditBalance),
+              fromQuotationId: quotation?.id,
+              repeat: schedule,
+            },
+          );
+        }
+
+        navigation.goBack();
+      } catch (error) {
+        Alert.alert("Error", "Failed to save transaction. Please try again.");
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    if (compare(paid, totalAmount) > 0) {
+      const extra = formatCurrency(subtract(paid, totalAmount));
+      Alert.alert(
+        "Overpayment",
+        `${extra} more than the total was paid. Keep it as credit?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Keep as Credit", onPress: save },
+        ],
+      );
+      return;
+    }
+
+    save();
+  };
 
+  const saveQuotation = async (
+    fields: Omit<
+      Quotation,
+      "id" | "customerId" | "date" | "status" | "createdAt" | "updatedAt"
+    >,
+  ) => {
+    setIsSaving(true);
+    try {
+      if (editingQuote) {
+        await storage.updateQuotation(editingQuote.id, fields);
+      } else {
+        await storage.addQuotation({
+          ...fields,
+          customerId,
+          date: new Date().toISOString(),
+          status: "draft",
+        });
+      }
       navigation.goBack();
     } catch (error) {
-      Alert.alert("Error", "Failed to save transaction. Please try again.");
+      Alert.alert("Error", "Failed to save quotation. Please try again.");
     } finally {
       setIsSaving(false);
     }
@@ -170,6 +749,13 @@ export default function AddTransactionScreen() {
 
   useLayoutEffect(() => {
     navigation.setOptions({
+      title: asQuotation
+        ? editingQuote
+          ? "Edit Quotation"
+          : "New Quotation"
+        : editing
+          ? "Edit Transaction"
+          : "Add Transaction",
       headerLeft: () => (
         <Pressable onPress={handleCancel} style={{ padding: Spacing.sm }}>
           <ThemedText type="body" style={{ color: theme.text }}>
@@ -183,15 +769,44 @@ export default function AddTransactionScreen() {
           disabled={isSaving}
           style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
         >
-          <ThemedText type="body" style={{ color: AppColors.primary, fontWeight: "600" }}>
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
             {isSaving ? "Saving..." : "Save"}
           </ThemedText>
         </Pressable>
       ),
     });
-  }, [navigation, products, amountPaid, isSaving, theme]);
+  }, [
+    navigation,
+    products,
+    billDiscount,
+    billDiscountType,
+    pricesIncludeTax,
+    amountPaid,
+    date,
+    dueDate,
+    validUntil,
+    notes,
+    applyCredit,
+    repeat,
+    frequency,
+    intervalDays,
+    repeatUntil,
+    autoRepeat,
+    credits,
+    customer,
+    catalog,
+    profile,
+    isSaving,
+    theme,
+  ]);
 
-  const totalAmount = calculateTotal();
+  const bill = priceBill(products);
+  const totalAmount = bill.totalAmount;
+  const tax = showTax ? summarizeTax(bill.items, currency) : null;
+  const discountGiven = sum(bill.items.map(lineDiscountGiven), currency);
 
   return (
     <ScreenKeyboardAwareScrollView>
@@ -205,7 +820,12 @@ export default function AddTransactionScreen() {
             key={index}
             product={product}
             index={index}
+            catalog={catalog}
+            stockLevels={stockLevels}
+            showTax={showTax}
             onUpdate={(field, value) => updateProduct(index, field, value)}
+            onToggleDiscountType={() => toggleDiscountType(index)}
+            onPick={(picked) => pickProduct(index, picked)}
             onRemove={() => removeProduct(index)}
             canRemove={products.length > 1}
           />
@@ -220,40 +840,290 @@ export default function AddTransactionScreen() {
         ]}
       >
         <Feather name="plus" size={20} color={AppColors.primary} />
-        <ThemedText type="body" style={{ color: AppColors.primary, marginLeft: Spacing.sm }}>
+        <ThemedText
+          type="body"
+          style={{ color: AppColors.primary, marginLeft: Spacing.sm }}
+        >
           Add Product
         </ThemedText>
       </Pressable>
 
-      <View style={[styles.totalCard, { backgroundColor: theme.backgroundDefault }]}>
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Bill Discount (Optional)
+        </ThemedText>
+        <DiscountInput
+          value={billDiscount}
+          type={billDiscountType}
+          onChangeText={setBillDiscount}
+          onToggleType={() =>
+            setBillDiscountType((type) =>
+              type === "percent" ? "flat" : "percent",
+            )
+          }
+          backgroundColor={theme.backgroundDefault}
+        />
+      </View>
+
+      {showTax ? (
+        <View style={[styles.section, styles.switchRow]}>
+          <View style={{ flex: 1 }}>
+            <ThemedText type="body">Prices include GST</ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {interState
+                ? "Inter-state sale: IGST"
+                : "Intra-state sale: CGST + SGST"}
+            </ThemedText>
+          </View>
+          <Switch
+            value={pricesIncludeTax}
+            onValueChange={setPricesIncludeTax}
+            trackColor={{ true: AppColors.primary }}
+          />
+        </View>
+      ) : null}
+
+      <View
+        style={[styles.totalCard, { backgroundColor: theme.backgroundDefault }]}
+      >
         <ThemedText type="body" style={{ color: theme.textSecondary }}>
           Total Amount
         </ThemedText>
         <ThemedText type="h3" style={{ color: AppColors.primary }}>
-          {totalAmount.toLocaleString("en-IN", {
-            style: "currency",
-            currency: "INR",
-            minimumFractionDigits: 0,
-          })}
+          {formatCurrency(totalAmount)}
         </ThemedText>
+        {isPositive(discountGiven) ? (
+          <ThemedText type="small" style={{ color: AppColors.secondary }}>
+            After {formatCurrency(discountGiven)} discount
+          </ThemedText>
+        ) : null}
+        {tax && isPositive(tax.totalTax) ? (
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {formatCurrency(tax.taxableValue)} +{" "}
+            {interState
+              ? `IGST ${formatCurrency(tax.igst)}`
+              : `CGST ${formatCurrency(tax.cgst)} + SGST ${formatCurrency(tax.sgst)}`}
+          </ThemedText>
+        ) : null}
       </View>
 
-      <View style={styles.section}>
-        <ThemedText type="small" style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}>
-          Amount Paid Now
-        </ThemedText>
-        <TextInput
-          style={[styles.input, { backgroundColor: theme.backgroundDefault, color: theme.text }]}
-          value={amountPaid}
-          onChangeText={setAmountPaid}
-          placeholder="Enter amount received"
-          placeholderTextColor={theme.textSecondary}
-          keyboardType="numeric"
-        />
-      </View>
+      {asQuotation ? (
+        <View style={styles.section}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+          >
+            Valid Until
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundDefault, color: theme.text },
+            ]}
+            value={validUntil}
+            onChangeText={setValidUntil}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      ) : editing ? (
+        <>
+          <View style={styles.section}>
+            <ThemedText
+              type="small"
+              style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+            >
+              Date
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                { backgroundColor: theme.backgroundDefault, color: theme.text },
+              ]}
+              value={date}
+              onChangeText={setDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+          <View style={styles.section}>
+            <ThemedText
+              type="small"
+              style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+            >
+              Due Date
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                { backgroundColor: theme.backgroundDefault, color: theme.text },
+              ]}
+              value={dueDate}
+              onChangeText={setDueDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+          <ThemedText
+            type="small"
+            style={[styles.section, { color: theme.textSecondary }]}
+          >
+            {formatCurrency(editing.amountPaid)} already paid. Payments are
+            changed from the transaction&apos;s payment history.
+          </ThemedText>
+        </>
+      ) : (
+        <View style={styles.section}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+          >
+            Amount Paid Now
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundDefault, color: theme.text },
+            ]}
+            value={amountPaid}
+            onChangeText={setAmountPaid}
+            placeholder="Enter amount received"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numeric"
+          />
+          {isPositive(creditBalance) ? (
+            <View style={styles.creditRow}>
+              <ThemedText
+                type="small"
+                style={{ flex: 1, color: theme.textSecondary }}
+              >
+                Apply available credit ({formatCurrency(creditBalance)})
+              </ThemedText>
+              <Switch
+                value={applyCredit}
+                onValueChange={setApplyCredit}
+                trackColor={{ true: AppColors.primary }}
+              />
+            </View>
+          ) : null}
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginTop: Spacing.md }}
+          >
+            Due {formatDate(dueDateFor(new Date().toISOString(), terms))} (
+            {termsLabel(terms)})
+          </ThemedText>
+        </View>
+      )}
+
+      {!asQuotation && !editing ? (
+        <View style={styles.section}>
+          <View style={styles.switchRow}>
+            <View style={{ flex: 1 }}>
+              <ThemedText type="body">Repeat this order</ThemedText>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                For customers who buy the same items regularly
+              </ThemedText>
+            </View>
+            <Switch
+              value={repeat}
+              onValueChange={setRepeat}
+              trackColor={{ true: AppColors.primary }}
+            />
+          </View>
+          {repeat ? (
+            <View style={styles.repeatOptions}>
+              <View style={styles.chipRow}>
+                {RECURRENCE_FREQUENCIES.map((option) => (
+                  <Pressable
+                    key={option.key}
+                    onPress={() => setFrequency(option.key)}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor:
+                          frequency === option.key
+                            ? AppColors.primary
+                            : theme.backgroundSecondary,
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{
+                        color:
+                          frequency === option.key ? "#FFFFFF" : theme.text,
+                      }}
+                    >
+                      {option.label}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+              {frequency === "custom" ? (
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: theme.backgroundDefault,
+                      color: theme.text,
+                    },
+                  ]}
+                  value={intervalDays}
+                  onChangeText={setIntervalDays}
+                  placeholder="Days between orders"
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="number-pad"
+                />
+              ) : null}
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    color: theme.text,
+                  },
+                ]}
+                value={repeatUntil}
+                onChangeText={setRepeatUntil}
+                placeholder="Repeat until YYYY-MM-DD (optional)"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="numbers-and-punctuation"
+              />
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <ThemedText type="body">Create automatically</ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {autoRepeat
+                      ? "Each order is added on its date"
+                      : "Each order waits on the dashboard for you to confirm"}
+                  </ThemedText>
+                </View>
+                <Switch
+                  value={autoRepeat}
+                  onValueChange={setAutoRepeat}
+                  trackColor={{ true: AppColors.primary }}
+                />
+              </View>
+            </View>
+          ) : null}
+        </View>
+      ) : null}
 
       <View style={styles.section}>
-        <ThemedText type="small" style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
           Notes (Optional)
         </ThemedText>
         <TextInput
@@ -264,7 +1134,7 @@ export default function AddTransactionScreen() {
           ]}
           value={notes}
           onChangeText={setNotes}
-          placeholder="Add any notes about this transaction"
+          placeholder={`Add any notes about this ${asQuotation ? "quotation" : "transaction"}`}
           placeholderTextColor={theme.textSecondary}
           multiline
           textAlignVertical="top"
@@ -290,6 +1160,22 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: Spacing.xs,
   },
+  suggestions: {
+    borderRadius: BorderRadius.sm,
+    paddingVertical: Spacing.xs,
+  },
+  suggestion: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+  },
+  catalogTag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
   productRow: {
     flexDirection: "row",
     gap: Spacing.sm,
@@ -319,6 +1205,37 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: Spacing.xl,
   },
+  discountToggle: {
+    height: Spacing.inputHeight,
+    minWidth: Spacing.inputHeight,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  repeatOptions: {
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  creditRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.md,
+  },
   notesInput: {
     height: 100,
     paddingTop: Spacing.md,
@@ -1,6 +1,13 @@
-import React, { useState, useCallback, useMemo } from "react";
-import { View, StyleSheet, Pressable, Dimensions, ScrollView, Alert } from "react-native";
-import { useFocusEffect, useNavigation, NavigationProp } from "@react-navigation/native";
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Dimensions,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import { LineChart, PieChart } from "react-native-chart-kit";
@@ -8,16 +15,37 @@ import Animated, { FadeInDown } from "react-native-reanimated";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
-import { storage, UserProfile } from "@/utils/storage";
+import {
+  useCredits,
+  useCustomers,
+  useExpenses,
+  useProducts,
+  useProfile,
+  useReturns,
+  useTransactions,
+} from "@/hooks/useStore";
 import {
   getMonthlyRankings,
   getRevenueChartData,
   getPaymentStatusData,
   getTopProducts,
+  getTaxSummary,
+  getDiscountGiven,
+  getProfitAndLoss,
+  getGrossMargin,
+  getProductMargins,
+  getProfitableCustomers,
 } from "@/utils/analytics";
-import { exportCustomersToCSV, exportTransactionsToCSV, generateReportSummary } from "@/utils/export";
-import { formatCurrency } from "@/utils/format";
-import { Customer, Transaction, RankedCustomer } from "@/types";
+import {
+  exportCustomersToCSV,
+  exportExpensesToCSV,
+  exportTransactionsToCSV,
+  generateReportSummary,
+} from "@/utils/export";
+import { categoryLabel, expensesBetween } from "@/utils/expenses";
+import { formatCurrency, formatDate } from "@/utils/format";
+import { Money, isNegative, isPositive, toMajor } from "@/utils/money";
+import { RankedCustomer } from "@/types";
 import { RootStackParamList } from "@/navigation/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
@@ -25,6 +53,9 @@ const screenWidth = Dimensions.get("window").width;
 
 type Period = "week" | "month" | "quarter" | "year";
 
+const formatPercent = (percent: number | null) =>
+  percent === null ? "—" : `${percent.toFixed(1)}%`;
+
 function PeriodSelector({
   selected,
   onSelect,
@@ -45,7 +76,9 @@ function PeriodSelector({
             styles.periodChip,
             {
               backgroundColor:
-                selected === period ? AppColors.primary : theme.backgroundDefault,
+                selected === period
+                  ? AppColors.primary
+                  : theme.backgroundDefault,
             },
           ]}
         >
@@ -66,11 +99,15 @@ function PeriodSelector({
 
 function RankingCard({
   item,
+  detail,
+  amount,
   currency,
   index,
   onPress,
 }: {
-  item: RankedCustomer;
+  item: Pick<RankedCustomer, "customer" | "rank">;
+  detail: string;
+  amount: Money;
   currency: string;
   index: number;
   onPress: () => void;
@@ -96,13 +133,21 @@ function RankingCard({
         onPress={onPress}
         style={({ pressed }) => [
           styles.rankingCard,
-          { backgroundColor: theme.backgroundDefault, opacity: pressed ? 0.9 : 1 },
+          {
+            backgroundColor: theme.backgroundDefault,
+            opacity: pressed ? 0.9 : 1,
+          },
         ]}
       >
         <View
           style={[
             styles.rankBadge,
-            { backgroundColor: item.rank <= 3 ? getMedalColor() + "20" : theme.backgroundSecondary },
+            {
+              backgroundColor:
+                item.rank <= 3
+                  ? getMedalColor() + "20"
+                  : theme.backgroundSecondary,
+            },
           ]}
         >
           {item.rank <= 3 ? (
@@ -118,11 +163,14 @@ function RankingCard({
             {item.customer.name}
           </ThemedText>
           <ThemedText type="small" style={{ color: theme.textSecondary }}>
-            {item.transactionCount} transactions
+            {detail}
           </ThemedText>
         </View>
-        <ThemedText type="body" style={{ fontWeight: "700", color: AppColors.secondary }}>
-          {formatCurrency(item.totalAmount, currency)}
+        <ThemedText
+          type="body"
+          style={{ fontWeight: "700", color: AppColors.secondary }}
+        >
+          {formatCurrency(amount, currency)}
         </ThemedText>
       </Pressable>
     </Animated.View>
@@ -133,26 +181,16 @@ export default function AnalyticsDashboardScreen() {
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const { theme, isDark } = useTheme();
   const [period, setPeriod] = useState<Period>("month");
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [profile, setProfile] = useState<UserProfile>({ name: "", businessName: "", currency: "INR" });
+  const customers = useCustomers({ partyType: "customer" });
+  const transactions = useTransactions();
+  const credits = useCredits();
+  const products = useProducts();
+  const returns = useReturns();
+  const expenses = useExpenses();
+  const profile = useProfile();
   const [isExporting, setIsExporting] = useState(false);
-
-  const loadData = useCallback(async () => {
-    const [customersData, transactionsData, profileData] = await Promise.all([
-      storage.getCustomers(),
-      storage.getTransactions(),
-      storage.getProfile(),
-    ]);
-    setCustomers(customersData);
-    setTransactions(transactionsData);
-    setProfile(profileData);
-  }, []);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [loadData])
+  const [productSort, setProductSort] = useState<"revenue" | "margin">(
+    "revenue",
   );
 
   const getDateRange = () => {
@@ -179,10 +217,91 @@ export default function AnalyticsDashboardScreen() {
   };
 
   const { startDate, endDate } = getDateRange();
-  const rankings = getMonthlyRankings(customers, transactions).slice(0, 10);
-  const revenueData = getRevenueChartData(transactions, 6, startDate, endDate);
-  const paymentStatus = getPaymentStatusData(transactions, startDate, endDate);
-  const topProducts = getTopProducts(transactions, 5, startDate, endDate);
+  const rankings = getMonthlyRankings(
+    customers,
+    transactions,
+    profile.currency,
+    undefined,
+    undefined,
+    returns,
+  ).slice(0, 10);
+  const revenueData = getRevenueChartData(
+    transactions,
+    6,
+    startDate,
+    endDate,
+    returns,
+  );
+  const paymentStatus = getPaymentStatusData(
+    transactions,
+    profile.currency,
+    startDate,
+    endDate,
+    returns,
+  );
+  const topProducts = getTopProducts(
+    transactions,
+    profile.currency,
+    5,
+    startDate,
+    endDate,
+    products,
+    returns,
+  );
+  const productMargins = getProductMargins(
+    transactions,
+    profile.currency,
+    5,
+    startDate,
+    endDate,
+    products,
+    returns,
+  );
+  const grossMargin = getGrossMargin(
+    transactions,
+    profile.currency,
+    startDate,
+    endDate,
+    returns,
+  );
+  const profitable = getProfitableCustomers(
+    customers,
+    transactions,
+    profile.currency,
+    undefined,
+    undefined,
+    returns,
+  ).slice(0, 10);
+  const tax = getTaxSummary(
+    transactions,
+    profile.currency,
+    startDate,
+    endDate,
+    returns,
+  );
+  const discounts = getDiscountGiven(
+    transactions,
+    profile.currency,
+    startDate,
+    endDate,
+  );
+  const profit = getProfitAndLoss(
+    transactions,
+    expenses,
+    profile.currency,
+    startDate,
+    endDate,
+    returns,
+  );
+  const periodExpenses = expensesBetween(expenses, startDate, endDate).sort(
+    (a, b) => b.date.localeCompare(a.date),
+  );
+  const taxRows = [
+    { label: "Taxable Value", amount: tax.taxableValue },
+    { label: "CGST", amount: tax.cgst },
+    { label: "SGST", amount: tax.sgst },
+    { label: "IGST", amount: tax.igst },
+  ];
 
   const chartConfig = {
     backgroundGradientFrom: theme.backgroundDefault,
@@ -201,25 +320,35 @@ export default function AnalyticsDashboardScreen() {
   const pieData = [
     {
       name: "Collected",
-      population: paymentStatus.collected || 1,
+      population: toMajor(paymentStatus.collected) || 1,
       color: AppColors.secondary,
       legendFontColor: theme.text,
       legendFontSize: 12,
     },
     {
       name: "Pending",
-      population: paymentStatus.pending || 1,
+      population: toMajor(paymentStatus.pending) || 1,
       color: AppColors.warning,
       legendFontColor: theme.text,
       legendFontSize: 12,
     },
   ];
 
-  const handleExport = async (type: "customers" | "transactions") => {
+  const handleExport = async (
+    type: "customers" | "transactions" | "expenses",
+  ) => {
     setIsExporting(true);
     try {
       if (type === "customers") {
-        await exportCustomersToCSV(customers, transactions, profile);
+        await exportCustomersToCSV(
+          customers,
+          transactions,
+          profile,
+          credits,
+          returns,
+        );
+      } else if (type === "expenses") {
+        await exportExpensesToCSV(expenses, profile);
       } else {
         await exportTransactionsToCSV(transactions, customers, profile);
       }
@@ -232,7 +361,14 @@ export default function AnalyticsDashboardScreen() {
   };
 
   const handleShowReport = async () => {
-    const report = generateReportSummary(customers, transactions, profile);
+    const report = generateReportSummary(
+      customers,
+      transactions,
+      profile,
+      credits,
+      returns,
+      expenses,
+    );
     Alert.alert("Business Report", report);
   };
 
@@ -241,7 +377,12 @@ export default function AnalyticsDashboardScreen() {
       <PeriodSelector selected={period} onSelect={setPeriod} />
 
       <Animated.View entering={FadeInDown.delay(100).springify()}>
-        <View style={[styles.chartCard, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[
+            styles.chartCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
           <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
             Revenue Trend
           </ThemedText>
@@ -263,8 +404,15 @@ export default function AnalyticsDashboardScreen() {
             />
           ) : (
             <View style={styles.noDataChart}>
-              <Feather name="bar-chart-2" size={40} color={theme.textSecondary} />
-              <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.sm }}>
+              <Feather
+                name="bar-chart-2"
+                size={40}
+                color={theme.textSecondary}
+              />
+              <ThemedText
+                type="small"
+                style={{ color: theme.textSecondary, marginTop: Spacing.sm }}
+              >
                 No revenue data yet
               </ThemedText>
             </View>
@@ -272,12 +420,128 @@ export default function AnalyticsDashboardScreen() {
         </View>
       </Animated.View>
 
+      <Animated.View entering={FadeInDown.delay(150).springify()}>
+        <View
+          style={[
+            styles.chartCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <ThemedText type="h4">Profit & Loss</ThemedText>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.lg }}
+          >
+            All figures before GST
+          </ThemedText>
+          <View style={styles.taxRow}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Revenue
+            </ThemedText>
+            <ThemedText type="small">
+              {formatCurrency(profit.revenue)}
+            </ThemedText>
+          </View>
+          <View style={styles.taxRow}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Cost of Goods
+            </ThemedText>
+            <ThemedText type="small">
+              − {formatCurrency(profit.costOfGoods)}
+            </ThemedText>
+          </View>
+          <View style={styles.taxRow}>
+            <ThemedText type="small" style={{ fontWeight: "600" }}>
+              Gross Profit
+            </ThemedText>
+            <ThemedText type="small" style={{ fontWeight: "600" }}>
+              {formatCurrency(profit.grossProfit)}
+            </ThemedText>
+          </View>
+          <View style={styles.taxRow}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Expenses
+            </ThemedText>
+            <ThemedText type="small">
+              − {formatCurrency(profit.expenses)}
+            </ThemedText>
+          </View>
+          {profit.expensesByCategory.map((row) => (
+            <View
+              key={row.category}
+              style={[styles.taxRow, { paddingLeft: Spacing.md }]}
+            >
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {categoryLabel(row.category)}
+              </ThemedText>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {formatCurrency(row.amount)}
+              </ThemedText>
+            </View>
+          ))}
+          <View style={styles.taxRow}>
+            <ThemedText type="body" style={{ fontWeight: "600" }}>
+              Net Profit
+            </ThemedText>
+            <ThemedText
+              type="body"
+              style={{
+                fontWeight: "600",
+                color: isNegative(profit.netProfit)
+                  ? AppColors.error
+                  : AppColors.secondary,
+              }}
+            >
+              {formatCurrency(profit.netProfit)}
+            </ThemedText>
+          </View>
+        </View>
+      </Animated.View>
+
+      {isPositive(grossMargin.revenue) ? (
+        <Animated.View entering={FadeInDown.delay(175).springify()}>
+          <View
+            style={[
+              styles.chartCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View style={styles.taxRow}>
+              <View style={{ flex: 1 }}>
+                <ThemedText type="h4">Gross Margin</ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {formatCurrency(grossMargin.margin)} on{" "}
+                  {formatCurrency(grossMargin.revenue)} of sales with a cost
+                  price
+                </ThemedText>
+              </View>
+              <ThemedText
+                type="h4"
+                style={{
+                  color: isNegative(grossMargin.margin)
+                    ? AppColors.error
+                    : AppColors.secondary,
+                }}
+              >
+                {formatPercent(grossMargin.marginPercent)}
+              </ThemedText>
+            </View>
+          </View>
+        </Animated.View>
+      ) : null}
+
       <Animated.View entering={FadeInDown.delay(200).springify()}>
-        <View style={[styles.chartCard, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[
+            styles.chartCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
           <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
             Payment Status
           </ThemedText>
-          {paymentStatus.collected > 0 || paymentStatus.pending > 0 ? (
+          {isPositive(paymentStatus.collected) ||
+          isPositive(paymentStatus.pending) ? (
             <PieChart
               data={pieData}
               width={screenWidth - Spacing.xl * 2 - Spacing.lg * 2}
@@ -291,7 +555,10 @@ export default function AnalyticsDashboardScreen() {
           ) : (
             <View style={styles.noDataChart}>
               <Feather name="pie-chart" size={40} color={theme.textSecondary} />
-              <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.sm }}>
+              <ThemedText
+                type="small"
+                style={{ color: theme.textSecondary, marginTop: Spacing.sm }}
+              >
                 No payment data yet
               </ThemedText>
             </View>
@@ -299,6 +566,66 @@ export default function AnalyticsDashboardScreen() {
         </View>
       </Animated.View>
 
+      {isPositive(tax.totalTax) ? (
+        <Animated.View entering={FadeInDown.delay(250).springify()}>
+          <View
+            style={[
+              styles.chartCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
+              GST Collected
+            </ThemedText>
+            {taxRows.map((row) => (
+              <View key={row.label} style={styles.taxRow}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {row.label}
+                </ThemedText>
+                <ThemedText type="small">
+                  {formatCurrency(row.amount)}
+                </ThemedText>
+              </View>
+            ))}
+            <View style={styles.taxRow}>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                Total GST
+              </ThemedText>
+              <ThemedText
+                type="body"
+                style={{ fontWeight: "600", color: AppColors.primary }}
+              >
+                {formatCurrency(tax.totalTax)}
+              </ThemedText>
+            </View>
+          </View>
+        </Animated.View>
+      ) : null}
+
+      {isPositive(discounts.amount) ? (
+        <Animated.View entering={FadeInDown.delay(275).springify()}>
+          <View
+            style={[
+              styles.chartCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View style={styles.taxRow}>
+              <View>
+                <ThemedText type="h4">Discount Given</ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  On {discounts.transactionCount} transaction
+                  {discounts.transactionCount === 1 ? "" : "s"}
+                </ThemedText>
+              </View>
+              <ThemedText type="h4" style={{ color: AppColors.warning }}>
+                {formatCurrency(discounts.amount)}
+              </ThemedText>
+            </View>
+          </View>
+        </Animated.View>
+      ) : null}
+
       <View style={styles.exportSection}>
         <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
           Export Data
@@ -309,11 +636,17 @@ export default function AnalyticsDashboardScreen() {
             disabled={isExporting}
             style={({ pressed }) => [
               styles.exportButton,
-              { backgroundColor: AppColors.primary, opacity: pressed || isExporting ? 0.8 : 1 },
+              {
+                backgroundColor: AppColors.primary,
+                opacity: pressed || isExporting ? 0.8 : 1,
+              },
             ]}
           >
             <Feather name="download" size={18} color="#FFFFFF" />
-            <ThemedText type="small" style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}>
+            <ThemedText
+              type="small"
+              style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}
+            >
               Customers
             </ThemedText>
           </Pressable>
@@ -322,11 +655,17 @@ export default function AnalyticsDashboardScreen() {
             disabled={isExporting}
             style={({ pressed }) => [
               styles.exportButton,
-              { backgroundColor: AppColors.primary, opacity: pressed || isExporting ? 0.8 : 1 },
+              {
+                backgroundColor: AppColors.primary,
+                opacity: pressed || isExporting ? 0.8 : 1,
+              },
             ]}
           >
             <Feather name="download" size={18} color="#FFFFFF" />
-            <ThemedText type="small" style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}>
+            <ThemedText
+              type="small"
+              style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}
+            >
               Transactions
             </ThemedText>
           </Pressable>
@@ -334,15 +673,123 @@ export default function AnalyticsDashboardScreen() {
             onPress={handleShowReport}
             style={({ pressed }) => [
               styles.exportButton,
-              { backgroundColor: AppColors.secondary, opacity: pressed ? 0.8 : 1 },
+              {
+                backgroundColor: AppColors.secondary,
+                opacity: pressed ? 0.8 : 1,
+              },
             ]}
           >
             <Feather name="file-text" size={18} color="#FFFFFF" />
-            <ThemedText type="small" style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}>
+            <ThemedText
+              type="small"
+              style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}
+            >
               Report
             </ThemedText>
           </Pressable>
+          <Pressable
+            onPress={() => handleExport("expenses")}
+            disabled={isExporting}
+            style={({ pressed }) => [
+              styles.exportButton,
+              {
+                backgroundColor: AppColors.primary,
+                opacity: pressed || isExporting ? 0.8 : 1,
+              },
+            ]}
+          >
+            <Feather name="download" size={18} color="#FFFFFF" />
+            <ThemedText
+              type="small"
+              style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}
+            >
+              Expenses
+            </ThemedText>
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <ThemedText type="h4">Expenses</ThemedText>
+          <Pressable
+            onPress={() => navigation.navigate("AddExpense", {})}
+            style={({ pressed }) => [
+              styles.addButton,
+              {
+                backgroundColor: AppColors.primary,
+                opacity: pressed ? 0.9 : 1,
+              },
+            ]}
+          >
+            <Feather name="plus" size={16} color="#FFFFFF" />
+            <ThemedText
+              type="small"
+              style={{ color: "#FFFFFF", marginLeft: 4 }}
+            >
+              Add
+            </ThemedText>
+          </Pressable>
         </View>
+        {periodExpenses.length === 0 ? (
+          <View
+            style={[
+              styles.emptyState,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="credit-card" size={40} color={theme.textSecondary} />
+            <ThemedText
+              type="small"
+              style={{ color: theme.textSecondary, marginTop: Spacing.sm }}
+            >
+              No expenses in this period
+            </ThemedText>
+          </View>
+        ) : (
+          <View style={styles.productList}>
+            {periodExpenses.map((expense) => (
+              <Pressable
+                key={expense.id}
+                onPress={() => navigation.navigate("AddExpense", { expense })}
+                style={({ pressed }) => [
+                  styles.productCard,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    opacity: pressed ? 0.9 : 1,
+                  },
+                ]}
+              >
+                <View style={styles.productInfo}>
+                  <ThemedText type="body" style={{ fontWeight: "600" }}>
+                    {categoryLabel(expense.category)}
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {formatDate(expense.date)}
+                    {expense.notes ? ` · ${expense.notes}` : ""}
+                  </ThemedText>
+                </View>
+                {expense.receiptUri ? (
+                  <Feather
+                    name="paperclip"
+                    size={16}
+                    color={theme.textSecondary}
+                    style={{ marginRight: Spacing.sm }}
+                  />
+                ) : null}
+                <ThemedText
+                  type="body"
+                  style={{ fontWeight: "600", color: AppColors.error }}
+                >
+                  {formatCurrency(expense.amount)}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        )}
       </View>
 
       <View style={styles.section}>
@@ -350,9 +797,17 @@ export default function AnalyticsDashboardScreen() {
           Top 10 Customers This Month
         </ThemedText>
         {rankings.length === 0 ? (
-          <View style={[styles.emptyState, { backgroundColor: theme.backgroundDefault }]}>
+          <View
+            style={[
+              styles.emptyState,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
             <Feather name="users" size={40} color={theme.textSecondary} />
-            <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.sm }}>
+            <ThemedText
+              type="small"
+              style={{ color: theme.textSecondary, marginTop: Spacing.sm }}
+            >
               No customer rankings yet
             </ThemedText>
           </View>
@@ -362,10 +817,14 @@ export default function AnalyticsDashboardScreen() {
               <RankingCard
                 key={item.customer.id}
                 item={item}
+                detail={`${item.transactionCount} transactions`}
+                amount={item.totalAmount}
                 currency={profile.currency}
                 index={index}
                 onPress={() =>
-                  navigation.navigate("CustomerDetail", { customerId: item.customer.id })
+                  navigation.navigate("CustomerDetail", {
+                    customerId: item.customer.id,
+                  })
                 }
               />
             ))}
@@ -375,35 +834,141 @@ export default function AnalyticsDashboardScreen() {
 
       <View style={styles.section}>
         <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
-          Top Products
+          Most Profitable Customers This Month
         </ThemedText>
-        {topProducts.length === 0 ? (
-          <View style={[styles.emptyState, { backgroundColor: theme.backgroundDefault }]}>
+        {profitable.length === 0 ? (
+          <View
+            style={[
+              styles.emptyState,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="percent" size={40} color={theme.textSecondary} />
+            <ThemedText
+              type="small"
+              style={{
+                color: theme.textSecondary,
+                marginTop: Spacing.sm,
+                textAlign: "center",
+              }}
+            >
+              Add cost prices to catalog products to see margins
+            </ThemedText>
+          </View>
+        ) : (
+          <View style={styles.rankingList}>
+            {profitable.map((item, index) => (
+              <RankingCard
+                key={item.customer.id}
+                item={item}
+                detail={`${formatPercent(item.marginPercent)} margin`}
+                amount={item.margin}
+                currency={profile.currency}
+                index={index}
+                onPress={() =>
+                  navigation.navigate("CustomerDetail", {
+                    customerId: item.customer.id,
+                  })
+                }
+              />
+            ))}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <ThemedText type="h4">Top Products</ThemedText>
+          <View style={styles.sortRow}>
+            {(["revenue", "margin"] as const).map((sort) => (
+              <Pressable
+                key={sort}
+                onPress={() => setProductSort(sort)}
+                style={[
+                  styles.sortChip,
+                  {
+                    backgroundColor:
+                      productSort === sort
+                        ? AppColors.primary
+                        : theme.backgroundDefault,
+                  },
+                ]}
+              >
+                <ThemedText
+                  type="small"
+                  style={{
+                    color: productSort === sort ? "#FFFFFF" : theme.text,
+                    textTransform: "capitalize",
+                  }}
+                >
+                  {sort}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+        {(productSort === "margin" ? productMargins : topProducts).length ===
+        0 ? (
+          <View
+            style={[
+              styles.emptyState,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
             <Feather name="package" size={40} color={theme.textSecondary} />
-            <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.sm }}>
-              No product data yet
+            <ThemedText
+              type="small"
+              style={{
+                color: theme.textSecondary,
+                marginTop: Spacing.sm,
+                textAlign: "center",
+              }}
+            >
+              {productSort === "margin"
+                ? "Add cost prices to catalog products to see margins"
+                : "No product data yet"}
             </ThemedText>
           </View>
         ) : (
           <View style={styles.productList}>
-            {topProducts.map((product, index) => (
+            {(productSort === "margin"
+              ? productMargins.map((p) => ({
+                  name: p.name,
+                  detail: `${p.quantity} units sold · ${formatPercent(p.marginPercent)} margin`,
+                  amount: p.margin,
+                }))
+              : topProducts.map((p) => ({
+                  name: p.name,
+                  detail: `${p.quantity} units sold`,
+                  amount: p.revenue,
+                }))
+            ).map((product, index) => (
               <Animated.View
                 key={product.name}
                 entering={FadeInDown.delay(300 + index * 50).springify()}
               >
                 <View
-                  style={[styles.productCard, { backgroundColor: theme.backgroundDefault }]}
+                  style={[
+                    styles.productCard,
+                    { backgroundColor: theme.backgroundDefault },
+                  ]}
                 >
                   <View style={styles.productInfo}>
                     <ThemedText type="body" style={{ fontWeight: "600" }}>
                       {product.name}
                     </ThemedText>
-                    <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                      {product.quantity} units sold
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {product.detail}
                     </ThemedText>
                   </View>
-                  <ThemedText type="body" style={{ fontWeight: "600", color: AppColors.primary }}>
-                    {formatCurrency(product.revenue, profile.currency)}
+                  <ThemedText
+                    type="body"
+                    style={{ fontWeight: "600", color: AppColors.primary }}
+                  >
+                    {formatCurrency(product.amount, profile.currency)}
                   </ThemedText>
                 </View>
               </Animated.View>
@@ -435,6 +1000,12 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.md,
     marginLeft: -Spacing.lg,
   },
+  taxRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: Spacing.xs,
+  },
   noDataChart: {
     height: 160,
     alignItems: "center",
@@ -445,10 +1016,12 @@ const styles = StyleSheet.create({
   },
   exportButtonsRow: {
     flexDirection: "row",
+    flexWrap: "wrap",
     gap: Spacing.sm,
   },
   exportButton: {
-    flex: 1,
+    flexGrow: 1,
+    flexBasis: "40%",
     flexDirection: "row",
     alignItems: "center",
     justifyContent: "center",
@@ -458,6 +1031,28 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: Spacing["2xl"],
   },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  sortRow: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+  },
+  sortChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
   rankingList: {
     gap: Spacing.sm,
   },
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { StyleSheet } from "react-native";
 import { NavigationContainer } from "@react-navigation/native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
@@ -8,16 +8,52 @@ import { StatusBar } from "expo-status-bar";
 
 import RootNavigator from "@/navigation/RootNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { MigrationErrorFallback } from "@/components/MigrationErrorFallback";
+import { ensureMigrated } from "@/utils/migrations";
+import { storage } from "@/utils/storage";
 
 export default function App() {
+  const [isDataReady, setIsDataReady] = useState(false);
+  const [migrationError, setMigrationError] = useState<Error | null>(null);
+
+  const prepareData = useCallback(async () => {
+    setMigrationError(null);
+    try {
+      await ensureMigrated();
+      setIsDataReady(true);
+      storage.purgeExpiredTrash().catch((error) => {
+        console.error("Failed to purge expired trash:", error);
+      });
+      storage.runDueRecurrences().catch((error) => {
+        console.error("Failed to create recurring transactions:", error);
+      });
+    } catch (error) {
+      console.error("Data migration failed:", error);
+      setMigrationError(
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    prepareData();
+  }, [prepareData]);
+
   return (
     <ErrorBoundary>
       <SafeAreaProvider>
         <GestureHandlerRootView style={styles.root}>
           <KeyboardProvider>
-            <NavigationContainer>
-              <RootNavigator />
-            </NavigationContainer>
+            {migrationError ? (
+              <MigrationErrorFallback
+                error={migrationError}
+                onRetry={prepareData}
+              />
+            ) : isDataReady ? (
+              <NavigationContainer>
+                <RootNavigator />
+              </NavigationContainer>
+            ) : null}
             <StatusBar style="auto" />
           </KeyboardProvider>
         </GestureHandlerRootView>
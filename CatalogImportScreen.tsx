@@ -0,0 +1,198 @@
+import React, { useState, useLayoutEffect, useMemo } from "react";
+import { View, StyleSheet, Pressable, Alert } from "react-native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenFlatList } from "@/components/ScreenFlatList";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useProducts, useTransactions } from "@/hooks/useStore";
+import { storage } from "@/utils/storage";
+import { ProductCluster, clusterProductNames } from "@/utils/catalog";
+import { formatCurrency } from "@/utils/format";
+import { ProfileStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+function ClusterCard({
+  cluster,
+  index,
+  selected,
+  onToggle,
+}: {
+  cluster: ProductCluster;
+  index: number;
+  selected: boolean;
+  onToggle: () => void;
+}) {
+  const { theme } = useTheme();
+  const others = cluster.variants.filter((v) => v !== cluster.name);
+
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 30).springify()}>
+      <Pressable
+        onPress={onToggle}
+        style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+      >
+        <Feather
+          name={selected ? "check-square" : "square"}
+          size={20}
+          color={selected ? AppColors.primary : theme.textSecondary}
+        />
+        <View style={styles.cardContent}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {cluster.name}
+          </ThemedText>
+          {others.length > 0 ? (
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Also written as {others.map((v) => `"${v}"`).join(", ")}
+            </ThemedText>
+          ) : null}
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {cluster.lineCount} line{cluster.lineCount === 1 ? "" : "s"} ·{" "}
+            {cluster.productId ? "link to existing product" : "new product"}
+          </ThemedText>
+        </View>
+        <ThemedText type="small" style={{ fontWeight: "600" }}>
+          {formatCurrency(cluster.lastPrice)}
+        </ThemedText>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+export default function CatalogImportScreen() {
+  const navigation = useNavigation<NavigationProp<ProfileStackParamList>>();
+  const { theme } = useTheme();
+  const products = useProducts();
+  const transactions = useTransactions();
+  const clusters = useMemo(
+    () => clusterProductNames(transactions, products),
+    [transactions, products],
+  );
+  // Keys the user unticked; everything else is selected.
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = clusters.filter((c) => !skipped.has(c.key));
+
+  const toggle = (key: string) => {
+    setSkipped((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    if (selected.length === 0) {
+      Alert.alert(
+        "Nothing Selected",
+        "Tick the product names to add to the catalog.",
+      );
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const linked = await storage.createProductsFromClusters(selected);
+      Alert.alert(
+        "Catalog Updated",
+        `${linked} transaction line${linked === 1 ? "" : "s"} linked to the catalog.`,
+      );
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        "Failed to update the catalog. Your data was not changed.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <Pressable
+          onPress={handleCreate}
+          disabled={isSaving}
+          style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
+        >
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
+            {isSaving ? "Saving..." : "Create"}
+          </ThemedText>
+        </Pressable>
+      ),
+    });
+  }, [navigation, clusters, skipped, isSaving]);
+
+  return (
+    <ScreenFlatList
+      data={clusters}
+      keyExtractor={(item) => item.key}
+      contentContainerStyle={styles.listContent}
+      ListHeaderComponent={
+        <ThemedText
+          type="small"
+          style={[styles.intro, { color: theme.textSecondary }]}
+        >
+          Names that differ only in case or spacing are grouped together. Each
+          ticked group becomes one catalog product, and its past transaction
+          lines are linked to it. The names on old transactions are kept as they
+          were.
+        </ThemedText>
+      }
+      renderItem={({ item, index }) => (
+        <ClusterCard
+          cluster={item}
+          index={index}
+          selected={!skipped.has(item.key)}
+          onToggle={() => toggle(item.key)}
+        />
+      )}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Feather name="check-circle" size={48} color={theme.textSecondary} />
+          <ThemedText
+            type="body"
+            style={{
+              color: theme.textSecondary,
+              marginTop: Spacing.md,
+              textAlign: "center",
+            }}
+          >
+            Every transaction line is already linked to the catalog.
+          </ThemedText>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    gap: Spacing.sm,
+  },
+  intro: {
+    marginBottom: Spacing.md,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  cardContent: {
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing["5xl"],
+    paddingHorizontal: Spacing["2xl"],
+  },
+});
@@ -1,17 +1,35 @@
 import React, { useState, useLayoutEffect } from "react";
-import { View, StyleSheet, TextInput, Image, Pressable, Alert } from "react-native";
-import { useNavigation, useRoute, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Image,
+  Pressable,
+  Alert,
+} from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { storage } from "@/utils/storage";
+import { PartyType } from "@/types";
 import { RootStackParamList } from "@/navigation/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
 type ConfirmDetailsRouteProp = RouteProp<RootStackParamList, "ConfirmDetails">;
 
+const PARTY_TYPES: { key: PartyType; label: string }[] = [
+  { key: "customer", label: "Customer" },
+  { key: "supplier", label: "Supplier" },
+];
+
 interface FormData {
   name: string;
   businessName: string;
@@ -43,7 +61,10 @@ function FormField({
       entering={FadeInDown.delay(200 + index * 50).springify()}
       style={styles.fieldContainer}
     >
-      <ThemedText type="small" style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}>
+      <ThemedText
+        type="small"
+        style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+      >
         {label}
       </ThemedText>
       <TextInput
@@ -76,6 +97,7 @@ export default function ConfirmDetailsScreen() {
     address: extractedData.address,
     businessType: extractedData.businessType,
   });
+  const [partyType, setPartyType] = useState<PartyType>("customer");
   const [isSaving, setIsSaving] = useState(false);
 
   const updateField = (field: keyof FormData, value: string) => {
@@ -84,7 +106,7 @@ export default function ConfirmDetailsScreen() {
 
   const handleSave = async () => {
     if (!formData.name.trim()) {
-      Alert.alert("Required", "Please enter a name for this customer.");
+      Alert.alert("Required", `Please enter a name for this ${partyType}.`);
       return;
     }
 
@@ -98,12 +120,13 @@ export default function ConfirmDetailsScreen() {
       } else {
         await storage.addCustomer({
           ...formData,
+          partyType,
           cardImageUri: imageUri,
         });
       }
       navigation.navigate("MainTabs", { screen: "CustomersTab" });
     } catch (error) {
-      Alert.alert("Error", "Failed to save customer. Please try again.");
+      Alert.alert("Error", `Failed to save ${partyType}. Please try again.`);
     } finally {
       setIsSaving(false);
     }
@@ -115,8 +138,12 @@ export default function ConfirmDetailsScreen() {
       "Are you sure you want to discard the scanned card?",
       [
         { text: "Keep Editing", style: "cancel" },
-        { text: "Discard", style: "destructive", onPress: () => navigation.goBack() },
-      ]
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => navigation.goBack(),
+        },
+      ],
     );
   };
 
@@ -135,22 +162,66 @@ export default function ConfirmDetailsScreen() {
           disabled={isSaving}
           style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
         >
-          <ThemedText type="body" style={{ color: AppColors.primary, fontWeight: "600" }}>
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
             {isSaving ? "Saving..." : "Save"}
           </ThemedText>
         </Pressable>
       ),
     });
-  }, [navigation, formData, isSaving, theme]);
+  }, [navigation, formData, partyType, isSaving, theme]);
 
   return (
     <ScreenKeyboardAwareScrollView>
       <Animated.View entering={FadeInDown.delay(100).springify()}>
-        <View style={[styles.imageCard, { backgroundColor: theme.backgroundDefault }]}>
-          <Image source={{ uri: imageUri }} style={styles.cardImage} resizeMode="contain" />
+        <View
+          style={[
+            styles.imageCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <Image
+            source={{ uri: imageUri }}
+            style={styles.cardImage}
+            resizeMode="contain"
+          />
         </View>
       </Animated.View>
 
+      {existingCustomerId ? null : (
+        <View style={styles.partyRow}>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Save as
+          </ThemedText>
+          {PARTY_TYPES.map((option) => (
+            <Pressable
+              key={option.key}
+              onPress={() => setPartyType(option.key)}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor:
+                    partyType === option.key
+                      ? AppColors.primary
+                      : theme.backgroundDefault,
+                },
+              ]}
+            >
+              <ThemedText
+                type="small"
+                style={{
+                  color: partyType === option.key ? "#FFFFFF" : theme.text,
+                }}
+              >
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
       <View style={styles.form}>
         <FormField
           label="Name *"
@@ -204,7 +275,10 @@ export default function ConfirmDetailsScreen() {
           style={[styles.rescanButton, { borderColor: theme.border }]}
         >
           <Feather name="refresh-cw" size={20} color={AppColors.primary} />
-          <ThemedText type="body" style={{ color: AppColors.primary, marginLeft: Spacing.sm }}>
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, marginLeft: Spacing.sm }}
+          >
             Rescan Card
           </ThemedText>
         </Pressable>
@@ -223,6 +297,17 @@ const styles = StyleSheet.create({
     width: "100%",
     height: 180,
   },
+  partyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
   form: {
     gap: Spacing.lg,
     marginBottom: Spacing["2xl"],
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useMemo } from "react";
 import {
   View,
   StyleSheet,
@@ -8,7 +8,6 @@ import {
   Platform,
 } from "react-native";
 import {
-  useFocusEffect,
   useNavigation,
   useRoute,
   NavigationProp,
@@ -20,10 +19,25 @@ import Animated, { FadeInDown } from "react-native-reanimated";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
-import { storage, UserProfile } from "@/utils/storage";
-import { getCustomerStats } from "@/utils/analytics";
+import { storage } from "@/utils/storage";
+import {
+  useChangeLog,
+  useCredits,
+  useCustomer,
+  useProfile,
+  useQuotations,
+  useRecurringTemplates,
+  useReturns,
+  useTransactions,
+} from "@/hooks/useStore";
+import { HistoryList } from "@/components/HistoryList";
+import { getCustomerStats, getGrossMargin } from "@/utils/analytics";
 import { formatCurrency, formatDate, getInitials } from "@/utils/format";
-import { Customer, Transaction, CustomerStats } from "@/types";
+import { paymentStatus } from "@/utils/terms";
+import { QUOTATION_STATUS_LABELS, quotationStatus } from "@/utils/quotations";
+import { describeSchedule, isFinished } from "@/utils/recurring";
+import { isPositive } from "@/utils/money";
+import { Quotation, RecurringTemplate, Transaction } from "@/types";
 import { RootStackParamList } from "@/navigation/types";
 import { AppColors, Spacing, BorderRadius, Shadows } from "@/constants/theme";
 
@@ -65,8 +79,10 @@ function TransactionCard({
 }) {
   const { theme } = useTheme();
 
+  const status = paymentStatus(transaction);
+
   const getStatusColor = () => {
-    switch (transaction.status) {
+    switch (status) {
       case "paid":
         return AppColors.secondary;
       case "partial":
@@ -82,10 +98,18 @@ function TransactionCard({
         onPress={onPress}
         style={({ pressed }) => [
           styles.transactionCard,
-          { backgroundColor: theme.backgroundDefault, opacity: pressed ? 0.9 : 1 },
+          {
+            backgroundColor: theme.backgroundDefault,
+            opacity: pressed ? 0.9 : 1,
+          },
         ]}
       >
-        <View style={[styles.statusIndicator, { backgroundColor: getStatusColor() }]} />
+        <View
+          style={[
+            styles.statusIndicator,
+            { backgroundColor: getStatusColor() },
+          ]}
+        />
         <View style={styles.transactionContent}>
           <View style={styles.transactionHeader}>
             <ThemedText type="body" style={{ fontWeight: "600" }}>
@@ -103,7 +127,7 @@ function TransactionCard({
               type="small"
               style={{ color: getStatusColor(), textTransform: "capitalize" }}
             >
-              {transaction.status}
+              {status}
             </ThemedText>
           </View>
         </View>
@@ -112,37 +136,169 @@ function TransactionCard({
   );
 }
 
+function QuotationCard({
+  quotation,
+  currency,
+  onPress,
+}: {
+  quotation: Quotation;
+  currency: string;
+  onPress: () => void;
+}) {
+  const { theme } = useTheme();
+  const status = quotationStatus(quotation);
+  const color =
+    status === "accepted"
+      ? AppColors.secondary
+      : status === "expired"
+        ? theme.textSecondary
+        : AppColors.primary;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.transactionCard,
+        {
+          backgroundColor: theme.backgroundDefault,
+          opacity: pressed ? 0.9 : 1,
+        },
+      ]}
+    >
+      <View style={[styles.statusIndicator, { backgroundColor: color }]} />
+      <View style={styles.transactionContent}>
+        <View style={styles.transactionHeader}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {formatDate(quotation.date)}
+          </ThemedText>
+          <ThemedText type="body" style={{ fontWeight: "700" }}>
+            {formatCurrency(quotation.totalAmount, currency)}
+          </ThemedText>
+        </View>
+        <View style={styles.transactionDetails}>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Valid until {formatDate(quotation.validUntil)}
+          </ThemedText>
+          <ThemedText type="small" style={{ color }}>
+            {QUOTATION_STATUS_LABELS[status]}
+          </ThemedText>
+        </View>
+      </View>
+    </Pressable>
+  );
+}
+
+function RecurringCard({
+  template,
+  currency,
+  onTogglePause,
+  onSkip,
+  onStop,
+}: {
+  template: RecurringTemplate;
+  currency: string;
+  onTogglePause: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}) {
+  const { theme } = useTheme();
+  const finished = isFinished(template);
+  const color =
+    template.paused || finished ? theme.textSecondary : AppColors.primary;
+
+  return (
+    <View
+      style={[
+        styles.transactionCard,
+        { backgroundColor: theme.backgroundDefault },
+      ]}
+    >
+      <View style={[styles.statusIndicator, { backgroundColor: color }]} />
+      <View style={styles.transactionContent}>
+        <View style={styles.transactionHeader}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {describeSchedule(template)}
+          </ThemedText>
+          <ThemedText type="body" style={{ fontWeight: "700" }}>
+            {formatCurrency(template.totalAmount, currency)}
+          </ThemedText>
+        </View>
+        <View style={styles.transactionDetails}>
+          <ThemedText type="small" style={{ color }}>
+            {finished
+              ? "Finished"
+              : template.paused
+                ? "Paused"
+                : `Next on ${formatDate(template.nextDate)}${
+                    template.mode === "confirm" ? " (needs confirming)" : ""
+                  }`}
+          </ThemedText>
+          <View style={styles.sectionActions}>
+            {!finished ? (
+              <>
+                <Pressable onPress={onTogglePause} hitSlop={8}>
+                  <Feather
+                    name={template.paused ? "play" : "pause"}
+                    size={16}
+                    color={theme.textSecondary}
+                  />
+                </Pressable>
+                {!template.paused ? (
+                  <Pressable onPress={onSkip} hitSlop={8}>
+                    <Feather
+                      name="skip-forward"
+                      size={16}
+                      color={theme.textSecondary}
+                    />
+                  </Pressable>
+                ) : null}
+              </>
+            ) : null}
+            <Pressable onPress={onStop} hitSlop={8}>
+              <Feather name="x-circle" size={16} color={AppColors.error} />
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </View>
+  );
+}
+
 export default function CustomerDetailScreen() {
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const route = useRoute<CustomerDetailRouteProp>();
   const { theme } = useTheme();
   const { customerId } = route.params;
 
-  const [customer, setCustomer] = useState<Customer | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [stats, setStats] = useState<CustomerStats | null>(null);
-  const [profile, setProfile] = useState<UserProfile>({ name: "", businessName: "", currency: "INR" });
-
-  const loadData = useCallback(async () => {
-    const [customers, allTransactions, profileData] = await Promise.all([
-      storage.getCustomers(),
-      storage.getTransactions(),
-      storage.getProfile(),
-    ]);
-    const foundCustomer = customers.find((c) => c.id === customerId);
-    if (foundCustomer) {
-      setCustomer(foundCustomer);
-      const customerTx = allTransactions.filter((t) => t.customerId === customerId);
-      setTransactions(customerTx);
-      setStats(getCustomerStats(customerId, allTransactions));
-    }
-    setProfile(profileData);
-  }, [customerId]);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [loadData])
+  const customer = useCustomer(customerId);
+  const transactions = useTransactions({ customerId });
+  const history = useChangeLog({ customerId });
+  const credits = useCredits({ customerId });
+  const returns = useReturns({ customerId });
+  const quotations = useQuotations({ customerId });
+  const templates = useRecurringTemplates({ customerId });
+  const profile = useProfile();
+  const stats = useMemo(
+    () =>
+      getCustomerStats(
+        customerId,
+        transactions,
+        profile.currency,
+        credits,
+        returns,
+      ),
+    [customerId, transactions, profile.currency, credits, returns],
+  );
+  const margin = useMemo(
+    () =>
+      getGrossMargin(
+        transactions,
+        profile.currency,
+        undefined,
+        undefined,
+        returns,
+      ),
+    [transactions, profile.currency, returns],
   );
 
   const handleCall = () => {
@@ -173,7 +329,7 @@ export default function CustomerDetailScreen() {
   const handleDelete = () => {
     Alert.alert(
       "Delete Customer",
-      `Are you sure you want to delete ${customer?.name}? This will also delete all their transactions.`,
+      `Move ${customer?.name} and all their transactions to the trash? You can restore them from Profile > Trash.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -184,7 +340,7 @@ export default function CustomerDetailScreen() {
             navigation.goBack();
           },
         },
-      ]
+      ],
     );
   };
 
@@ -192,9 +348,80 @@ export default function CustomerDetailScreen() {
     navigation.navigate("AddTransaction", { customerId });
   };
 
+  const handleAddQuotation = () => {
+    navigation.navigate("AddTransaction", { customerId, asQuotation: true });
+  };
+
+  const handleTogglePause = async (template: RecurringTemplate) => {
+    try {
+      await storage.setRecurringPaused(template.id, !template.paused);
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        "Failed to update the repeat order. Please try again.",
+      );
+    }
+  };
+
+  const handleSkipRepeat = (template: RecurringTemplate) => {
+    Alert.alert(
+      "Skip Next Order",
+      `Skip the order due on ${formatDate(template.nextDate)}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Skip",
+          onPress: async () => {
+            try {
+              await storage.skipRecurringCycle(template.id);
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                "Failed to skip the repeat order. Please try again.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleStopRepeat = (template: RecurringTemplate) => {
+    Alert.alert(
+      "Stop Repeat Order",
+      "No more orders will be made from it. Transactions already made are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Stop",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await storage.deleteRecurringTemplate(template.id);
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                "Failed to stop the repeat order. Please try again.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleReceivePayment = () => {
+    navigation.navigate("ReceivePayment", { customerId });
+  };
+
   if (!customer) {
     return (
-      <View style={[styles.loadingContainer, { backgroundColor: theme.backgroundRoot }]}>
+      <View
+        style={[
+          styles.loadingContainer,
+          { backgroundColor: theme.backgroundRoot },
+        ]}
+      >
         <ThemedText type="body" style={{ color: theme.textSecondary }}>
           Loading...
         </ThemedText>
@@ -206,7 +433,12 @@ export default function CustomerDetailScreen() {
     <View style={{ flex: 1, backgroundColor: theme.backgroundRoot }}>
       <ScreenScrollView contentContainerStyle={{ paddingBottom: 100 }}>
         <Animated.View entering={FadeInDown.delay(100).springify()}>
-          <View style={[styles.profileCard, { backgroundColor: theme.backgroundDefault }]}>
+          <View
+            style={[
+              styles.profileCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
             <View style={styles.profileHeader}>
               <LinearGradient
                 colors={[AppColors.primary, AppColors.primaryEnd]}
@@ -223,7 +455,10 @@ export default function CustomerDetailScreen() {
                   onPress={handleEdit}
                   style={({ pressed }) => [
                     styles.actionIcon,
-                    { backgroundColor: theme.backgroundSecondary, opacity: pressed ? 0.7 : 1 },
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      opacity: pressed ? 0.7 : 1,
+                    },
                   ]}
                 >
                   <Feather name="edit-2" size={18} color={theme.text} />
@@ -232,7 +467,10 @@ export default function CustomerDetailScreen() {
                   onPress={handleDelete}
                   style={({ pressed }) => [
                     styles.actionIcon,
-                    { backgroundColor: AppColors.error + "20", opacity: pressed ? 0.7 : 1 },
+                    {
+                      backgroundColor: AppColors.error + "20",
+                      opacity: pressed ? 0.7 : 1,
+                    },
                   ]}
                 >
                   <Feather name="trash-2" size={18} color={AppColors.error} />
@@ -249,7 +487,12 @@ export default function CustomerDetailScreen() {
               </ThemedText>
             ) : null}
             {customer.businessType ? (
-              <View style={[styles.badge, { backgroundColor: AppColors.primary + "20" }]}>
+              <View
+                style={[
+                  styles.badge,
+                  { backgroundColor: AppColors.primary + "20" },
+                ]}
+              >
                 <ThemedText type="caption" style={{ color: AppColors.primary }}>
                   {customer.businessType}
                 </ThemedText>
@@ -260,7 +503,13 @@ export default function CustomerDetailScreen() {
               {customer.mobile ? (
                 <View style={styles.contactRow}>
                   <Feather name="phone" size={16} color={theme.textSecondary} />
-                  <ThemedText type="small" style={{ color: theme.textSecondary, marginLeft: Spacing.sm }}>
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: theme.textSecondary,
+                      marginLeft: Spacing.sm,
+                    }}
+                  >
                     {customer.mobile}
                   </ThemedText>
                 </View>
@@ -268,26 +517,104 @@ export default function CustomerDetailScreen() {
               {customer.email ? (
                 <View style={styles.contactRow}>
                   <Feather name="mail" size={16} color={theme.textSecondary} />
-                  <ThemedText type="small" style={{ color: theme.textSecondary, marginLeft: Spacing.sm }}>
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: theme.textSecondary,
+                      marginLeft: Spacing.sm,
+                    }}
+                  >
                     {customer.email}
                   </ThemedText>
                 </View>
               ) : null}
               {customer.address ? (
                 <View style={styles.contactRow}>
-                  <Feather name="map-pin" size={16} color={theme.textSecondary} />
-                  <ThemedText type="small" style={{ color: theme.textSecondary, marginLeft: Spacing.sm, flex: 1 }}>
+                  <Feather
+                    name="map-pin"
+                    size={16}
+                    color={theme.textSecondary}
+                  />
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: theme.textSecondary,
+                      marginLeft: Spacing.sm,
+                      flex: 1,
+                    }}
+                  >
                     {customer.address}
                   </ThemedText>
                 </View>
               ) : null}
             </View>
+            {stats && isPositive(stats.creditBalance) ? (
+              <View
+                style={[
+                  styles.creditRow,
+                  { backgroundColor: AppColors.secondary + "20" },
+                ]}
+              >
+                <Feather name="gift" size={16} color={AppColors.secondary} />
+                <ThemedText
+                  type="small"
+                  style={{ color: AppColors.secondary, flex: 1 }}
+                >
+                  {formatCurrency(stats.creditBalance, profile.currency)} in
+                  credit, applied to new transactions
+                </ThemedText>
+              </View>
+            ) : null}
+            {stats && isPositive(stats.amountReturned) ? (
+              <View
+                style={[
+                  styles.creditRow,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <Feather
+                  name="corner-up-left"
+                  size={16}
+                  color={theme.textSecondary}
+                />
+                <ThemedText
+                  type="small"
+                  style={{ color: theme.textSecondary, flex: 1 }}
+                >
+                  {formatCurrency(stats.amountReturned, profile.currency)} of
+                  goods returned, not counted in Total Purchased
+                </ThemedText>
+              </View>
+            ) : null}
+            {isPositive(margin.revenue) && margin.marginPercent !== null ? (
+              <View
+                style={[
+                  styles.creditRow,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <Feather name="percent" size={16} color={theme.textSecondary} />
+                <ThemedText
+                  type="small"
+                  style={{ color: theme.textSecondary, flex: 1 }}
+                >
+                  {formatCurrency(margin.margin, profile.currency)} gross margin
+                  ({margin.marginPercent.toFixed(1)}%) on items with a cost
+                  price
+                </ThemedText>
+              </View>
+            ) : null}
           </View>
         </Animated.View>
 
         {stats ? (
           <Animated.View entering={FadeInDown.delay(200).springify()}>
-            <View style={[styles.statsCard, { backgroundColor: theme.backgroundDefault }]}>
+            <View
+              style={[
+                styles.statsCard,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
               <StatItem
                 label="Total Purchased"
                 value={formatCurrency(stats.totalPurchased, profile.currency)}
@@ -300,7 +627,11 @@ export default function CustomerDetailScreen() {
               <StatItem
                 label="Pending"
                 value={formatCurrency(stats.amountPending, profile.currency)}
-                color={stats.amountPending > 0 ? AppColors.warning : undefined}
+                color={
+                  isPositive(stats.amountPending)
+                    ? AppColors.warning
+                    : undefined
+                }
               />
             </View>
           </Animated.View>
@@ -309,26 +640,61 @@ export default function CustomerDetailScreen() {
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <ThemedText type="h4">Transactions</ThemedText>
-            <Pressable
-              onPress={handleAddTransaction}
-              style={({ pressed }) => [
-                styles.addButton,
-                { backgroundColor: AppColors.primary, opacity: pressed ? 0.9 : 1 },
-              ]}
-            >
-              <Feather name="plus" size={16} color="#FFFFFF" />
-              <ThemedText type="small" style={{ color: "#FFFFFF", marginLeft: 4 }}>
-                Add
-              </ThemedText>
-            </Pressable>
+            <View style={styles.sectionActions}>
+              <Pressable
+                onPress={handleReceivePayment}
+                style={({ pressed }) => [
+                  styles.addButton,
+                  {
+                    backgroundColor: AppColors.secondary,
+                    opacity: pressed ? 0.9 : 1,
+                  },
+                ]}
+              >
+                <Feather name="download" size={16} color="#FFFFFF" />
+                <ThemedText
+                  type="small"
+                  style={{ color: "#FFFFFF", marginLeft: 4 }}
+                >
+                  Receive
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleAddTransaction}
+                style={({ pressed }) => [
+                  styles.addButton,
+                  {
+                    backgroundColor: AppColors.primary,
+                    opacity: pressed ? 0.9 : 1,
+                  },
+                ]}
+              >
+                <Feather name="plus" size={16} color="#FFFFFF" />
+                <ThemedText
+                  type="small"
+                  style={{ color: "#FFFFFF", marginLeft: 4 }}
+                >
+                  Add
+                </ThemedText>
+              </Pressable>
+            </View>
           </View>
 
           {transactions.length === 0 ? (
-            <View style={[styles.emptyState, { backgroundColor: theme.backgroundDefault }]}>
+            <View
+              style={[
+                styles.emptyState,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
               <Feather name="file-text" size={40} color={theme.textSecondary} />
               <ThemedText
                 type="small"
-                style={{ color: theme.textSecondary, marginTop: Spacing.sm, textAlign: "center" }}
+                style={{
+                  color: theme.textSecondary,
+                  marginTop: Spacing.sm,
+                  textAlign: "center",
+                }}
               >
                 No transactions yet. Add one to track sales!
               </ThemedText>
@@ -352,12 +718,90 @@ export default function CustomerDetailScreen() {
             </View>
           )}
         </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ThemedText type="h4">Quotations</ThemedText>
+            <Pressable
+              onPress={handleAddQuotation}
+              style={({ pressed }) => [
+                styles.addButton,
+                {
+                  backgroundColor: AppColors.primary,
+                  opacity: pressed ? 0.9 : 1,
+                },
+              ]}
+            >
+              <Feather name="file-plus" size={16} color="#FFFFFF" />
+              <ThemedText
+                type="small"
+                style={{ color: "#FFFFFF", marginLeft: 4 }}
+              >
+                Quote
+              </ThemedText>
+            </Pressable>
+          </View>
+
+          {quotations.length === 0 ? (
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              No quotations yet. Send one before a sale to agree on prices.
+            </ThemedText>
+          ) : (
+            <View style={styles.transactionList}>
+              {[...quotations]
+                .sort((a, b) => b.date.localeCompare(a.date))
+                .map((quotation) => (
+                  <QuotationCard
+                    key={quotation.id}
+                    quotation={quotation}
+                    currency={profile.currency}
+                    onPress={() =>
+                      navigation.navigate("QuotationDetail", {
+                        quotationId: quotation.id,
+                        customerName: customer.name,
+                      })
+                    }
+                  />
+                ))}
+            </View>
+          )}
+        </View>
+
+        {templates.length > 0 ? (
+          <View style={styles.section}>
+            <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
+              Repeat Orders
+            </ThemedText>
+            <View style={styles.transactionList}>
+              {templates.map((template) => (
+                <RecurringCard
+                  key={template.id}
+                  template={template}
+                  currency={profile.currency}
+                  onTogglePause={() => handleTogglePause(template)}
+                  onSkip={() => handleSkipRepeat(template)}
+                  onStop={() => handleStopRepeat(template)}
+                />
+              ))}
+            </View>
+          </View>
+        ) : null}
+
+        <View style={styles.section}>
+          <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
+            History
+          </ThemedText>
+          <HistoryList entries={history} currency={profile.currency} />
+        </View>
       </ScreenScrollView>
 
       <View
         style={[
           styles.quickActions,
-          { backgroundColor: theme.backgroundRoot, borderTopColor: theme.border },
+          {
+            backgroundColor: theme.backgroundRoot,
+            borderTopColor: theme.border,
+          },
         ]}
       >
         <Pressable
@@ -365,11 +809,17 @@ export default function CustomerDetailScreen() {
           disabled={!customer.mobile}
           style={({ pressed }) => [
             styles.quickActionButton,
-            { backgroundColor: AppColors.secondary, opacity: pressed ? 0.9 : customer.mobile ? 1 : 0.5 },
+            {
+              backgroundColor: AppColors.secondary,
+              opacity: pressed ? 0.9 : customer.mobile ? 1 : 0.5,
+            },
           ]}
         >
           <Feather name="phone" size={20} color="#FFFFFF" />
-          <ThemedText type="small" style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}>
+          <ThemedText
+            type="small"
+            style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}
+          >
             Call
           </ThemedText>
         </Pressable>
@@ -378,11 +828,17 @@ export default function CustomerDetailScreen() {
           disabled={!customer.mobile}
           style={({ pressed }) => [
             styles.quickActionButton,
-            { backgroundColor: "#25D366", opacity: pressed ? 0.9 : customer.mobile ? 1 : 0.5 },
+            {
+              backgroundColor: "#25D366",
+              opacity: pressed ? 0.9 : customer.mobile ? 1 : 0.5,
+            },
           ]}
         >
           <Feather name="message-circle" size={20} color="#FFFFFF" />
-          <ThemedText type="small" style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}>
+          <ThemedText
+            type="small"
+            style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}
+          >
             WhatsApp
           </ThemedText>
         </Pressable>
@@ -391,11 +847,17 @@ export default function CustomerDetailScreen() {
           disabled={!customer.email}
           style={({ pressed }) => [
             styles.quickActionButton,
-            { backgroundColor: AppColors.primary, opacity: pressed ? 0.9 : customer.email ? 1 : 0.5 },
+            {
+              backgroundColor: AppColors.primary,
+              opacity: pressed ? 0.9 : customer.email ? 1 : 0.5,
+            },
           ]}
         >
           <Feather name="mail" size={20} color="#FFFFFF" />
-          <ThemedText type="small" style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}>
+          <ThemedText
+            type="small"
+            style={{ color: "#FFFFFF", marginLeft: Spacing.xs }}
+          >
             Email
           </ThemedText>
         </Pressable>
@@ -478,6 +940,18 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: Spacing.lg,
   },
+  creditRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginTop: Spacing.lg,
+  },
+  sectionActions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
   addButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,6 +1,6 @@
-import React, { useState, useCallback, useMemo } from "react";
+import React, { useState, useMemo } from "react";
 import { View, StyleSheet, Pressable, TextInput, FlatList } from "react-native";
-import { useFocusEffect, useNavigation, NavigationProp } from "@react-navigation/native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import Animated, {
@@ -14,15 +14,32 @@ import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
-import { storage, UserProfile } from "@/utils/storage";
-import { getCustomerStats } from "@/utils/analytics";
+import {
+  useCustomers,
+  useProfile,
+  usePurchases,
+  useReturns,
+  useTransactions,
+} from "@/hooks/useStore";
+import { getCustomerStats, getSupplierStats } from "@/utils/analytics";
 import { formatCurrency, getInitials } from "@/utils/format";
-import { Customer, Transaction } from "@/types";
+import { isPositive, zero } from "@/utils/money";
+import { Customer, CustomerStats, PartyType } from "@/types";
 import { RootStackParamList } from "@/navigation/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
+type CustomerListStats = Pick<
+  CustomerStats,
+  "totalPurchased" | "amountPending" | "amountOverdue"
+>;
+
+const PARTY_TABS: { key: PartyType; label: string }[] = [
+  { key: "customer", label: "Customers" },
+  { key: "supplier", label: "Suppliers" },
+];
+
 function CustomerCard({
   customer,
   stats,
@@ -31,7 +48,7 @@ function CustomerCard({
   onPress,
 }: {
   customer: Customer;
-  stats: { totalPurchased: number; amountPending: number };
+  stats: CustomerListStats;
   currency: string;
   index: number;
   onPress: () => void;
@@ -64,7 +81,11 @@ function CustomerCard({
         ]}
       >
         <LinearGradient
-          colors={[AppColors.primary, AppColors.primaryEnd]}
+          colors={
+            customer.partyType === "supplier"
+              ? [AppColors.warning, AppColors.gold]
+              : [AppColors.primary, AppColors.primaryEnd]
+          }
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
           style={styles.avatar}
@@ -89,10 +110,10 @@ function CustomerCard({
                 {formatCurrency(stats.totalPurchased, currency)}
               </ThemedText>
             </View>
-            {stats.amountPending > 0 ? (
+            {isPositive(stats.amountPending) ? (
               <View style={styles.statItem}>
                 <ThemedText type="caption" style={{ color: AppColors.warning }}>
-                  Pending
+                  {customer.partyType === "supplier" ? "You Owe" : "Pending"}
                 </ThemedText>
                 <ThemedText
                   type="small"
@@ -102,6 +123,19 @@ function CustomerCard({
                 </ThemedText>
               </View>
             ) : null}
+            {isPositive(stats.amountOverdue) ? (
+              <View style={styles.statItem}>
+                <ThemedText type="small" style={{ color: AppColors.error }}>
+                  Overdue
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={{ fontWeight: "600", color: AppColors.error }}
+                >
+                  {formatCurrency(stats.amountOverdue, currency)}
+                </ThemedText>
+              </View>
+            ) : null}
           </View>
         </View>
         <Feather name="chevron-right" size={20} color={theme.textSecondary} />
@@ -116,40 +150,37 @@ export default function CustomerListScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [profile, setProfile] = useState<UserProfile>({ name: "", businessName: "", currency: "INR" });
+  const [partyType, setPartyType] = useState<PartyType>("customer");
+  const customers = useCustomers({ partyType });
+  const transactions = useTransactions();
+  const returns = useReturns();
+  const purchases = usePurchases();
+  const profile = useProfile();
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState<"name" | "recent">("recent");
 
-  const loadData = useCallback(async () => {
-    const [customersData, transactionsData, profileData] = await Promise.all([
-      storage.getCustomers(),
-      storage.getTransactions(),
-      storage.getProfile(),
-    ]);
-    setCustomers(customersData);
-    setTransactions(transactionsData);
-    setProfile(profileData);
-  }, []);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [loadData])
-  );
-
   const customerStats = useMemo(() => {
-    const statsMap = new Map<string, { totalPurchased: number; amountPending: number }>();
+    const statsMap = new Map<string, CustomerListStats>();
     customers.forEach((c) => {
-      const stats = getCustomerStats(c.id, transactions);
+      const stats =
+        partyType === "supplier"
+          ? getSupplierStats(c.id, purchases, profile.currency)
+          : getCustomerStats(c.id, transactions, profile.currency, [], returns);
       statsMap.set(c.id, {
         totalPurchased: stats.totalPurchased,
         amountPending: stats.amountPending,
+        amountOverdue: stats.amountOverdue,
       });
     });
     return statsMap;
-  }, [customers, transactions]);
+  }, [
+    customers,
+    partyType,
+    transactions,
+    returns,
+    purchases,
+    profile.currency,
+  ]);
 
   const filteredCustomers = useMemo(() => {
     let result = customers;
@@ -160,7 +191,7 @@ export default function CustomerListScreen() {
         (c) =>
           c.name.toLowerCase().includes(query) ||
           c.businessName.toLowerCase().includes(query) ||
-          c.businessType.toLowerCase().includes(query)
+          c.businessType.toLowerCase().includes(query),
       );
     }
 
@@ -174,10 +205,20 @@ export default function CustomerListScreen() {
   const renderItem = ({ item, index }: { item: Customer; index: number }) => (
     <CustomerCard
       customer={item}
-      stats={customerStats.get(item.id) || { totalPurchased: 0, amountPending: 0 }}
+      stats={
+        customerStats.get(item.id) || {
+          totalPurchased: zero(profile.currency),
+          amountPending: zero(profile.currency),
+          amountOverdue: zero(profile.currency),
+        }
+      }
       currency={profile.currency}
       index={index}
-      onPress={() => navigation.navigate("CustomerDetail", { customerId: item.id })}
+      onPress={() =>
+        item.partyType === "supplier"
+          ? navigation.navigate("SupplierDetail", { supplierId: item.id })
+          : navigation.navigate("CustomerDetail", { customerId: item.id })
+      }
     />
   );
 
@@ -186,19 +227,26 @@ export default function CustomerListScreen() {
       <View
         style={[
           styles.searchContainer,
-          { 
+          {
             paddingTop: headerHeight + Spacing.md,
             backgroundColor: theme.backgroundRoot,
           },
         ]}
       >
         <View
-          style={[styles.searchBar, { backgroundColor: theme.backgroundDefault }]}
+          style={[
+            styles.searchBar,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
         >
           <Feather name="search" size={20} color={theme.textSecondary} />
           <TextInput
             style={[styles.searchInput, { color: theme.text }]}
-            placeholder="Search customers..."
+            placeholder={
+              partyType === "supplier"
+                ? "Search suppliers..."
+                : "Search customers..."
+            }
             placeholderTextColor={theme.textSecondary}
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -211,7 +259,10 @@ export default function CustomerListScreen() {
         </View>
         <Pressable
           onPress={() => setSortBy(sortBy === "name" ? "recent" : "name")}
-          style={[styles.sortButton, { backgroundColor: theme.backgroundDefault }]}
+          style={[
+            styles.sortButton,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
         >
           <Feather
             name={sortBy === "name" ? "type" : "clock"}
@@ -220,6 +271,30 @@ export default function CustomerListScreen() {
           />
         </Pressable>
       </View>
+      <View style={styles.partyTabs}>
+        {PARTY_TABS.map((tab) => (
+          <Pressable
+            key={tab.key}
+            onPress={() => setPartyType(tab.key)}
+            style={[
+              styles.chip,
+              {
+                backgroundColor:
+                  partyType === tab.key
+                    ? AppColors.primary
+                    : theme.backgroundDefault,
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: partyType === tab.key ? "#FFFFFF" : theme.text }}
+            >
+              {tab.label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
 
       <FlatList
         data={filteredCustomers}
@@ -235,11 +310,17 @@ export default function CustomerListScreen() {
             <Feather name="users" size={48} color={theme.textSecondary} />
             <ThemedText
               type="body"
-              style={{ color: theme.textSecondary, marginTop: Spacing.md, textAlign: "center" }}
+              style={{
+                color: theme.textSecondary,
+                marginTop: Spacing.md,
+                textAlign: "center",
+              }}
             >
               {searchQuery
-                ? "No customers match your search"
-                : "No customers yet. Scan a business card to get started!"}
+                ? `No ${partyType}s match your search`
+                : partyType === "supplier"
+                  ? "No suppliers yet. Scan a supplier's card and save it as a supplier."
+                  : "No customers yet. Scan a business card to get started!"}
             </ThemedText>
           </View>
         }
@@ -280,6 +361,17 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  partyTabs: {
+    flexDirection: "row",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
   listContent: {
     paddingHorizontal: Spacing.xl,
     paddingTop: Spacing.sm,
@@ -1,6 +1,12 @@
-import React, { useState, useCallback } from "react";
-import { View, StyleSheet, Pressable, RefreshControl } from "react-native";
-import { useFocusEffect, useNavigation, NavigationProp } from "@react-navigation/native";
+import React, { useState, useMemo } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import Animated, {
@@ -13,15 +19,36 @@ import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useTheme } from "@/hooks/useTheme";
-import { storage, UserProfile } from "@/utils/storage";
+import {
+  useCustomers,
+  useProducts,
+  useProfile,
+  usePurchases,
+  useRecurringTemplates,
+  useReturns,
+  useStockMovements,
+  useTransactions,
+} from "@/hooks/useStore";
+import { refreshStore } from "@/utils/dataStore";
 import { getDashboardStats } from "@/utils/analytics";
-import { formatCurrency, getGreeting, getInitials } from "@/utils/format";
-import { Customer, Transaction, DashboardStats } from "@/types";
+import { getLowStockProducts } from "@/utils/stock";
+import { isCycleDue } from "@/utils/recurring";
+import { storage } from "@/utils/storage";
+import {
+  formatCurrency,
+  formatDate,
+  getGreeting,
+  getInitials,
+} from "@/utils/format";
+import { isPositive } from "@/utils/money";
+import { Customer, RecurringTemplate } from "@/types";
 import { RootStackParamList } from "@/navigation/types";
 import { AppColors, Spacing, BorderRadius, Shadows } from "@/constants/theme";
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
+const LOW_STOCK_SHOWN = 3;
+
 function StatCard({
   title,
   value,
@@ -74,7 +101,9 @@ function StatCard({
         type="small"
         style={[
           styles.statTitle,
-          gradient ? { color: "rgba(255,255,255,0.9)" } : { color: theme.textSecondary },
+          gradient
+            ? { color: "rgba(255,255,255,0.9)" }
+            : { color: theme.textSecondary },
         ]}
       >
         {title}
@@ -83,7 +112,10 @@ function StatCard({
   );
 
   return (
-    <Animated.View entering={FadeInDown.delay(index * 100).springify()}>
+    <Animated.View
+      entering={FadeInDown.delay(index * 100).springify()}
+      style={styles.statCardContainer}
+    >
       <AnimatedPressable
         onPress={onPress}
         onPressIn={handlePressIn}
@@ -178,41 +210,75 @@ function RecentCustomerCard({
 export default function DashboardScreen() {
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const { theme } = useTheme();
-  const [profile, setProfile] = useState<UserProfile>({ name: "", businessName: "", currency: "INR" });
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [stats, setStats] = useState<DashboardStats>({
-    totalCustomers: 0,
-    thisMonthRevenue: 0,
-    pendingCollections: 0,
-    topCustomer: { customer: null, amount: 0 },
-  });
-  const [refreshing, setRefreshing] = useState(false);
-
-  const loadData = useCallback(async () => {
-    const [profileData, customersData, transactionsData] = await Promise.all([
-      storage.getProfile(),
-      storage.getCustomers(),
-      storage.getTransactions(),
-    ]);
-    setProfile(profileData);
-    setCustomers(customersData);
-    setTransactions(transactionsData);
-    setStats(getDashboardStats(customersData, transactionsData));
-  }, []);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [loadData])
+  const profile = useProfile();
+  const customers = useCustomers({ partyType: "customer" });
+  const transactions = useTransactions();
+  const returns = useReturns();
+  const purchases = usePurchases();
+  const stats = useMemo(
+    () =>
+      getDashboardStats(
+        customers,
+        transactions,
+        profile.currency,
+        returns,
+        purchases,
+      ),
+    [customers, transactions, profile.currency, returns, purchases],
   );
+  const products = useProducts();
+  const movements = useStockMovements();
+  const lowStock = useMemo(
+    () => getLowStockProducts(products, movements),
+    [products, movements],
+  );
+  const templates = useRecurringTemplates();
+  // Automatic templates are made at launch; only those waiting for a confirmation show here.
+  const dueTemplates = templates.filter(
+    (t) => t.mode === "confirm" && isCycleDue(t),
+  );
+  const [refreshing, setRefreshing] = useState(false);
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadData();
+    await refreshStore([
+      "profile",
+      "customers",
+      "transactions",
+      "products",
+      "stock",
+      "returns",
+      "recurring",
+      "purchases",
+    ]);
     setRefreshing(false);
   };
 
+  const customerName = (customerId: string) =>
+    customers.find((c) => c.id === customerId)?.name || "Customer";
+
+  const handleCreateRepeat = async (template: RecurringTemplate) => {
+    try {
+      await storage.createRecurringTransaction(template.id);
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        "Failed to create the repeat order. Please try again.",
+      );
+    }
+  };
+
+  const handleSkipRepeat = async (template: RecurringTemplate) => {
+    try {
+      await storage.skipRecurringCycle(template.id);
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        "Failed to skip the repeat order. Please try again.",
+      );
+    }
+  };
+
   const recentCustomers = customers.slice(0, 5);
   const greeting = getGreeting();
 
@@ -231,9 +297,7 @@ export default function DashboardScreen() {
           <ThemedText type="small" style={{ color: theme.textSecondary }}>
             {greeting}
           </ThemedText>
-          <ThemedText type="h2">
-            {profile.name || "Business Owner"}
-          </ThemedText>
+          <ThemedText type="h2">{profile.name || "Business Owner"}</ThemedText>
         </View>
       </View>
 
@@ -244,7 +308,9 @@ export default function DashboardScreen() {
           icon="users"
           gradient
           index={0}
-          onPress={() => navigation.navigate("MainTabs", { screen: "CustomersTab" })}
+          onPress={() =>
+            navigation.navigate("MainTabs", { screen: "CustomersTab" })
+          }
         />
         <StatCard
           title="This Month"
@@ -258,8 +324,188 @@ export default function DashboardScreen() {
           icon="clock"
           index={2}
         />
+        <StatCard
+          title="You Owe"
+          value={formatCurrency(stats.payables, profile.currency)}
+          icon="truck"
+          index={3}
+          onPress={() =>
+            navigation.navigate("MainTabs", { screen: "CustomersTab" })
+          }
+        />
       </View>
 
+      {stats.overdueCount > 0 ? (
+        <Animated.View entering={FadeInDown.delay(300).springify()}>
+          <View
+            style={[
+              styles.overdueCard,
+              {
+                backgroundColor: AppColors.error + "15",
+                borderColor: AppColors.error + "40",
+              },
+            ]}
+          >
+            <Feather name="alert-circle" size={20} color={AppColors.error} />
+            <ThemedText type="body" style={{ flex: 1, color: AppColors.error }}>
+              {stats.overdueCount} overdue transaction
+              {stats.overdueCount === 1 ? "" : "s"}
+            </ThemedText>
+            <ThemedText
+              type="body"
+              style={{ fontWeight: "600", color: AppColors.error }}
+            >
+              {formatCurrency(stats.overdueCollections, profile.currency)}
+            </ThemedText>
+          </View>
+        </Animated.View>
+      ) : null}
+
+      {isPositive(stats.overduePayables) ? (
+        <Animated.View entering={FadeInDown.delay(310).springify()}>
+          <View
+            style={[
+              styles.overdueCard,
+              {
+                backgroundColor: AppColors.warning + "15",
+                borderColor: AppColors.warning + "40",
+              },
+            ]}
+          >
+            <Feather name="truck" size={20} color={AppColors.warning} />
+            <ThemedText
+              type="body"
+              style={{ flex: 1, color: AppColors.warning }}
+            >
+              Overdue to suppliers
+            </ThemedText>
+            <ThemedText
+              type="body"
+              style={{ fontWeight: "600", color: AppColors.warning }}
+            >
+              {formatCurrency(stats.overduePayables, profile.currency)}
+            </ThemedText>
+          </View>
+        </Animated.View>
+      ) : null}
+
+      {lowStock.length > 0 ? (
+        <Animated.View entering={FadeInDown.delay(325).springify()}>
+          <View
+            style={[
+              styles.lowStockCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View style={styles.topCustomerBadge}>
+              <Feather name="box" size={16} color={AppColors.warning} />
+              <ThemedText
+                type="small"
+                style={{ color: AppColors.warning, marginLeft: 4 }}
+              >
+                Low Stock
+              </ThemedText>
+            </View>
+            {lowStock.slice(0, LOW_STOCK_SHOWN).map(({ product, onHand }) => (
+              <Pressable
+                key={product.id}
+                onPress={() =>
+                  navigation.navigate("StockAdjust", { productId: product.id })
+                }
+                style={({ pressed }) => [
+                  styles.lowStockRow,
+                  { opacity: pressed ? 0.7 : 1 },
+                ]}
+              >
+                <ThemedText type="body" style={{ flex: 1 }}>
+                  {product.name}
+                </ThemedText>
+                <ThemedText
+                  type="body"
+                  style={{ fontWeight: "600", color: AppColors.warning }}
+                >
+                  {onHand}
+                  {product.unit ? ` ${product.unit}` : ""} left
+                </ThemedText>
+              </Pressable>
+            ))}
+            {lowStock.length > LOW_STOCK_SHOWN ? (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                and {lowStock.length - LOW_STOCK_SHOWN} more
+              </ThemedText>
+            ) : null}
+          </View>
+        </Animated.View>
+      ) : null}
+
+      {dueTemplates.length > 0 ? (
+        <Animated.View entering={FadeInDown.delay(340).springify()}>
+          <View
+            style={[
+              styles.lowStockCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View style={styles.topCustomerBadge}>
+              <Feather name="repeat" size={16} color={AppColors.primary} />
+              <ThemedText
+                type="small"
+                style={{ color: AppColors.primary, marginLeft: 4 }}
+              >
+                Repeat Orders Due
+              </ThemedText>
+            </View>
+            {dueTemplates.map((template) => (
+              <View key={template.id} style={styles.lowStockRow}>
+                <View style={{ flex: 1 }}>
+                  <ThemedText type="body">
+                    {customerName(template.customerId)}
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {formatCurrency(template.totalAmount, profile.currency)} ·{" "}
+                    {formatDate(template.nextDate)}
+                  </ThemedText>
+                </View>
+                <Pressable
+                  onPress={() => handleSkipRepeat(template)}
+                  style={({ pressed }) => [
+                    styles.repeatButton,
+                    { opacity: pressed ? 0.7 : 1 },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    Skip
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={() => handleCreateRepeat(template)}
+                  style={({ pressed }) => [
+                    styles.repeatButton,
+                    {
+                      backgroundColor: AppColors.primary,
+                      opacity: pressed ? 0.9 : 1,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{ color: "#FFFFFF", fontWeight: "600" }}
+                  >
+                    Create
+                  </ThemedText>
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        </Animated.View>
+      ) : null}
+
       {stats.topCustomer.customer ? (
         <Animated.View entering={FadeInDown.delay(350).springify()}>
           <Pressable
@@ -270,12 +516,18 @@ export default function DashboardScreen() {
             }
             style={({ pressed }) => [
               styles.topCustomerCard,
-              { backgroundColor: theme.backgroundDefault, opacity: pressed ? 0.9 : 1 },
+              {
+                backgroundColor: theme.backgroundDefault,
+                opacity: pressed ? 0.9 : 1,
+              },
             ]}
           >
             <View style={styles.topCustomerBadge}>
               <Feather name="award" size={16} color={AppColors.gold} />
-              <ThemedText type="small" style={{ color: AppColors.gold, marginLeft: 4 }}>
+              <ThemedText
+                type="small"
+                style={{ color: AppColors.gold, marginLeft: 4 }}
+              >
                 Top Customer This Month
               </ThemedText>
             </View>
@@ -311,7 +563,9 @@ export default function DashboardScreen() {
           <ThemedText type="h4">Recent Customers</ThemedText>
           {customers.length > 5 ? (
             <Pressable
-              onPress={() => navigation.navigate("MainTabs", { screen: "CustomersTab" })}
+              onPress={() =>
+                navigation.navigate("MainTabs", { screen: "CustomersTab" })
+              }
             >
               <ThemedText type="link">See All</ThemedText>
             </Pressable>
@@ -321,14 +575,22 @@ export default function DashboardScreen() {
         {recentCustomers.length === 0 ? (
           <Animated.View
             entering={FadeInDown.delay(300).springify()}
-            style={[styles.emptyState, { backgroundColor: theme.backgroundDefault }]}
+            style={[
+              styles.emptyState,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
           >
             <Feather name="users" size={48} color={theme.textSecondary} />
             <ThemedText
               type="body"
-              style={{ color: theme.textSecondary, marginTop: Spacing.md, textAlign: "center" }}
+              style={{
+                color: theme.textSecondary,
+                marginTop: Spacing.md,
+                textAlign: "center",
+              }}
             >
-              No customers yet. Tap the camera button to scan your first business card!
+              No customers yet. Tap the camera button to scan your first
+              business card!
             </ThemedText>
           </Animated.View>
         ) : (
@@ -339,7 +601,9 @@ export default function DashboardScreen() {
                 customer={customer}
                 index={index}
                 onPress={() =>
-                  navigation.navigate("CustomerDetail", { customerId: customer.id })
+                  navigation.navigate("CustomerDetail", {
+                    customerId: customer.id,
+                  })
                 }
               />
             ))}
@@ -359,9 +623,14 @@ const styles = StyleSheet.create({
   },
   statsGrid: {
     flexDirection: "row",
+    flexWrap: "wrap",
     gap: Spacing.md,
     marginBottom: Spacing["2xl"],
   },
+  statCardContainer: {
+    flexGrow: 1,
+    flexBasis: "40%",
+  },
   statCard: {
     flex: 1,
     borderRadius: BorderRadius.lg,
@@ -387,6 +656,31 @@ const styles = StyleSheet.create({
   statTitle: {
     fontSize: 12,
   },
+  overdueCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing["2xl"],
+  },
+  lowStockCard: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    marginBottom: Spacing["2xl"],
+    gap: Spacing.sm,
+  },
+  lowStockRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  repeatButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    marginLeft: Spacing.sm,
+  },
   topCustomerCard: {
     borderRadius: BorderRadius.lg,
     padding: Spacing.lg,
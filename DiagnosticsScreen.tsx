@@ -0,0 +1,294 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { storage } from "@/utils/storage";
+import { IntegrityIssue } from "@/utils/integrity";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+function IssueCard({
+  issue,
+  index,
+  onRepair,
+}: {
+  issue: IntegrityIssue;
+  index: number;
+  onRepair: () => void;
+}) {
+  const { theme } = useTheme();
+  const color = issue.repair ? AppColors.warning : AppColors.error;
+
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 30).springify()}>
+      <View
+        style={[styles.issueCard, { backgroundColor: theme.backgroundDefault }]}
+      >
+        <Feather name="alert-triangle" size={18} color={color} />
+        <View style={styles.issueContent}>
+          <ThemedText type="small" style={{ fontWeight: "600" }}>
+            {issue.message}
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {issue.repair || "Needs manual review; no automatic repair."}
+          </ThemedText>
+        </View>
+        {issue.repair ? (
+          <Pressable
+            onPress={onRepair}
+            style={[
+              styles.fixButton,
+              { backgroundColor: AppColors.primary + "20" },
+            ]}
+          >
+            <ThemedText type="small" style={{ color: AppColors.primary }}>
+              Fix
+            </ThemedText>
+          </Pressable>
+        ) : null}
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function DiagnosticsScreen() {
+  const { theme } = useTheme();
+  const [issues, setIssues] = useState<IntegrityIssue[] | null>(null);
+  const [report, setReport] = useState<string[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const scan = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      setIssues(await storage.checkIntegrity());
+    } catch (error) {
+      Alert.alert("Error", "Failed to check your data. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      scan();
+    }, [scan]),
+  );
+
+  const repairable = (issues || []).filter((issue) => issue.repair);
+
+  const handlePreview = async () => {
+    setIsBusy(true);
+    try {
+      const ids = repairable.map((issue) => issue.id);
+      setReport(await storage.repairIntegrity(ids, { dryRun: true }));
+    } catch (error) {
+      Alert.alert("Error", "Failed to prepare the repair report.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const repair = async (ids: string[]) => {
+    setIsBusy(true);
+    try {
+      const applied = await storage.repairIntegrity(ids);
+      setReport(null);
+      Alert.alert(
+        "Repaired",
+        `${applied.length} fix${applied.length === 1 ? "" : "es"} applied.`,
+      );
+    } catch (error) {
+      Alert.alert("Error", "Repair failed. Your data was not changed.");
+    } finally {
+      setIsBusy(false);
+    }
+    await scan();
+  };
+
+  const handleRepairAll = () => {
+    const count = `${repairable.length} issue${repairable.length === 1 ? "" : "s"}`;
+    Alert.alert(
+      "Repair All",
+      `Apply automatic fixes for ${count}? Every change is recorded in the record's history.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Repair",
+          onPress: () => repair(repairable.map((issue) => issue.id)),
+        },
+      ],
+    );
+  };
+
+  return (
+    <ScreenScrollView>
+      <View
+        style={[
+          styles.summaryCard,
+          { backgroundColor: theme.backgroundDefault },
+        ]}
+      >
+        <Feather
+          name={issues && issues.length === 0 ? "check-circle" : "activity"}
+          size={32}
+          color={
+            issues && issues.length === 0
+              ? AppColors.secondary
+              : AppColors.primary
+          }
+        />
+        <ThemedText type="h4" style={{ marginTop: Spacing.sm }}>
+          {issues === null
+            ? "Checking your data..."
+            : issues.length === 0
+              ? "No problems found"
+              : `${issues.length} problem${issues.length === 1 ? "" : "s"} found`}
+        </ThemedText>
+        {issues && issues.length > 0 ? (
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {repairable.length} can be repaired automatically
+          </ThemedText>
+        ) : null}
+        {isBusy ? (
+          <ActivityIndicator style={{ marginTop: Spacing.md }} />
+        ) : null}
+        <View style={styles.buttonRow}>
+          <Pressable
+            onPress={scan}
+            disabled={isBusy}
+            style={[
+              styles.button,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <ThemedText type="small">Scan Again</ThemedText>
+          </Pressable>
+          {repairable.length > 0 ? (
+            <>
+              <Pressable
+                onPress={handlePreview}
+                disabled={isBusy}
+                style={[
+                  styles.button,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <ThemedText type="small">Dry Run</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleRepairAll}
+                disabled={isBusy}
+                style={[styles.button, { backgroundColor: AppColors.primary }]}
+              >
+                <ThemedText type="small" style={{ color: "#FFFFFF" }}>
+                  Repair All
+                </ThemedText>
+              </Pressable>
+            </>
+          ) : null}
+        </View>
+      </View>
+
+      {report ? (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
+            Dry Run Report
+          </ThemedText>
+          <View
+            style={[
+              styles.reportCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            {report.length === 0 ? (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Nothing would change.
+              </ThemedText>
+            ) : (
+              report.map((line, index) => (
+                <ThemedText
+                  key={index}
+                  type="small"
+                  style={{ color: theme.textSecondary }}
+                >
+                  • {line}
+                </ThemedText>
+              ))
+            )}
+          </View>
+        </View>
+      ) : null}
+
+      {issues && issues.length > 0 ? (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
+            Problems
+          </ThemedText>
+          <View style={styles.issueList}>
+            {issues.map((issue, index) => (
+              <IssueCard
+                key={issue.id}
+                issue={issue}
+                index={index}
+                onRepair={() => repair([issue.id])}
+              />
+            ))}
+          </View>
+        </View>
+      ) : null}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  summaryCard: {
+    alignItems: "center",
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  button: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.sm,
+  },
+  section: {
+    marginTop: Spacing["2xl"],
+  },
+  reportCard: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.xs,
+  },
+  issueList: {
+    gap: Spacing.sm,
+  },
+  issueCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  issueContent: {
+    flex: 1,
+  },
+  fixButton: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+});
@@ -1,13 +1,26 @@
 import React, { useState, useLayoutEffect } from "react";
 import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
-import { useNavigation, useRoute, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { storage } from "@/utils/storage";
-import { Customer } from "@/types";
+import { Customer, PaymentTerms } from "@/types";
+import { PAYMENT_TERMS, customerTerms } from "@/utils/terms";
+import {
+  INDIAN_STATES,
+  findStateCode,
+  normalizeGstin,
+  stateFromGstin,
+  validateGstin,
+} from "@/utils/gst";
 import { RootStackParamList } from "@/navigation/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
@@ -20,6 +33,8 @@ interface FormData {
   email: string;
   address: string;
   businessType: string;
+  gstin: string;
+  state: string;
 }
 
 function FormField({
@@ -28,6 +43,7 @@ function FormField({
   onChangeText,
   placeholder,
   keyboardType = "default",
+  autoCapitalize,
   index,
 }: {
   label: string;
@@ -35,6 +51,7 @@ function FormField({
   onChangeText: (text: string) => void;
   placeholder: string;
   keyboardType?: "default" | "phone-pad" | "email-address";
+  autoCapitalize?: "none" | "words" | "characters";
   index: number;
 }) {
   const { theme } = useTheme();
@@ -44,7 +61,10 @@ function FormField({
       entering={FadeInDown.delay(100 + index * 50).springify()}
       style={styles.fieldContainer}
     >
-      <ThemedText type="small" style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}>
+      <ThemedText
+        type="small"
+        style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+      >
         {label}
       </ThemedText>
       <TextInput
@@ -57,7 +77,10 @@ function FormField({
         placeholder={placeholder}
         placeholderTextColor={theme.textSecondary}
         keyboardType={keyboardType}
-        autoCapitalize={keyboardType === "email-address" ? "none" : "words"}
+        autoCapitalize={
+          autoCapitalize ??
+          (keyboardType === "email-address" ? "none" : "words")
+        }
       />
     </Animated.View>
   );
@@ -76,7 +99,14 @@ export default function EditCustomerScreen() {
     email: customer.email,
     address: customer.address,
     businessType: customer.businessType,
+    gstin: customer.gstin || "",
+    state: customer.state
+      ? INDIAN_STATES[customer.state] || customer.state
+      : "",
   });
+  const [paymentTerms, setPaymentTerms] = useState<PaymentTerms>(
+    customerTerms(customer),
+  );
   const [isSaving, setIsSaving] = useState(false);
 
   const updateField = (field: keyof FormData, value: string) => {
@@ -89,9 +119,31 @@ export default function EditCustomerScreen() {
       return;
     }
 
+    const gstin = normalizeGstin(formData.gstin);
+    const gstinError = gstin ? validateGstin(gstin) : null;
+    if (gstinError) {
+      Alert.alert("Invalid GSTIN", gstinError);
+      return;
+    }
+    const state = formData.state.trim()
+      ? findStateCode(formData.state)
+      : stateFromGstin(gstin);
+    if (formData.state.trim() && !state) {
+      Alert.alert(
+        "Invalid",
+        "Please enter the state's full name or its two-digit GST code.",
+      );
+      return;
+    }
+
     setIsSaving(true);
     try {
-      await storage.updateCustomer(customer.id, formData);
+      await storage.updateCustomer(customer.id, {
+        ...formData,
+        gstin: gstin || undefined,
+        state,
+        paymentTerms,
+      });
       navigation.goBack();
     } catch (error) {
       Alert.alert("Error", "Failed to save changes. Please try again.");
@@ -123,13 +175,16 @@ export default function EditCustomerScreen() {
           disabled={isSaving}
           style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
         >
-          <ThemedText type="body" style={{ color: AppColors.primary, fontWeight: "600" }}>
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
             {isSaving ? "Saving..." : "Save"}
           </ThemedText>
         </Pressable>
       ),
     });
-  }, [navigation, formData, isSaving, theme]);
+  }, [navigation, formData, paymentTerms, isSaving, theme]);
 
   return (
     <ScreenKeyboardAwareScrollView>
@@ -178,15 +233,73 @@ export default function EditCustomerScreen() {
           placeholder="e.g., Retail, Wholesale, Services"
           index={5}
         />
+        <FormField
+          label="GSTIN"
+          value={formData.gstin}
+          onChangeText={(text) => updateField("gstin", text)}
+          placeholder="e.g., 27AAPFU0939F1ZV"
+          autoCapitalize="characters"
+          index={6}
+        />
+        <FormField
+          label="State"
+          value={formData.state}
+          onChangeText={(text) => updateField("state", text)}
+          placeholder="Taken from the GSTIN if left empty"
+          index={7}
+        />
+        <Animated.View entering={FadeInDown.delay(500).springify()}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+          >
+            Payment Terms
+          </ThemedText>
+          <View style={styles.chipRow}>
+            {PAYMENT_TERMS.map((option) => (
+              <Pressable
+                key={option.key}
+                onPress={() => setPaymentTerms(option.key)}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor:
+                      paymentTerms === option.key
+                        ? AppColors.primary
+                        : theme.backgroundSecondary,
+                  },
+                ]}
+              >
+                <ThemedText
+                  type="small"
+                  style={{
+                    color: paymentTerms === option.key ? "#FFFFFF" : theme.text,
+                  }}
+                >
+                  {option.label}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginTop: Spacing.xs }}
+          >
+            Sets the due date of new transactions.
+          </ThemedText>
+        </Animated.View>
       </View>
 
-      <Animated.View entering={FadeInDown.delay(400).springify()}>
+      <Animated.View entering={FadeInDown.delay(550).springify()}>
         <Pressable
           onPress={handleRescan}
           style={[styles.rescanButton, { borderColor: theme.border }]}
         >
           <Feather name="camera" size={20} color={AppColors.primary} />
-          <ThemedText type="body" style={{ color: AppColors.primary, marginLeft: Spacing.sm }}>
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, marginLeft: Spacing.sm }}
+          >
             Update from New Card Scan
           </ThemedText>
         </Pressable>
@@ -207,6 +320,16 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.lg,
     fontSize: 16,
   },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
   rescanButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { formatCurrency, formatDate, formatDateTime } from "@/utils/format";
+import { isMoney } from "@/utils/money";
+import { describeDiscount } from "@/utils/pricing";
+import { ChangeLogEntry, Discount, FieldChange } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const COLLAPSED_COUNT = 5;
+
+const MONEY_FIELDS = ["totalAmount", "amountPaid", "amount"];
+const DATE_FIELDS = ["date", "dueDate", "validUntil", "deletedAt", "voidedAt"];
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  businessName: "Business name",
+  mobile: "Mobile",
+  email: "Email",
+  address: "Address",
+  businessType: "Business type",
+  cardImageUri: "Card image",
+  paymentTerms: "Payment terms",
+  gstin: "GSTIN",
+  state: "State",
+  partyType: "Party type",
+  customerId: "Customer",
+  transactionId: "Transaction",
+  billNumber: "Bill number",
+  date: "Date",
+  dueDate: "Due date",
+  validUntil: "Valid until",
+  products: "Products",
+  items: "Products returned",
+  pricesIncludeTax: "Prices include GST",
+  discount: "Discount",
+  discountAmount: "Discount amount",
+  totalAmount: "Total",
+  amountPaid: "Amount paid",
+  payments: "Payments",
+  amount: "Amount",
+  appliedAmount: "Settled from balance",
+  reason: "Reason",
+  status: "Status",
+  method: "Method",
+  notes: "Notes",
+  deletedAt: "Deleted",
+  voidedAt: "Voided",
+  reversalOf: "Reversal of",
+  reversedBy: "Reversal entry",
+};
+
+const ACTION_ICONS: Record<
+  ChangeLogEntry["action"],
+  keyof typeof Feather.glyphMap
+> = {
+  create: "plus-circle",
+  update: "edit-2",
+  delete: "trash-2",
+  restore: "rotate-ccw",
+  purge: "x-circle",
+  payment: "credit-card",
+  void: "slash",
+  reverse: "corner-up-left",
+};
+
+const ENTITY_LABELS: Record<ChangeLogEntry["entityType"], string> = {
+  customer: "Customer",
+  transaction: "Transaction",
+  payment: "Payment",
+  credit: "Credit",
+  return: "Return",
+  quotation: "Quotation",
+  purchase: "Purchase bill",
+  product: "Product",
+  stock: "Stock adjustment",
+  recurring: "Recurring order",
+  expense: "Expense",
+};
+
+const ACTION_LABELS: Record<ChangeLogEntry["action"], string> = {
+  create: "created",
+  update: "updated",
+  delete: "moved to trash",
+  restore: "restored",
+  purge: "deleted permanently",
+  payment: "received",
+  void: "voided",
+  reverse: "reversed",
+};
+
+function formatValue(field: string, value: unknown, currency: string): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (isMoney(value)) return formatCurrency(value);
+  // Entries logged before amounts became Money hold plain numbers.
+  if (MONEY_FIELDS.includes(field) && typeof value === "number") {
+    return formatCurrency(value, currency);
+  }
+  if (DATE_FIELDS.includes(field) && typeof value === "string")
+    return formatDate(value);
+  if (field === "discount" && typeof value === "object")
+    return describeDiscount(value as Discount);
+  if (Array.isArray(value))
+    return `${value.length} item${value.length === 1 ? "" : "s"}`;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function describeChange(
+  change: FieldChange,
+  entry: ChangeLogEntry,
+  currency: string,
+): string {
+  const label = FIELD_LABELS[change.field] || change.field;
+  const after = formatValue(change.field, change.after, currency);
+  if (entry.action === "create" || entry.action === "payment")
+    return `${label}: ${after}`;
+  return `${label}: ${formatValue(change.field, change.before, currency)} → ${after}`;
+}
+
+function HistoryEntry({
+  entry,
+  currency,
+}: {
+  entry: ChangeLogEntry;
+  currency: string;
+}) {
+  const { theme } = useTheme();
+  // Creates list every field; only the ones that carry information are worth showing.
+  const changes =
+    entry.action === "create" || entry.action === "purge"
+      ? entry.changes.filter(
+          (c) => c.field in FIELD_LABELS && !c.field.endsWith("Id"),
+        )
+      : entry.changes;
+
+  return (
+    <View style={styles.entry}>
+      <View
+        style={[
+          styles.entryIcon,
+          { backgroundColor: AppColors.primary + "20" },
+        ]}
+      >
+        <Feather
+          name={ACTION_ICONS[entry.action]}
+          size={14}
+          color={AppColors.primary}
+        />
+      </View>
+      <View style={styles.entryContent}>
+        <ThemedText type="small" style={{ fontWeight: "600" }}>
+          {ENTITY_LABELS[entry.entityType]}{" "}
+          {entry.entityType === "purchase" && entry.action === "payment"
+            ? "paid"
+            : ACTION_LABELS[entry.action]}
+        </ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {formatDateTime(entry.date)}
+          {entry.actor ? ` · ${entry.actor}` : ""}
+        </ThemedText>
+        {changes.map((change) => (
+          <ThemedText
+            key={change.field}
+            type="small"
+            style={{ color: theme.textSecondary }}
+          >
+            {describeChange(change, entry, currency)}
+          </ThemedText>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export function HistoryList({
+  entries,
+  currency,
+}: {
+  entries: ChangeLogEntry[];
+  currency: string;
+}) {
+  const { theme } = useTheme();
+  const [showAll, setShowAll] = useState(false);
+
+  if (entries.length === 0) {
+    return (
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundDefault }]}
+      >
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, textAlign: "center" }}
+        >
+          No changes recorded yet
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const visible = showAll ? entries : entries.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.backgroundDefault }]}
+    >
+      {visible.map((entry) => (
+        <HistoryEntry key={entry.id} entry={entry} currency={currency} />
+      ))}
+      {entries.length > COLLAPSED_COUNT ? (
+        <Pressable onPress={() => setShowAll(!showAll)} style={styles.toggle}>
+          <ThemedText type="small" style={{ color: AppColors.primary }}>
+            {showAll ? "Show less" : `Show all ${entries.length} changes`}
+          </ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  entry: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  entryIcon: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  entryContent: {
+    flex: 1,
+  },
+  toggle: {
+    alignItems: "center",
+    paddingTop: Spacing.xs,
+  },
+});
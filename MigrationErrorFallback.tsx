@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import { StyleSheet, View, Pressable, ScrollView, Text } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { MigrationError } from "@/utils/migrations";
+import { AppColors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
+
+export type MigrationErrorFallbackProps = {
+  error: Error;
+  onRetry: () => void;
+};
+
+export function MigrationErrorFallback({
+  error,
+  onRetry,
+}: MigrationErrorFallbackProps) {
+  const { theme } = useTheme();
+  const [showDetails, setShowDetails] = useState(false);
+
+  const versionInfo =
+    error instanceof MigrationError
+      ? `Upgrading from schema v${error.fromVersion} stopped at v${error.failedVersion}.`
+      : null;
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.content}>
+        <View
+          style={[
+            styles.iconCircle,
+            { backgroundColor: AppColors.error + "20" },
+          ]}
+        >
+          <Feather name="database" size={32} color={AppColors.error} />
+        </View>
+
+        <ThemedText type="h2" style={styles.title}>
+          Your data could not be upgraded
+        </ThemedText>
+
+        <ThemedText
+          type="body"
+          style={[styles.message, { color: theme.textSecondary }]}
+        >
+          Nothing was changed. Your existing records are untouched and a copy
+          was saved before the upgrade started.
+        </ThemedText>
+
+        {versionInfo ? (
+          <ThemedText
+            type="small"
+            style={[styles.message, { color: theme.textSecondary }]}
+          >
+            {versionInfo}
+          </ThemedText>
+        ) : null}
+
+        <Pressable
+          onPress={onRetry}
+          style={({ pressed }) => [
+            styles.button,
+            { backgroundColor: theme.link, opacity: pressed ? 0.9 : 1 },
+          ]}
+        >
+          <ThemedText
+            type="body"
+            style={[styles.buttonText, { color: theme.buttonText }]}
+          >
+            Try Again
+          </ThemedText>
+        </Pressable>
+
+        <Pressable onPress={() => setShowDetails(!showDetails)}>
+          <ThemedText type="link">
+            {showDetails ? "Hide details" : "Show details"}
+          </ThemedText>
+        </Pressable>
+
+        {showDetails ? (
+          <ScrollView
+            style={[
+              styles.details,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+            contentContainerStyle={{ padding: Spacing.lg }}
+          >
+            <Text
+              style={[
+                styles.detailsText,
+                { color: theme.text, fontFamily: Fonts?.mono || "monospace" },
+              ]}
+              selectable
+            >
+              {error.message}
+            </Text>
+          </ScrollView>
+        ) : null}
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing["2xl"],
+  },
+  content: {
+    alignItems: "center",
+    gap: Spacing.lg,
+    width: "100%",
+    maxWidth: 600,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  title: {
+    textAlign: "center",
+  },
+  message: {
+    textAlign: "center",
+    lineHeight: 24,
+  },
+  button: {
+    paddingVertical: Spacing.lg,
+    paddingHorizontal: Spacing["2xl"],
+    borderRadius: BorderRadius.md,
+    minWidth: 200,
+  },
+  buttonText: {
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  details: {
+    width: "100%",
+    maxHeight: 200,
+    borderRadius: BorderRadius.md,
+  },
+  detailsText: {
+    fontSize: 12,
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,325 @@
+import React, { useState, useLayoutEffect, useMemo } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { storage } from "@/utils/storage";
+import { useCustomer, useProfile, usePurchases } from "@/hooks/useStore";
+import { formatCurrency, formatDate } from "@/utils/format";
+import {
+  Money,
+  compare,
+  isPositive,
+  min,
+  parseMoney,
+  subtract,
+  sum,
+} from "@/utils/money";
+import { openTransactions, pendingOf } from "@/utils/allocation";
+import { SupplierPayment } from "@/types";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type PaySupplierRouteProp = RouteProp<RootStackParamList, "PaySupplier">;
+
+const PAYMENT_METHODS: { key: SupplierPayment["method"]; label: string }[] = [
+  { key: "cash", label: "Cash" },
+  { key: "upi", label: "UPI" },
+  { key: "bank", label: "Bank" },
+  { key: "other", label: "Other" },
+];
+
+export default function PaySupplierScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<PaySupplierRouteProp>();
+  const { theme } = useTheme();
+  const { supplierId, purchaseId } = route.params;
+  const supplier = useCustomer(supplierId);
+  const purchases = usePurchases({ customerId: supplierId });
+  const { currency } = useProfile();
+
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<SupplierPayment["method"]>("bank");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const open = useMemo(
+    () =>
+      openTransactions(
+        purchases.filter((p) => !purchaseId || p.id === purchaseId),
+      ),
+    [purchases, purchaseId],
+  );
+  const outstanding = sum(open.map(pendingOf), currency);
+  const paying = parseMoney(amount, currency);
+
+  // The same oldest-first split storage.paySupplier makes, for the preview.
+  const shares = new Map<string, Money>();
+  if (paying && isPositive(paying)) {
+    let remaining = paying;
+    for (const bill of open) {
+      if (!isPositive(remaining)) break;
+      const share = min(remaining, pendingOf(bill));
+      shares.set(bill.id, share);
+      remaining = subtract(remaining, share);
+    }
+  }
+
+  const handleSave = async () => {
+    if (!paying || !isPositive(paying)) {
+      Alert.alert("Invalid", "Please enter a valid amount.");
+      return;
+    }
+    if (compare(paying, outstanding) > 0) {
+      Alert.alert(
+        "Invalid",
+        `Only ${formatCurrency(outstanding)} is owed to this supplier.`,
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const paid = await storage.paySupplier(
+        supplierId,
+        {
+          amount: paying,
+          method,
+          date: new Date().toISOString(),
+          notes: notes.trim() || undefined,
+        },
+        purchaseId,
+      );
+      if (!paid) {
+        Alert.alert(
+          "Invalid",
+          "That is more than is now owed to this supplier.",
+        );
+        return;
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to record payment. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={{ padding: Spacing.sm }}
+        >
+          <ThemedText type="body" style={{ color: theme.text }}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+      ),
+      headerRight: () => (
+        <Pressable
+          onPress={handleSave}
+          disabled={isSaving}
+          style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
+        >
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </ThemedText>
+        </Pressable>
+      ),
+    });
+  }, [navigation, amount, method, notes, purchases, currency, isSaving, theme]);
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View
+        style={[styles.totalCard, { backgroundColor: theme.backgroundDefault }]}
+      >
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          {supplier ? `You owe ${supplier.name}` : "You owe"}
+        </ThemedText>
+        <ThemedText type="h3" style={{ color: AppColors.warning }}>
+          {formatCurrency(outstanding)}
+        </ThemedText>
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Amount Paid
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={amount}
+          onChangeText={setAmount}
+          placeholder={`${formatCurrency(outstanding)} owed`}
+          placeholderTextColor={theme.textSecondary}
+          keyboardType="numeric"
+        />
+      </View>
+
+      <View style={[styles.section, styles.chipRow]}>
+        {PAYMENT_METHODS.map((option) => (
+          <Pressable
+            key={option.key}
+            onPress={() => setMethod(option.key)}
+            style={[
+              styles.chip,
+              {
+                backgroundColor:
+                  method === option.key
+                    ? AppColors.primary
+                    : theme.backgroundSecondary,
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: method === option.key ? "#FFFFFF" : theme.text }}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Notes (Optional)
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="e.g., cheque or reference number"
+          placeholderTextColor={theme.textSecondary}
+        />
+      </View>
+
+      <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
+        {purchaseId ? "Bill" : "Bills, Oldest First"}
+      </ThemedText>
+      {open.length === 0 ? (
+        <View
+          style={[
+            styles.emptyState,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Nothing is owed to this supplier right now.
+          </ThemedText>
+        </View>
+      ) : (
+        <View style={styles.billList}>
+          {open.map((bill, index) => {
+            const share = shares.get(bill.id);
+            return (
+              <Animated.View
+                key={bill.id}
+                entering={FadeInDown.delay(100 + index * 50).springify()}
+              >
+                <View
+                  style={[
+                    styles.billRow,
+                    { backgroundColor: theme.backgroundDefault },
+                  ]}
+                >
+                  <View style={styles.billInfo}>
+                    <ThemedText type="body" style={{ fontWeight: "600" }}>
+                      {bill.billNumber ? `#${bill.billNumber} · ` : ""}
+                      {formatDate(bill.date)}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {formatCurrency(pendingOf(bill))} due of{" "}
+                      {formatCurrency(bill.totalAmount)}
+                    </ThemedText>
+                  </View>
+                  <ThemedText
+                    type="body"
+                    style={{
+                      fontWeight: "600",
+                      color: share ? AppColors.secondary : theme.textSecondary,
+                    }}
+                  >
+                    {share ? formatCurrency(share) : "—"}
+                  </ThemedText>
+                </View>
+              </Animated.View>
+            );
+          })}
+        </View>
+      )}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  totalCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+    marginBottom: Spacing["2xl"],
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  billList: {
+    gap: Spacing.sm,
+  },
+  billRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  billInfo: {
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: Spacing["2xl"],
+    borderRadius: BorderRadius.lg,
+  },
+});
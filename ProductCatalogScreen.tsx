@@ -0,0 +1,259 @@
+import React, { useLayoutEffect, useMemo } from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenFlatList } from "@/components/ScreenFlatList";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  useProducts,
+  useStockMovements,
+  useTransactions,
+} from "@/hooks/useStore";
+import { clusterProductNames } from "@/utils/catalog";
+import { getStockLevels, isLowStock } from "@/utils/stock";
+import { formatCurrency } from "@/utils/format";
+import { Product } from "@/types";
+import { ProfileStackParamList, RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+function ProductCard({
+  product,
+  onHand,
+  index,
+  onPress,
+  onAdjustStock,
+}: {
+  product: Product;
+  onHand: number;
+  index: number;
+  onPress: () => void;
+  onAdjustStock: () => void;
+}) {
+  const { theme } = useTheme();
+  const details = [product.sku, product.category].filter(Boolean).join(" · ");
+
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 30).springify()}>
+      <Pressable
+        onPress={onPress}
+        style={({ pressed }) => [
+          styles.card,
+          {
+            backgroundColor: theme.backgroundDefault,
+            opacity: pressed ? 0.9 : product.active ? 1 : 0.6,
+          },
+        ]}
+      >
+        <View style={styles.cardContent}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {product.name}
+          </ThemedText>
+          {details ? (
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {details}
+            </ThemedText>
+          ) : null}
+          {!product.active ? (
+            <ThemedText type="small" style={{ color: AppColors.warning }}>
+              Inactive
+            </ThemedText>
+          ) : null}
+        </View>
+        <View style={styles.cardSide}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {formatCurrency(product.defaultPrice)}
+            {product.unit ? ` / ${product.unit}` : ""}
+          </ThemedText>
+          {product.trackStock ? (
+            <ThemedText
+              type="small"
+              style={{
+                color:
+                  onHand < 0 || isLowStock(product, onHand)
+                    ? AppColors.warning
+                    : theme.textSecondary,
+              }}
+            >
+              {onHand} in stock
+            </ThemedText>
+          ) : null}
+        </View>
+        {product.trackStock ? (
+          <Pressable
+            onPress={onAdjustStock}
+            style={[
+              styles.iconButton,
+              { backgroundColor: AppColors.primary + "20" },
+            ]}
+          >
+            <Feather name="box" size={18} color={AppColors.primary} />
+          </Pressable>
+        ) : null}
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+export default function ProductCatalogScreen() {
+  const navigation = useNavigation<NavigationProp<ProfileStackParamList>>();
+  const rootNavigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+  const products = useProducts();
+  const transactions = useTransactions();
+  const movements = useStockMovements();
+  const levels = useMemo(() => getStockLevels(movements), [movements]);
+
+  const sorted = useMemo(
+    () =>
+      [...products].sort(
+        (a, b) =>
+          Number(b.active) - Number(a.active) || a.name.localeCompare(b.name),
+      ),
+    [products],
+  );
+  const clusters = useMemo(
+    () => clusterProductNames(transactions, products),
+    [transactions, products],
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <Pressable
+          onPress={() => rootNavigation.navigate("ProductForm", {})}
+          style={{ padding: Spacing.sm }}
+        >
+          <Feather name="plus" size={22} color={AppColors.primary} />
+        </Pressable>
+      ),
+    });
+  }, [navigation, rootNavigation]);
+
+  return (
+    <ScreenFlatList
+      data={sorted}
+      keyExtractor={(item) => item.id}
+      contentContainerStyle={styles.listContent}
+      ListHeaderComponent={
+        <>
+          {products.some((p) => p.trackStock) ? (
+            <Pressable
+              onPress={() => navigation.navigate("StockReport")}
+              style={[
+                styles.linkCard,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <Feather name="bar-chart-2" size={20} color={AppColors.primary} />
+              <View style={styles.cardContent}>
+                <ThemedText type="body">Stock report</ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Stock on hand and its value
+                </ThemedText>
+              </View>
+              <Feather
+                name="chevron-right"
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+          ) : null}
+          {clusters.length > 0 ? (
+            <Pressable
+              onPress={() => navigation.navigate("CatalogImport")}
+              style={[
+                styles.linkCard,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <Feather name="layers" size={20} color={AppColors.primary} />
+              <View style={styles.cardContent}>
+                <ThemedText type="body">Build from past sales</ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {clusters.length} name{clusters.length === 1 ? "" : "s"} in
+                  past transactions not linked to the catalog
+                </ThemedText>
+              </View>
+              <Feather
+                name="chevron-right"
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+          ) : null}
+        </>
+      }
+      renderItem={({ item, index }) => (
+        <ProductCard
+          product={item}
+          onHand={levels.get(item.id) || 0}
+          index={index}
+          onPress={() =>
+            rootNavigation.navigate("ProductForm", { product: item })
+          }
+          onAdjustStock={() =>
+            rootNavigation.navigate("StockAdjust", { productId: item.id })
+          }
+        />
+      )}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Feather name="package" size={48} color={theme.textSecondary} />
+          <ThemedText
+            type="body"
+            style={{
+              color: theme.textSecondary,
+              marginTop: Spacing.md,
+              textAlign: "center",
+            }}
+          >
+            No products yet. Add the things you sell to pick them quickly in
+            transactions.
+          </ThemedText>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    gap: Spacing.sm,
+  },
+  linkCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  cardContent: {
+    flex: 1,
+  },
+  cardSide: {
+    alignItems: "flex-end",
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing["5xl"],
+    paddingHorizontal: Spacing["2xl"],
+  },
+});
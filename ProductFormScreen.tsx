@@ -0,0 +1,378 @@
+import React, { useState, useLayoutEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  Alert,
+  Switch,
+} from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useProducts, useProfile } from "@/hooks/useStore";
+import { storage } from "@/utils/storage";
+import { findProductByName } from "@/utils/catalog";
+import { isNegative, parseMoney, toMajor } from "@/utils/money";
+import { parseQuantity } from "@/utils/stock";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type ProductFormRouteProp = RouteProp<RootStackParamList, "ProductForm">;
+
+interface FormData {
+  name: string;
+  sku: string;
+  unit: string;
+  defaultPrice: string;
+  costPrice: string;
+  category: string;
+  hsnCode: string;
+  taxRate: string;
+  lowStockThreshold: string;
+  openingStock: string;
+}
+
+function StockField({
+  label,
+  value,
+  onChangeText,
+  placeholder,
+}: {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  placeholder: string;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <View>
+      <ThemedText
+        type="small"
+        style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+      >
+        {label}
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.input,
+          { backgroundColor: theme.backgroundDefault, color: theme.text },
+        ]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={theme.textSecondary}
+        keyboardType="numeric"
+      />
+    </View>
+  );
+}
+
+export default function ProductFormScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<ProductFormRouteProp>();
+  const { theme } = useTheme();
+  const { product: editing } = route.params;
+  const products = useProducts();
+  const profile = useProfile();
+  // An existing product keeps its own currency.
+  const currency = editing ? editing.defaultPrice.currency : profile.currency;
+
+  const [formData, setFormData] = useState<FormData>({
+    name: editing?.name || "",
+    sku: editing?.sku || "",
+    unit: editing?.unit || "",
+    defaultPrice: editing ? String(toMajor(editing.defaultPrice)) : "",
+    costPrice: editing?.costPrice ? String(toMajor(editing.costPrice)) : "",
+    category: editing?.category || "",
+    hsnCode: editing?.hsnCode || "",
+    taxRate: editing?.taxRate !== undefined ? String(editing.taxRate) : "",
+    lowStockThreshold:
+      editing?.lowStockThreshold !== undefined
+        ? String(editing.lowStockThreshold)
+        : "",
+    openingStock: "",
+  });
+  const [active, setActive] = useState(editing?.active ?? true);
+  const [trackStock, setTrackStock] = useState(editing?.trackStock ?? false);
+  const [isSaving, setIsSaving] = useState(false);
+  const showTax = !!profile.gstin || editing?.taxRate !== undefined;
+
+  const updateField = (field: keyof FormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    const name = formData.name.trim();
+    if (!name) {
+      Alert.alert("Required", "Please enter a product name.");
+      return;
+    }
+    const defaultPrice = parseMoney(formData.defaultPrice, currency);
+    if (!defaultPrice || isNegative(defaultPrice)) {
+      Alert.alert("Invalid", "Please enter a valid default price.");
+      return;
+    }
+    const costPrice = formData.costPrice.trim()
+      ? parseMoney(formData.costPrice, currency)
+      : undefined;
+    if (costPrice === null || (costPrice && isNegative(costPrice))) {
+      Alert.alert(
+        "Invalid",
+        "Please enter a valid cost price, or leave it blank.",
+      );
+      return;
+    }
+    const duplicate = findProductByName(products, name);
+    if (duplicate && duplicate.id !== editing?.id) {
+      Alert.alert(
+        "Already in Catalog",
+        `"${duplicate.name}" is already in your catalog.`,
+      );
+      return;
+    }
+
+    const taxRate = formData.taxRate.trim()
+      ? parseFloat(formData.taxRate)
+      : undefined;
+    if (
+      taxRate !== undefined &&
+      (Number.isNaN(taxRate) || taxRate < 0 || taxRate > 100)
+    ) {
+      Alert.alert("Invalid", "Please enter a GST rate between 0 and 100.");
+      return;
+    }
+
+    const threshold = formData.lowStockThreshold.trim()
+      ? parseQuantity(formData.lowStockThreshold)
+      : undefined;
+    const openingStock = formData.openingStock.trim()
+      ? parseQuantity(formData.openingStock)
+      : 0;
+    if (trackStock && (threshold === null || openingStock === null)) {
+      Alert.alert("Invalid", "Please enter stock quantities as numbers.");
+      return;
+    }
+
+    const fields = {
+      name,
+      sku: formData.sku.trim() || undefined,
+      unit: formData.unit.trim() || undefined,
+      defaultPrice,
+      costPrice,
+      category: formData.category.trim() || undefined,
+      hsnCode: formData.hsnCode.trim() || undefined,
+      taxRate,
+      active,
+      trackStock,
+      lowStockThreshold: trackStock ? (threshold ?? undefined) : undefined,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await storage.updateProduct(editing.id, fields);
+      } else {
+        const product = await storage.addProduct(fields);
+        if (trackStock && openingStock) {
+          await storage.adjustStock(
+            product.id,
+            openingStock,
+            "adjustment",
+            "Opening stock",
+          );
+        }
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to save product. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: editing ? "Edit Product" : "Add Product",
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={{ padding: Spacing.sm }}
+        >
+          <ThemedText type="body" style={{ color: theme.text }}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+      ),
+      headerRight: () => (
+        <Pressable
+          onPress={handleSave}
+          disabled={isSaving}
+          style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
+        >
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </ThemedText>
+        </Pressable>
+      ),
+    });
+  }, [navigation, formData, active, trackStock, products, isSaving, theme]);
+
+  const fields: {
+    key: keyof FormData;
+    label: string;
+    placeholder: string;
+    numeric?: boolean;
+    tax?: boolean;
+  }[] = [
+    { key: "name", label: "Name *", placeholder: "e.g., Rice 25kg" },
+    {
+      key: "defaultPrice",
+      label: "Default Price *",
+      placeholder: "0",
+      numeric: true,
+    },
+    {
+      key: "costPrice",
+      label: "Cost Price",
+      placeholder: "What one costs you",
+      numeric: true,
+    },
+    { key: "unit", label: "Unit", placeholder: "e.g., kg, box, piece" },
+    { key: "sku", label: "SKU", placeholder: "Stock keeping unit" },
+    { key: "category", label: "Category", placeholder: "e.g., Grains" },
+    {
+      key: "hsnCode",
+      label: "HSN/SAC Code",
+      placeholder: "e.g., 1006",
+      numeric: true,
+      tax: true,
+    },
+    {
+      key: "taxRate",
+      label: "GST Rate (%)",
+      placeholder: "e.g., 5",
+      numeric: true,
+      tax: true,
+    },
+  ];
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View style={styles.form}>
+        {fields
+          .filter((field) => showTax || !field.tax)
+          .map((field) => (
+            <View key={field.key}>
+              <ThemedText
+                type="small"
+                style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+              >
+                {field.label}
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    color: theme.text,
+                  },
+                ]}
+                value={formData[field.key]}
+                onChangeText={(text) => updateField(field.key, text)}
+                placeholder={field.placeholder}
+                placeholderTextColor={theme.textSecondary}
+                keyboardType={field.numeric ? "numeric" : "default"}
+                autoCapitalize={
+                  field.key === "sku" ? "characters" : "sentences"
+                }
+              />
+            </View>
+          ))}
+        <View
+          style={[
+            styles.switchRow,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={{ flex: 1 }}>
+            <ThemedText type="body">Active</ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Inactive products are not suggested for new transactions.
+            </ThemedText>
+          </View>
+          <Switch
+            value={active}
+            onValueChange={setActive}
+            trackColor={{ true: AppColors.primary }}
+          />
+        </View>
+        <View
+          style={[
+            styles.switchRow,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={{ flex: 1 }}>
+            <ThemedText type="body">Track Stock</ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Sales reduce stock on hand. Leave off for services.
+            </ThemedText>
+          </View>
+          <Switch
+            value={trackStock}
+            onValueChange={setTrackStock}
+            trackColor={{ true: AppColors.primary }}
+          />
+        </View>
+        {trackStock ? (
+          <>
+            <StockField
+              label="Low Stock Alert At"
+              value={formData.lowStockThreshold}
+              onChangeText={(text) => updateField("lowStockThreshold", text)}
+              placeholder="No alert"
+            />
+            {editing ? null : (
+              <StockField
+                label="Opening Stock"
+                value={formData.openingStock}
+                onChangeText={(text) => updateField("openingStock", text)}
+                placeholder="0"
+              />
+            )}
+          </>
+        ) : null}
+      </View>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  form: {
+    gap: Spacing.lg,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+});
@@ -1,6 +1,17 @@
 import React, { useState, useCallback } from "react";
-import { View, StyleSheet, Pressable, TextInput, Alert, Switch } from "react-native";
-import { useFocusEffect } from "@react-navigation/native";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  Alert,
+  Switch,
+} from "react-native";
+import {
+  useFocusEffect,
+  useNavigation,
+  NavigationProp,
+} from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import Animated, { FadeInDown } from "react-native-reanimated";
@@ -9,12 +20,33 @@ import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { storage, UserProfile } from "@/utils/storage";
 import { getInitials } from "@/utils/format";
+import {
+  INDIAN_STATES,
+  findStateCode,
+  normalizeGstin,
+  stateFromGstin,
+  validateGstin,
+} from "@/utils/gst";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import { ProfileStackParamList } from "@/navigation/types";
 import {
   isNotificationsEnabled,
   setNotificationsEnabled,
   requestNotificationPermissions,
 } from "@/utils/notifications";
+import {
+  BackupArchive,
+  BackupError,
+  describeRestoreSummary,
+  pickBackup,
+  restoreBackup,
+  RestoreMode,
+  RestoreSummary,
+  shareBackup,
+  summarizeRestore,
+} from "@/utils/backup";
+
+const stateName = (code?: string) => (code ? INDIAN_STATES[code] || code : "");
 
 function SettingsItem({
   icon,
@@ -38,10 +70,18 @@ function SettingsItem({
         disabled={!onPress}
         style={({ pressed }) => [
           styles.settingsItem,
-          { backgroundColor: theme.backgroundDefault, opacity: pressed && onPress ? 0.9 : 1 },
+          {
+            backgroundColor: theme.backgroundDefault,
+            opacity: pressed && onPress ? 0.9 : 1,
+          },
         ]}
       >
-        <View style={[styles.settingsIcon, { backgroundColor: AppColors.primary + "20" }]}>
+        <View
+          style={[
+            styles.settingsIcon,
+            { backgroundColor: AppColors.primary + "20" },
+          ]}
+        >
           <Feather name={icon} size={20} color={AppColors.primary} />
         </View>
         <View style={styles.settingsContent}>
@@ -61,6 +101,7 @@ function SettingsItem({
 }
 
 export default function ProfileScreen() {
+  const navigation = useNavigation<NavigationProp<ProfileStackParamList>>();
   const { theme } = useTheme();
   const [profile, setProfile] = useState<UserProfile>({
     name: "",
@@ -69,6 +110,7 @@ export default function ProfileScreen() {
   });
   const [isEditing, setIsEditing] = useState(false);
   const [editedProfile, setEditedProfile] = useState(profile);
+  const [stateInput, setStateInput] = useState("");
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
 
   const loadProfile = useCallback(async () => {
@@ -78,23 +120,45 @@ export default function ProfileScreen() {
     ]);
     setProfile(data);
     setEditedProfile(data);
+    setStateInput(stateName(data.state));
     setNotificationsEnabled(notifEnabled);
   }, []);
 
   useFocusEffect(
     useCallback(() => {
       loadProfile();
-    }, [loadProfile])
+    }, [loadProfile]),
   );
 
   const handleSave = async () => {
-    await storage.saveProfile(editedProfile);
-    setProfile(editedProfile);
+    const gstin = normalizeGstin(editedProfile.gstin || "");
+    const gstinError = gstin ? validateGstin(gstin) : null;
+    if (gstinError) {
+      Alert.alert("Invalid GSTIN", gstinError);
+      return;
+    }
+    const state = stateInput.trim()
+      ? findStateCode(stateInput)
+      : stateFromGstin(gstin);
+    if (stateInput.trim() && !state) {
+      Alert.alert(
+        "Invalid",
+        "Please enter the state's full name or its two-digit GST code.",
+      );
+      return;
+    }
+
+    const updated = { ...editedProfile, gstin: gstin || undefined, state };
+    await storage.saveProfile(updated);
+    setProfile(updated);
+    setEditedProfile(updated);
+    setStateInput(stateName(state));
     setIsEditing(false);
   };
 
   const handleCancel = () => {
     setEditedProfile(profile);
+    setStateInput(stateName(profile.state));
     setIsEditing(false);
   };
 
@@ -107,12 +171,21 @@ export default function ProfileScreen() {
       currencies.map((curr) => ({
         text: curr,
         onPress: async () => {
-          const newProfile = { ...profile, currency: curr };
-          await storage.saveProfile(newProfile);
-          setProfile(newProfile);
-          setEditedProfile(newProfile);
+          if (curr === profile.currency) return;
+          try {
+            // Stored amounts are relabelled, not converted: the numbers stay the same.
+            await storage.setCurrency(curr);
+            const newProfile = { ...profile, currency: curr };
+            setProfile(newProfile);
+            setEditedProfile(newProfile);
+          } catch (error) {
+            Alert.alert(
+              "Error",
+              "Failed to change the currency. Please try again.",
+            );
+          }
         },
-      }))
+      })),
     );
   };
 
@@ -122,9 +195,15 @@ export default function ProfileScreen() {
       if (granted) {
         await setNotificationsEnabled(true);
         setNotificationsEnabled(true);
-        Alert.alert("Success", "Notifications enabled. You'll receive alerts for pending payments.");
+        Alert.alert(
+          "Success",
+          "Notifications enabled. You'll receive alerts for pending payments.",
+        );
       } else {
-        Alert.alert("Permission Denied", "Please enable notifications in settings to receive alerts.");
+        Alert.alert(
+          "Permission Denied",
+          "Please enable notifications in settings to receive alerts.",
+        );
       }
     } else {
       await setNotificationsEnabled(false);
@@ -132,10 +211,92 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleBackup = async () => {
+    try {
+      await shareBackup(profile.businessName);
+    } catch (error) {
+      Alert.alert("Error", "Failed to create backup. Please try again.");
+    }
+  };
+
+  const confirmRestore = async (archive: BackupArchive, mode: RestoreMode) => {
+    let summary: RestoreSummary;
+    try {
+      summary = await summarizeRestore(archive, mode);
+    } catch (error) {
+      Alert.alert(
+        "Cannot Restore",
+        error instanceof BackupError
+          ? error.message
+          : "The backup could not be read.",
+      );
+      return;
+    }
+    Alert.alert(
+      mode === "replace" ? "Replace All Data?" : "Merge Backup?",
+      describeRestoreSummary(summary),
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          style: mode === "replace" ? "destructive" : "default",
+          onPress: async () => {
+            try {
+              await restoreBackup(archive, mode);
+              await loadProfile();
+              Alert.alert("Restored", "Your backup has been restored.");
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                "Failed to restore backup. Your data was not changed.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleRestore = async () => {
+    let archive: BackupArchive | null;
+    try {
+      archive = await pickBackup();
+    } catch (error) {
+      Alert.alert(
+        "Invalid Backup",
+        error instanceof BackupError
+          ? error.message
+          : "The backup file could not be opened.",
+      );
+      return;
+    }
+    if (!archive) return;
+    const selected = archive;
+
+    Alert.alert(
+      "Restore Backup",
+      "Merge keeps your current data and adds or updates records from the backup. Replace deletes everything first.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Merge", onPress: () => confirmRestore(selected, "merge") },
+        {
+          text: "Replace",
+          style: "destructive",
+          onPress: () => confirmRestore(selected, "replace"),
+        },
+      ],
+    );
+  };
+
   return (
     <ScreenKeyboardAwareScrollView>
       <Animated.View entering={FadeInDown.delay(100).springify()}>
-        <View style={[styles.profileCard, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[
+            styles.profileCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
           <LinearGradient
             colors={[AppColors.primary, AppColors.primaryEnd]}
             start={{ x: 0, y: 0 }}
@@ -160,7 +321,10 @@ export default function ProfileScreen() {
                 <TextInput
                   style={[
                     styles.input,
-                    { backgroundColor: theme.backgroundSecondary, color: theme.text },
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      color: theme.text,
+                    },
                   ]}
                   value={editedProfile.name}
                   onChangeText={(text) =>
@@ -177,7 +341,10 @@ export default function ProfileScreen() {
                 <TextInput
                   style={[
                     styles.input,
-                    { backgroundColor: theme.backgroundSecondary, color: theme.text },
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      color: theme.text,
+                    },
                   ]}
                   value={editedProfile.businessName}
                   onChangeText={(text) =>
@@ -187,16 +354,61 @@ export default function ProfileScreen() {
                   placeholderTextColor={theme.textSecondary}
                 />
               </View>
+              <View style={styles.inputGroup}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  GSTIN
+                </ThemedText>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      color: theme.text,
+                    },
+                  ]}
+                  value={editedProfile.gstin || ""}
+                  onChangeText={(text) =>
+                    setEditedProfile({ ...editedProfile, gstin: text })
+                  }
+                  placeholder="Add to charge GST on sales"
+                  placeholderTextColor={theme.textSecondary}
+                  autoCapitalize="characters"
+                />
+              </View>
+              <View style={styles.inputGroup}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  State
+                </ThemedText>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      color: theme.text,
+                    },
+                  ]}
+                  value={stateInput}
+                  onChangeText={setStateInput}
+                  placeholder="Taken from the GSTIN if left empty"
+                  placeholderTextColor={theme.textSecondary}
+                />
+              </View>
               <View style={styles.buttonRow}>
                 <Pressable
                   onPress={handleCancel}
-                  style={[styles.button, { backgroundColor: theme.backgroundSecondary }]}
+                  style={[
+                    styles.button,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
                 >
                   <ThemedText type="body">Cancel</ThemedText>
                 </Pressable>
                 <Pressable
                   onPress={handleSave}
-                  style={[styles.button, { backgroundColor: AppColors.primary }]}
+                  style={[
+                    styles.button,
+                    { backgroundColor: AppColors.primary },
+                  ]}
                 >
                   <ThemedText type="body" style={{ color: "#FFFFFF" }}>
                     Save
@@ -212,12 +424,23 @@ export default function ProfileScreen() {
               <ThemedText type="body" style={{ color: theme.textSecondary }}>
                 {profile.businessName || "Set Business Name"}
               </ThemedText>
+              {profile.gstin ? (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  GSTIN {profile.gstin}
+                </ThemedText>
+              ) : null}
               <Pressable
                 onPress={() => setIsEditing(true)}
-                style={[styles.editButton, { backgroundColor: AppColors.primary + "20" }]}
+                style={[
+                  styles.editButton,
+                  { backgroundColor: AppColors.primary + "20" },
+                ]}
               >
                 <Feather name="edit-2" size={16} color={AppColors.primary} />
-                <ThemedText type="small" style={{ color: AppColors.primary, marginLeft: 6 }}>
+                <ThemedText
+                  type="small"
+                  style={{ color: AppColors.primary, marginLeft: 6 }}
+                >
                   Edit Profile
                 </ThemedText>
               </Pressable>
@@ -244,6 +467,13 @@ export default function ProfileScreen() {
             value="Enabled"
             index={1}
           />
+          <SettingsItem
+            icon="package"
+            title="Products"
+            value="Catalog of the things you sell"
+            onPress={() => navigation.navigate("ProductCatalog")}
+            index={2}
+          />
         </View>
       </View>
 
@@ -256,13 +486,35 @@ export default function ProfileScreen() {
             icon="download"
             title="Export Data"
             value="Coming soon"
-            index={2}
+            index={3}
           />
           <SettingsItem
             icon="upload-cloud"
             title="Backup"
-            value="Coming soon"
-            index={3}
+            value="Save all data to a file"
+            onPress={handleBackup}
+            index={4}
+          />
+          <SettingsItem
+            icon="download-cloud"
+            title="Restore"
+            value="Load data from a backup file"
+            onPress={handleRestore}
+            index={5}
+          />
+          <SettingsItem
+            icon="trash-2"
+            title="Trash"
+            value="Restore deleted customers"
+            onPress={() => navigation.navigate("Trash")}
+            index={6}
+          />
+          <SettingsItem
+            icon="activity"
+            title="Check Data"
+            value="Find and repair inconsistencies"
+            onPress={() => navigation.navigate("Diagnostics")}
+            index={7}
           />
         </View>
       </View>
@@ -276,13 +528,9 @@ export default function ProfileScreen() {
             icon="info"
             title="App Version"
             value="1.0.0"
-            index={4}
-          />
-          <SettingsItem
-            icon="help-circle"
-            title="Help & Support"
-            index={5}
+            index={8}
           />
+          <SettingsItem icon="help-circle" title="Help & Support" index={9} />
         </View>
       </View>
     </ScreenKeyboardAwareScrollView>
@@ -1,6 +1,11 @@
 import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import ProfileScreen from "@/screens/ProfileScreen";
+import TrashScreen from "@/screens/TrashScreen";
+import DiagnosticsScreen from "@/screens/DiagnosticsScreen";
+import ProductCatalogScreen from "@/screens/ProductCatalogScreen";
+import CatalogImportScreen from "@/screens/CatalogImportScreen";
+import StockReportScreen from "@/screens/StockReportScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "@/navigation/screenOptions";
 import { ProfileStackParamList } from "@/navigation/types";
@@ -23,6 +28,41 @@ export default function ProfileStackNavigator() {
           title: "Profile",
         }}
       />
+      <Stack.Screen
+        name="Trash"
+        component={TrashScreen}
+        options={{
+          title: "Trash",
+        }}
+      />
+      <Stack.Screen
+        name="Diagnostics"
+        component={DiagnosticsScreen}
+        options={{
+          title: "Check Data",
+        }}
+      />
+      <Stack.Screen
+        name="ProductCatalog"
+        component={ProductCatalogScreen}
+        options={{
+          title: "Products",
+        }}
+      />
+      <Stack.Screen
+        name="CatalogImport"
+        component={CatalogImportScreen}
+        options={{
+          title: "Build Catalog",
+        }}
+      />
+      <Stack.Screen
+        name="StockReport"
+        component={StockReportScreen}
+        options={{
+          title: "Stock Report",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -0,0 +1,446 @@
+import React, { useLayoutEffect } from "react";
+import { View, StyleSheet, Pressable, Alert } from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { storage } from "@/utils/storage";
+import { useProfile, useQuotation, useTransaction } from "@/hooks/useStore";
+import { formatCurrency, formatDate } from "@/utils/format";
+import { summarizeTax } from "@/utils/gst";
+import { describeDiscount } from "@/utils/pricing";
+import { QUOTATION_STATUS_LABELS, quotationStatus } from "@/utils/quotations";
+import { Money, isPositive } from "@/utils/money";
+import { QuotationStatus } from "@/types";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type QuotationDetailRouteProp = RouteProp<
+  RootStackParamList,
+  "QuotationDetail"
+>;
+
+const STATUS_COLORS: Record<QuotationStatus, string> = {
+  draft: AppColors.primary,
+  sent: AppColors.warning,
+  accepted: AppColors.secondary,
+  expired: AppColors.error,
+};
+
+export default function QuotationDetailScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<QuotationDetailRouteProp>();
+  const { theme } = useTheme();
+  const { quotationId, customerName } = route.params;
+  const quotation = useQuotation(quotationId);
+  const transaction = useTransaction(quotation?.transactionId || "");
+  const profile = useProfile();
+
+  const handleEdit = () => {
+    if (!quotation) return;
+    navigation.navigate("AddTransaction", {
+      customerId: quotation.customerId,
+      quotation,
+      asQuotation: true,
+    });
+  };
+
+  const handleDelete = () => {
+    if (!quotation) return;
+    Alert.alert(
+      "Delete Quotation",
+      quotation.transactionId
+        ? "Delete this quotation? The transaction made from it is kept."
+        : "Delete this quotation? This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await storage.deleteQuotation(quotation.id);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                "Failed to delete quotation. Please try again.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <View style={styles.headerActions}>
+          {quotation && quotation.status !== "accepted" ? (
+            <Pressable onPress={handleEdit} style={{ padding: Spacing.sm }}>
+              <Feather name="edit-2" size={20} color={theme.text} />
+            </Pressable>
+          ) : null}
+          <Pressable onPress={handleDelete} style={{ padding: Spacing.sm }}>
+            <Feather name="trash-2" size={20} color={AppColors.error} />
+          </Pressable>
+        </View>
+      ),
+    });
+  }, [navigation, quotation, theme]);
+
+  if (!quotation) {
+    return (
+      <ScreenScrollView>
+        <ThemedText
+          type="body"
+          style={{ color: theme.textSecondary, textAlign: "center" }}
+        >
+          This quotation no longer exists.
+        </ThemedText>
+      </ScreenScrollView>
+    );
+  }
+
+  const status = quotationStatus(quotation);
+  const statusColor = STATUS_COLORS[status];
+  const tax = summarizeTax(quotation.products, quotation.totalAmount.currency);
+  const taxRows: { label: string; amount: Money }[] = [
+    { label: "CGST", amount: tax.cgst },
+    { label: "SGST", amount: tax.sgst },
+    { label: "IGST", amount: tax.igst },
+  ].filter((row) => isPositive(row.amount));
+
+  const handleMarkSent = async () => {
+    try {
+      await storage.updateQuotation(quotation.id, { status: "sent" });
+    } catch (error) {
+      Alert.alert("Error", "Failed to update quotation. Please try again.");
+    }
+  };
+
+  const convert = () =>
+    navigation.navigate("AddTransaction", {
+      customerId: quotation.customerId,
+      quotation,
+    });
+
+  const handleConvert = () => {
+    if (status !== "expired") {
+      convert();
+      return;
+    }
+    Alert.alert(
+      "Quotation Expired",
+      `This quotation was valid until ${formatDate(quotation.validUntil)}. Convert it anyway?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Convert", onPress: convert },
+      ],
+    );
+  };
+
+  return (
+    <ScreenScrollView>
+      <Animated.View entering={FadeInDown.delay(100).springify()}>
+        <View
+          style={[
+            styles.headerCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={styles.headerTop}>
+            <View>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Quotation for
+              </ThemedText>
+              <ThemedText type="h4">{customerName}</ThemedText>
+            </View>
+            <View
+              style={[
+                styles.statusBadge,
+                { backgroundColor: statusColor + "20" },
+              ]}
+            >
+              <ThemedText
+                type="small"
+                style={{ color: statusColor, fontWeight: "600" }}
+              >
+                {QUOTATION_STATUS_LABELS[status]}
+              </ThemedText>
+            </View>
+          </View>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginTop: Spacing.sm }}
+          >
+            {formatDate(quotation.date)} · Valid until{" "}
+            {formatDate(quotation.validUntil)}
+          </ThemedText>
+        </View>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(150).springify()}>
+        <View
+          style={[
+            styles.amountsCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {quotation.discount && quotation.discountAmount ? (
+            <View style={styles.amountRow}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Bill Discount ({describeDiscount(quotation.discount)})
+              </ThemedText>
+              <ThemedText type="small" style={{ color: AppColors.secondary }}>
+                −{formatCurrency(quotation.discountAmount, profile.currency)}
+              </ThemedText>
+            </View>
+          ) : null}
+          {taxRows.length > 0 ? (
+            <>
+              <View style={styles.amountRow}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Taxable Value
+                  {quotation.pricesIncludeTax ? " (prices include GST)" : ""}
+                </ThemedText>
+                <ThemedText type="small">
+                  {formatCurrency(tax.taxableValue, profile.currency)}
+                </ThemedText>
+              </View>
+              {taxRows.map((row) => (
+                <View key={row.label} style={styles.amountRow}>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {row.label}
+                  </ThemedText>
+                  <ThemedText type="small">
+                    {formatCurrency(row.amount, profile.currency)}
+                  </ThemedText>
+                </View>
+              ))}
+            </>
+          ) : null}
+          <View style={styles.amountRow}>
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              Quoted Total
+            </ThemedText>
+            <ThemedText type="h3">
+              {formatCurrency(quotation.totalAmount, profile.currency)}
+            </ThemedText>
+          </View>
+        </View>
+      </Animated.View>
+
+      <View style={styles.section}>
+        <ThemedText type="h4" style={{ marginBottom: Spacing.lg }}>
+          Products
+        </ThemedText>
+        {quotation.products.map((product, index) => (
+          <Animated.View
+            key={index}
+            entering={FadeInDown.delay(200 + index * 50).springify()}
+          >
+            <View
+              style={[
+                styles.productCard,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <View style={styles.productInfo}>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {product.name}
+                </ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {product.quantity} x{" "}
+                  {formatCurrency(product.unitPrice, profile.currency)}
+                </ThemedText>
+                {product.discount && product.discountAmount ? (
+                  <ThemedText
+                    type="small"
+                    style={{ color: AppColors.secondary }}
+                  >
+                    {describeDiscount(product.discount)} off · −
+                    {formatCurrency(product.discountAmount, profile.currency)}
+                  </ThemedText>
+                ) : null}
+                {product.taxRate !== undefined ? (
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    GST {product.taxRate}%
+                  </ThemedText>
+                ) : null}
+              </View>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {formatCurrency(product.total, profile.currency)}
+              </ThemedText>
+            </View>
+          </Animated.View>
+        ))}
+      </View>
+
+      {quotation.notes ? (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
+            Notes
+          </ThemedText>
+          <View
+            style={[
+              styles.notesCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              {quotation.notes}
+            </ThemedText>
+          </View>
+        </View>
+      ) : null}
+
+      <View style={styles.actions}>
+        {status === "accepted" ? (
+          transaction ? (
+            <Pressable
+              onPress={() =>
+                navigation.navigate("TransactionDetail", {
+                  transaction,
+                  customerName,
+                })
+              }
+              style={({ pressed }) => [
+                styles.actionButton,
+                {
+                  backgroundColor: AppColors.primary,
+                  opacity: pressed ? 0.9 : 1,
+                },
+              ]}
+            >
+              <Feather name="file-text" size={18} color="#FFFFFF" />
+              <ThemedText
+                type="body"
+                style={{ color: "#FFFFFF", fontWeight: "600" }}
+              >
+                View Transaction
+              </ThemedText>
+            </Pressable>
+          ) : null
+        ) : (
+          <>
+            <Pressable
+              onPress={handleConvert}
+              style={({ pressed }) => [
+                styles.actionButton,
+                {
+                  backgroundColor: AppColors.secondary,
+                  opacity: pressed ? 0.9 : 1,
+                },
+              ]}
+            >
+              <Feather name="check-circle" size={18} color="#FFFFFF" />
+              <ThemedText
+                type="body"
+                style={{ color: "#FFFFFF", fontWeight: "600" }}
+              >
+                Convert to Transaction
+              </ThemedText>
+            </Pressable>
+            {quotation.status === "draft" ? (
+              <Pressable
+                onPress={handleMarkSent}
+                style={({ pressed }) => [
+                  styles.actionButton,
+                  {
+                    borderColor: AppColors.primary,
+                    borderWidth: 1,
+                    opacity: pressed ? 0.8 : 1,
+                  },
+                ]}
+              >
+                <Feather name="send" size={18} color={AppColors.primary} />
+                <ThemedText
+                  type="body"
+                  style={{ color: AppColors.primary, fontWeight: "600" }}
+                >
+                  Mark as Sent
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </>
+        )}
+      </View>
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerActions: {
+    flexDirection: "row",
+  },
+  headerCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.lg,
+  },
+  headerTop: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+  },
+  statusBadge: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  amountsCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing["2xl"],
+    gap: Spacing.md,
+  },
+  amountRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  section: {
+    marginBottom: Spacing["2xl"],
+  },
+  productCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  notesCard: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+  },
+  actions: {
+    gap: Spacing.md,
+    marginBottom: Spacing["2xl"],
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    height: Spacing.buttonHeight,
+    borderRadius: BorderRadius.md,
+  },
+});
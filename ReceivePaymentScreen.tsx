@@ -0,0 +1,425 @@
+import React, { useState, useLayoutEffect, useMemo } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { storage } from "@/utils/storage";
+import { useCustomer, useProfile, useTransactions } from "@/hooks/useStore";
+import { formatCurrency, formatDate } from "@/utils/format";
+import {
+  compare,
+  isPositive,
+  parseMoney,
+  subtract,
+  sum,
+  zero,
+} from "@/utils/money";
+import {
+  Allocation,
+  allocateOldestFirst,
+  isValidAllocation,
+  openTransactions,
+  pendingOf,
+  totalAllocated,
+} from "@/utils/allocation";
+import { Payment, Transaction } from "@/types";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type ReceivePaymentRouteProp = RouteProp<RootStackParamList, "ReceivePayment">;
+
+type AllocationMode = "oldest" | "manual";
+
+const PAYMENT_METHODS: { key: Payment["method"]; label: string }[] = [
+  { key: "cash", label: "Cash" },
+  { key: "upi", label: "UPI" },
+  { key: "bank", label: "Bank" },
+  { key: "other", label: "Other" },
+];
+
+function OpenTransactionRow({
+  transaction,
+  index,
+  mode,
+  allocated,
+  manualValue,
+  onChangeManual,
+}: {
+  transaction: Transaction;
+  index: number;
+  mode: AllocationMode;
+  allocated: Allocation | undefined;
+  manualValue: string;
+  onChangeManual: (text: string) => void;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <Animated.View entering={FadeInDown.delay(100 + index * 50).springify()}>
+      <View
+        style={[
+          styles.transactionRow,
+          { backgroundColor: theme.backgroundDefault },
+        ]}
+      >
+        <View style={styles.transactionInfo}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {formatDate(transaction.date)}
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {formatCurrency(pendingOf(transaction))} due of{" "}
+            {formatCurrency(transaction.totalAmount)}
+          </ThemedText>
+        </View>
+        {mode === "manual" ? (
+          <TextInput
+            style={[
+              styles.allocationInput,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
+            value={manualValue}
+            onChangeText={onChangeManual}
+            placeholder="0"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numeric"
+          />
+        ) : (
+          <ThemedText
+            type="body"
+            style={{
+              fontWeight: "600",
+              color: allocated ? AppColors.secondary : theme.textSecondary,
+            }}
+          >
+            {allocated ? formatCurrency(allocated.amount) : "—"}
+          </ThemedText>
+        )}
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function ReceivePaymentScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<ReceivePaymentRouteProp>();
+  const { theme } = useTheme();
+  const { customerId } = route.params;
+  const customer = useCustomer(customerId);
+  const transactions = useTransactions({ customerId });
+  const { currency } = useProfile();
+
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<Payment["method"]>("cash");
+  const [mode, setMode] = useState<AllocationMode>("oldest");
+  const [manual, setManual] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const open = useMemo(() => openTransactions(transactions), [transactions]);
+  const outstanding = sum(open.map(pendingOf), currency);
+  const received = parseMoney(amount, currency);
+
+  const allocations: Allocation[] =
+    mode === "oldest"
+      ? received && isPositive(received)
+        ? allocateOldestFirst(open, received).allocations
+        : []
+      : open
+          .map((t) => ({
+            transactionId: t.id,
+            amount: parseMoney(manual[t.id] || "", currency) || zero(currency),
+          }))
+          .filter((a) => isPositive(a.amount));
+  const allocated = totalAllocated(allocations, currency);
+  // Whatever is not allocated is kept as credit.
+  const advance = received ? subtract(received, allocated) : zero(currency);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await storage.receivePayment(
+        { customerId, method, date: new Date().toISOString() },
+        allocations,
+        advance,
+      );
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to record payment. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!received || !isPositive(received)) {
+      Alert.alert("Invalid", "Please enter a valid amount.");
+      return;
+    }
+    if (!isValidAllocation(open, allocations)) {
+      Alert.alert(
+        "Invalid",
+        "Each transaction can only receive up to what it still owes.",
+      );
+      return;
+    }
+    if (compare(allocated, received) > 0) {
+      Alert.alert(
+        "Invalid",
+        `Allocated ${formatCurrency(allocated)} but only ${formatCurrency(received)} was received.`,
+      );
+      return;
+    }
+    if (isPositive(advance)) {
+      Alert.alert(
+        "Keep as Credit",
+        `${formatCurrency(advance)} is not applied to any transaction and will be kept as credit.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Save", onPress: save },
+        ],
+      );
+      return;
+    }
+    save();
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={{ padding: Spacing.sm }}
+        >
+          <ThemedText type="body" style={{ color: theme.text }}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+      ),
+      headerRight: () => (
+        <Pressable
+          onPress={handleSave}
+          disabled={isSaving}
+          style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
+        >
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </ThemedText>
+        </Pressable>
+      ),
+    });
+  }, [
+    navigation,
+    amount,
+    method,
+    mode,
+    manual,
+    transactions,
+    currency,
+    isSaving,
+    theme,
+  ]);
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View
+        style={[styles.totalCard, { backgroundColor: theme.backgroundDefault }]}
+      >
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          {customer ? `${customer.name} owes` : "Outstanding"}
+        </ThemedText>
+        <ThemedText type="h3" style={{ color: AppColors.warning }}>
+          {formatCurrency(outstanding)}
+        </ThemedText>
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Amount Received
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={amount}
+          onChangeText={setAmount}
+          placeholder={`${formatCurrency(outstanding)} outstanding`}
+          placeholderTextColor={theme.textSecondary}
+          keyboardType="numeric"
+        />
+      </View>
+
+      <View style={[styles.section, styles.chipRow]}>
+        {PAYMENT_METHODS.map((option) => (
+          <Pressable
+            key={option.key}
+            onPress={() => setMethod(option.key)}
+            style={[
+              styles.chip,
+              {
+                backgroundColor:
+                  method === option.key
+                    ? AppColors.primary
+                    : theme.backgroundSecondary,
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: method === option.key ? "#FFFFFF" : theme.text }}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.sectionHeader}>
+        <ThemedText type="h4">Apply To</ThemedText>
+        <View style={styles.chipRow}>
+          {(["oldest", "manual"] as const).map((option) => (
+            <Pressable
+              key={option}
+              onPress={() => setMode(option)}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor:
+                    mode === option
+                      ? AppColors.primary
+                      : theme.backgroundSecondary,
+                },
+              ]}
+            >
+              <ThemedText
+                type="small"
+                style={{ color: mode === option ? "#FFFFFF" : theme.text }}
+              >
+                {option === "oldest" ? "Oldest First" : "Manual"}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {open.length === 0 ? (
+        <View
+          style={[
+            styles.emptyState,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Nothing is owed right now. The amount will be kept as credit.
+          </ThemedText>
+        </View>
+      ) : (
+        <View style={styles.transactionList}>
+          {open.map((transaction, index) => (
+            <OpenTransactionRow
+              key={transaction.id}
+              transaction={transaction}
+              index={index}
+              mode={mode}
+              allocated={allocations.find(
+                (a) => a.transactionId === transaction.id,
+              )}
+              manualValue={manual[transaction.id] || ""}
+              onChangeManual={(text) =>
+                setManual((prev) => ({ ...prev, [transaction.id]: text }))
+              }
+            />
+          ))}
+        </View>
+      )}
+
+      {received && isPositive(received) ? (
+        <ThemedText
+          type="small"
+          style={{
+            marginTop: Spacing.lg,
+            textAlign: "center",
+            color:
+              compare(allocated, received) > 0
+                ? AppColors.error
+                : theme.textSecondary,
+          }}
+        >
+          Allocated {formatCurrency(allocated)} of {formatCurrency(received)}
+          {isPositive(advance) ? `, ${formatCurrency(advance)} to credit` : ""}
+        </ThemedText>
+      ) : null}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  totalCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+    marginBottom: Spacing["2xl"],
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  transactionList: {
+    gap: Spacing.sm,
+  },
+  transactionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  transactionInfo: {
+    flex: 1,
+  },
+  allocationInput: {
+    width: 110,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+    textAlign: "right",
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: Spacing["2xl"],
+    borderRadius: BorderRadius.lg,
+  },
+});
@@ -8,6 +8,15 @@ import CustomerDetailScreen from "@/screens/CustomerDetailScreen";
 import EditCustomerScreen from "@/screens/EditCustomerScreen";
 import AddTransactionScreen from "@/screens/AddTransactionScreen";
 import TransactionDetailScreen from "@/screens/TransactionDetailScreen";
+import ReceivePaymentScreen from "@/screens/ReceivePaymentScreen";
+import ProductFormScreen from "@/screens/ProductFormScreen";
+import StockAdjustScreen from "@/screens/StockAdjustScreen";
+import SalesReturnScreen from "@/screens/SalesReturnScreen";
+import QuotationDetailScreen from "@/screens/QuotationDetailScreen";
+import SupplierDetailScreen from "@/screens/SupplierDetailScreen";
+import AddPurchaseScreen from "@/screens/AddPurchaseScreen";
+import PaySupplierScreen from "@/screens/PaySupplierScreen";
+import AddExpenseScreen from "@/screens/AddExpenseScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "@/navigation/screenOptions";
 import { RootStackParamList } from "@/navigation/types";
@@ -83,6 +92,76 @@ export default function RootNavigator() {
           title: "Transaction",
         }}
       />
+      <Stack.Screen
+        name="ReceivePayment"
+        component={ReceivePaymentScreen}
+        options={{
+          presentation: "modal",
+          title: "Receive Payment",
+        }}
+      />
+      <Stack.Screen
+        name="ProductForm"
+        component={ProductFormScreen}
+        options={{
+          presentation: "modal",
+          title: "Add Product",
+        }}
+      />
+      <Stack.Screen
+        name="StockAdjust"
+        component={StockAdjustScreen}
+        options={{
+          presentation: "modal",
+          title: "Adjust Stock",
+        }}
+      />
+      <Stack.Screen
+        name="SalesReturn"
+        component={SalesReturnScreen}
+        options={{
+          presentation: "modal",
+          title: "Record Return",
+        }}
+      />
+      <Stack.Screen
+        name="QuotationDetail"
+        component={QuotationDetailScreen}
+        options={{
+          title: "Quotation",
+        }}
+      />
+      <Stack.Screen
+        name="SupplierDetail"
+        component={SupplierDetailScreen}
+        options={{
+          title: "Supplier",
+        }}
+      />
+      <Stack.Screen
+        name="AddPurchase"
+        component={AddPurchaseScreen}
+        options={{
+          presentation: "modal",
+          title: "Add Purchase Bill",
+        }}
+      />
+      <Stack.Screen
+        name="PaySupplier"
+        component={PaySupplierScreen}
+        options={{
+          presentation: "modal",
+          title: "Pay Supplier",
+        }}
+      />
+      <Stack.Screen
+        name="AddExpense"
+        component={AddExpenseScreen}
+        options={{
+          presentation: "modal",
+          title: "Add Expense",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -0,0 +1,233 @@
+import React, { useState, useLayoutEffect } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useProfile, useReturns } from "@/hooks/useStore";
+import { storage } from "@/utils/storage";
+import { buildReturnItems, returnableQuantities } from "@/utils/returns";
+import { parseQuantity } from "@/utils/stock";
+import { formatCurrency } from "@/utils/format";
+import { compare, subtract, sum } from "@/utils/money";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type SalesReturnRouteProp = RouteProp<RootStackParamList, "SalesReturn">;
+
+export default function SalesReturnScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<SalesReturnRouteProp>();
+  const { theme } = useTheme();
+  const { transaction } = route.params;
+  const profile = useProfile();
+  const returns = useReturns({ transactionId: transaction.id });
+  const returnable = returnableQuantities(transaction, returns);
+
+  const [quantities, setQuantities] = useState<string[]>(() =>
+    transaction.products.map(() => ""),
+  );
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parsed = quantities.map((text) =>
+    text.trim() ? parseQuantity(text) : 0,
+  );
+  const counts = parsed.map((q) => q || 0);
+  const items = buildReturnItems(transaction, counts, returns);
+  const amount = sum(
+    items.map((i) => i.total),
+    transaction.totalAmount.currency,
+  );
+  const owed = subtract(transaction.totalAmount, transaction.amountPaid);
+  const toCredit = compare(amount, owed) > 0 ? subtract(amount, owed) : null;
+
+  const setQuantity = (index: number, text: string) =>
+    setQuantities((current) => current.map((q, i) => (i === index ? text : q)));
+
+  const handleSave = async () => {
+    const invalid = parsed.findIndex(
+      (q, index) => q === null || q < 0 || q > returnable[index],
+    );
+    if (invalid !== -1) {
+      Alert.alert(
+        "Invalid",
+        `Enter up to ${returnable[invalid]} for ${transaction.products[invalid].name}.`,
+      );
+      return;
+    }
+    if (items.length === 0) {
+      Alert.alert(
+        "Invalid",
+        "Enter how many of at least one product came back.",
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await storage.addReturn(
+        transaction.id,
+        counts,
+        reason.trim() || undefined,
+      );
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to record the return. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={{ padding: Spacing.sm }}
+        >
+          <ThemedText type="body" style={{ color: theme.text }}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+      ),
+      headerRight: () => (
+        <Pressable
+          onPress={handleSave}
+          disabled={isSaving}
+          style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
+        >
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </ThemedText>
+        </Pressable>
+      ),
+    });
+  }, [navigation, quantities, reason, returns, isSaving, theme]);
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View
+        style={[styles.totalCard, { backgroundColor: theme.backgroundDefault }]}
+      >
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          Credit Note
+        </ThemedText>
+        <ThemedText type="h2" style={{ color: AppColors.primary }}>
+          {formatCurrency(amount, profile.currency)}
+        </ThemedText>
+        {toCredit ? (
+          <ThemedText type="small" style={{ color: AppColors.secondary }}>
+            Clears the {formatCurrency(owed, profile.currency)} owed;{" "}
+            {formatCurrency(toCredit, profile.currency)} is kept as credit
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
+          Products Returned
+        </ThemedText>
+        {transaction.products.map((product, index) => (
+          <View
+            key={index}
+            style={[
+              styles.lineCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View style={styles.lineInfo}>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {product.name}
+              </ThemedText>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {returnable[index] < product.quantity
+                  ? `${returnable[index]} of ${product.quantity} left to return`
+                  : `${product.quantity} sold`}
+              </ThemedText>
+            </View>
+            <TextInput
+              style={[
+                styles.quantityInput,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={quantities[index]}
+              onChangeText={(text) => setQuantity(index, text)}
+              placeholder="0"
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="numeric"
+              editable={returnable[index] > 0}
+            />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          Reason (Optional)
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={reason}
+          onChangeText={setReason}
+          placeholder="e.g., Damaged, wrong size"
+          placeholderTextColor={theme.textSecondary}
+        />
+      </View>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  totalCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+    marginBottom: Spacing["2xl"],
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  lineCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  quantityInput: {
+    width: 72,
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+    textAlign: "center",
+  },
+});
@@ -10,7 +10,7 @@ import {
 import { useNavigation, NavigationProp } from "@react-navigation/native";
 import { CameraView, useCameraPermissions } from "expo-camera";
 import * as ImagePicker from "expo-image-picker";
-import * as FileSystem from "expo-file-system";
+import * as FileSystem from "expo-file-system/legacy";
 import { Feather } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { LinearGradient } from "expo-linear-gradient";
@@ -34,7 +34,9 @@ export default function ScannerScreen() {
   const [flashOn, setFlashOn] = useState(false);
   const [isCapturing, setIsCapturing] = useState(false);
   const [isBatchMode, setIsBatchMode] = useState(false);
-  const [batchImages, setBatchImages] = useState<Array<{ uri: string; base64: string }>>([]);
+  const [batchImages, setBatchImages] = useState<
+    Array<{ uri: string; base64: string }>
+  >([]);
   const cameraRef = useRef<CameraView>(null);
   const captureScale = useSharedValue(1);
 
@@ -76,14 +78,19 @@ export default function ScannerScreen() {
         if (processed) {
           if (isBatchMode) {
             setBatchImages((prev) => [...prev, processed]);
-            Alert.alert("Success", `Scanned ${batchImages.length + 1} card(s)`, [
-              { text: "Scan More", style: "default" },
-              {
-                text: "Process All",
-                style: "destructive",
-                onPress: () => handleProcessBatch([...batchImages, processed]),
-              },
-            ]);
+            Alert.alert(
+              "Success",
+              `Scanned ${batchImages.length + 1} card(s)`,
+              [
+                { text: "Scan More", style: "default" },
+                {
+                  text: "Process All",
+                  style: "destructive",
+                  onPress: () =>
+                    handleProcessBatch([...batchImages, processed]),
+                },
+              ],
+            );
           } else {
             navigation.navigate("AIProcessing", {
               imageUri: processed.uri,
@@ -99,13 +106,18 @@ export default function ScannerScreen() {
     }
   };
 
-  const handleProcessBatch = async (images: Array<{ uri: string; base64: string }>) => {
+  const handleProcessBatch = async (
+    images: Array<{ uri: string; base64: string }>,
+  ) => {
     setIsBatchMode(false);
     setBatchImages([]);
     navigation.goBack();
 
     for (let i = 0; i < images.length; i++) {
-      Alert.alert(`Processing Card ${i + 1} of ${images.length}`, "Extracting details...");
+      Alert.alert(
+        `Processing Card ${i + 1} of ${images.length}`,
+        "Extracting details...",
+      );
       navigation.navigate("AIProcessing", {
         imageUri: images[i].uri,
         imageBase64: images[i].base64,
@@ -145,13 +157,17 @@ export default function ScannerScreen() {
         "Discard Batch?",
         `You have ${batchImages.length} scanned cards. Do you want to process them or discard?`,
         [
-          { text: "Discard", style: "destructive", onPress: () => navigation.goBack() },
+          {
+            text: "Discard",
+            style: "destructive",
+            onPress: () => navigation.goBack(),
+          },
           {
             text: "Process",
             style: "default",
             onPress: () => handleProcessBatch(batchImages),
           },
-        ]
+        ],
       );
     } else {
       navigation.goBack();
@@ -201,7 +217,10 @@ export default function ScannerScreen() {
               end={{ x: 1, y: 1 }}
               style={styles.permissionButtonGradient}
             >
-              <ThemedText type="body" style={{ color: "#FFFFFF", fontWeight: "600" }}>
+              <ThemedText
+                type="body"
+                style={{ color: "#FFFFFF", fontWeight: "600" }}
+              >
                 Enable Camera
               </ThemedText>
             </LinearGradient>
@@ -237,7 +256,8 @@ export default function ScannerScreen() {
             Run in Expo Go
           </ThemedText>
           <ThemedText type="body" style={styles.permissionSubtext}>
-            Camera scanning works best on mobile devices. Scan the QR code to open in Expo Go.
+            Camera scanning works best on mobile devices. Scan the QR code to
+            open in Expo Go.
           </ThemedText>
           <Pressable
             onPress={handlePickImage}
@@ -252,7 +272,10 @@ export default function ScannerScreen() {
               end={{ x: 1, y: 1 }}
               style={styles.permissionButtonGradient}
             >
-              <ThemedText type="body" style={{ color: "#FFFFFF", fontWeight: "600" }}>
+              <ThemedText
+                type="body"
+                style={{ color: "#FFFFFF", fontWeight: "600" }}
+              >
                 Pick from Gallery
               </ThemedText>
             </LinearGradient>
@@ -274,7 +297,10 @@ export default function ScannerScreen() {
           <View style={styles.topControls}>
             <Pressable
               onPress={handleClose}
-              style={({ pressed }) => [styles.controlButton, { opacity: pressed ? 0.7 : 1 }]}
+              style={({ pressed }) => [
+                styles.controlButton,
+                { opacity: pressed ? 0.7 : 1 },
+              ]}
             >
               <Feather name="x" size={24} color="#FFFFFF" />
             </Pressable>
@@ -296,9 +322,16 @@ export default function ScannerScreen() {
             </View>
             <Pressable
               onPress={() => setFlashOn(!flashOn)}
-              style={({ pressed }) => [styles.controlButton, { opacity: pressed ? 0.7 : 1 }]}
+              style={({ pressed }) => [
+                styles.controlButton,
+                { opacity: pressed ? 0.7 : 1 },
+              ]}
             >
-              <Feather name={flashOn ? "zap" : "zap-off"} size={24} color="#FFFFFF" />
+              <Feather
+                name={flashOn ? "zap" : "zap-off"}
+                size={24}
+                color="#FFFFFF"
+              />
             </Pressable>
           </View>
 
@@ -316,10 +349,18 @@ export default function ScannerScreen() {
             </ThemedText>
           </View>
 
-          <View style={[styles.bottomControls, { paddingBottom: insets.bottom + Spacing.xl }]}>
+          <View
+            style={[
+              styles.bottomControls,
+              { paddingBottom: insets.bottom + Spacing.xl },
+            ]}
+          >
             <Pressable
               onPress={handlePickImage}
-              style={({ pressed }) => [styles.galleryPickButton, { opacity: pressed ? 0.7 : 1 }]}
+              style={({ pressed }) => [
+                styles.galleryPickButton,
+                { opacity: pressed ? 0.7 : 1 },
+              ]}
             >
               <Feather name="image" size={28} color="#FFFFFF" />
             </Pressable>
@@ -340,7 +381,9 @@ export default function ScannerScreen() {
                 styles.batchButton,
                 {
                   opacity: pressed ? 0.7 : 1,
-                  backgroundColor: isBatchMode ? AppColors.primary : "rgba(255,255,255,0.2)",
+                  backgroundColor: isBatchMode
+                    ? AppColors.primary
+                    : "rgba(255,255,255,0.2)",
                 },
               ]}
             >
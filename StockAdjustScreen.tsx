@@ -0,0 +1,297 @@
+import React, { useState, useLayoutEffect } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useProducts, useStockMovements } from "@/hooks/useStore";
+import { storage } from "@/utils/storage";
+import { getStockOnHand, isLowStock, parseQuantity } from "@/utils/stock";
+import { formatDateTime } from "@/utils/format";
+import { StockMovement } from "@/types";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type StockAdjustRouteProp = RouteProp<RootStackParamList, "StockAdjust">;
+
+type AdjustReason = "received" | "return" | "adjustment";
+
+const REASONS: { key: AdjustReason; label: string; direction: 1 | -1 | 0 }[] = [
+  { key: "received", label: "Stock Received", direction: 1 },
+  { key: "return", label: "Customer Return", direction: 1 },
+  { key: "adjustment", label: "Correction", direction: 0 },
+];
+
+const REASON_LABELS: Record<StockMovement["reason"], string> = {
+  sale: "Sold",
+  "sale-edited": "Sale edited",
+  "sale-deleted": "Sale deleted",
+  return: "Returned",
+  received: "Received",
+  adjustment: "Correction",
+};
+
+const RECENT_COUNT = 10;
+
+export default function StockAdjustScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<StockAdjustRouteProp>();
+  const { theme } = useTheme();
+  const { productId } = route.params;
+  const product = useProducts().find((p) => p.id === productId);
+  const movements = useStockMovements({ productId });
+  const onHand = getStockOnHand(productId, movements);
+
+  const [reason, setReason] = useState<AdjustReason>("received");
+  const [quantity, setQuantity] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const direction = REASONS.find((r) => r.key === reason)!.direction;
+
+  const handleSave = async () => {
+    const parsed = parseQuantity(quantity);
+    // Corrections are signed; received stock and returns always add.
+    if (parsed === null || parsed === 0 || (direction !== 0 && parsed < 0)) {
+      Alert.alert(
+        "Invalid",
+        direction === 0
+          ? "Enter how much to add, or a negative number to remove stock."
+          : "Please enter a quantity above zero.",
+      );
+      return;
+    }
+    if (reason === "adjustment" && !notes.trim()) {
+      Alert.alert("Required", "Please note why the stock is being corrected.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await storage.adjustStock(
+        productId,
+        parsed,
+        reason,
+        notes.trim() || undefined,
+      );
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to update stock. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: product ? product.name : "Adjust Stock",
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={{ padding: Spacing.sm }}
+        >
+          <ThemedText type="body" style={{ color: theme.text }}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+      ),
+      headerRight: () => (
+        <Pressable
+          onPress={handleSave}
+          disabled={isSaving}
+          style={{ padding: Spacing.sm, opacity: isSaving ? 0.5 : 1 }}
+        >
+          <ThemedText
+            type="body"
+            style={{ color: AppColors.primary, fontWeight: "600" }}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </ThemedText>
+        </Pressable>
+      ),
+    });
+  }, [navigation, product, reason, quantity, notes, isSaving, theme]);
+
+  const low = product ? isLowStock(product, onHand) : false;
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View
+        style={[styles.totalCard, { backgroundColor: theme.backgroundDefault }]}
+      >
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          On Hand
+        </ThemedText>
+        <ThemedText
+          type="h3"
+          style={{
+            color: onHand < 0 || low ? AppColors.warning : AppColors.primary,
+          }}
+        >
+          {onHand}
+          {product?.unit ? ` ${product.unit}` : ""}
+        </ThemedText>
+        {low ? (
+          <ThemedText type="small" style={{ color: AppColors.warning }}>
+            At or below the low-stock level of {product!.lowStockThreshold}
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <View style={[styles.section, styles.chipRow]}>
+        {REASONS.map((option) => (
+          <Pressable
+            key={option.key}
+            onPress={() => setReason(option.key)}
+            style={[
+              styles.chip,
+              {
+                backgroundColor:
+                  reason === option.key
+                    ? AppColors.primary
+                    : theme.backgroundSecondary,
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: reason === option.key ? "#FFFFFF" : theme.text }}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          {direction === 0 ? "Change (use a minus sign to remove)" : "Quantity"}
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={quantity}
+          onChangeText={setQuantity}
+          placeholder={direction === 0 ? "e.g., -2" : "0"}
+          placeholderTextColor={theme.textSecondary}
+          keyboardType="numbers-and-punctuation"
+        />
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginBottom: Spacing.xs }}
+        >
+          {reason === "adjustment" ? "Reason" : "Notes (Optional)"}
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: theme.backgroundDefault, color: theme.text },
+          ]}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder={
+            reason === "adjustment"
+              ? "e.g., Damaged, stock count"
+              : "e.g., Supplier"
+          }
+          placeholderTextColor={theme.textSecondary}
+        />
+      </View>
+
+      {movements.length > 0 ? (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
+            Recent Movements
+          </ThemedText>
+          <View
+            style={[
+              styles.historyCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            {movements.slice(0, RECENT_COUNT).map((movement) => (
+              <View key={movement.id} style={styles.historyRow}>
+                <View style={{ flex: 1 }}>
+                  <ThemedText type="small">
+                    {REASON_LABELS[movement.reason]}
+                    {movement.notes ? ` · ${movement.notes}` : ""}
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {formatDateTime(movement.date)}
+                  </ThemedText>
+                </View>
+                <ThemedText
+                  type="small"
+                  style={{
+                    fontWeight: "600",
+                    color:
+                      movement.quantity < 0
+                        ? AppColors.error
+                        : AppColors.secondary,
+                  }}
+                >
+                  {movement.quantity > 0 ? "+" : ""}
+                  {movement.quantity}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        </View>
+      ) : null}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  totalCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+    marginBottom: Spacing["2xl"],
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  historyCard: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  historyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+});
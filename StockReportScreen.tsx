@@ -0,0 +1,206 @@
+import React, { useState, useLayoutEffect, useMemo } from "react";
+import { View, StyleSheet, Pressable, Alert } from "react-native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenFlatList } from "@/components/ScreenFlatList";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useProducts, useProfile, useStockMovements } from "@/hooks/useStore";
+import {
+  StockValuationRow,
+  getStockValuation,
+  isLowStock,
+} from "@/utils/stock";
+import { exportStockValuationToCSV } from "@/utils/export";
+import { formatCurrency } from "@/utils/format";
+import { ProfileStackParamList, RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+function ValuationRow({
+  row,
+  index,
+  onPress,
+}: {
+  row: StockValuationRow;
+  index: number;
+  onPress: () => void;
+}) {
+  const { theme } = useTheme();
+  const { product, onHand, value } = row;
+  const low = isLowStock(product, onHand);
+
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 30).springify()}>
+      <Pressable
+        onPress={onPress}
+        style={({ pressed }) => [
+          styles.card,
+          {
+            backgroundColor: theme.backgroundDefault,
+            opacity: pressed ? 0.9 : 1,
+          },
+        ]}
+      >
+        <View style={styles.cardContent}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {product.name}
+          </ThemedText>
+          <ThemedText
+            type="small"
+            style={{
+              color:
+                onHand < 0 || low ? AppColors.warning : theme.textSecondary,
+            }}
+          >
+            {onHand}
+            {product.unit ? ` ${product.unit}` : ""}
+            {product.costPrice
+              ? ` × ${formatCurrency(product.costPrice)}`
+              : " · No cost price"}
+            {low ? " · Low" : ""}
+          </ThemedText>
+        </View>
+        <ThemedText
+          type="body"
+          style={{
+            fontWeight: "600",
+            color: value ? theme.text : theme.textSecondary,
+          }}
+        >
+          {value ? formatCurrency(value) : "Unvalued"}
+        </ThemedText>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+export default function StockReportScreen() {
+  const navigation = useNavigation<NavigationProp<ProfileStackParamList>>();
+  const rootNavigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+  const products = useProducts();
+  const movements = useStockMovements();
+  const profile = useProfile();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { rows, total, unvalued } = useMemo(
+    () => getStockValuation(products, movements, profile.currency),
+    [products, movements, profile.currency],
+  );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportStockValuationToCSV(products, movements, profile);
+    } catch (error) {
+      Alert.alert("Error", "Failed to export the stock report.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <Pressable
+          onPress={handleExport}
+          disabled={isExporting || rows.length === 0}
+          style={{
+            padding: Spacing.sm,
+            opacity: isExporting || rows.length === 0 ? 0.5 : 1,
+          }}
+        >
+          <Feather name="share" size={20} color={AppColors.primary} />
+        </Pressable>
+      ),
+    });
+  }, [navigation, products, movements, profile, isExporting]);
+
+  return (
+    <ScreenFlatList
+      data={rows}
+      keyExtractor={(item) => item.product.id}
+      contentContainerStyle={styles.listContent}
+      ListHeaderComponent={
+        <View
+          style={[
+            styles.totalCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <ThemedText type="body" style={{ color: theme.textSecondary }}>
+            Stock Value
+          </ThemedText>
+          <ThemedText type="h3" style={{ color: AppColors.primary }}>
+            {formatCurrency(total)}
+          </ThemedText>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, textAlign: "center" }}
+          >
+            At each product&apos;s cost price
+            {unvalued > 0
+              ? `. ${unvalued} product${unvalued === 1 ? " has" : "s have"} no cost price and ${unvalued === 1 ? "is" : "are"} not counted.`
+              : ""}
+          </ThemedText>
+        </View>
+      }
+      renderItem={({ item, index }) => (
+        <ValuationRow
+          row={item}
+          index={index}
+          onPress={() =>
+            rootNavigation.navigate("StockAdjust", {
+              productId: item.product.id,
+            })
+          }
+        />
+      )}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Feather name="box" size={48} color={theme.textSecondary} />
+          <ThemedText
+            type="body"
+            style={{
+              color: theme.textSecondary,
+              marginTop: Spacing.md,
+              textAlign: "center",
+            }}
+          >
+            No products track stock. Turn on Track Stock for a product to see it
+            here.
+          </ThemedText>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    gap: Spacing.sm,
+  },
+  totalCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  cardContent: {
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing["5xl"],
+    paddingHorizontal: Spacing["2xl"],
+  },
+});
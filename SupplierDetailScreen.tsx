@@ -0,0 +1,554 @@
+import React, { useMemo } from "react";
+import { View, StyleSheet, Pressable, Linking, Alert } from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { HistoryList } from "@/components/HistoryList";
+import { useTheme } from "@/hooks/useTheme";
+import { storage } from "@/utils/storage";
+import {
+  useChangeLog,
+  useCustomer,
+  useProfile,
+  usePurchases,
+} from "@/hooks/useStore";
+import { getSupplierStats } from "@/utils/analytics";
+import { formatCurrency, formatDate, getInitials } from "@/utils/format";
+import { paymentStatus } from "@/utils/terms";
+import { isPositive } from "@/utils/money";
+import { PurchaseBill } from "@/types";
+import { RootStackParamList } from "@/navigation/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type SupplierDetailRouteProp = RouteProp<RootStackParamList, "SupplierDetail">;
+
+function StatItem({
+  label,
+  value,
+  color,
+}: {
+  label: string;
+  value: string;
+  color?: string;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.statItem}>
+      <ThemedText type="small" style={{ color: theme.textSecondary }}>
+        {label}
+      </ThemedText>
+      <ThemedText type="h4" style={{ color: color || theme.text }}>
+        {value}
+      </ThemedText>
+    </View>
+  );
+}
+
+function BillCard({
+  bill,
+  currency,
+  index,
+  onPress,
+}: {
+  bill: PurchaseBill;
+  currency: string;
+  index: number;
+  onPress: () => void;
+}) {
+  const { theme } = useTheme();
+  const status = paymentStatus(bill);
+  const color =
+    status === "paid"
+      ? AppColors.secondary
+      : status === "partial"
+        ? AppColors.warning
+        : AppColors.error;
+
+  return (
+    <Animated.View entering={FadeInDown.delay(200 + index * 50).springify()}>
+      <Pressable
+        onPress={onPress}
+        style={({ pressed }) => [
+          styles.billCard,
+          {
+            backgroundColor: theme.backgroundDefault,
+            opacity: pressed ? 0.9 : 1,
+          },
+        ]}
+      >
+        <View style={[styles.statusIndicator, { backgroundColor: color }]} />
+        <View style={styles.billContent}>
+          <View style={styles.billHeader}>
+            <ThemedText type="body" style={{ fontWeight: "600" }}>
+              {bill.billNumber ? `#${bill.billNumber} · ` : ""}
+              {formatDate(bill.date)}
+            </ThemedText>
+            <ThemedText type="body" style={{ fontWeight: "700" }}>
+              {formatCurrency(bill.totalAmount, currency)}
+            </ThemedText>
+          </View>
+          <View style={styles.billDetails}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {bill.products.length} item(s)
+              {bill.payments.length > 0
+                ? ` · ${formatCurrency(bill.amountPaid, currency)} paid`
+                : ""}
+            </ThemedText>
+            <ThemedText
+              type="small"
+              style={{ color, textTransform: "capitalize" }}
+            >
+              {status}
+            </ThemedText>
+          </View>
+        </View>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+export default function SupplierDetailScreen() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<SupplierDetailRouteProp>();
+  const { theme } = useTheme();
+  const { supplierId } = route.params;
+
+  const supplier = useCustomer(supplierId);
+  const purchases = usePurchases({ customerId: supplierId });
+  const history = useChangeLog({ customerId: supplierId });
+  const profile = useProfile();
+  const stats = useMemo(
+    () => getSupplierStats(supplierId, purchases, profile.currency),
+    [supplierId, purchases, profile.currency],
+  );
+
+  const handleEdit = () => {
+    if (supplier) {
+      navigation.navigate("EditCustomer", { customer: supplier });
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      "Delete Supplier",
+      `Move ${supplier?.name} and all their purchase bills to the trash? You can restore them from Profile > Trash.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await storage.deleteCustomer(supplierId);
+            navigation.goBack();
+          },
+        },
+      ],
+    );
+  };
+
+  if (!supplier) {
+    return (
+      <View
+        style={[
+          styles.loadingContainer,
+          { backgroundColor: theme.backgroundRoot },
+        ]}
+      >
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          Loading...
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <ScreenScrollView>
+      <Animated.View entering={FadeInDown.delay(100).springify()}>
+        <View
+          style={[
+            styles.profileCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={styles.profileHeader}>
+            <LinearGradient
+              colors={[AppColors.warning, AppColors.gold]}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+              style={styles.avatar}
+            >
+              <ThemedText style={styles.avatarText}>
+                {getInitials(supplier.name)}
+              </ThemedText>
+            </LinearGradient>
+            <View style={styles.profileActions}>
+              <Pressable
+                onPress={handleEdit}
+                style={({ pressed }) => [
+                  styles.actionIcon,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    opacity: pressed ? 0.7 : 1,
+                  },
+                ]}
+              >
+                <Feather name="edit-2" size={18} color={theme.text} />
+              </Pressable>
+              <Pressable
+                onPress={handleDelete}
+                style={({ pressed }) => [
+                  styles.actionIcon,
+                  {
+                    backgroundColor: AppColors.error + "20",
+                    opacity: pressed ? 0.7 : 1,
+                  },
+                ]}
+              >
+                <Feather name="trash-2" size={18} color={AppColors.error} />
+              </Pressable>
+            </View>
+          </View>
+
+          <ThemedText type="h3" style={{ marginTop: Spacing.lg }}>
+            {supplier.name}
+          </ThemedText>
+          {supplier.businessName ? (
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              {supplier.businessName}
+            </ThemedText>
+          ) : null}
+          <View
+            style={[
+              styles.badge,
+              { backgroundColor: AppColors.warning + "20" },
+            ]}
+          >
+            <ThemedText type="small" style={{ color: AppColors.warning }}>
+              Supplier
+              {supplier.businessType ? ` · ${supplier.businessType}` : ""}
+            </ThemedText>
+          </View>
+
+          <View style={styles.contactInfo}>
+            {supplier.mobile ? (
+              <Pressable
+                onPress={() => Linking.openURL(`tel:${supplier.mobile}`)}
+                style={styles.contactRow}
+              >
+                <Feather name="phone" size={16} color={theme.textSecondary} />
+                <ThemedText
+                  type="small"
+                  style={{ color: theme.textSecondary, marginLeft: Spacing.sm }}
+                >
+                  {supplier.mobile}
+                </ThemedText>
+              </Pressable>
+            ) : null}
+            {supplier.email ? (
+              <Pressable
+                onPress={() => Linking.openURL(`mailto:${supplier.email}`)}
+                style={styles.contactRow}
+              >
+                <Feather name="mail" size={16} color={theme.textSecondary} />
+                <ThemedText
+                  type="small"
+                  style={{ color: theme.textSecondary, marginLeft: Spacing.sm }}
+                >
+                  {supplier.email}
+                </ThemedText>
+              </Pressable>
+            ) : null}
+            {supplier.address ? (
+              <View style={styles.contactRow}>
+                <Feather name="map-pin" size={16} color={theme.textSecondary} />
+                <ThemedText
+                  type="small"
+                  style={{
+                    color: theme.textSecondary,
+                    marginLeft: Spacing.sm,
+                    flex: 1,
+                  }}
+                >
+                  {supplier.address}
+                </ThemedText>
+              </View>
+            ) : null}
+          </View>
+          {isPositive(stats.amountOverdue) ? (
+            <View
+              style={[
+                styles.overdueRow,
+                { backgroundColor: AppColors.error + "15" },
+              ]}
+            >
+              <Feather name="alert-circle" size={16} color={AppColors.error} />
+              <ThemedText
+                type="small"
+                style={{ color: AppColors.error, flex: 1 }}
+              >
+                {formatCurrency(stats.amountOverdue, profile.currency)} is past
+                its due date
+              </ThemedText>
+            </View>
+          ) : null}
+        </View>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(150).springify()}>
+        <View
+          style={[
+            styles.statsCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <StatItem
+            label="Total Bought"
+            value={formatCurrency(stats.totalPurchased, profile.currency)}
+          />
+          <StatItem
+            label="Amount Paid"
+            value={formatCurrency(stats.amountPaid, profile.currency)}
+            color={AppColors.secondary}
+          />
+          <StatItem
+            label="You Owe"
+            value={formatCurrency(stats.amountPending, profile.currency)}
+            color={
+              isPositive(stats.amountPending) ? AppColors.warning : undefined
+            }
+          />
+        </View>
+      </Animated.View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <ThemedText type="h4">Purchase Bills</ThemedText>
+          <View style={styles.sectionActions}>
+            {isPositive(stats.amountPending) ? (
+              <Pressable
+                onPress={() =>
+                  navigation.navigate("PaySupplier", { supplierId })
+                }
+                style={({ pressed }) => [
+                  styles.addButton,
+                  {
+                    backgroundColor: AppColors.secondary,
+                    opacity: pressed ? 0.9 : 1,
+                  },
+                ]}
+              >
+                <Feather name="upload" size={16} color="#FFFFFF" />
+                <ThemedText
+                  type="small"
+                  style={{ color: "#FFFFFF", marginLeft: 4 }}
+                >
+                  Pay
+                </ThemedText>
+              </Pressable>
+            ) : null}
+            <Pressable
+              onPress={() => navigation.navigate("AddPurchase", { supplierId })}
+              style={({ pressed }) => [
+                styles.addButton,
+                {
+                  backgroundColor: AppColors.primary,
+                  opacity: pressed ? 0.9 : 1,
+                },
+              ]}
+            >
+              <Feather name="plus" size={16} color="#FFFFFF" />
+              <ThemedText
+                type="small"
+                style={{ color: "#FFFFFF", marginLeft: 4 }}
+              >
+                Add Bill
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+
+        {purchases.length === 0 ? (
+          <View
+            style={[
+              styles.emptyState,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="file-text" size={32} color={theme.textSecondary} />
+            <ThemedText
+              type="small"
+              style={{
+                color: theme.textSecondary,
+                marginTop: Spacing.sm,
+                textAlign: "center",
+              }}
+            >
+              No purchase bills yet. Add one when this supplier bills you.
+            </ThemedText>
+          </View>
+        ) : (
+          <View style={styles.billList}>
+            {[...purchases]
+              .sort((a, b) => b.date.localeCompare(a.date))
+              .map((bill, index) => (
+                <BillCard
+                  key={bill.id}
+                  bill={bill}
+                  currency={profile.currency}
+                  index={index}
+                  onPress={() =>
+                    navigation.navigate("AddPurchase", {
+                      supplierId,
+                      purchase: bill,
+                    })
+                  }
+                />
+              ))}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
+          History
+        </ThemedText>
+        <HistoryList entries={history} currency={profile.currency} />
+      </View>
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  profileCard: {
+    padding: Spacing.xl,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.lg,
+  },
+  profileHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+  },
+  avatar: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  avatarText: {
+    color: "#FFFFFF",
+    fontSize: 24,
+    fontWeight: "600",
+  },
+  profileActions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  actionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  badge: {
+    alignSelf: "flex-start",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    marginTop: Spacing.sm,
+  },
+  contactInfo: {
+    marginTop: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  contactRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  overdueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginTop: Spacing.lg,
+  },
+  statsCard: {
+    flexDirection: "row",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.xl,
+    gap: Spacing.lg,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  sectionActions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  billList: {
+    gap: Spacing.sm,
+  },
+  billCard: {
+    flexDirection: "row",
+    borderRadius: BorderRadius.md,
+    overflow: "hidden",
+  },
+  statusIndicator: {
+    width: 4,
+  },
+  billContent: {
+    flex: 1,
+    padding: Spacing.lg,
+  },
+  billHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  billDetails: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: Spacing.xs,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing["2xl"],
+    borderRadius: BorderRadius.lg,
+  },
+});
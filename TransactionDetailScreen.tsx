@@ -1,7 +1,6 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useLayoutEffect } from "react";
 import { View, StyleSheet, Pressable, TextInput, Alert } from "react-native";
 import {
-  useFocusEffect,
   useNavigation,
   useRoute,
   NavigationProp,
@@ -12,42 +11,109 @@ import Animated, { FadeInDown } from "react-native-reanimated";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
-import { storage, UserProfile } from "@/utils/storage";
-import { formatCurrency, formatDateTime } from "@/utils/format";
+import { storage, AttachedPaymentHandling } from "@/utils/storage";
+import {
+  useChangeLog,
+  useCredits,
+  usePayments,
+  useProfile,
+  useReturns,
+  useTransaction,
+} from "@/hooks/useStore";
+import { getCreditBalance } from "@/utils/analytics";
+import { HistoryList } from "@/components/HistoryList";
+import { formatCurrency, formatDate, formatDateTime } from "@/utils/format";
+import { daysOverdue, dueDateOf, paymentStatus } from "@/utils/terms";
+import { summarizeTax } from "@/utils/gst";
+import { describeDiscount } from "@/utils/pricing";
+import { returnableQuantities } from "@/utils/returns";
+import {
+  Money,
+  add,
+  compare,
+  isPositive,
+  min,
+  parseMoney,
+  subtract,
+  toMajor,
+} from "@/utils/money";
 import { Transaction, Payment } from "@/types";
 import { RootStackParamList } from "@/navigation/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
-type TransactionDetailRouteProp = RouteProp<RootStackParamList, "TransactionDetail">;
+type TransactionDetailRouteProp = RouteProp<
+  RootStackParamList,
+  "TransactionDetail"
+>;
+
+const isClosedPayment = (payment: Payment) =>
+  !!(payment.voidedAt || payment.reversalOf || payment.reversedBy);
 
 function PaymentCard({
   payment,
   currency,
   index,
+  onPress,
 }: {
   payment: Payment;
   currency: string;
   index: number;
+  onPress?: () => void;
 }) {
   const { theme } = useTheme();
+  const label = payment.voidedAt
+    ? "voided"
+    : payment.reversalOf
+      ? "reversal"
+      : payment.reversedBy
+        ? "reversed"
+        : payment.method;
+  const labelColor =
+    payment.voidedAt || payment.reversalOf
+      ? AppColors.error
+      : AppColors.secondary;
 
   return (
     <Animated.View entering={FadeInDown.delay(200 + index * 50).springify()}>
-      <View style={[styles.paymentCard, { backgroundColor: theme.backgroundDefault }]}>
+      <Pressable
+        onPress={onPress}
+        disabled={!onPress}
+        style={({ pressed }) => [
+          styles.paymentCard,
+          {
+            backgroundColor: theme.backgroundDefault,
+            opacity: payment.voidedAt ? 0.6 : pressed ? 0.9 : 1,
+          },
+        ]}
+      >
         <View style={styles.paymentInfo}>
-          <ThemedText type="body" style={{ fontWeight: "600" }}>
+          <ThemedText
+            type="body"
+            style={{
+              fontWeight: "600",
+              textDecorationLine: payment.voidedAt ? "line-through" : "none",
+            }}
+          >
             {formatCurrency(payment.amount, currency)}
           </ThemedText>
           <ThemedText type="small" style={{ color: theme.textSecondary }}>
             {formatDateTime(payment.date)}
+            {payment.voidedAt
+              ? ` · voided ${formatDateTime(payment.voidedAt)}`
+              : ""}
           </ThemedText>
         </View>
-        <View style={[styles.paymentMethod, { backgroundColor: AppColors.secondary + "20" }]}>
-          <ThemedText type="caption" style={{ color: AppColors.secondary, textTransform: "uppercase" }}>
-            {payment.method}
+        <View
+          style={[styles.paymentMethod, { backgroundColor: labelColor + "20" }]}
+        >
+          <ThemedText
+            type="caption"
+            style={{ color: labelColor, textTransform: "uppercase" }}
+          >
+            {label}
           </ThemedText>
         </View>
-      </View>
+      </Pressable>
     </Animated.View>
   );
 }
@@ -58,75 +124,321 @@ export default function TransactionDetailScreen() {
   const { theme } = useTheme();
   const { transaction: initialTransaction, customerName } = route.params;
 
-  const [transaction, setTransaction] = useState(initialTransaction);
-  const [payments, setPayments] = useState<Payment[]>([]);
-  const [profile, setProfile] = useState<UserProfile>({ name: "", businessName: "", currency: "INR" });
+  const transaction =
+    useTransaction(initialTransaction.id) || initialTransaction;
+  const payments = usePayments({ transactionId: initialTransaction.id });
+  const history = useChangeLog({ transactionId: initialTransaction.id });
+  const credits = useCredits({ customerId: initialTransaction.customerId });
+  const returns = useReturns({ transactionId: initialTransaction.id });
+  const profile = useProfile();
   const [showPaymentForm, setShowPaymentForm] = useState(false);
   const [paymentAmount, setPaymentAmount] = useState("");
-  const [paymentMethod, setPaymentMethod] = useState<"cash" | "upi" | "bank" | "other">("cash");
+  const [paymentMethod, setPaymentMethod] = useState<Payment["method"]>("cash");
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const loadData = useCallback(async () => {
-    const [allPayments, allTransactions, profileData] = await Promise.all([
-      storage.getPayments(),
-      storage.getTransactions(),
-      storage.getProfile(),
-    ]);
-    
-    const txPayments = allPayments.filter((p) => p.transactionId === transaction.id);
-    setPayments(txPayments);
-    
-    const updatedTx = allTransactions.find((t) => t.id === transaction.id);
-    if (updatedTx) {
-      setTransaction(updatedTx);
-    }
-    
-    setProfile(profileData);
-  }, [transaction.id]);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [loadData])
+  const pendingAmount = subtract(
+    transaction.totalAmount,
+    transaction.amountPaid,
   );
+  // While editing, the payment's current amount is available again.
+  const maxAmount = editingPayment
+    ? add(pendingAmount, editingPayment.amount)
+    : pendingAmount;
+  const creditBalance = getCreditBalance(
+    transaction.customerId,
+    credits,
+    profile.currency,
+  );
+
+  const closePaymentForm = () => {
+    setPaymentAmount("");
+    setPaymentMethod("cash");
+    setEditingPayment(null);
+    setShowPaymentForm(false);
+  };
+
+  const savePayment = async (amount: Money) => {
+    setIsSubmitting(true);
+    try {
+      if (editingPayment) {
+        await storage.updatePayment(editingPayment.id, {
+          amount,
+          method: paymentMethod,
+        });
+      } else {
+        await storage.addPayment({
+          transactionId: transaction.id,
+          customerId: transaction.customerId,
+          amount,
+          date: new Date().toISOString(),
+          method: paymentMethod,
+        });
+      }
+      closePaymentForm();
+    } catch (error) {
+      Alert.alert("Error", "Failed to save payment. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-  const handleAddPayment = async () => {
-    const amount = parseFloat(paymentAmount);
-    const pending = transaction.totalAmount - transaction.amountPaid;
+  const handleSubmitPayment = () => {
+    const amount = parseMoney(paymentAmount, transaction.totalAmount.currency);
 
-    if (!amount || amount <= 0) {
+    if (!amount || !isPositive(amount)) {
       Alert.alert("Invalid", "Please enter a valid amount.");
       return;
     }
 
-    if (amount > pending) {
-      Alert.alert("Invalid", `Amount cannot exceed pending amount of ${formatCurrency(pending, profile.currency)}`);
+    if (compare(amount, maxAmount) > 0) {
+      if (editingPayment) {
+        Alert.alert(
+          "Invalid",
+          `Amount cannot exceed pending amount of ${formatCurrency(maxAmount, profile.currency)}`,
+        );
+        return;
+      }
+      const extra = formatCurrency(
+        subtract(amount, maxAmount),
+        profile.currency,
+      );
+      Alert.alert(
+        "Overpayment",
+        `This is ${extra} more than is owed. Keep the extra as credit for ${customerName}?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Keep as Credit", onPress: () => savePayment(amount) },
+        ],
+      );
       return;
     }
 
-    setIsSubmitting(true);
+    savePayment(amount);
+  };
+
+  const handleApplyCredit = () => {
+    const amount = formatCurrency(
+      min(creditBalance, pendingAmount),
+      profile.currency,
+    );
+    Alert.alert(
+      "Apply Credit",
+      `Pay ${amount} of this transaction from ${customerName}'s credit?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Apply",
+          onPress: () =>
+            runPaymentAction(() => storage.applyCredit(transaction.id)),
+        },
+      ],
+    );
+  };
+
+  const startEditing = (payment: Payment) => {
+    setEditingPayment(payment);
+    setPaymentAmount(String(toMajor(payment.amount)));
+    setPaymentMethod(payment.method);
+    setShowPaymentForm(true);
+  };
+
+  const runPaymentAction = async (action: () => Promise<unknown>) => {
     try {
-      await storage.addPayment({
-        transactionId: transaction.id,
-        customerId: transaction.customerId,
-        amount,
-        date: new Date().toISOString(),
-        method: paymentMethod,
-      });
-      setPaymentAmount("");
-      setShowPaymentForm(false);
-      await loadData();
+      await action();
     } catch (error) {
-      Alert.alert("Error", "Failed to add payment. Please try again.");
-    } finally {
-      setIsSubmitting(false);
+      Alert.alert("Error", "Failed to update payment. Please try again.");
     }
   };
 
-  const pendingAmount = transaction.totalAmount - transaction.amountPaid;
+  const confirmVoid = (payment: Payment) =>
+    Alert.alert(
+      "Void Payment",
+      "Use this for a payment entered by mistake. It stays in the history but no longer counts.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Void",
+          style: "destructive",
+          onPress: () =>
+            runPaymentAction(() => storage.voidPayment(payment.id)),
+        },
+      ],
+    );
+
+  const confirmReverse = (payment: Payment) =>
+    Alert.alert(
+      "Reverse Payment",
+      "Use this when the money was refunded or bounced. A reversal entry is added to cancel it out.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reverse",
+          style: "destructive",
+          onPress: () =>
+            runPaymentAction(() => storage.reversePayment(payment.id)),
+        },
+      ],
+    );
+
+  // Android alerts show at most three buttons, so undoing a payment is a second step.
+  const handlePaymentPress = (payment: Payment) => {
+    if (payment.method === "credit") {
+      Alert.alert(
+        "Void Payment",
+        `Void this payment from credit? The ${formatCurrency(payment.amount, profile.currency)} goes back to ${customerName}'s credit.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Void",
+            style: "destructive",
+            onPress: () =>
+              runPaymentAction(() => storage.voidPayment(payment.id)),
+          },
+        ],
+      );
+      return;
+    }
+    Alert.alert(
+      `Payment of ${formatCurrency(payment.amount, profile.currency)}`,
+      formatDateTime(payment.date),
+      [
+        { text: "Edit", onPress: () => startEditing(payment) },
+        {
+          text: "Undo Payment",
+          onPress: () =>
+            Alert.alert(
+              "Undo Payment",
+              "Was this payment entered by mistake, or refunded?",
+              [
+                {
+                  text: "Entered by Mistake",
+                  onPress: () => confirmVoid(payment),
+                },
+                {
+                  text: "Refunded or Bounced",
+                  onPress: () => confirmReverse(payment),
+                },
+                { text: "Cancel", style: "cancel" },
+              ],
+            ),
+        },
+        { text: "Cancel", style: "cancel" },
+      ],
+    );
+  };
+
+  const handleEdit = () => {
+    if (returns.length > 0) {
+      Alert.alert(
+        "Cannot Edit",
+        "Goods have been returned against this transaction. Record another return instead.",
+      );
+      return;
+    }
+    navigation.navigate("AddTransaction", {
+      customerId: transaction.customerId,
+      transaction,
+    });
+  };
+
+  const deleteTransaction = async (handling: AttachedPaymentHandling) => {
+    try {
+      const deleted = await storage.deleteTransaction(transaction.id, handling);
+      if (!deleted) {
+        Alert.alert(
+          "Cannot Delete",
+          "This transaction now has payments or returns against it. Please review it and try again.",
+        );
+        return;
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to delete transaction. Please try again.");
+    }
+  };
+
+  const handleDelete = () => {
+    if (returns.length > 0) {
+      Alert.alert(
+        "Cannot Delete",
+        "Goods have been returned against this transaction, so it is kept for the record.",
+      );
+      return;
+    }
+    if (payments.length === 0) {
+      Alert.alert(
+        "Delete Transaction",
+        "Delete this transaction? This cannot be undone.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: () => deleteTransaction("block"),
+          },
+        ],
+      );
+      return;
+    }
+
+    const count = `${payments.length} payment${payments.length === 1 ? "" : "s"}`;
+    const paid = formatCurrency(transaction.amountPaid, profile.currency);
+    Alert.alert(
+      "Delete Transaction",
+      isPositive(transaction.amountPaid)
+        ? `This transaction has ${count} adding up to ${paid}. Keep that money as credit for ${customerName}, or delete the payments too?`
+        : `This transaction has ${count}, none of which count towards the amount paid. Delete them too?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        ...(isPositive(transaction.amountPaid)
+          ? [
+              {
+                text: "Keep as Credit",
+                onPress: () => deleteTransaction("credit"),
+              },
+            ]
+          : []),
+        {
+          text: "Delete Payments",
+          style: "destructive" as const,
+          onPress: () => deleteTransaction("cascade"),
+        },
+      ],
+    );
+  };
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <View style={styles.headerActions}>
+          <Pressable onPress={handleEdit} style={{ padding: Spacing.sm }}>
+            <Feather name="edit-2" size={20} color={theme.text} />
+          </Pressable>
+          <Pressable onPress={handleDelete} style={{ padding: Spacing.sm }}>
+            <Feather name="trash-2" size={20} color={AppColors.error} />
+          </Pressable>
+        </View>
+      ),
+    });
+  }, [navigation, transaction, payments, returns, profile.currency, theme]);
+
+  const status = paymentStatus(transaction);
+  const canReturn = returnableQuantities(transaction, returns).some(
+    (q) => q > 0,
+  );
+  const tax = summarizeTax(
+    transaction.products,
+    transaction.totalAmount.currency,
+  );
+  const taxRows: { label: string; amount: Money }[] = [
+    { label: "CGST", amount: tax.cgst },
+    { label: "SGST", amount: tax.sgst },
+    { label: "IGST", amount: tax.igst },
+  ].filter((row) => isPositive(row.amount));
 
   const getStatusColor = () => {
-    switch (transaction.status) {
+    switch (status) {
       case "paid":
         return AppColors.secondary;
       case "partial":
@@ -136,7 +448,10 @@ export default function TransactionDetailScreen() {
     }
   };
 
-  const paymentMethods: Array<{ key: "cash" | "upi" | "bank" | "other"; label: string }> = [
+  const paymentMethods: Array<{
+    key: "cash" | "upi" | "bank" | "other";
+    label: string;
+  }> = [
     { key: "cash", label: "Cash" },
     { key: "upi", label: "UPI" },
     { key: "bank", label: "Bank" },
@@ -146,7 +461,12 @@ export default function TransactionDetailScreen() {
   return (
     <ScreenKeyboardAwareScrollView>
       <Animated.View entering={FadeInDown.delay(100).springify()}>
-        <View style={[styles.headerCard, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[
+            styles.headerCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
           <View style={styles.headerTop}>
             <View>
               <ThemedText type="small" style={{ color: theme.textSecondary }}>
@@ -162,20 +482,83 @@ export default function TransactionDetailScreen() {
             >
               <ThemedText
                 type="small"
-                style={{ color: getStatusColor(), textTransform: "capitalize", fontWeight: "600" }}
+                style={{
+                  color: getStatusColor(),
+                  textTransform: "capitalize",
+                  fontWeight: "600",
+                }}
               >
-                {transaction.status}
+                {status}
               </ThemedText>
             </View>
           </View>
-          <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.sm }}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginTop: Spacing.sm }}
+          >
             {formatDateTime(transaction.date)}
+            {transaction.recurringTemplateId ? " · Repeat order" : ""}
           </ThemedText>
+          {transaction.status !== "paid" ? (
+            <ThemedText
+              type="small"
+              style={{
+                color:
+                  status === "overdue" ? AppColors.error : theme.textSecondary,
+              }}
+            >
+              Due {formatDate(dueDateOf(transaction))}
+              {status === "overdue"
+                ? ` · ${daysOverdue(transaction)} days overdue`
+                : ""}
+            </ThemedText>
+          ) : null}
         </View>
       </Animated.View>
 
       <Animated.View entering={FadeInDown.delay(150).springify()}>
-        <View style={[styles.amountsCard, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[
+            styles.amountsCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {transaction.discount && transaction.discountAmount ? (
+            <View style={styles.amountRow}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Bill Discount ({describeDiscount(transaction.discount)})
+              </ThemedText>
+              <ThemedText type="small" style={{ color: AppColors.secondary }}>
+                −{formatCurrency(transaction.discountAmount, profile.currency)}
+              </ThemedText>
+            </View>
+          ) : null}
+          {taxRows.length > 0 ? (
+            <>
+              <View style={styles.amountRow}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Taxable Value
+                  {transaction.pricesIncludeTax ? " (prices include GST)" : ""}
+                </ThemedText>
+                <ThemedText type="small">
+                  {formatCurrency(tax.taxableValue, profile.currency)}
+                </ThemedText>
+              </View>
+              {taxRows.map((row) => (
+                <View key={row.label} style={styles.amountRow}>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {row.label}
+                  </ThemedText>
+                  <ThemedText type="small">
+                    {formatCurrency(row.amount, profile.currency)}
+                  </ThemedText>
+                </View>
+              ))}
+            </>
+          ) : null}
           <View style={styles.amountRow}>
             <ThemedText type="body" style={{ color: theme.textSecondary }}>
               Total Amount
@@ -192,7 +575,7 @@ export default function TransactionDetailScreen() {
               {formatCurrency(transaction.amountPaid, profile.currency)}
             </ThemedText>
           </View>
-          {pendingAmount > 0 ? (
+          {isPositive(pendingAmount) ? (
             <View style={styles.amountRow}>
               <ThemedText type="body" style={{ color: AppColors.warning }}>
                 Pending
@@ -214,14 +597,44 @@ export default function TransactionDetailScreen() {
             key={index}
             entering={FadeInDown.delay(200 + index * 50).springify()}
           >
-            <View style={[styles.productCard, { backgroundColor: theme.backgroundDefault }]}>
+            <View
+              style={[
+                styles.productCard,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
               <View style={styles.productInfo}>
                 <ThemedText type="body" style={{ fontWeight: "600" }}>
                   {product.name}
                 </ThemedText>
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                  {product.quantity} x {formatCurrency(product.unitPrice, profile.currency)}
+                  {product.quantity} x{" "}
+                  {formatCurrency(product.unitPrice, profile.currency)}
                 </ThemedText>
+                {product.discount && product.discountAmount ? (
+                  <ThemedText
+                    type="small"
+                    style={{ color: AppColors.secondary }}
+                  >
+                    {describeDiscount(product.discount)} off · −
+                    {formatCurrency(product.discountAmount, profile.currency)}
+                  </ThemedText>
+                ) : null}
+                {product.taxRate !== undefined || product.hsnCode ? (
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {[
+                      product.hsnCode ? `HSN/SAC ${product.hsnCode}` : null,
+                      product.taxRate !== undefined
+                        ? `GST ${product.taxRate}%`
+                        : null,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </ThemedText>
+                ) : null}
               </View>
               <ThemedText type="body" style={{ fontWeight: "600" }}>
                 {formatCurrency(product.total, profile.currency)}
@@ -234,25 +647,66 @@ export default function TransactionDetailScreen() {
       <View style={styles.section}>
         <View style={styles.sectionHeader}>
           <ThemedText type="h4">Payment History</ThemedText>
-          {pendingAmount > 0 ? (
+          {isPositive(pendingAmount) || showPaymentForm ? (
             <Pressable
-              onPress={() => setShowPaymentForm(!showPaymentForm)}
+              onPress={() =>
+                showPaymentForm ? closePaymentForm() : setShowPaymentForm(true)
+              }
               style={({ pressed }) => [
                 styles.addPaymentButton,
-                { backgroundColor: AppColors.secondary, opacity: pressed ? 0.9 : 1 },
+                {
+                  backgroundColor: AppColors.secondary,
+                  opacity: pressed ? 0.9 : 1,
+                },
               ]}
             >
-              <Feather name={showPaymentForm ? "x" : "plus"} size={16} color="#FFFFFF" />
-              <ThemedText type="small" style={{ color: "#FFFFFF", marginLeft: 4 }}>
+              <Feather
+                name={showPaymentForm ? "x" : "plus"}
+                size={16}
+                color="#FFFFFF"
+              />
+              <ThemedText
+                type="small"
+                style={{ color: "#FFFFFF", marginLeft: 4 }}
+              >
                 {showPaymentForm ? "Cancel" : "Add Payment"}
               </ThemedText>
             </Pressable>
           ) : null}
         </View>
 
+        {isPositive(creditBalance) &&
+        isPositive(pendingAmount) &&
+        !showPaymentForm ? (
+          <Pressable
+            onPress={handleApplyCredit}
+            style={({ pressed }) => [
+              styles.creditBanner,
+              {
+                backgroundColor: AppColors.secondary + "20",
+                opacity: pressed ? 0.8 : 1,
+              },
+            ]}
+          >
+            <Feather name="gift" size={16} color={AppColors.secondary} />
+            <ThemedText
+              type="small"
+              style={{ color: AppColors.secondary, flex: 1 }}
+            >
+              {formatCurrency(creditBalance, profile.currency)} credit
+              available. Tap to apply.
+            </ThemedText>
+          </Pressable>
+        ) : null}
+
         {showPaymentForm ? (
           <Animated.View entering={FadeInDown.springify()}>
-            <View style={[styles.paymentForm, { backgroundColor: theme.backgroundDefault }]}>
+            <View
+              style={[
+                styles.paymentForm,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
               <View style={styles.methodSelector}>
                 {paymentMethods.map((method) => (
                   <Pressable
@@ -271,7 +725,8 @@ export default function TransactionDetailScreen() {
                     <ThemedText
                       type="small"
                       style={{
-                        color: paymentMethod === method.key ? "#FFFFFF" : theme.text,
+                        color:
+                          paymentMethod === method.key ? "#FFFFFF" : theme.text,
                       }}
                     >
                       {method.label}
@@ -282,24 +737,37 @@ export default function TransactionDetailScreen() {
               <TextInput
                 style={[
                   styles.input,
-                  { backgroundColor: theme.backgroundSecondary, color: theme.text },
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                  },
                 ]}
                 value={paymentAmount}
                 onChangeText={setPaymentAmount}
-                placeholder={`Amount (max ${formatCurrency(pendingAmount, profile.currency)})`}
+                placeholder={`Amount (max ${formatCurrency(maxAmount, profile.currency)})`}
                 placeholderTextColor={theme.textSecondary}
                 keyboardType="numeric"
               />
               <Pressable
-                onPress={handleAddPayment}
+                onPress={handleSubmitPayment}
                 disabled={isSubmitting}
                 style={({ pressed }) => [
                   styles.submitButton,
-                  { backgroundColor: AppColors.secondary, opacity: pressed || isSubmitting ? 0.8 : 1 },
+                  {
+                    backgroundColor: AppColors.secondary,
+                    opacity: pressed || isSubmitting ? 0.8 : 1,
+                  },
                 ]}
               >
-                <ThemedText type="body" style={{ color: "#FFFFFF", fontWeight: "600" }}>
-                  {isSubmitting ? "Adding..." : "Add Payment"}
+                <ThemedText
+                  type="body"
+                  style={{ color: "#FFFFFF", fontWeight: "600" }}
+                >
+                  {isSubmitting
+                    ? "Saving..."
+                    : editingPayment
+                      ? "Save Payment"
+                      : "Add Payment"}
                 </ThemedText>
               </Pressable>
             </View>
@@ -307,7 +775,12 @@ export default function TransactionDetailScreen() {
         ) : null}
 
         {payments.length === 0 ? (
-          <View style={[styles.emptyState, { backgroundColor: theme.backgroundDefault }]}>
+          <View
+            style={[
+              styles.emptyState,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
             <Feather name="credit-card" size={32} color={theme.textSecondary} />
             <ThemedText
               type="small"
@@ -324,19 +797,95 @@ export default function TransactionDetailScreen() {
                 payment={payment}
                 currency={profile.currency}
                 index={index}
+                onPress={
+                  isClosedPayment(payment)
+                    ? undefined
+                    : () => handlePaymentPress(payment)
+                }
               />
             ))}
           </View>
         )}
       </View>
 
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <ThemedText type="h4">Returns</ThemedText>
+          {canReturn ? (
+            <Pressable
+              onPress={() =>
+                navigation.navigate("SalesReturn", { transaction })
+              }
+              style={({ pressed }) => [
+                styles.addPaymentButton,
+                {
+                  backgroundColor: AppColors.primary,
+                  opacity: pressed ? 0.9 : 1,
+                },
+              ]}
+            >
+              <Feather name="corner-up-left" size={16} color="#FFFFFF" />
+              <ThemedText
+                type="small"
+                style={{ color: "#FFFFFF", marginLeft: 4 }}
+              >
+                Record Return
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </View>
+        {returns.length === 0 ? (
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            No goods returned
+          </ThemedText>
+        ) : (
+          <View style={styles.paymentsList}>
+            {returns.map((salesReturn) => (
+              <View
+                key={salesReturn.id}
+                style={[
+                  styles.paymentCard,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <View style={styles.paymentInfo}>
+                  <ThemedText type="body" style={{ fontWeight: "600" }}>
+                    −{formatCurrency(salesReturn.amount, profile.currency)}
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {salesReturn.items
+                      .map((i) => `${i.quantity} × ${i.name}`)
+                      .join(", ")}
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {formatDateTime(salesReturn.date)}
+                    {salesReturn.reason ? ` · ${salesReturn.reason}` : ""}
+                  </ThemedText>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+
       {transaction.notes ? (
         <Animated.View entering={FadeInDown.delay(300).springify()}>
           <View style={styles.section}>
             <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
               Notes
             </ThemedText>
-            <View style={[styles.notesCard, { backgroundColor: theme.backgroundDefault }]}>
+            <View
+              style={[
+                styles.notesCard,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
               <ThemedText type="body" style={{ color: theme.textSecondary }}>
                 {transaction.notes}
               </ThemedText>
@@ -344,11 +893,29 @@ export default function TransactionDetailScreen() {
           </View>
         </Animated.View>
       ) : null}
+
+      <View style={styles.section}>
+        <ThemedText type="h4" style={{ marginBottom: Spacing.md }}>
+          History
+        </ThemedText>
+        <HistoryList entries={history} currency={profile.currency} />
+      </View>
     </ScreenKeyboardAwareScrollView>
   );
 }
 
 const styles = StyleSheet.create({
+  headerActions: {
+    flexDirection: "row",
+  },
+  creditBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+  },
   headerCard: {
     padding: Spacing.xl,
     borderRadius: BorderRadius.lg,
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from "react";
+import { View, StyleSheet, Pressable, Alert } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { ScreenFlatList } from "@/components/ScreenFlatList";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useTrashedCustomers } from "@/hooks/useStore";
+import { storage } from "@/utils/storage";
+import { formatDate, getInitials } from "@/utils/format";
+import { Customer } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function TrashedCustomerCard({
+  customer,
+  retentionDays,
+  index,
+  onRestore,
+  onDelete,
+}: {
+  customer: Customer;
+  retentionDays: number;
+  index: number;
+  onRestore: () => void;
+  onDelete: () => void;
+}) {
+  const { theme } = useTheme();
+  const purgeAt =
+    new Date(customer.deletedAt!).getTime() + retentionDays * DAY_MS;
+  const daysLeft = Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).springify()}>
+      <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[
+            styles.avatar,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+        >
+          <ThemedText
+            style={[styles.avatarText, { color: theme.textSecondary }]}
+          >
+            {getInitials(customer.name)}
+          </ThemedText>
+        </View>
+        <View style={styles.cardContent}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {customer.name}
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Deleted {formatDate(customer.deletedAt!)}
+          </ThemedText>
+          <ThemedText type="small" style={{ color: AppColors.warning }}>
+            {daysLeft === 0
+              ? "Deleted permanently on next launch"
+              : `Deleted permanently in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+          </ThemedText>
+        </View>
+        <Pressable
+          onPress={onRestore}
+          style={[
+            styles.iconButton,
+            { backgroundColor: AppColors.primary + "20" },
+          ]}
+        >
+          <Feather name="rotate-ccw" size={18} color={AppColors.primary} />
+        </Pressable>
+        <Pressable
+          onPress={onDelete}
+          style={[
+            styles.iconButton,
+            { backgroundColor: AppColors.error + "20" },
+          ]}
+        >
+          <Feather name="trash-2" size={18} color={AppColors.error} />
+        </Pressable>
+      </View>
+    </Animated.View>
+  );
+}
+
+export default function TrashScreen() {
+  const { theme } = useTheme();
+  const customers = useTrashedCustomers();
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  useEffect(() => {
+    storage.getTrashRetentionDays().then(setRetentionDays);
+  }, []);
+
+  const handleRetentionChange = () => {
+    Alert.alert(
+      "Keep Deleted Customers",
+      "Customers in the trash are deleted permanently after this many days.",
+      [
+        ...RETENTION_OPTIONS.map((days) => ({
+          text: `${days} days`,
+          onPress: async () => {
+            await storage.setTrashRetentionDays(days);
+            setRetentionDays(days);
+          },
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const handleRestore = async (customer: Customer) => {
+    try {
+      await storage.restoreCustomer(customer.id);
+    } catch (error) {
+      Alert.alert("Error", "Failed to restore customer. Please try again.");
+    }
+  };
+
+  const handleDelete = (customer: Customer) => {
+    Alert.alert(
+      "Delete Permanently",
+      `${customer.name} and all their transactions and payments will be deleted. This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await storage.purgeCustomer(customer.id);
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                "Failed to delete customer. Please try again.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <ScreenFlatList
+      data={customers}
+      keyExtractor={(item) => item.id}
+      contentContainerStyle={styles.listContent}
+      ListHeaderComponent={
+        <Pressable
+          onPress={handleRetentionChange}
+          style={[
+            styles.retention,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <Feather name="clock" size={20} color={AppColors.primary} />
+          <View style={styles.cardContent}>
+            <ThemedText type="body">Auto-delete after</ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {retentionDays === null ? "..." : `${retentionDays} days`}
+            </ThemedText>
+          </View>
+          <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+        </Pressable>
+      }
+      renderItem={({ item, index }) => (
+        <TrashedCustomerCard
+          customer={item}
+          retentionDays={retentionDays ?? 0}
+          index={index}
+          onRestore={() => handleRestore(item)}
+          onDelete={() => handleDelete(item)}
+        />
+      )}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Feather name="trash" size={48} color={theme.textSecondary} />
+          <ThemedText
+            type="body"
+            style={{
+              color: theme.textSecondary,
+              marginTop: Spacing.md,
+              textAlign: "center",
+            }}
+          >
+            Trash is empty
+          </ThemedText>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    gap: Spacing.sm,
+  },
+  retention: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cardContent: {
+    flex: 1,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing["5xl"],
+    paddingHorizontal: Spacing["2xl"],
+  },
+});
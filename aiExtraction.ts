@@ -6,7 +6,7 @@ const openai = new OpenAI({
 });
 
 export async function extractCardData(
-  base64Image: string
+  base64Image: string,
 ): Promise<ExtractedCardData> {
   try {
     const response = await openai.chat.completions.create({
@@ -0,0 +1,62 @@
+import { Bill, Transaction } from "@/types";
+import { Money, compare, isPositive, min, subtract, sum } from "@/utils/money";
+
+export interface Allocation {
+  transactionId: string;
+  amount: Money;
+}
+
+export const pendingOf = (transaction: Bill): Money =>
+  subtract(transaction.totalAmount, transaction.amountPaid);
+
+/** Transactions, or purchase bills, that still have money owing, oldest first. */
+export function openTransactions<T extends Bill>(transactions: T[]): T[] {
+  return transactions
+    .filter((t) => isPositive(pendingOf(t)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Spreads `amount` over `transactions` oldest first, settling each one in
+ * full before moving on. Whatever is left over when everything is settled
+ * is returned as `unallocated`.
+ */
+export function allocateOldestFirst(
+  transactions: Transaction[],
+  amount: Money,
+): { allocations: Allocation[]; unallocated: Money } {
+  const allocations: Allocation[] = [];
+  let remaining = amount;
+  for (const transaction of openTransactions(transactions)) {
+    if (!isPositive(remaining)) break;
+    const share = min(remaining, pendingOf(transaction));
+    allocations.push({ transactionId: transaction.id, amount: share });
+    remaining = subtract(remaining, share);
+  }
+  return { allocations, unallocated: remaining };
+}
+
+export const totalAllocated = (
+  allocations: Allocation[],
+  currency: string,
+): Money =>
+  sum(
+    allocations.map((a) => a.amount),
+    currency,
+  );
+
+/** Allocations that are positive and no larger than what each transaction owes. */
+export function isValidAllocation(
+  transactions: Transaction[],
+  allocations: Allocation[],
+): boolean {
+  const byId = new Map(transactions.map((t) => [t.id, t]));
+  return allocations.every((a) => {
+    const transaction = byId.get(a.transactionId);
+    return (
+      !!transaction &&
+      isPositive(a.amount) &&
+      compare(a.amount, pendingOf(transaction)) <= 0
+    );
+  });
+}
@@ -1,8 +1,56 @@
-import { Customer, Transaction, DashboardStats, RankedCustomer, CustomerStats } from "@/types";
+import {
+  Bill,
+  Customer,
+  Transaction,
+  CreditEntry,
+  DashboardStats,
+  Expense,
+  ExpenseCategory,
+  Margin,
+  RankedCustomer,
+  CustomerStats,
+  Product,
+  ProductItem,
+  ProductMargin,
+  ProfitableCustomer,
+  ProfitAndLoss,
+  PurchaseBill,
+  SalesReturn,
+  SupplierStats,
+} from "@/types";
+import {
+  Money,
+  add,
+  compare,
+  isPositive,
+  multiply,
+  subtract,
+  sum,
+  toMajor,
+  zero,
+} from "@/utils/money";
+import { pendingOf } from "@/utils/allocation";
+import { isOverdue } from "@/utils/terms";
+import { productKey } from "@/utils/catalog";
+import { TaxSummary, summarizeTax } from "@/utils/gst";
+import { lineDiscountGiven } from "@/utils/pricing";
+import { returnsBetween } from "@/utils/returns";
+import { expensesBetween } from "@/utils/expenses";
+
+/** What is still owed on the transactions, or purchase bills, that are past their due date. */
+export const getOverdueAmount = (
+  transactions: Bill[],
+  currency: string,
+  now: Date = new Date(),
+): Money =>
+  sum(transactions.filter((t) => isOverdue(t, now)).map(pendingOf), currency);
 
 export function getDashboardStats(
   customers: Customer[],
-  transactions: Transaction[]
+  transactions: Transaction[],
+  currency: string,
+  returns: SalesReturn[] = [],
+  purchases: PurchaseBill[] = [],
 ): DashboardStats {
   const now = new Date();
   const thisMonth = now.getMonth();
@@ -13,26 +61,43 @@ export function getDashboardStats(
     return txDate.getMonth() === thisMonth && txDate.getFullYear() === thisYear;
   });
 
-  const thisMonthRevenue = thisMonthTransactions.reduce(
-    (sum, t) => sum + t.totalAmount,
-    0
+  const thisMonthReturns = returnsBetween(
+    returns,
+    new Date(thisYear, thisMonth, 1),
+    new Date(thisYear, thisMonth + 1, 0, 23, 59, 59, 999),
+  );
+
+  const thisMonthRevenue = subtract(
+    sum(
+      thisMonthTransactions.map((t) => t.totalAmount),
+      currency,
+    ),
+    sum(
+      thisMonthReturns.map((r) => r.amount),
+      currency,
+    ),
   );
 
-  const pendingCollections = transactions.reduce(
-    (sum, t) => sum + (t.totalAmount - t.amountPaid),
-    0
+  const pendingCollections = sum(
+    transactions.map((t) => subtract(t.totalAmount, t.amountPaid)),
+    currency,
   );
+  const overdueTransactions = transactions.filter((t) => isOverdue(t, now));
 
-  const customerTotals = new Map<string, number>();
+  const customerTotals = new Map<string, Money>();
   thisMonthTransactions.forEach((t) => {
-    const current = customerTotals.get(t.customerId) || 0;
-    customerTotals.set(t.customerId, current + t.totalAmount);
+    const current = customerTotals.get(t.customerId) || zero(currency);
+    customerTotals.set(t.customerId, add(current, t.totalAmount));
+  });
+  thisMonthReturns.forEach((r) => {
+    const current = customerTotals.get(r.customerId) || zero(currency);
+    customerTotals.set(r.customerId, subtract(current, r.amount));
   });
 
   let topCustomerId = "";
-  let topAmount = 0;
+  let topAmount = zero(currency);
   customerTotals.forEach((amount, customerId) => {
-    if (amount > topAmount) {
+    if (compare(amount, topAmount) > 0) {
       topAmount = amount;
       topCustomerId = customerId;
     }
@@ -44,6 +109,10 @@ export function getDashboardStats(
     totalCustomers: customers.length,
     thisMonthRevenue,
     pendingCollections,
+    overdueCollections: sum(overdueTransactions.map(pendingOf), currency),
+    overdueCount: overdueTransactions.length,
+    payables: sum(purchases.map(pendingOf), currency),
+    overduePayables: getOverdueAmount(purchases, currency, now),
     topCustomer: {
       customer: topCustomer,
       amount: topAmount,
@@ -54,8 +123,10 @@ export function getDashboardStats(
 export function getMonthlyRankings(
   customers: Customer[],
   transactions: Transaction[],
+  currency: string,
   month?: number,
-  year?: number
+  year?: number,
+  returns: SalesReturn[] = [],
 ): RankedCustomer[] {
   const now = new Date();
   const targetMonth = month ?? now.getMonth();
@@ -63,25 +134,43 @@ export function getMonthlyRankings(
 
   const monthTransactions = transactions.filter((t) => {
     const txDate = new Date(t.date);
-    return txDate.getMonth() === targetMonth && txDate.getFullYear() === targetYear;
+    return (
+      txDate.getMonth() === targetMonth && txDate.getFullYear() === targetYear
+    );
   });
 
   const customerStats = new Map<
     string,
-    { totalAmount: number; transactionCount: number }
+    { totalAmount: Money; transactionCount: number }
   >();
 
   monthTransactions.forEach((t) => {
     const current = customerStats.get(t.customerId) || {
-      totalAmount: 0,
+      totalAmount: zero(currency),
       transactionCount: 0,
     };
     customerStats.set(t.customerId, {
-      totalAmount: current.totalAmount + t.totalAmount,
+      totalAmount: add(current.totalAmount, t.totalAmount),
       transactionCount: current.transactionCount + 1,
     });
   });
 
+  // Returns come off the month they are made in, not the month of the sale.
+  const monthReturns = returnsBetween(
+    returns,
+    new Date(targetYear, targetMonth, 1),
+    new Date(targetYear, targetMonth + 1, 0, 23, 59, 59, 999),
+  );
+  monthReturns.forEach((r) => {
+    const current = customerStats.get(r.customerId);
+    if (current) {
+      customerStats.set(r.customerId, {
+        ...current,
+        totalAmount: subtract(current.totalAmount, r.amount),
+      });
+    }
+  });
+
   const rankings: RankedCustomer[] = [];
   customerStats.forEach((stats, customerId) => {
     const customer = customers.find((c) => c.id === customerId);
@@ -95,7 +184,7 @@ export function getMonthlyRankings(
     }
   });
 
-  rankings.sort((a, b) => b.totalAmount - a.totalAmount);
+  rankings.sort((a, b) => compare(b.totalAmount, a.totalAmount));
   rankings.forEach((r, index) => {
     r.rank = index + 1;
   });
@@ -103,47 +192,123 @@ export function getMonthlyRankings(
   return rankings;
 }
 
+/** A customer's unapplied credit. Entries for other customers are ignored. */
+export function getCreditBalance(
+  customerId: string,
+  credits: CreditEntry[],
+  currency: string,
+): Money {
+  return sum(
+    credits
+      .filter((c) => c.customerId === customerId && !c.deletedAt)
+      .map((c) => c.amount),
+    currency,
+  );
+}
+
 export function getCustomerStats(
   customerId: string,
-  transactions: Transaction[]
+  transactions: Transaction[],
+  currency: string,
+  credits: CreditEntry[] = [],
+  returns: SalesReturn[] = [],
 ): CustomerStats {
-  const customerTransactions = transactions.filter((t) => t.customerId === customerId);
+  const customerTransactions = transactions.filter(
+    (t) => t.customerId === customerId,
+  );
+  const customerReturns = returnsBetween(returns).filter(
+    (r) => r.customerId === customerId,
+  );
 
-  const totalPurchased = customerTransactions.reduce(
-    (sum, t) => sum + t.totalAmount,
-    0
+  const amountReturned = sum(
+    customerReturns.map((r) => r.amount),
+    currency,
+  );
+  const totalPurchased = subtract(
+    sum(
+      customerTransactions.map((t) => t.totalAmount),
+      currency,
+    ),
+    amountReturned,
   );
-  const amountPaid = customerTransactions.reduce((sum, t) => sum + t.amountPaid, 0);
-  const amountPending = totalPurchased - amountPaid;
+  // The part of a return that settled what was owed is booked as a payment; it was not money paid.
+  const amountPaid = subtract(
+    sum(
+      customerTransactions.map((t) => t.amountPaid),
+      currency,
+    ),
+    sum(
+      customerReturns.map((r) => r.appliedAmount),
+      currency,
+    ),
+  );
+  const amountPending = sum(customerTransactions.map(pendingOf), currency);
 
-  const productCounts = new Map<string, number>();
+  const productCounts = new Map<string, { name: string; quantity: number }>();
   customerTransactions.forEach((t) => {
     t.products.forEach((p) => {
-      const current = productCounts.get(p.name) || 0;
-      productCounts.set(p.name, current + p.quantity);
+      const key = productKey(p);
+      const current = productCounts.get(key) || { name: p.name, quantity: 0 };
+      productCounts.set(key, {
+        ...current,
+        quantity: current.quantity + p.quantity,
+      });
     });
   });
-
-  const topProducts: { name: string; quantity: number }[] = [];
-  productCounts.forEach((quantity, name) => {
-    topProducts.push({ name, quantity });
+  customerReturns.forEach((r) => {
+    r.items.forEach((i) => {
+      const current = productCounts.get(productKey(i));
+      if (current) {
+        productCounts.set(productKey(i), {
+          ...current,
+          quantity: current.quantity - i.quantity,
+        });
+      }
+    });
   });
+
+  const topProducts = [...productCounts.values()].filter((p) => p.quantity > 0);
   topProducts.sort((a, b) => b.quantity - a.quantity);
 
   return {
     totalPurchased,
     amountPaid,
     amountPending,
+    amountReturned,
+    amountOverdue: getOverdueAmount(customerTransactions, currency),
+    creditBalance: getCreditBalance(customerId, credits, currency),
     transactionCount: customerTransactions.length,
     topProducts: topProducts.slice(0, 5),
   };
 }
 
+export function getSupplierStats(
+  supplierId: string,
+  purchases: PurchaseBill[],
+  currency: string,
+): SupplierStats {
+  const bills = purchases.filter((p) => p.customerId === supplierId);
+  return {
+    totalPurchased: sum(
+      bills.map((b) => b.totalAmount),
+      currency,
+    ),
+    amountPaid: sum(
+      bills.map((b) => b.amountPaid),
+      currency,
+    ),
+    amountPending: sum(bills.map(pendingOf), currency),
+    amountOverdue: getOverdueAmount(bills, currency),
+    billCount: bills.length,
+  };
+}
+
 export function getRevenueChartData(
   transactions: Transaction[],
   months: number = 6,
   startDate?: Date,
-  endDate?: Date
+  endDate?: Date,
+  returns: SalesReturn[] = [],
 ): { labels: string[]; data: number[] } {
   const now = new Date();
   const labels: string[] = [];
@@ -154,19 +319,25 @@ export function getRevenueChartData(
     const monthName = date.toLocaleDateString("en-US", { month: "short" });
     labels.push(monthName);
 
+    const inMonth = (value: string) => {
+      const txDate = new Date(value);
+      const inRange =
+        !startDate || !endDate || (txDate >= startDate && txDate <= endDate);
+      return (
+        inRange &&
+        txDate.getMonth() === date.getMonth() &&
+        txDate.getFullYear() === date.getFullYear()
+      );
+    };
+
     const monthRevenue = transactions
-      .filter((t) => {
-        const txDate = new Date(t.date);
-        const inRange = !startDate || !endDate || (txDate >= startDate && txDate <= endDate);
-        return (
-          inRange &&
-          txDate.getMonth() === date.getMonth() &&
-          txDate.getFullYear() === date.getFullYear()
-        );
-      })
-      .reduce((sum, t) => sum + t.totalAmount, 0);
-
-    data.push(monthRevenue);
+      .filter((t) => inMonth(t.date))
+      .reduce((total, t) => total + toMajor(t.totalAmount), 0);
+    const monthReturns = returnsBetween(returns)
+      .filter((r) => inMonth(r.date))
+      .reduce((total, r) => total + toMajor(r.amount), 0);
+
+    data.push(monthRevenue - monthReturns);
   }
 
   return { labels, data };
@@ -174,9 +345,11 @@ export function getRevenueChartData(
 
 export function getPaymentStatusData(
   transactions: Transaction[],
+  currency: string,
   startDate?: Date,
-  endDate?: Date
-): { collected: number; pending: number } {
+  endDate?: Date,
+  returns: SalesReturn[] = [],
+): { collected: Money; pending: Money } {
   const filtered = transactions.filter((t) => {
     const txDate = new Date(t.date);
     if (startDate && txDate < startDate) return false;
@@ -184,20 +357,34 @@ export function getPaymentStatusData(
     return true;
   });
 
-  const collected = filtered.reduce((sum, t) => sum + t.amountPaid, 0);
-  const pending = filtered.reduce(
-    (sum, t) => sum + (t.totalAmount - t.amountPaid),
-    0
+  // Returns that settled what was owed show up in amountPaid, but no money came in for them.
+  const ids = new Set(filtered.map((t) => t.id));
+  const settledByReturns = returnsBetween(returns)
+    .filter((r) => ids.has(r.transactionId))
+    .map((r) => r.appliedAmount);
+  const collected = subtract(
+    sum(
+      filtered.map((t) => t.amountPaid),
+      currency,
+    ),
+    sum(settledByReturns, currency),
+  );
+  const pending = sum(
+    filtered.map((t) => subtract(t.totalAmount, t.amountPaid)),
+    currency,
   );
   return { collected, pending };
 }
 
 export function getTopProducts(
   transactions: Transaction[],
+  currency: string,
   limit: number = 5,
   startDate?: Date,
-  endDate?: Date
-): { name: string; quantity: number; revenue: number }[] {
+  endDate?: Date,
+  products: Product[] = [],
+  returns: SalesReturn[] = [],
+): { name: string; quantity: number; revenue: Money }[] {
   const filtered = transactions.filter((t) => {
     const txDate = new Date(t.date);
     if (startDate && txDate < startDate) return false;
@@ -205,23 +392,322 @@ export function getTopProducts(
     return true;
   });
 
-  const productStats = new Map<string, { quantity: number; revenue: number }>();
+  // Catalog lines are grouped by product and named after it; free-text lines by normalized name.
+  const catalogNames = new Map(products.map((p) => [p.id, p.name]));
+  const productStats = new Map<
+    string,
+    { name: string; quantity: number; revenue: Money }
+  >();
 
   filtered.forEach((t) => {
     t.products.forEach((p) => {
-      const current = productStats.get(p.name) || { quantity: 0, revenue: 0 };
-      productStats.set(p.name, {
+      const key = productKey(p);
+      const name = (p.productId && catalogNames.get(p.productId)) || p.name;
+      const current = productStats.get(key) || {
+        name,
+        quantity: 0,
+        revenue: zero(currency),
+      };
+      productStats.set(key, {
+        name: current.name,
         quantity: current.quantity + p.quantity,
-        revenue: current.revenue + p.total,
+        revenue: add(current.revenue, p.total),
       });
     });
   });
+  returnsBetween(returns, startDate, endDate).forEach((r) => {
+    r.items.forEach((i) => {
+      const key = productKey(i);
+      const current = productStats.get(key);
+      if (current) {
+        productStats.set(key, {
+          name: current.name,
+          quantity: current.quantity - i.quantity,
+          revenue: subtract(current.revenue, i.total),
+        });
+      }
+    });
+  });
 
-  const products: { name: string; quantity: number; revenue: number }[] = [];
-  productStats.forEach((stats, name) => {
-    products.push({ name, ...stats });
+  const ranked = [...productStats.values()].filter((p) => p.quantity > 0);
+  ranked.sort((a, b) => compare(b.revenue, a.revenue));
+  return ranked.slice(0, limit);
+}
+
+/** GST charged on the transactions in the period, split by tax head, less GST on returns. */
+export function getTaxSummary(
+  transactions: Transaction[],
+  currency: string,
+  startDate?: Date,
+  endDate?: Date,
+  returns: SalesReturn[] = [],
+): TaxSummary {
+  const filtered = transactions.filter((t) => {
+    const txDate = new Date(t.date);
+    if (startDate && txDate < startDate) return false;
+    if (endDate && txDate > endDate) return false;
+    return true;
   });
+  const charged = summarizeTax(
+    filtered.flatMap((t) => t.products),
+    currency,
+  );
+  const returned = summarizeTax(
+    returnsBetween(returns, startDate, endDate).flatMap((r) => r.items),
+    currency,
+  );
+  return {
+    taxableValue: subtract(charged.taxableValue, returned.taxableValue),
+    cgst: subtract(charged.cgst, returned.cgst),
+    sgst: subtract(charged.sgst, returned.sgst),
+    igst: subtract(charged.igst, returned.igst),
+    totalTax: subtract(charged.totalTax, returned.totalTax),
+  };
+}
+
+/** Line and bill discounts given in the period, and on how many transactions. */
+export function getDiscountGiven(
+  transactions: Transaction[],
+  currency: string,
+  startDate?: Date,
+  endDate?: Date,
+): { amount: Money; transactionCount: number } {
+  const filtered = transactions.filter((t) => {
+    const txDate = new Date(t.date);
+    if (startDate && txDate < startDate) return false;
+    if (endDate && txDate > endDate) return false;
+    return true;
+  });
+  const perTransaction = filtered.map((t) =>
+    sum(t.products.map(lineDiscountGiven), currency),
+  );
+  return {
+    amount: sum(perTransaction, currency),
+    transactionCount: perTransaction.filter((d) => d.minor > 0).length,
+  };
+}
+
+/** What `items` came to before GST, after any discounts. */
+const preTaxValue = (items: ProductItem[], currency: string): Money =>
+  sum(
+    items.map((i) => i.taxableValue || i.total),
+    currency,
+  );
+
+/** What `items` cost at their cost price. Lines without one cost nothing. */
+const costValue = (items: ProductItem[], currency: string): Money =>
+  sum(
+    items
+      .filter((i) => i.costPrice)
+      .map((i) => multiply(i.costPrice!, i.quantity)),
+    currency,
+  );
 
-  products.sort((a, b) => b.revenue - a.revenue);
-  return products.slice(0, limit);
+/**
+ * Revenue less cost of goods less expenses for the period, all before GST.
+ * Cost of goods is the cost price of what was sold less what came back, the
+ * same figure the margins use; lines sold without a cost price add none.
+ */
+export function getProfitAndLoss(
+  transactions: Transaction[],
+  expenses: Expense[],
+  currency: string,
+  startDate?: Date,
+  endDate?: Date,
+  returns: SalesReturn[] = [],
+): ProfitAndLoss {
+  const inPeriod = (value: string) => {
+    const date = new Date(value);
+    if (startDate && date < startDate) return false;
+    if (endDate && date > endDate) return false;
+    return true;
+  };
+  const sold = transactions
+    .filter((t) => inPeriod(t.date))
+    .flatMap((t) => t.products);
+  const returned = returnsBetween(returns, startDate, endDate).flatMap(
+    (r) => r.items,
+  );
+  const revenue = subtract(
+    preTaxValue(sold, currency),
+    preTaxValue(returned, currency),
+  );
+  const costOfGoods = subtract(
+    costValue(sold, currency),
+    costValue(returned, currency),
+  );
+  const spent = expensesBetween(expenses, startDate, endDate);
+
+  const byCategory = new Map<ExpenseCategory, Money>();
+  spent.forEach((e) => {
+    byCategory.set(
+      e.category,
+      add(byCategory.get(e.category) || zero(currency), e.amount),
+    );
+  });
+  const expensesByCategory = [...byCategory.entries()]
+    .map(([category, amount]) => ({ category, amount }))
+    .sort((a, b) => compare(b.amount, a.amount));
+
+  const grossProfit = subtract(revenue, costOfGoods);
+  const totalExpenses = sum(
+    spent.map((e) => e.amount),
+    currency,
+  );
+  return {
+    revenue,
+    costOfGoods,
+    grossProfit,
+    expenses: totalExpenses,
+    netProfit: subtract(grossProfit, totalExpenses),
+    expensesByCategory,
+  };
+}
+
+const toMargin = (revenue: Money, cost: Money): Margin => {
+  const margin = subtract(revenue, cost);
+  return {
+    revenue,
+    cost,
+    margin,
+    marginPercent: isPositive(revenue)
+      ? (margin.minor / revenue.minor) * 100
+      : null,
+  };
+};
+
+/** The margin on `sold` less `returned`, counting only lines with a cost price. */
+function marginOf(
+  sold: ProductItem[],
+  returned: ProductItem[],
+  currency: string,
+): Margin {
+  const costed = (items: ProductItem[]) => items.filter((i) => i.costPrice);
+  const revenueOf = (items: ProductItem[]) =>
+    preTaxValue(costed(items), currency);
+  return toMargin(
+    subtract(revenueOf(sold), revenueOf(returned)),
+    subtract(costValue(sold, currency), costValue(returned, currency)),
+  );
+}
+
+/** Gross margin on what was sold in the period, less returns made in it. */
+export function getGrossMargin(
+  transactions: Transaction[],
+  currency: string,
+  startDate?: Date,
+  endDate?: Date,
+  returns: SalesReturn[] = [],
+): Margin {
+  const filtered = transactions.filter((t) => {
+    const txDate = new Date(t.date);
+    if (startDate && txDate < startDate) return false;
+    if (endDate && txDate > endDate) return false;
+    return true;
+  });
+  return marginOf(
+    filtered.flatMap((t) => t.products),
+    returnsBetween(returns, startDate, endDate).flatMap((r) => r.items),
+    currency,
+  );
+}
+
+/** Products ranked by gross margin, grouped the way `getTopProducts` groups them. */
+export function getProductMargins(
+  transactions: Transaction[],
+  currency: string,
+  limit: number = 5,
+  startDate?: Date,
+  endDate?: Date,
+  products: Product[] = [],
+  returns: SalesReturn[] = [],
+): ProductMargin[] {
+  const filtered = transactions.filter((t) => {
+    const txDate = new Date(t.date);
+    if (startDate && txDate < startDate) return false;
+    if (endDate && txDate > endDate) return false;
+    return true;
+  });
+
+  const catalogNames = new Map(products.map((p) => [p.id, p.name]));
+  const groups = new Map<
+    string,
+    {
+      name: string;
+      quantity: number;
+      sold: ProductItem[];
+      returned: ProductItem[];
+    }
+  >();
+  filtered.forEach((t) => {
+    t.products.forEach((p) => {
+      const key = productKey(p);
+      const name = (p.productId && catalogNames.get(p.productId)) || p.name;
+      const current = groups.get(key) || {
+        name,
+        quantity: 0,
+        sold: [],
+        returned: [],
+      };
+      current.quantity += p.quantity;
+      current.sold.push(p);
+      groups.set(key, current);
+    });
+  });
+  returnsBetween(returns, startDate, endDate).forEach((r) => {
+    r.items.forEach((i) => {
+      const current = groups.get(productKey(i));
+      if (current) {
+        current.quantity -= i.quantity;
+        current.returned.push(i);
+      }
+    });
+  });
+
+  const ranked = [...groups.values()]
+    .map(({ name, quantity, sold, returned }) => ({
+      name,
+      quantity,
+      ...marginOf(sold, returned, currency),
+    }))
+    .filter((p) => p.quantity > 0 && isPositive(p.revenue));
+  ranked.sort((a, b) => compare(b.margin, a.margin));
+  return ranked.slice(0, limit);
+}
+
+/** Customers ranked by gross margin in the month, the counterpart of `getMonthlyRankings`. */
+export function getProfitableCustomers(
+  customers: Customer[],
+  transactions: Transaction[],
+  currency: string,
+  month?: number,
+  year?: number,
+  returns: SalesReturn[] = [],
+): ProfitableCustomer[] {
+  const now = new Date();
+  const targetMonth = month ?? now.getMonth();
+  const targetYear = year ?? now.getFullYear();
+  const startDate = new Date(targetYear, targetMonth, 1);
+  const endDate = new Date(targetYear, targetMonth + 1, 0, 23, 59, 59, 999);
+
+  const rankings: ProfitableCustomer[] = [];
+  customers.forEach((customer) => {
+    const margin = getGrossMargin(
+      transactions.filter((t) => t.customerId === customer.id),
+      currency,
+      startDate,
+      endDate,
+      returns.filter((r) => r.customerId === customer.id),
+    );
+    if (isPositive(margin.revenue)) {
+      rankings.push({ customer, rank: 0, ...margin });
+    }
+  });
+
+  rankings.sort((a, b) => compare(b.margin, a.margin));
+  rankings.forEach((r, index) => {
+    r.rank = index + 1;
+  });
+
+  return rankings;
 }
@@ -0,0 +1,131 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  CollectionName,
+  RecordQuery,
+  Repository,
+  StoredRecord,
+  WriteOp,
+  matchesQuery,
+} from "@/utils/repository";
+import { STORAGE_KEYS } from "@/utils/storageKeys";
+import { writeAtomic, recoverJournal, JournalWrite } from "@/utils/journal";
+
+const COLLECTION_KEYS: Record<CollectionName, string> = {
+  customers: STORAGE_KEYS.CUSTOMERS,
+  transactions: STORAGE_KEYS.TRANSACTIONS,
+  payments: STORAGE_KEYS.PAYMENTS,
+  credits: STORAGE_KEYS.CREDITS,
+  products: STORAGE_KEYS.PRODUCTS,
+  stock: STORAGE_KEYS.STOCK,
+  returns: STORAGE_KEYS.RETURNS,
+  quotations: STORAGE_KEYS.QUOTATIONS,
+  recurring: STORAGE_KEYS.RECURRING,
+  purchases: STORAGE_KEYS.PURCHASES,
+  expenses: STORAGE_KEYS.EXPENSES,
+  changes: STORAGE_KEYS.CHANGES,
+};
+
+const valueKey = (key: string) => `@cardvault/${key}`;
+
+async function readList(collection: CollectionName): Promise<StoredRecord[]> {
+  const data = await AsyncStorage.getItem(COLLECTION_KEYS[collection]);
+  if (!data) return [];
+  const parsed = JSON.parse(data);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Expected a list in ${COLLECTION_KEYS[collection]}`);
+  }
+  return parsed;
+}
+
+/**
+ * Stores each collection as one JSON array under its `@cardvault/*` key.
+ * Commits touching more than one key go through the write journal.
+ */
+export function createAsyncStorageRepository(): Repository {
+  return {
+    name: "asyncstorage",
+
+    async init() {
+      await recoverJournal();
+    },
+
+    async list<T extends StoredRecord>(
+      collection: CollectionName,
+      query?: RecordQuery,
+    ) {
+      const records = await readList(collection);
+      return records.filter((record) => matchesQuery(record, query)) as T[];
+    },
+
+    async get<T extends StoredRecord>(
+      collection: CollectionName,
+      id: string,
+    ): Promise<T | null> {
+      const records = await readList(collection);
+      return (
+        (records.find((record) => record.id === id) as T | undefined) ?? null
+      );
+    },
+
+    async getValue<T>(key: string) {
+      const data = await AsyncStorage.getItem(valueKey(key));
+      return data ? (JSON.parse(data) as T) : null;
+    },
+
+    async commit(ops: WriteOp[]) {
+      const lists = new Map<CollectionName, StoredRecord[]>();
+      const values = new Map<string, unknown>();
+
+      for (const op of ops) {
+        if (op.type === "setValue") {
+          values.set(op.key, op.value);
+          continue;
+        }
+        if (!lists.has(op.collection)) {
+          lists.set(
+            op.collection,
+            op.type === "clear" ? [] : await readList(op.collection),
+          );
+        }
+        const list = lists.get(op.collection)!;
+
+        if (op.type === "put") {
+          const index = list.findIndex((record) => record.id === op.record.id);
+          if (index === -1) {
+            list.unshift(op.record);
+          } else {
+            list[index] = op.record;
+          }
+        } else if (op.type === "remove") {
+          lists.set(
+            op.collection,
+            list.filter((record) => record.id !== op.id),
+          );
+        } else {
+          list.length = 0;
+        }
+      }
+
+      const writes: JournalWrite[] = [];
+      lists.forEach((list, collection) => {
+        writes.push([COLLECTION_KEYS[collection], JSON.stringify(list)]);
+      });
+      values.forEach((value, key) => {
+        writes.push([
+          valueKey(key),
+          value === null ? null : JSON.stringify(value),
+        ]);
+      });
+
+      if (writes.length === 0) return;
+      if (writes.length === 1) {
+        const [key, value] = writes[0];
+        await (value === null
+          ? AsyncStorage.removeItem(key)
+          : AsyncStorage.setItem(key, value));
+        return;
+      }
+      await writeAtomic(writes);
+    },
+  };
+}
@@ -0,0 +1,423 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import * as Crypto from "expo-crypto";
+import * as DocumentPicker from "expo-document-picker";
+import {
+  CURRENT_SCHEMA_VERSION,
+  ensureMigrated,
+  migrateData,
+} from "@/utils/migrations";
+import {
+  COLLECTIONS,
+  CollectionName,
+  StoredData,
+  VALUE_KEYS,
+  getRepository,
+  readAllData,
+} from "@/utils/repository";
+import { storage } from "@/utils/storage";
+import { runExclusive } from "@/utils/writeQueue";
+import {
+  isNotificationsEnabled,
+  setNotificationsEnabled,
+} from "@/utils/notifications";
+
+const BACKUP_FORMAT = "cardvault-backup";
+const BACKUP_VERSION = 2;
+
+/** Collections whose records point at a photo, the field holding it and where restores put it. */
+const IMAGE_FIELDS = {
+  customers: { field: "cardImageUri", directory: "card-images/" },
+  expenses: { field: "receiptUri", directory: "receipts/" },
+} as const;
+
+type ImageCollection = keyof typeof IMAGE_FIELDS;
+
+const IMAGE_COLLECTIONS = Object.keys(IMAGE_FIELDS) as ImageCollection[];
+
+const imageKey = (collection: ImageCollection, id: string) =>
+  `${collection}/${id}`;
+
+export type RestoreMode = "merge" | "replace";
+
+export interface BackupPayload {
+  data: StoredData;
+  settings: {
+    notificationsEnabled: boolean;
+  };
+  /**
+   * Base64 photos keyed by `collection/id`: customer cards and expense
+   * receipts. Version 1 backups keyed card images by customer id alone.
+   */
+  images: Record<string, { extension: string; base64: string }>;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  createdAt: string;
+  /** SHA-256 of `JSON.stringify(payload)`. */
+  checksum: string;
+  payload: BackupPayload;
+}
+
+export interface CollectionDiff {
+  added: number;
+  overwritten: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  createdAt: string;
+  collections: Record<CollectionName, CollectionDiff>;
+  profileChanged: boolean;
+  imageCount: number;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+const checksumOf = (payload: BackupPayload) =>
+  Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    JSON.stringify(payload),
+  );
+
+const extensionOf = (uri: string) => {
+  const match = uri.match(/\.([a-z0-9]+)(?:\?.*)?$/i);
+  return match ? match[1].toLowerCase() : "jpg";
+};
+
+async function readImages(data: StoredData): Promise<BackupPayload["images"]> {
+  const images: BackupPayload["images"] = {};
+  for (const collection of IMAGE_COLLECTIONS) {
+    const { field } = IMAGE_FIELDS[collection];
+    for (const record of data[collection]) {
+      const uri = record[field];
+      if (!uri) continue;
+      try {
+        const base64 = await FileSystem.readAsStringAsync(uri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        images[imageKey(collection, record.id)] = {
+          extension: extensionOf(uri),
+          base64,
+        };
+      } catch {
+        // The image was cleared from the cache; the record is still backed up.
+      }
+    }
+  }
+  return images;
+}
+
+export async function createBackup(): Promise<BackupArchive> {
+  await ensureMigrated();
+  // Hold every lock so the archive is a consistent snapshot.
+  const data = await runExclusive([...COLLECTIONS, "profile"], () =>
+    readAllData(getRepository()),
+  );
+
+  const payload: BackupPayload = {
+    data,
+    settings: { notificationsEnabled: await isNotificationsEnabled() },
+    images: await readImages(data),
+  };
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await checksumOf(payload),
+    payload,
+  };
+}
+
+export async function shareBackup(businessName?: string): Promise<void> {
+  const archive = await createBackup();
+  const filename = `${businessName || "CardVault"}_Backup_${archive.createdAt.split("T")[0]}.json`;
+  const filePath = `${FileSystem.documentDirectory}${filename}`;
+
+  await FileSystem.writeAsStringAsync(filePath, JSON.stringify(archive));
+  await Sharing.shareAsync(filePath, {
+    mimeType: "application/json",
+    dialogTitle: "Save Backup",
+  });
+}
+
+const isRecordList = (value: unknown) =>
+  Array.isArray(value) &&
+  value.every(
+    (record) =>
+      record && typeof record === "object" && typeof record.id === "string",
+  );
+
+/** Version 1 backups only held card images, keyed by customer id. */
+function upgradeImageKeys(
+  images: BackupPayload["images"],
+  version: number,
+): BackupPayload["images"] {
+  if (version >= 2) return images;
+  return Object.fromEntries(
+    Object.entries(images).map(([customerId, image]) => [
+      imageKey("customers", customerId),
+      image,
+    ]),
+  );
+}
+
+/**
+ * Checks format, version, checksum and shape, and brings data from older
+ * schema versions up to date so it can be compared with what is stored.
+ */
+export async function validateBackup(raw: unknown): Promise<BackupArchive> {
+  const archive = raw as BackupArchive;
+  if (
+    !archive ||
+    typeof archive !== "object" ||
+    archive.format !== BACKUP_FORMAT
+  ) {
+    throw new BackupError("This file is not a CardVault backup.");
+  }
+  if (typeof archive.version !== "number" || archive.version > BACKUP_VERSION) {
+    throw new BackupError(
+      "This backup was made by a newer version of the app. Please update.",
+    );
+  }
+  if (
+    typeof archive.schemaVersion !== "number" ||
+    archive.schemaVersion > CURRENT_SCHEMA_VERSION
+  ) {
+    throw new BackupError(
+      "This backup was made by a newer version of the app. Please update.",
+    );
+  }
+  if (!archive.payload || typeof archive.payload !== "object") {
+    throw new BackupError("The backup is missing its data.");
+  }
+  if ((await checksumOf(archive.payload)) !== archive.checksum) {
+    throw new BackupError(
+      "The backup file is damaged or was modified (checksum mismatch).",
+    );
+  }
+
+  const { data } = archive.payload;
+  const hasValidShape =
+    data &&
+    COLLECTIONS.every(
+      (collection) =>
+        data[collection] === undefined || isRecordList(data[collection]),
+    ) &&
+    (data.profile === null || typeof data.profile === "object");
+  if (!hasValidShape) {
+    throw new BackupError("The backup data is not in the expected format.");
+  }
+  // Collections added after the backup was made come back empty.
+  COLLECTIONS.forEach((collection) => {
+    data[collection] = data[collection] || [];
+  });
+
+  return {
+    ...archive,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    payload: {
+      data: migrateData(data, archive.schemaVersion),
+      settings: {
+        notificationsEnabled: !!archive.payload.settings?.notificationsEnabled,
+      },
+      images: upgradeImageKeys(archive.payload.images || {}, archive.version),
+    },
+  };
+}
+
+export async function readBackup(uri: string): Promise<BackupArchive> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await FileSystem.readAsStringAsync(uri));
+  } catch {
+    throw new BackupError("The backup file could not be read.");
+  }
+  return validateBackup(raw);
+}
+
+/** Lets the user pick a backup file. Resolves to null if they cancel. */
+export async function pickBackup(): Promise<BackupArchive | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/json", "text/plain"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.length) return null;
+  return readBackup(result.assets[0].uri);
+}
+
+const sameJSON = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+function diffCollection(
+  current: Record<string, any>[],
+  incoming: Record<string, any>[],
+  mode: RestoreMode,
+): CollectionDiff {
+  const currentById = new Map(current.map((record) => [record.id, record]));
+  const incomingIds = new Set(incoming.map((record) => record.id));
+  const diff: CollectionDiff = {
+    added: 0,
+    overwritten: 0,
+    unchanged: 0,
+    removed: 0,
+  };
+
+  incoming.forEach((record) => {
+    const existing = currentById.get(record.id);
+    if (!existing) diff.added++;
+    else if (sameJSON(existing, record)) diff.unchanged++;
+    else diff.overwritten++;
+  });
+  if (mode === "replace") {
+    diff.removed = current.filter(
+      (record) => !incomingIds.has(record.id),
+    ).length;
+  }
+  return diff;
+}
+
+const currencyOf = (profile: Record<string, any> | null) =>
+  profile?.currency || "INR";
+
+/**
+ * Amounts from different currencies cannot be added up, so a merge only
+ * accepts a backup kept in the same currency as the current data.
+ */
+function assertMergeable(
+  currentProfile: Record<string, any> | null,
+  incoming: StoredData,
+) {
+  const current = currencyOf(currentProfile);
+  const backup = currencyOf(incoming.profile);
+  if (backup !== current) {
+    throw new BackupError(
+      `This backup is in ${backup} but your data is in ${current}, so it cannot be merged. Use Replace to restore it instead.`,
+    );
+  }
+}
+
+export async function summarizeRestore(
+  archive: BackupArchive,
+  mode: RestoreMode,
+): Promise<RestoreSummary> {
+  await ensureMigrated();
+  const current = await readAllData(getRepository());
+  const incoming = archive.payload.data;
+  if (mode === "merge") assertMergeable(current.profile, incoming);
+
+  const collections = {} as Record<CollectionName, CollectionDiff>;
+  COLLECTIONS.forEach((collection) => {
+    collections[collection] = diffCollection(
+      current[collection],
+      incoming[collection],
+      mode,
+    );
+  });
+
+  const keepsCurrentProfile =
+    mode === "merge" &&
+    !!(current.profile?.name || current.profile?.businessName);
+
+  return {
+    mode,
+    createdAt: archive.createdAt,
+    collections,
+    profileChanged:
+      !!incoming.profile &&
+      !keepsCurrentProfile &&
+      !sameJSON(current.profile, incoming.profile),
+    imageCount: Object.keys(archive.payload.images).length,
+  };
+}
+
+/**
+ * Writes card images and receipts into the app's document directory and
+ * points the matching records at the new files, since the original URIs
+ * belong to the device the backup was made on.
+ */
+async function restoreImages(archive: BackupArchive): Promise<StoredData> {
+  const { data, images } = archive.payload;
+  const restored = { ...data };
+
+  for (const collection of IMAGE_COLLECTIONS) {
+    const { field, directory: folder } = IMAGE_FIELDS[collection];
+    const directory = `${FileSystem.documentDirectory}${folder}`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    const restoredUris = new Map<string, string>();
+    for (const record of data[collection]) {
+      const image = images[imageKey(collection, record.id)];
+      if (!image) continue;
+      const uri = `${directory}${record.id}.${image.extension}`;
+      await FileSystem.writeAsStringAsync(uri, image.base64, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      restoredUris.set(record.id, uri);
+    }
+
+    restored[collection] = data[collection].map((record) =>
+      restoredUris.has(record.id)
+        ? { ...record, [field]: restoredUris.get(record.id) }
+        : record,
+    );
+  }
+  return restored;
+}
+
+export async function restoreBackup(
+  archive: BackupArchive,
+  mode: RestoreMode,
+): Promise<void> {
+  if (mode === "merge") {
+    const profile = await getRepository().getValue<Record<string, any>>(
+      VALUE_KEYS.PROFILE,
+    );
+    assertMergeable(profile, archive.payload.data);
+  }
+  const data = await restoreImages(archive);
+  await storage.importData(data, mode);
+  await setNotificationsEnabled(archive.payload.settings.notificationsEnabled);
+}
+
+export function describeRestoreSummary(summary: RestoreSummary): string {
+  const labels: Record<CollectionName, string> = {
+    customers: "Customers",
+    transactions: "Transactions",
+    payments: "Payments",
+    credits: "Credit entries",
+    products: "Catalog products",
+    stock: "Stock movements",
+    returns: "Sales returns",
+    quotations: "Quotations",
+    recurring: "Recurring orders",
+    purchases: "Purchase bills",
+    expenses: "Expenses",
+    changes: "History entries",
+  };
+  const lines = COLLECTIONS.map((collection) => {
+    const diff = summary.collections[collection];
+    const parts = [`${diff.added} new`, `${diff.overwritten} overwritten`];
+    if (summary.mode === "replace") parts.push(`${diff.removed} removed`);
+    return `${labels[collection]}: ${parts.join(", ")}`;
+  });
+  if (summary.profileChanged) lines.push("Profile will be updated");
+  if (summary.imageCount > 0) lines.push(`${summary.imageCount} photos`);
+  return [
+    `Backup from ${new Date(summary.createdAt).toLocaleString()}`,
+    "",
+    ...lines,
+  ].join("\n");
+}
@@ -0,0 +1,130 @@
+import { Product, ProductItem, Transaction } from "@/types";
+import { Money } from "@/utils/money";
+
+/**
+ * The form of a product name used for matching, so "Rice 25kg" and
+ * "rice  25 kg" are the same product.
+ */
+export function normalizeProductName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[_\-,/]+/g, " ")
+    .replace(/(\d)\s+(?=[a-z])/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Groups transaction lines by catalog product, or by normalized name for free-text lines. */
+export const productKey = (item: ProductItem): string =>
+  item.productId
+    ? `id:${item.productId}`
+    : `name:${normalizeProductName(item.name)}`;
+
+/** The active product whose name matches `name`, ignoring case and spacing. */
+export function findProductByName(
+  products: Product[],
+  name: string,
+): Product | undefined {
+  const key = normalizeProductName(name);
+  return key
+    ? products.find((p) => p.active && normalizeProductName(p.name) === key)
+    : undefined;
+}
+
+/** Active products matching `query` by name or SKU, names starting with it first. */
+export function searchProducts(
+  products: Product[],
+  query: string,
+  limit: number = 5,
+): Product[] {
+  const key = normalizeProductName(query);
+  if (!key) return [];
+  const sku = query.trim().toLowerCase();
+  return products
+    .filter(
+      (p) =>
+        p.active &&
+        (normalizeProductName(p.name).includes(key) ||
+          p.sku?.toLowerCase().startsWith(sku)),
+    )
+    .sort((a, b) => {
+      const aStarts = normalizeProductName(a.name).startsWith(key) ? 0 : 1;
+      const bStarts = normalizeProductName(b.name).startsWith(key) ? 0 : 1;
+      return aStarts - bStarts || a.name.localeCompare(b.name);
+    })
+    .slice(0, limit);
+}
+
+/** Free-text transaction lines that look like the same product. */
+export interface ProductCluster {
+  /** The normalized name every line in the cluster shares. */
+  key: string;
+  /** The spelling used most often, proposed as the catalog name. */
+  name: string;
+  variants: string[];
+  lineCount: number;
+  /** Unit price on the most recent line, proposed as the default price. */
+  lastPrice: Money;
+  /** Set when the catalog already has this product; its lines are linked to it. */
+  productId?: string;
+}
+
+/**
+ * Clusters the names of transaction lines that are not linked to the catalog
+ * yet. Largest clusters come first.
+ */
+export function clusterProductNames(
+  transactions: Transaction[],
+  products: Product[],
+): ProductCluster[] {
+  const clusters = new Map<
+    string,
+    {
+      variants: Map<string, number>;
+      lineCount: number;
+      lastPrice: Money;
+      lastDate: string;
+    }
+  >();
+
+  transactions.forEach((t) => {
+    t.products.forEach((item) => {
+      if (item.productId) return;
+      const key = normalizeProductName(item.name);
+      if (!key) return;
+      const cluster = clusters.get(key) || {
+        variants: new Map<string, number>(),
+        lineCount: 0,
+        lastPrice: item.unitPrice,
+        lastDate: t.date,
+      };
+      const spelling = item.name.trim();
+      cluster.variants.set(spelling, (cluster.variants.get(spelling) || 0) + 1);
+      cluster.lineCount += 1;
+      if (t.date > cluster.lastDate) {
+        cluster.lastPrice = item.unitPrice;
+        cluster.lastDate = t.date;
+      }
+      clusters.set(key, cluster);
+    });
+  });
+
+  const result: ProductCluster[] = [];
+  clusters.forEach((cluster, key) => {
+    const variants = [...cluster.variants.entries()].sort(
+      (a, b) => b[1] - a[1],
+    );
+    const existing = products.find((p) => normalizeProductName(p.name) === key);
+    result.push({
+      key,
+      name: existing?.name || variants[0][0],
+      variants: variants.map(([spelling]) => spelling),
+      lineCount: cluster.lineCount,
+      lastPrice: cluster.lastPrice,
+      productId: existing?.id,
+    });
+  });
+  return result.sort(
+    (a, b) => b.lineCount - a.lineCount || a.name.localeCompare(b.name),
+  );
+}
@@ -0,0 +1,30 @@
+import { FieldChange } from "@/types";
+
+const IGNORED_FIELDS = ["id", "createdAt", "updatedAt"];
+
+const sameJSON = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-level diff between two versions of a record. Pass `null` as `before`
+ * for a create or as `after` for a delete.
+ */
+export function diffFields(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+): FieldChange[] {
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  const changes: FieldChange[] = [];
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    const previous = before?.[field];
+    const next = after?.[field];
+    if (!sameJSON(previous, next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  });
+  return changes;
+}
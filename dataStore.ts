@@ -0,0 +1,112 @@
+import { CollectionName } from "@/utils/repository";
+
+export type StoreTopic = CollectionName | "profile" | "trash";
+
+type Loader = () => Promise<unknown>;
+type Listener = () => void;
+
+const loaders = new Map<StoreTopic, Loader>();
+const values = new Map<StoreTopic, unknown>();
+const listeners = new Map<StoreTopic, Set<Listener>>();
+const loadTokens = new Map<StoreTopic, number>();
+
+export function registerLoader(topic: StoreTopic, loader: Loader): void {
+  loaders.set(topic, loader);
+}
+
+export function getStoreValue<T>(topic: StoreTopic): T | undefined {
+  return values.get(topic) as T | undefined;
+}
+
+const sameJSON = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Keeps the previous object for every record that did not change, so
+ * selectors comparing by reference only wake the consumers that are affected.
+ */
+function reconcile(previous: unknown, next: unknown): unknown {
+  if (previous === undefined) return next;
+  if (!Array.isArray(previous) || !Array.isArray(next)) {
+    return sameJSON(previous, next) ? previous : next;
+  }
+
+  const previousById = new Map<string, unknown>(
+    previous.map((record: { id: string }) => [record.id, record]),
+  );
+  let changed = previous.length !== next.length;
+  const merged = next.map((record: { id: string }, index: number) => {
+    const old = previousById.get(record.id);
+    if (old !== undefined && sameJSON(old, record)) {
+      if (previous[index] !== old) changed = true;
+      return old;
+    }
+    changed = true;
+    return record;
+  });
+  return changed ? merged : previous;
+}
+
+async function load(topic: StoreTopic): Promise<void> {
+  const loader = loaders.get(topic);
+  if (!loader) return;
+
+  const token = (loadTokens.get(topic) || 0) + 1;
+  loadTokens.set(topic, token);
+
+  let next: unknown;
+  try {
+    next = await loader();
+  } catch (error) {
+    console.error(`Failed to load ${topic}:`, error);
+    if (loadTokens.get(topic) === token) {
+      loadTokens.delete(topic);
+    }
+    return;
+  }
+  // A newer load started while this one was in flight; let that one win.
+  if (loadTokens.get(topic) !== token) return;
+
+  const previous = values.get(topic);
+  const merged = reconcile(previous, next);
+  values.set(topic, merged);
+  if (merged !== previous) {
+    listeners.get(topic)?.forEach((listener) => listener());
+  }
+}
+
+export function subscribe(topic: StoreTopic, listener: Listener): () => void {
+  let topicListeners = listeners.get(topic);
+  if (!topicListeners) {
+    topicListeners = new Set();
+    listeners.set(topic, topicListeners);
+  }
+  topicListeners.add(listener);
+
+  if (!values.has(topic) && !loadTokens.has(topic)) {
+    load(topic);
+  }
+
+  return () => {
+    topicListeners!.delete(listener);
+  };
+}
+
+/**
+ * Called by `storage` after every committed write. Topics somebody is
+ * watching reload right away; the rest are dropped and reload on next use.
+ */
+export function publishChange(topics: StoreTopic[]): void {
+  Array.from(new Set(topics)).forEach((topic) => {
+    if (listeners.get(topic)?.size) {
+      load(topic);
+    } else {
+      values.delete(topic);
+      loadTokens.delete(topic);
+    }
+  });
+}
+
+export async function refreshStore(topics: StoreTopic[]): Promise<void> {
+  await Promise.all(topics.map((topic) => load(topic)));
+}
@@ -0,0 +1,6 @@
+import { Repository } from "@/utils/repository";
+import { createSQLiteRepository } from "@/utils/sqliteRepository";
+
+export function createDefaultRepository(): Repository {
+  return createSQLiteRepository();
+}
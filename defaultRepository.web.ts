@@ -0,0 +1,6 @@
+import { Repository } from "@/utils/repository";
+import { createAsyncStorageRepository } from "@/utils/asyncStorageRepository";
+
+export function createDefaultRepository(): Repository {
+  return createAsyncStorageRepository();
+}
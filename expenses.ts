@@ -0,0 +1,27 @@
+import { Expense, ExpenseCategory } from "@/types";
+
+export const EXPENSE_CATEGORIES: { key: ExpenseCategory; label: string }[] = [
+  { key: "rent", label: "Rent" },
+  { key: "salaries", label: "Salaries" },
+  { key: "utilities", label: "Utilities" },
+  { key: "transport", label: "Transport" },
+  { key: "supplies", label: "Supplies" },
+  { key: "marketing", label: "Marketing" },
+  { key: "other", label: "Other" },
+];
+
+export const categoryLabel = (category: ExpenseCategory) =>
+  EXPENSE_CATEGORIES.find((c) => c.key === category)?.label || category;
+
+/** Expenses dated within the period; either bound may be left open. */
+export const expensesBetween = (
+  expenses: Expense[],
+  startDate?: Date,
+  endDate?: Date,
+): Expense[] =>
+  expenses.filter((e) => {
+    const date = new Date(e.date);
+    if (startDate && date < startDate) return false;
+    if (endDate && date > endDate) return false;
+    return true;
+  });
@@ -1,11 +1,41 @@
-import * as FileSystem from "expo-file-system";
+import * as FileSystem from "expo-file-system/legacy";
 import * as Sharing from "expo-sharing";
-import { Customer, Transaction } from "@/types";
+import {
+  Customer,
+  Transaction,
+  CreditEntry,
+  Expense,
+  PaymentStatus,
+  Product,
+  SalesReturn,
+  StockMovement,
+} from "@/types";
+import {
+  getCustomerStats,
+  getOverdueAmount,
+  getProfitAndLoss,
+  getTaxSummary,
+} from "@/utils/analytics";
+import { subtract, sum, toMajor } from "@/utils/money";
+import { pendingOf } from "@/utils/allocation";
+import { formatCurrency } from "@/utils/format";
+import {
+  daysOverdue,
+  dueDateOf,
+  paymentStatus,
+  termsLabel,
+} from "@/utils/terms";
+import { getStockValuation } from "@/utils/stock";
+import { INDIAN_STATES, customerState, summarizeTax } from "@/utils/gst";
+import { describeDiscount, lineDiscountGiven } from "@/utils/pricing";
+import { categoryLabel } from "@/utils/expenses";
 
 export async function exportCustomersToCSV(
   customers: Customer[],
   transactions: Transaction[],
-  profile: { businessName?: string }
+  profile: { businessName?: string; currency: string },
+  credits: CreditEntry[] = [],
+  returns: SalesReturn[] = [],
 ): Promise<void> {
   try {
     // Create CSV header
@@ -16,18 +46,27 @@ export async function exportCustomersToCSV(
       "Mobile",
       "Email",
       "Address",
+      "GSTIN",
+      "State",
       "Total Purchased",
+      "Amount Returned",
       "Amount Paid",
       "Amount Pending",
+      "Amount Overdue",
+      "Payment Terms",
+      "Credit Balance",
       "Last Scanned",
     ];
 
     // Create CSV rows
     const rows = customers.map((customer) => {
-      const customerTx = transactions.filter((t) => t.customerId === customer.id);
-      const totalPurchased = customerTx.reduce((sum, t) => sum + t.totalAmount, 0);
-      const amountPaid = customerTx.reduce((sum, t) => sum + t.amountPaid, 0);
-      const amountPending = totalPurchased - amountPaid;
+      const stats = getCustomerStats(
+        customer.id,
+        transactions,
+        profile.currency,
+        credits,
+        returns,
+      );
 
       return [
         `"${customer.name}"`,
@@ -36,9 +75,15 @@ export async function exportCustomersToCSV(
         `"${customer.mobile}"`,
         `"${customer.email}"`,
         `"${customer.address}"`,
-        totalPurchased,
-        amountPaid,
-        amountPending,
+        `"${customer.gstin || ""}"`,
+        `"${INDIAN_STATES[customerState(customer) || ""] || ""}"`,
+        toMajor(stats.totalPurchased),
+        toMajor(stats.amountReturned),
+        toMajor(stats.amountPaid),
+        toMajor(stats.amountPending),
+        toMajor(stats.amountOverdue),
+        `"${termsLabel(customer.paymentTerms)}"`,
+        toMajor(stats.creditBalance),
         new Date(customer.updatedAt).toLocaleDateString(),
       ].join(",");
     });
@@ -62,7 +107,7 @@ export async function exportCustomersToCSV(
 export async function exportTransactionsToCSV(
   transactions: Transaction[],
   customers: Customer[],
-  profile: { businessName?: string; currency?: string }
+  profile: { businessName?: string; currency?: string },
 ): Promise<void> {
   try {
     const headers = [
@@ -70,9 +115,18 @@ export async function exportTransactionsToCSV(
       "Customer Name",
       "Products",
       "Quantity",
+      "HSN/SAC",
+      "Discount",
+      "Bill Discount",
+      "Taxable Value",
+      "CGST",
+      "SGST",
+      "IGST",
       "Total Amount",
       "Amount Paid",
       "Amount Pending",
+      "Due Date",
+      "Days Overdue",
       "Status",
     ];
 
@@ -80,17 +134,32 @@ export async function exportTransactionsToCSV(
       const customer = customers.find((c) => c.id === tx.customerId);
       const productNames = tx.products.map((p) => p.name).join("; ");
       const totalQty = tx.products.reduce((sum, p) => sum + p.quantity, 0);
-      const pending = tx.totalAmount - tx.amountPaid;
+      const pending = subtract(tx.totalAmount, tx.amountPaid);
+      const hsnCodes = [
+        ...new Set(tx.products.map((p) => p.hsnCode).filter(Boolean)),
+      ];
+      const tax = summarizeTax(tx.products, tx.totalAmount.currency);
 
       return [
         `"${new Date(tx.date).toLocaleDateString()}"`,
         `"${customer?.name || "Unknown"}"`,
         `"${productNames}"`,
         totalQty,
-        tx.totalAmount,
-        tx.amountPaid,
-        pending,
-        `"${tx.status}"`,
+        `"${hsnCodes.join("; ")}"`,
+        toMajor(
+          sum(tx.products.map(lineDiscountGiven), tx.totalAmount.currency),
+        ),
+        `"${tx.discount ? describeDiscount(tx.discount) : ""}"`,
+        toMajor(tax.taxableValue),
+        toMajor(tax.cgst),
+        toMajor(tax.sgst),
+        toMajor(tax.igst),
+        toMajor(tx.totalAmount),
+        toMajor(tx.amountPaid),
+        toMajor(pending),
+        `"${new Date(dueDateOf(tx)).toLocaleDateString()}"`,
+        daysOverdue(tx),
+        `"${paymentStatus(tx)}"`,
       ].join(",");
     });
 
@@ -109,14 +178,156 @@ export async function exportTransactionsToCSV(
   }
 }
 
+export async function exportStockValuationToCSV(
+  products: Product[],
+  movements: StockMovement[],
+  profile: { businessName?: string; currency: string },
+): Promise<void> {
+  try {
+    const headers = [
+      "Product",
+      "SKU",
+      "Category",
+      "Unit",
+      "On Hand",
+      "Unit Cost",
+      "Value",
+    ];
+
+    const { rows, total } = getStockValuation(
+      products,
+      movements,
+      profile.currency,
+    );
+    const lines = rows.map(({ product, onHand, value }) =>
+      [
+        `"${product.name}"`,
+        `"${product.sku || ""}"`,
+        `"${product.category || ""}"`,
+        `"${product.unit || ""}"`,
+        onHand,
+        product.costPrice ? toMajor(product.costPrice) : "",
+        value ? toMajor(value) : "Unvalued",
+      ].join(","),
+    );
+    lines.push([`"Total"`, "", "", "", "", "", toMajor(total)].join(","));
+
+    const csv = [headers.join(","), ...lines].join("\n");
+
+    const filename = `${profile.businessName || "CardVault"}_Stock_${new Date().toISOString().split("T")[0]}.csv`;
+    const filePath = `${FileSystem.documentDirectory}${filename}`;
+
+    await FileSystem.writeAsStringAsync(filePath, csv);
+    await Sharing.shareAsync(filePath, {
+      mimeType: "text/csv",
+      dialogTitle: "Export Stock Valuation",
+    });
+  } catch (error) {
+    throw new Error("Failed to export stock valuation to CSV");
+  }
+}
+
+export async function exportExpensesToCSV(
+  expenses: Expense[],
+  profile: { businessName?: string; currency?: string },
+): Promise<void> {
+  try {
+    const headers = [
+      "Date",
+      "Category",
+      "Amount",
+      "Payment Method",
+      "Notes",
+      "Receipt",
+    ];
+
+    const rows = [...expenses]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((expense) =>
+        [
+          `"${new Date(expense.date).toLocaleDateString()}"`,
+          `"${categoryLabel(expense.category)}"`,
+          toMajor(expense.amount),
+          `"${expense.method}"`,
+          `"${expense.notes || ""}"`,
+          expense.receiptUri ? "Yes" : "No",
+        ].join(","),
+      );
+
+    const csv = [headers.join(","), ...rows].join("\n");
+
+    const filename = `${profile.businessName || "CardVault"}_Expenses_${new Date().toISOString().split("T")[0]}.csv`;
+    const filePath = `${FileSystem.documentDirectory}${filename}`;
+
+    await FileSystem.writeAsStringAsync(filePath, csv);
+    await Sharing.shareAsync(filePath, {
+      mimeType: "text/csv",
+      dialogTitle: "Export Expenses",
+    });
+  } catch (error) {
+    throw new Error("Failed to export expenses to CSV");
+  }
+}
+
 export function generateReportSummary(
   customers: Customer[],
   transactions: Transaction[],
-  profile: { businessName?: string; currency?: string }
+  profile: { businessName?: string; currency: string },
+  credits: CreditEntry[] = [],
+  returns: SalesReturn[] = [],
+  expenses: Expense[] = [],
 ): string {
-  const totalRevenue = transactions.reduce((sum, t) => sum + t.totalAmount, 0);
-  const totalCollected = transactions.reduce((sum, t) => sum + t.amountPaid, 0);
-  const pendingAmount = totalRevenue - totalCollected;
+  const activeReturns = returns.filter((r) => !r.deletedAt);
+  const totalReturned = sum(
+    activeReturns.map((r) => r.amount),
+    profile.currency,
+  );
+  const totalRevenue = subtract(
+    sum(
+      transactions.map((t) => t.totalAmount),
+      profile.currency,
+    ),
+    totalReturned,
+  );
+  // What returns settled is booked as payments, but no money came in for it.
+  const totalCollected = subtract(
+    sum(
+      transactions.map((t) => t.amountPaid),
+      profile.currency,
+    ),
+    sum(
+      activeReturns.map((r) => r.appliedAmount),
+      profile.currency,
+    ),
+  );
+  const pendingAmount = sum(transactions.map(pendingOf), profile.currency);
+  const creditHeld = sum(
+    credits.map((c) => c.amount),
+    profile.currency,
+  );
+  const overdueAmount = getOverdueAmount(transactions, profile.currency);
+  const lines = transactions.flatMap((t) => t.products);
+  const tax = getTaxSummary(
+    transactions,
+    profile.currency,
+    undefined,
+    undefined,
+    returns,
+  );
+  const discountGiven = sum(lines.map(lineDiscountGiven), profile.currency);
+  const statusCount = (status: PaymentStatus) =>
+    transactions.filter((t) => paymentStatus(t) === status).length;
+  const profit = getProfitAndLoss(
+    transactions,
+    expenses,
+    profile.currency,
+    undefined,
+    undefined,
+    returns,
+  );
+  const expenseLines = profit.expensesByCategory
+    .map((e) => `  ${categoryLabel(e.category)}: ${formatCurrency(e.amount)}`)
+    .join("\n");
 
   const report = `
 BUSINESS REPORT - ${profile.businessName || "CardVault"}
@@ -125,17 +336,38 @@ Generated: ${new Date().toLocaleDateString()}
 SUMMARY
 =======
 Total Customers: ${customers.length}
-Total Revenue: ${totalRevenue}
-Total Collected: ${totalCollected}
-Pending Collection: ${pendingAmount}
-Collection Rate: ${totalRevenue > 0 ? ((totalCollected / totalRevenue) * 100).toFixed(1) : 0}%
+Total Revenue: ${formatCurrency(totalRevenue)}
+Returns: ${formatCurrency(totalReturned)} (${activeReturns.length} credit notes)
+Total Collected: ${formatCurrency(totalCollected)}
+Pending Collection: ${formatCurrency(pendingAmount)}
+Overdue Collection: ${formatCurrency(overdueAmount)}
+Customer Credit Held: ${formatCurrency(creditHeld)}
+Discount Given: ${formatCurrency(discountGiven)}
+Collection Rate: ${totalRevenue.minor > 0 ? ((totalCollected.minor / totalRevenue.minor) * 100).toFixed(1) : 0}%
 
 TRANSACTIONS
 ============
 Total Transactions: ${transactions.length}
-Paid: ${transactions.filter((t) => t.status === "paid").length}
-Partial: ${transactions.filter((t) => t.status === "partial").length}
-Pending: ${transactions.filter((t) => t.status === "pending").length}
+Paid: ${statusCount("paid")}
+Partial: ${statusCount("partial")}
+Pending: ${statusCount("pending")}
+Overdue: ${statusCount("overdue")}
+
+GST
+===
+Taxable Value: ${formatCurrency(tax.taxableValue)}
+CGST: ${formatCurrency(tax.cgst)}
+SGST: ${formatCurrency(tax.sgst)}
+IGST: ${formatCurrency(tax.igst)}
+Total GST: ${formatCurrency(tax.totalTax)}
+
+PROFIT & LOSS (before GST)
+==========================
+Revenue: ${formatCurrency(profit.revenue)}
+Cost of Goods: ${formatCurrency(profit.costOfGoods)}
+Gross Profit: ${formatCurrency(profit.grossProfit)}
+Expenses: ${formatCurrency(profit.expenses)}${expenseLines ? `\n${expenseLines}` : ""}
+Net Profit: ${formatCurrency(profit.netProfit)}
 `;
 
   return report;
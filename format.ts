@@ -1,13 +1,25 @@
-export function formatCurrency(amount: number, currency: string = "INR"): string {
-  if (currency === "INR") {
-    return `₹${amount.toLocaleString("en-IN")}`;
+import { Money, isMoney, minorDigits, toMajor } from "@/utils/money";
+
+/**
+ * Accepts Money or a plain major-unit number (older history entries still
+ * hold numbers). Money always prints in its own currency.
+ */
+export function formatCurrency(
+  amount: Money | number,
+  currency: string = "INR",
+): string {
+  const code = isMoney(amount) ? amount.currency : currency;
+  const value = isMoney(amount) ? toMajor(amount) : amount;
+  const maximumFractionDigits = minorDigits(code);
+  if (code === "INR") {
+    return `₹${value.toLocaleString("en-IN", { maximumFractionDigits })}`;
   }
   return new Intl.NumberFormat("en-US", {
     style: "currency",
-    currency,
+    currency: code,
     minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
+    maximumFractionDigits,
+  }).format(value);
 }
 
 export function formatDate(dateString: string): string {
@@ -30,6 +42,33 @@ export function formatDateTime(dateString: string): string {
   });
 }
 
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Local calendar date of an ISO timestamp, as YYYY-MM-DD. */
+export function toDateInput(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Applies a YYYY-MM-DD date to `original`, keeping its time of day. Returns
+ * null if the text is not a real date.
+ */
+export function fromDateInput(text: string, original: string): string | null {
+  const match = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const d = new Date(original);
+  d.setFullYear(year, month - 1, day);
+  if (
+    d.getFullYear() !== year ||
+    d.getMonth() !== month - 1 ||
+    d.getDate() !== day
+  )
+    return null;
+  return d.toISOString();
+}
+
 export function getGreeting(): string {
   const hour = new Date().getHours();
   if (hour < 12) return "Good Morning";
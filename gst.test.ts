@@ -0,0 +1,44 @@
+import { computeLineTax, stateFromGstin, validateGstin } from "@/utils/gst";
+import { money } from "@/utils/money";
+
+describe("validateGstin", () => {
+  it("accepts a valid GSTIN, spaces and case aside", () => {
+    expect(validateGstin("27AAPFU0939F1ZV")).toBeNull();
+    expect(validateGstin(" 27aapfu0939f1zv ")).toBeNull();
+    expect(stateFromGstin("27AAPFU0939F1ZV")).toBe("27");
+  });
+
+  it("rejects a GSTIN whose check character does not match", () => {
+    expect(validateGstin("27AAPFU0939F1ZW")).toMatch(/check character/);
+  });
+
+  it("rejects a malformed GSTIN or an unknown state code", () => {
+    expect(validateGstin("27AAPFU0939F1Z")).toMatch(/15 characters/);
+    expect(validateGstin("99AAPFU0939F1ZV")).toMatch(/not a GST state code/);
+  });
+});
+
+describe("computeLineTax", () => {
+  it("splits intra-state tax into CGST and SGST to the paisa", () => {
+    const tax = computeLineTax(money(10001, "INR"), 5, {
+      inclusive: false,
+      interState: false,
+    });
+
+    expect(tax.cgst.minor + tax.sgst.minor).toBe(500);
+    expect(tax.total.minor).toBe(10501);
+  });
+
+  it("takes tax back out of an inclusive price", () => {
+    const tax = computeLineTax(money(11800, "INR"), 18, {
+      inclusive: true,
+      interState: true,
+    });
+
+    expect(tax).toMatchObject({
+      taxableValue: money(10000, "INR"),
+      igst: money(1800, "INR"),
+      total: money(11800, "INR"),
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { Customer, ProductItem } from "@/types";
+import { Money, money, subtract, sum, zero } from "@/utils/money";
+
+/** GST slabs offered when entering a line, in percent. */
+export const GST_RATES = [0, 3, 5, 12, 18, 28];
+
+/** GST state codes, which are also the first two digits of a GSTIN. */
+export const INDIAN_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export const normalizeGstin = (gstin: string): string =>
+  gstin.replace(/\s/g, "").toUpperCase();
+
+/** The check character a GSTIN's first 14 characters should end with. */
+function gstinCheckChar(body: string): string {
+  let total = 0;
+  for (let i = 0; i < body.length; i++) {
+    const product = GSTIN_CHARS.indexOf(body[i]) * (i % 2 === 0 ? 1 : 2);
+    total += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARS[(36 - (total % 36)) % 36];
+}
+
+/** Why `gstin` is not a valid GSTIN, or null if it is. */
+export function validateGstin(gstin: string): string | null {
+  const value = normalizeGstin(gstin);
+  if (!GSTIN_PATTERN.test(value)) {
+    return "A GSTIN has 15 characters: state code, PAN, entity number, Z and a check character.";
+  }
+  if (!INDIAN_STATES[value.slice(0, 2)]) {
+    return `${value.slice(0, 2)} is not a GST state code.`;
+  }
+  if (gstinCheckChar(value.slice(0, 14)) !== value[14]) {
+    return "The GSTIN's check character does not match. Please check it for typos.";
+  }
+  return null;
+}
+
+export function stateFromGstin(gstin?: string): string | undefined {
+  const code = gstin ? normalizeGstin(gstin).slice(0, 2) : "";
+  return INDIAN_STATES[code] ? code : undefined;
+}
+
+/** Matches a state code ("27") or name ("maharashtra") to its code. */
+export function findStateCode(text: string): string | undefined {
+  const query = text.trim().toLowerCase();
+  if (!query) return undefined;
+  const padded = query.padStart(2, "0");
+  if (INDIAN_STATES[padded]) return padded;
+  return Object.keys(INDIAN_STATES).find(
+    (code) => INDIAN_STATES[code].toLowerCase() === query,
+  );
+}
+
+/** Where a customer is registered: their own state, or the one in their GSTIN. */
+export const customerState = (
+  customer: Customer | null | undefined,
+): string | undefined => customer?.state || stateFromGstin(customer?.gstin);
+
+/**
+ * IGST applies when the customer is in another state. When either state is
+ * unknown the sale is treated as within the state.
+ */
+export const isInterState = (
+  businessState?: string,
+  buyerState?: string,
+): boolean => !!businessState && !!buyerState && businessState !== buyerState;
+
+export interface LineTax {
+  taxableValue: Money;
+  cgst: Money;
+  sgst: Money;
+  igst: Money;
+  /** What the customer pays for the line, tax included. */
+  total: Money;
+}
+
+/**
+ * GST on a line whose quantity times price comes to `amount`. With
+ * `inclusive` the amount already contains the tax and is split back out.
+ */
+export function computeLineTax(
+  amount: Money,
+  rate: number,
+  options: { inclusive: boolean; interState: boolean },
+): LineTax {
+  const none = zero(amount.currency);
+  const taxableValue = options.inclusive
+    ? money((amount.minor * 100) / (100 + rate), amount.currency)
+    : amount;
+  const tax = options.inclusive
+    ? subtract(amount, taxableValue)
+    : money((amount.minor * rate) / 100, amount.currency);
+  const total = options.inclusive
+    ? amount
+    : sum([amount, tax], amount.currency);
+
+  if (options.interState) {
+    return { taxableValue, cgst: none, sgst: none, igst: tax, total };
+  }
+  const cgst = money(tax.minor / 2, amount.currency);
+  return { taxableValue, cgst, sgst: subtract(tax, cgst), igst: none, total };
+}
+
+/** The GST charged on one line; zero for lines without tax. */
+export const lineTax = (item: ProductItem): Money =>
+  sum(
+    [item.cgst, item.sgst, item.igst].filter((tax): tax is Money => !!tax),
+    item.total.currency,
+  );
+
+export interface TaxSummary {
+  taxableValue: Money;
+  cgst: Money;
+  sgst: Money;
+  igst: Money;
+  totalTax: Money;
+}
+
+/** GST totals over `items`. Lines saved before GST count as untaxed. */
+export function summarizeTax(
+  items: ProductItem[],
+  currency: string,
+): TaxSummary {
+  const pick = (field: "cgst" | "sgst" | "igst") =>
+    sum(
+      items.map((item) => item[field] || zero(currency)),
+      currency,
+    );
+  const cgst = pick("cgst");
+  const sgst = pick("sgst");
+  const igst = pick("igst");
+  return {
+    taxableValue: sum(
+      items.map((item) => item.taxableValue || item.total),
+      currency,
+    ),
+    cgst,
+    sgst,
+    igst,
+    totalTax: sum([cgst, sgst, igst], currency),
+  };
+}
@@ -1,3 +1,5 @@
+import { Money } from "@/utils/money";
+
 export interface Customer {
   id: string;
   name: string;
@@ -7,61 +9,475 @@ export interface Customer {
   address: string;
   businessType: string;
   cardImageUri?: string;
+  /** When this customer's transactions fall due. Defaults to DEFAULT_PAYMENT_TERMS. */
+  paymentTerms?: PaymentTerms;
+  /** GST registration number, stored upper case. */
+  gstin?: string;
+  /** GST state code, e.g. "27". Taken from the GSTIN when not set. */
+  state?: string;
+  /** Whether we sell to or buy from this party. Missing on customers saved before suppliers. */
+  partyType?: PartyType;
   createdAt: string;
   updatedAt: string;
+  /** Set while the customer is in the trash. */
+  deletedAt?: string;
 }
 
+/**
+ * Suppliers are kept with customers, as both come from scanned cards. A
+ * supplier has purchase bills where a customer has transactions.
+ */
+export type PartyType = "customer" | "supplier";
+
 export interface Transaction {
   id: string;
   customerId: string;
   date: string;
   products: ProductItem[];
-  totalAmount: number;
-  amountPaid: number;
+  totalAmount: Money;
+  amountPaid: Money;
   status: "paid" | "partial" | "pending";
+  /** When the balance must be paid. Set from the customer's terms when the transaction is made. */
+  dueDate?: string;
+  /** Whether the line prices were entered with GST already included. */
+  pricesIncludeTax?: boolean;
+  /** Discount on the whole bill, shared out over the lines before GST. */
+  discount?: Discount;
+  /** What `discount` came to. */
+  discountAmount?: Money;
+  /** The recurring template this transaction was made from, if any. */
+  recurringTemplateId?: string;
   notes?: string;
   createdAt: string;
+  deletedAt?: string;
 }
 
+/**
+ * What a transaction and a purchase bill have in common: an amount owed by
+ * a due date, paid off over time. Due dates and allocation work on either.
+ */
+export type Bill = Pick<
+  Transaction,
+  "id" | "date" | "dueDate" | "totalAmount" | "amountPaid" | "status"
+>;
+
+/** A reduction in price. Discounts always come off before GST; see utils/pricing. */
+export type Discount =
+  | { type: "percent"; percent: number }
+  | { type: "flat"; amount: Money };
+
+export type PaymentTerms =
+  | "due-on-receipt"
+  | "net-7"
+  | "net-15"
+  | "net-30"
+  | "net-60";
+
+/**
+ * A transaction's stored status, or "overdue" once an unpaid balance is past
+ * its due date. Depends on today's date, so it is derived and never stored.
+ */
+export type PaymentStatus = Transaction["status"] | "overdue";
+
 export interface ProductItem {
+  /** The catalog product this line was sold as, if any. */
+  productId?: string;
   name: string;
   quantity: number;
-  unitPrice: number;
-  total: number;
+  unitPrice: Money;
+  /** What one quantity cost us, taken from the catalog when the line was made. */
+  costPrice?: Money;
+  /** What the customer pays for the line, after discounts and with GST. */
+  total: Money;
+  discount?: Discount;
+  /** What the line's own `discount` came to. */
+  discountAmount?: Money;
+  /** This line's part of the transaction's bill discount. */
+  billDiscountShare?: Money;
+  /** GST rate in percent. Lines without one carry no tax. */
+  taxRate?: number;
+  /** HSN code for goods or SAC code for services. */
+  hsnCode?: string;
+  /** The line before GST. Missing on untaxed lines, where it equals `total`. */
+  taxableValue?: Money;
+  cgst?: Money;
+  sgst?: Money;
+  /** Charged instead of CGST and SGST on sales to another state. */
+  igst?: Money;
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  sku?: string;
+  /** What one quantity means, e.g. "kg" or "box". */
+  unit?: string;
+  defaultPrice: Money;
+  /** What one quantity costs us to buy or make. Copied onto lines as they are sold. */
+  costPrice?: Money;
+  category?: string;
+  /** Inactive products stay on old transactions but are not offered for new ones. */
+  active: boolean;
+  /** Whether sales of this product draw down stock. Off for services. */
+  trackStock?: boolean;
+  /** Stock at or below this quantity is reported as low. */
+  lowStockThreshold?: number;
+  /** GST rate and HSN/SAC code filled in when the product is picked for a line. */
+  taxRate?: number;
+  hsnCode?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One change to a product's stock. Stock on hand is the sum of a product's
+ * movements; they are never edited, a correction is another movement.
+ */
+export interface StockMovement {
+  id: string;
+  productId: string;
+  /** Positive adds stock, negative removes it. */
+  quantity: number;
+  date: string;
+  reason:
+    | "sale"
+    | "sale-edited"
+    | "sale-deleted"
+    | "return"
+    | "received"
+    | "adjustment";
+  transactionId?: string;
+  notes?: string;
+}
+
+/**
+ * A credit note for goods brought back from a transaction. The transaction
+ * stays as it was sold; the return's value pays off what is still owed on
+ * it and anything beyond that becomes customer credit.
+ */
+export interface SalesReturn {
+  id: string;
+  transactionId: string;
+  customerId: string;
+  date: string;
+  items: ReturnItem[];
+  /** Value of the returned goods, after discounts and with GST. */
+  amount: Money;
+  /** The part of `amount` that settled the transaction's balance. The rest went to credit. */
+  appliedAmount: Money;
+  reason?: string;
+  createdAt: string;
+  deletedAt?: string;
+}
+
+/** The returned part of a transaction line, its amounts in proportion to the quantity. */
+export interface ReturnItem extends ProductItem {
+  /** Position of the line in the transaction's `products`. */
+  lineIndex: number;
+}
+
+/**
+ * A price quote sent before a sale. It has the same lines as a transaction
+ * but is not one: nothing is owed and it never counts towards revenue.
+ */
+export interface Quotation {
+  id: string;
+  customerId: string;
+  date: string;
+  /** Last day the quoted prices hold. */
+  validUntil: string;
+  products: ProductItem[];
+  totalAmount: Money;
+  pricesIncludeTax?: boolean;
+  discount?: Discount;
+  discountAmount?: Money;
+  status: "draft" | "sent" | "accepted";
+  /** The transaction the quote was converted into, once accepted. */
+  transactionId?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
+
+/**
+ * A quotation's stored status, or "expired" once an unaccepted quote is past
+ * its validity date. Like `PaymentStatus`, it is derived and never stored.
+ */
+export type QuotationStatus = Quotation["status"] | "expired";
+
+/**
+ * An order a customer repeats on a schedule. Each cycle becomes a transaction
+ * with the template's lines, linked back through `recurringTemplateId`.
+ */
+export interface RecurringTemplate {
+  id: string;
+  customerId: string;
+  products: ProductItem[];
+  totalAmount: Money;
+  pricesIncludeTax?: boolean;
+  discount?: Discount;
+  discountAmount?: Money;
+  notes?: string;
+  frequency: "weekly" | "monthly" | "custom";
+  /** Days between cycles. Only used when `frequency` is "custom". */
+  intervalDays?: number;
+  /** The first cycle. Monthly cycles fall on its day of the month. */
+  startDate: string;
+  /** The next cycle still to be made or skipped. */
+  nextDate: string;
+  /** No cycles fall after this day. */
+  endDate?: string;
+  /** "auto" makes due transactions by itself; "confirm" waits on the dashboard. */
+  mode: "auto" | "confirm";
+  /** A paused template makes nothing until it is resumed. */
+  paused?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
+
+/** How a new recurring template repeats. */
+export type RecurrenceSchedule = Pick<
+  RecurringTemplate,
+  "frequency" | "intervalDays" | "endDate" | "mode"
+>;
+
+/**
+ * A bill from a supplier, the buy-side mirror of a transaction. `customerId`
+ * is the supplier's id, since suppliers are kept with customers.
+ */
+export interface PurchaseBill {
+  id: string;
+  customerId: string;
+  /** The supplier's own number for the bill. */
+  billNumber?: string;
+  date: string;
+  /** When the bill must be paid. Set from the supplier's terms when the bill is added. */
+  dueDate?: string;
+  products: ProductItem[];
+  totalAmount: Money;
+  /** Always the sum of `payments`. */
+  amountPaid: Money;
+  status: Transaction["status"];
+  payments: SupplierPayment[];
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
+
+/** Money paid to a supplier against one bill. */
+export interface SupplierPayment {
+  id: string;
+  amount: Money;
+  date: string;
+  method: Exclude<Payment["method"], "credit">;
+  /** Shared by the payments one lump sum was split into. */
+  receiptId?: string;
+  notes?: string;
+}
+
+/** Money spent running the business that isn't bought for resale, e.g. rent or wages. */
+export interface Expense {
+  id: string;
+  category: ExpenseCategory;
+  amount: Money;
+  date: string;
+  method: Exclude<Payment["method"], "credit">;
+  /** A photo of the receipt or bill, as picked from the camera or library. */
+  receiptUri?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
+export type ExpenseCategory =
+  | "rent"
+  | "salaries"
+  | "utilities"
+  | "transport"
+  | "supplies"
+  | "marketing"
+  | "other";
+
 export interface Payment {
   id: string;
   transactionId: string;
   customerId: string;
-  amount: number;
+  amount: Money;
   date: string;
-  method: "cash" | "upi" | "bank" | "other";
+  method: "cash" | "upi" | "bank" | "other" | "credit";
   notes?: string;
+  deletedAt?: string;
+  /** On a payment made from customer credit: the credit entry that funded it. */
+  creditId?: string;
+  /** Set when the payment was entered by mistake. Voided payments stay for audit but count for nothing. */
+  voidedAt?: string;
+  voidReason?: string;
+  /** On a reversal entry: the payment it cancels out. Its amount is the negative of that payment's. */
+  reversalOf?: string;
+  /** On a reversed payment: the reversal entry that cancels it. */
+  reversedBy?: string;
+  /** Shared by the payments one lump sum was split into. */
+  receiptId?: string;
+}
+
+/** One movement of a customer's credit balance. */
+export interface CreditEntry {
+  id: string;
+  customerId: string;
+  /** Positive adds to the customer's credit; negative uses it up. */
+  amount: Money;
+  date: string;
+  /**
+   * Where the money came from or went: an advance or overpayment received,
+   * payments kept from a deleted transaction, credit applied to a
+   * transaction, credit returned when a payment made from it was voided, or
+   * the value of goods brought back in a sales return.
+   */
+  source:
+    | "advance"
+    | "overpayment"
+    | "deleted-transaction"
+    | "applied"
+    | "returned"
+    | "return";
+  /** The transaction the credit came from or was applied to. */
+  transactionId?: string;
+  /** On credit from a sales return: the return it came from. */
+  returnId?: string;
+  receiptId?: string;
+  notes?: string;
+  deletedAt?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * One append-only history entry. `customerId` and `transactionId` point at
+ * the records the change belongs to so it can be listed on their screens;
+ * catalog products, stock adjustments and expenses have neither.
+ */
+export interface ChangeLogEntry {
+  id: string;
+  entityType:
+    | "customer"
+    | "transaction"
+    | "payment"
+    | "credit"
+    | "return"
+    | "quotation"
+    | "purchase"
+    | "product"
+    | "stock"
+    | "recurring"
+    | "expense";
+  entityId: string;
+  action:
+    | "create"
+    | "update"
+    | "delete"
+    | "restore"
+    | "purge"
+    | "payment"
+    | "void"
+    | "reverse";
+  customerId?: string;
+  transactionId?: string;
+  changes: FieldChange[];
+  /** Profile name of whoever made the change on this device. */
+  actor?: string;
+  /** When the change was made. */
+  date: string;
 }
 
 export interface CustomerStats {
-  totalPurchased: number;
-  amountPaid: number;
-  amountPending: number;
+  totalPurchased: Money;
+  amountPaid: Money;
+  amountPending: Money;
+  /** Value of goods the customer has returned. Already taken off `totalPurchased`. */
+  amountReturned: Money;
+  /** The part of `amountPending` that is past its due date. */
+  amountOverdue: Money;
+  /** Money the customer has paid that is not yet applied to a transaction. */
+  creditBalance: Money;
   transactionCount: number;
   topProducts: { name: string; quantity: number }[];
 }
 
+/** A supplier's totals, the buy-side counterpart of `CustomerStats`. */
+export interface SupplierStats {
+  totalPurchased: Money;
+  amountPaid: Money;
+  /** What we still owe the supplier. */
+  amountPending: Money;
+  /** The part of `amountPending` that is past its due date. */
+  amountOverdue: Money;
+  billCount: number;
+}
+
+/** Profit and loss for a period. */
+export interface ProfitAndLoss {
+  /** Sales less returns, before GST. */
+  revenue: Money;
+  /** The cost price of what was sold, less what was returned. */
+  costOfGoods: Money;
+  grossProfit: Money;
+  expenses: Money;
+  netProfit: Money;
+  /** Expenses by category, largest first, leaving out categories with nothing spent. */
+  expensesByCategory: { category: ExpenseCategory; amount: Money }[];
+}
+
 export interface DashboardStats {
   totalCustomers: number;
-  thisMonthRevenue: number;
-  pendingCollections: number;
+  thisMonthRevenue: Money;
+  pendingCollections: Money;
+  /** The part of `pendingCollections` that is past its due date. */
+  overdueCollections: Money;
+  overdueCount: number;
+  /** What we owe suppliers on purchase bills. */
+  payables: Money;
+  /** The part of `payables` that is past its due date. */
+  overduePayables: Money;
   topCustomer: {
     customer: Customer | null;
-    amount: number;
+    amount: Money;
   };
 }
 
+/**
+ * Sales and their cost over the lines that carry a cost price; lines without
+ * one are left out of both, so they neither inflate nor dilute the margin.
+ */
+export interface Margin {
+  /** Sales before GST, less returns. */
+  revenue: Money;
+  cost: Money;
+  margin: Money;
+  /** `margin` as a percentage of `revenue`; null when there is no revenue. */
+  marginPercent: number | null;
+}
+
+export interface ProductMargin extends Margin {
+  name: string;
+  quantity: number;
+}
+
+export interface ProfitableCustomer extends Margin {
+  customer: Customer;
+  rank: number;
+}
+
 export interface RankedCustomer {
   customer: Customer;
   rank: number;
-  totalAmount: number;
+  totalAmount: Money;
   transactionCount: number;
 }
 
@@ -0,0 +1,444 @@
+import { Customer, Transaction, Payment, ProductItem } from "@/types";
+import { CollectionName, StoredData } from "@/utils/repository";
+import {
+  Money,
+  add,
+  compare,
+  isMoney,
+  isPositive,
+  money,
+  multiply,
+  subtract,
+  sum,
+} from "@/utils/money";
+import { formatCurrency } from "@/utils/format";
+import { lineTax } from "@/utils/gst";
+import { lineDiscountGiven } from "@/utils/pricing";
+
+export type IntegrityIssueKind =
+  | "duplicate-id"
+  | "orphan-transaction"
+  | "orphan-payment"
+  | "invalid-amount"
+  | "line-total-mismatch"
+  | "total-mismatch"
+  | "amount-paid-mismatch"
+  | "status-mismatch";
+
+export interface IntegrityIssue {
+  /** Stable for the same problem across scans, so a repair can target it. */
+  id: string;
+  kind: IntegrityIssueKind;
+  collection: CollectionName;
+  recordId: string;
+  message: string;
+  /** How the repair will fix it, or null when it needs a human. */
+  repair: string | null;
+}
+
+export interface RepairResult {
+  data: StoredData;
+  /** One line per fix that was applied, in order. */
+  report: string[];
+  /** Collections whose duplicate ids were fixed; these must be rewritten whole. */
+  rewrittenCollections: CollectionName[];
+}
+
+const isValidMoney = (value: unknown): value is Money =>
+  isMoney(value) && value.minor >= 0;
+
+const isValidQuantity = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const isValidLine = (p: ProductItem) =>
+  isValidQuantity(p.quantity) &&
+  isValidMoney(p.unitPrice) &&
+  isValidMoney(p.total);
+
+/**
+ * Quantity × unit price less discounts, plus the line's GST when prices were
+ * entered without it.
+ */
+const lineTotal = (p: ProductItem, tx: Transaction) => {
+  const amount = subtract(
+    multiply(p.unitPrice, p.quantity),
+    lineDiscountGiven(p),
+  );
+  return tx.pricesIncludeTax ? amount : add(amount, lineTax(p));
+};
+
+const sameAmount = (a: Money, b: Money) =>
+  a.currency === b.currency && a.minor === b.minor;
+
+export const deriveStatus = (
+  totalAmount: Money,
+  amountPaid: Money,
+): Transaction["status"] =>
+  compare(amountPaid, totalAmount) >= 0
+    ? "paid"
+    : isPositive(amountPaid)
+      ? "partial"
+      : "pending";
+
+/** Reversal entries carry a negative amount; every other payment is zero or more. */
+const isValidPaymentAmount = (p: Payment) =>
+  isMoney(p.amount) &&
+  (p.reversalOf ? p.amount.minor <= 0 : p.amount.minor >= 0);
+
+/** What a transaction's payments add up to. Voided payments count for nothing. */
+export const sumPayments = (payments: Payment[], currency: string) =>
+  sum(
+    payments
+      .filter((p) => !p.voidedAt && isValidPaymentAmount(p))
+      .map((p) => p.amount),
+    currency,
+  );
+
+const groupByTransaction = (payments: Payment[]) => {
+  const map = new Map<string, Payment[]>();
+  payments.forEach((p) => {
+    map.set(p.transactionId, [...(map.get(p.transactionId) || []), p]);
+  });
+  return map;
+};
+
+const ledgerCurrency = (data: StoredData): string =>
+  data.profile?.currency || "INR";
+
+function findDuplicates(data: StoredData): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  (["customers", "transactions", "payments"] as CollectionName[]).forEach(
+    (collection) => {
+      const seen = new Map<string, number>();
+      data[collection].forEach((record) => {
+        seen.set(record.id, (seen.get(record.id) || 0) + 1);
+      });
+      seen.forEach((count, id) => {
+        if (count < 2) return;
+        issues.push({
+          id: `duplicate-id:${collection}:${id}`,
+          kind: "duplicate-id",
+          collection,
+          recordId: id,
+          message: `${count} ${collection} share the id ${id}.`,
+          repair: "Drop exact copies and give the others new ids.",
+        });
+      });
+    },
+  );
+  return issues;
+}
+
+/**
+ * Read-only scan. Trashed records are included, since they come back on restore.
+ */
+export function scanIntegrity(data: StoredData): IntegrityIssue[] {
+  const customers = data.customers as Customer[];
+  const transactions = data.transactions as Transaction[];
+  const payments = data.payments as Payment[];
+  const issues = findDuplicates(data);
+
+  const customerIds = new Set(customers.map((c) => c.id));
+  const transactionIds = new Set(transactions.map((t) => t.id));
+  const paymentsByTransaction = groupByTransaction(payments);
+
+  transactions.forEach((tx) => {
+    const issue = (
+      kind: IntegrityIssueKind,
+      message: string,
+      repair: string | null,
+    ) =>
+      issues.push({
+        id: `${kind}:${tx.id}`,
+        kind,
+        collection: "transactions",
+        recordId: tx.id,
+        message,
+        repair,
+      });
+
+    if (!customerIds.has(tx.customerId)) {
+      issue(
+        "orphan-transaction",
+        `Transaction ${tx.id} belongs to a customer that no longer exists.`,
+        "Delete the transaction and its payments.",
+      );
+    }
+
+    const products = tx.products || [];
+    const badFields = (["totalAmount", "amountPaid"] as const).filter(
+      (field) => !isValidMoney(tx[field]),
+    );
+    const badLines = products.filter((p) => !isValidLine(p));
+    if (badFields.length > 0 || badLines.length > 0) {
+      const hasMissing =
+        badFields.some((field) => !isMoney(tx[field])) ||
+        badLines.some(
+          (p) =>
+            !Number.isFinite(p.quantity) ||
+            !isMoney(p.unitPrice) ||
+            !isMoney(p.total),
+        );
+      issue(
+        "invalid-amount",
+        `Transaction ${tx.id} has negative or missing amounts.`,
+        hasMissing
+          ? "Treat missing amounts as 0 and recalculate totals."
+          : null,
+      );
+      // The checks below all do arithmetic on these amounts.
+      return;
+    }
+
+    const linesOff = products.filter(
+      (p) => !sameAmount(p.total, lineTotal(p, tx)),
+    );
+    if (linesOff.length > 0) {
+      issue(
+        "line-total-mismatch",
+        `${linesOff.length} product line(s) in transaction ${tx.id} ≠ quantity × unit price.`,
+        "Set each line total to quantity × unit price, less discounts, plus GST.",
+      );
+    }
+
+    const linesTotal = sum(
+      products.map((p) => lineTotal(p, tx)),
+      tx.totalAmount.currency,
+    );
+    if (!sameAmount(tx.totalAmount, linesTotal)) {
+      issue(
+        "total-mismatch",
+        `Transaction ${tx.id} total is ${formatCurrency(tx.totalAmount)} but its products add up to ${formatCurrency(linesTotal)}.`,
+        "Set the total to the sum of its products.",
+      );
+    }
+
+    const paid = sumPayments(
+      paymentsByTransaction.get(tx.id) || [],
+      tx.amountPaid.currency,
+    );
+    if (!sameAmount(tx.amountPaid, paid)) {
+      issue(
+        "amount-paid-mismatch",
+        `Transaction ${tx.id} says ${formatCurrency(tx.amountPaid)} was paid but its payments add up to ${formatCurrency(paid)}.`,
+        compare(tx.amountPaid, paid) > 0
+          ? "Record the missing amount as a payment."
+          : "Set the amount paid to the sum of its payments.",
+      );
+    }
+
+    const status = deriveStatus(tx.totalAmount, tx.amountPaid);
+    if (tx.status !== status) {
+      issue(
+        "status-mismatch",
+        `Transaction ${tx.id} is marked "${tx.status}" but its amounts say "${status}".`,
+        "Recalculate the status from the amounts.",
+      );
+    }
+  });
+
+  payments.forEach((payment) => {
+    if (!transactionIds.has(payment.transactionId)) {
+      issues.push({
+        id: `orphan-payment:${payment.id}`,
+        kind: "orphan-payment",
+        collection: "payments",
+        recordId: payment.id,
+        message: `Payment ${payment.id} points at a transaction that no longer exists.`,
+        repair: "Delete the payment.",
+      });
+    }
+    if (!isValidPaymentAmount(payment)) {
+      issues.push({
+        id: `invalid-amount:${payment.id}`,
+        kind: "invalid-amount",
+        collection: "payments",
+        recordId: payment.id,
+        message: `Payment ${payment.id} has a negative or missing amount.`,
+        repair: isMoney(payment.amount)
+          ? null
+          : "Treat the missing amount as 0.",
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Applies the repairs for `issues` to a copy of `data`. Pure, so the same
+ * call serves as the dry run. Fixes run in dependency order: duplicates and
+ * orphans first, then amounts, then anything derived from amounts.
+ */
+export function repairData(
+  data: StoredData,
+  issues: IntegrityIssue[],
+  createId: () => string,
+): RepairResult {
+  const selected = issues.filter((issue) => issue.repair !== null);
+  const has = (kind: IntegrityIssueKind, recordId: string) =>
+    selected.some(
+      (issue) => issue.kind === kind && issue.recordId === recordId,
+    );
+  const report: string[] = [];
+  const rewrittenCollections: CollectionName[] = [];
+  const currency = ledgerCurrency(data);
+
+  const result: StoredData = JSON.parse(JSON.stringify(data));
+
+  selected
+    .filter((issue) => issue.kind === "duplicate-id")
+    .forEach((issue) => {
+      const kept: Record<string, any>[] = [];
+      result[issue.collection] = result[issue.collection].filter((record) => {
+        if (record.id !== issue.recordId) return true;
+        if (kept.some((k) => JSON.stringify(k) === JSON.stringify(record))) {
+          report.push(
+            `Dropped an exact copy of ${issue.collection} ${record.id}.`,
+          );
+          return false;
+        }
+        if (kept.length > 0) {
+          const newId = createId();
+          report.push(
+            `Gave a duplicate of ${issue.collection} ${record.id} the new id ${newId}.`,
+          );
+          record.id = newId;
+        }
+        kept.push({ ...record });
+        return true;
+      });
+      if (!rewrittenCollections.includes(issue.collection)) {
+        rewrittenCollections.push(issue.collection);
+      }
+    });
+
+  let transactions = result.transactions as Transaction[];
+  let payments = result.payments as Payment[];
+
+  const orphanTransactions = new Set(
+    transactions
+      .filter((t) => has("orphan-transaction", t.id))
+      .map((t) => t.id),
+  );
+  if (orphanTransactions.size > 0) {
+    transactions = transactions.filter((t) => !orphanTransactions.has(t.id));
+    payments = payments.filter((p) => {
+      if (!orphanTransactions.has(p.transactionId)) return true;
+      report.push(
+        `Deleted payment ${p.id} of orphaned transaction ${p.transactionId}.`,
+      );
+      return false;
+    });
+    orphanTransactions.forEach((id) =>
+      report.push(`Deleted orphaned transaction ${id}.`),
+    );
+  }
+
+  payments = payments.filter((p) => {
+    if (!has("orphan-payment", p.id)) return true;
+    report.push(`Deleted orphaned payment ${p.id}.`);
+    return false;
+  });
+
+  payments = payments.map((p) => {
+    if (!has("invalid-amount", p.id)) return p;
+    report.push(`Set the missing amount of payment ${p.id} to 0.`);
+    return { ...p, amount: money(0, currency) };
+  });
+
+  const newPayments: Payment[] = [];
+  const paymentsByTransaction = groupByTransaction(payments);
+
+  transactions = transactions.map((original) => {
+    const tx: Transaction = {
+      ...original,
+      products: original.products.map((p) => ({ ...p })),
+    };
+
+    if (has("invalid-amount", tx.id)) {
+      tx.products.forEach((p) => {
+        if (!Number.isFinite(p.quantity)) p.quantity = 0;
+        if (!isMoney(p.unitPrice)) p.unitPrice = money(0, currency);
+        if (!isMoney(p.total)) p.total = lineTotal(p, tx);
+      });
+      if (!isMoney(tx.totalAmount)) {
+        tx.totalAmount = sum(
+          tx.products.map((p) => p.total),
+          currency,
+        );
+      }
+      if (!isMoney(tx.amountPaid)) {
+        tx.amountPaid = sumPayments(
+          paymentsByTransaction.get(tx.id) || [],
+          currency,
+        );
+      }
+      report.push(`Replaced missing amounts in transaction ${tx.id}.`);
+    }
+
+    if (has("line-total-mismatch", tx.id)) {
+      tx.products.forEach((p) => {
+        p.total = lineTotal(p, tx);
+      });
+      report.push(`Recalculated product line totals in transaction ${tx.id}.`);
+    }
+
+    if (has("total-mismatch", tx.id)) {
+      const total = sum(
+        tx.products.map((p) => lineTotal(p, tx)),
+        tx.totalAmount.currency,
+      );
+      report.push(
+        `Changed the total of transaction ${tx.id} from ${formatCurrency(tx.totalAmount)} to ${formatCurrency(total)}.`,
+      );
+      tx.totalAmount = total;
+    }
+
+    if (has("amount-paid-mismatch", tx.id)) {
+      const paid = sumPayments(
+        paymentsByTransaction.get(tx.id) || [],
+        tx.amountPaid.currency,
+      );
+      if (compare(tx.amountPaid, paid) > 0) {
+        const amount = subtract(tx.amountPaid, paid);
+        newPayments.push({
+          id: createId(),
+          transactionId: tx.id,
+          customerId: tx.customerId,
+          amount,
+          date: tx.date,
+          method: "other",
+          notes: "Recorded by data repair",
+        });
+        report.push(
+          `Recorded a payment of ${formatCurrency(amount)} on transaction ${tx.id}.`,
+        );
+      } else {
+        report.push(
+          `Changed amount paid on transaction ${tx.id} from ${formatCurrency(tx.amountPaid)} to ${formatCurrency(paid)}.`,
+        );
+        tx.amountPaid = paid;
+      }
+    }
+
+    // A fixed amount can change the status, so recheck it even without a status issue.
+    const status = deriveStatus(tx.totalAmount, tx.amountPaid);
+    const amountsChanged = JSON.stringify(tx) !== JSON.stringify(original);
+    if (
+      tx.status !== status &&
+      (has("status-mismatch", tx.id) || amountsChanged)
+    ) {
+      report.push(
+        `Changed the status of transaction ${tx.id} from "${tx.status}" to "${status}".`,
+      );
+      tx.status = status;
+    }
+
+    return tx;
+  });
+
+  result.transactions = transactions;
+  result.payments = [...newPayments, ...payments];
+  return { data: result, report, rewrittenCollections };
+}
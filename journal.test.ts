@@ -0,0 +1,74 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { recoverJournal, writeAtomic } from "@/utils/journal";
+import { STORAGE_KEYS } from "@/utils/storageKeys";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+const multiSet = jest.mocked(AsyncStorage.multiSet).getMockImplementation()!;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await AsyncStorage.multiSet([
+    ["customers", '["old"]'],
+    ["payments", '["old"]'],
+  ]);
+});
+
+describe("writeAtomic", () => {
+  it("writes every key and clears the journal", async () => {
+    await writeAtomic([
+      ["customers", '["new"]'],
+      ["payments", null],
+    ]);
+
+    expect(await AsyncStorage.getItem("customers")).toBe('["new"]');
+    expect(await AsyncStorage.getItem("payments")).toBeNull();
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.WRITE_JOURNAL)).toBeNull();
+    expect(await recoverJournal()).toBe(false);
+  });
+});
+
+describe("recoverJournal", () => {
+  it("rolls back a write cut off after the journal was saved", async () => {
+    // The journal is saved, then the app dies after the first data key lands.
+    jest
+      .mocked(AsyncStorage.multiSet)
+      .mockImplementationOnce(multiSet)
+      .mockImplementationOnce(async (pairs) => {
+        await multiSet(pairs.slice(0, 1));
+        throw new Error("App killed");
+      });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(
+      writeAtomic([
+        ["customers", '["new"]'],
+        ["payments", '["new"]'],
+        ["credits", '["new"]'],
+      ]),
+    ).rejects.toThrow("App killed");
+    expect(await AsyncStorage.getItem("customers")).toBe('["new"]');
+
+    expect(await recoverJournal()).toBe(true);
+
+    expect(await AsyncStorage.getItem("customers")).toBe('["old"]');
+    expect(await AsyncStorage.getItem("payments")).toBe('["old"]');
+    expect(await AsyncStorage.getItem("credits")).toBeNull();
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.WRITE_JOURNAL)).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("discards a journal that was itself cut off", async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.WRITE_JOURNAL, '{"id":"k1","prev');
+
+    expect(await recoverJournal()).toBe(false);
+
+    expect(await AsyncStorage.getItem("customers")).toBe('["old"]');
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.WRITE_JOURNAL)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { STORAGE_KEYS } from "@/utils/storageKeys";
+
+export type JournalWrite = [key: string, value: string | null];
+
+interface JournalEntry {
+  id: string;
+  startedAt: string;
+  previous: JournalWrite[];
+}
+
+/**
+ * Writes several keys as one unit. The previous values are journaled first;
+ * if the app dies before the journal is cleared, `recoverJournal` rolls every
+ * key back on the next launch. A `null` value removes the key.
+ */
+export async function writeAtomic(writes: JournalWrite[]): Promise<void> {
+  const keys = writes.map(([key]) => key);
+  const previous = await AsyncStorage.multiGet(keys);
+
+  const entry: JournalEntry = {
+    id: Date.now().toString(36),
+    startedAt: new Date().toISOString(),
+    previous: previous.map(([key, value]) => [key, value]),
+  };
+  await AsyncStorage.setItem(STORAGE_KEYS.WRITE_JOURNAL, JSON.stringify(entry));
+
+  await applyWrites(writes);
+  await AsyncStorage.removeItem(STORAGE_KEYS.WRITE_JOURNAL);
+}
+
+async function applyWrites(writes: JournalWrite[]): Promise<void> {
+  const toSet = writes.filter((w): w is [string, string] => w[1] !== null);
+  const toRemove = writes
+    .filter(([, value]) => value === null)
+    .map(([key]) => key);
+
+  if (toSet.length > 0) {
+    await AsyncStorage.multiSet(toSet);
+  }
+  if (toRemove.length > 0) {
+    await AsyncStorage.multiRemove(toRemove);
+  }
+}
+
+/**
+ * Rolls back a write that was interrupted before it finished.
+ * Returns true when a pending journal entry was found and undone.
+ */
+export async function recoverJournal(): Promise<boolean> {
+  const data = await AsyncStorage.getItem(STORAGE_KEYS.WRITE_JOURNAL);
+  if (!data) return false;
+
+  let entry: JournalEntry;
+  try {
+    entry = JSON.parse(data);
+  } catch {
+    // A journal that never finished being written means no data key was touched yet.
+    await AsyncStorage.removeItem(STORAGE_KEYS.WRITE_JOURNAL);
+    return false;
+  }
+
+  await applyWrites(entry.previous);
+  await AsyncStorage.removeItem(STORAGE_KEYS.WRITE_JOURNAL);
+  console.warn(`Rolled back interrupted write started at ${entry.startedAt}`);
+  return true;
+}
@@ -0,0 +1,89 @@
+import {
+  CollectionName,
+  RecordQuery,
+  Repository,
+  StoredRecord,
+  WriteOp,
+  matchesQuery,
+} from "@/utils/repository";
+
+/**
+ * Keeps everything in memory. Meant for tests and previews; nothing survives a reload.
+ */
+export function createMemoryRepository(
+  initial: Partial<Record<CollectionName, StoredRecord[]>> = {},
+): Repository {
+  let lists = new Map<CollectionName, StoredRecord[]>(
+    Object.entries(initial).map(([collection, records]) => [
+      collection as CollectionName,
+      [...(records || [])],
+    ]),
+  );
+  let values = new Map<string, unknown>();
+
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    name: "memory",
+
+    async init() {},
+
+    async list<T extends StoredRecord>(
+      collection: CollectionName,
+      query?: RecordQuery,
+    ) {
+      const records = lists.get(collection) || [];
+      return clone(
+        records.filter((record) => matchesQuery(record, query)),
+      ) as T[];
+    },
+
+    async get<T extends StoredRecord>(collection: CollectionName, id: string) {
+      const record = (lists.get(collection) || []).find((r) => r.id === id);
+      return record ? (clone(record) as T) : null;
+    },
+
+    async getValue<T>(key: string) {
+      return values.has(key) ? (clone(values.get(key)) as T) : null;
+    },
+
+    async commit(ops: WriteOp[]) {
+      // Apply to copies and swap at the end so a throwing op leaves nothing half-written.
+      const nextLists = new Map(
+        Array.from(lists, ([name, records]) => [name, [...records]]),
+      );
+      const nextValues = new Map(values);
+
+      ops.forEach((op) => {
+        if (op.type === "setValue") {
+          if (op.value === null) {
+            nextValues.delete(op.key);
+          } else {
+            nextValues.set(op.key, clone(op.value));
+          }
+          return;
+        }
+        const list = nextLists.get(op.collection) || [];
+        if (op.type === "put") {
+          const index = list.findIndex((record) => record.id === op.record.id);
+          if (index === -1) {
+            list.unshift(clone(op.record));
+          } else {
+            list[index] = clone(op.record);
+          }
+          nextLists.set(op.collection, list);
+        } else if (op.type === "remove") {
+          nextLists.set(
+            op.collection,
+            list.filter((record) => record.id !== op.id),
+          );
+        } else {
+          nextLists.set(op.collection, []);
+        }
+      });
+
+      lists = nextLists;
+      values = nextValues;
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationError,
+  getSchemaVersion,
+  migrations,
+  restoreMigrationSnapshot,
+  runMigrations,
+} from "@/utils/migrations";
+import { Repository, VALUE_KEYS } from "@/utils/repository";
+import { createMemoryRepository } from "@/utils/memoryRepository";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+const legacyTransaction = {
+  id: "t1",
+  customerId: "c1",
+  date: "2023-04-01T10:00:00.000Z",
+  products: [{ name: "Rice", quantity: "2", unitPrice: 625.25 }],
+  totalAmount: "1250.50",
+  amountPaid: 500,
+};
+
+const legacyCustomer = { id: "c1", name: "Asha" };
+
+const legacyPayment = {
+  id: "p1",
+  transactionId: "t1",
+  customerId: "c1",
+  amount: 500,
+  method: "cheque",
+};
+
+async function legacyRepository(): Promise<Repository> {
+  const repository = createMemoryRepository({
+    customers: [legacyCustomer],
+    transactions: [legacyTransaction],
+    payments: [legacyPayment],
+  });
+  await repository.commit([
+    {
+      type: "setValue",
+      key: VALUE_KEYS.PROFILE,
+      value: { name: "Ravi", currency: "INR" },
+    },
+  ]);
+  return repository;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("runMigrations", () => {
+  it("upgrades data written before schema versioning", async () => {
+    const repository = await legacyRepository();
+
+    const result = await runMigrations(repository);
+
+    expect(result).toEqual({
+      fromVersion: 0,
+      toVersion: CURRENT_SCHEMA_VERSION,
+    });
+    expect(await getSchemaVersion(repository)).toBe(CURRENT_SCHEMA_VERSION);
+    const [tx] = await repository.list<any>("transactions");
+    expect(tx.totalAmount).toEqual({ minor: 125050, currency: "INR" });
+    expect(tx.amountPaid).toEqual({ minor: 50000, currency: "INR" });
+    expect(tx.status).toBe("partial");
+    expect(tx.products[0]).toMatchObject({
+      quantity: 2,
+      unitPrice: { minor: 62525, currency: "INR" },
+      total: { minor: 125050, currency: "INR" },
+    });
+    const [payment] = await repository.list<any>("payments");
+    expect(payment).toMatchObject({
+      method: "other",
+      amount: { minor: 50000, currency: "INR" },
+    });
+  });
+
+  it("leaves stored data untouched when a step fails", async () => {
+    const repository = await legacyRepository();
+    jest.spyOn(migrations[1], "migrate").mockImplementation(() => {
+      throw new Error("Bad record");
+    });
+
+    await expect(runMigrations(repository)).rejects.toBeInstanceOf(
+      MigrationError,
+    );
+
+    expect(await getSchemaVersion(repository)).toBe(0);
+    const [tx] = await repository.list<any>("transactions");
+    expect(tx).toEqual(legacyTransaction);
+  });
+});
+
+describe("restoreMigrationSnapshot", () => {
+  it("rolls a finished migration back to the data it started from", async () => {
+    const repository = await legacyRepository();
+    await runMigrations(repository);
+
+    expect(await restoreMigrationSnapshot(repository)).toBe(true);
+
+    expect(await getSchemaVersion(repository)).toBe(0);
+    const [tx] = await repository.list<any>("transactions");
+    expect(tx).toEqual(legacyTransaction);
+    const [payment] = await repository.list<any>("payments");
+    expect(payment.amount).toBe(500);
+  });
+
+  it("does nothing when no migration has run", async () => {
+    const repository = await legacyRepository();
+
+    expect(await restoreMigrationSnapshot(repository)).toBe(false);
+  });
+});
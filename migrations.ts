@@ -0,0 +1,317 @@
+import {
+  COLLECTIONS,
+  Repository,
+  StoredData,
+  VALUE_KEYS,
+  getRepository,
+  readAllData,
+  replaceAllOps,
+} from "@/utils/repository";
+import { fromMajor, isMoney } from "@/utils/money";
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+export interface MigrationSnapshot {
+  fromVersion: number;
+  createdAt: string;
+  data: StoredData;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+}
+
+export class MigrationError extends Error {
+  fromVersion: number;
+  failedVersion: number;
+
+  constructor(
+    message: string,
+    fromVersion: number,
+    failedVersion: number,
+    cause?: unknown,
+  ) {
+    super(message);
+    this.name = "MigrationError";
+    this.fromVersion = fromVersion;
+    this.failedVersion = failedVersion;
+    if (cause instanceof Error && cause.stack) {
+      this.stack = `${this.stack}\nCaused by: ${cause.stack}`;
+    }
+  }
+}
+
+const PAYMENT_METHODS = ["cash", "upi", "bank", "other"];
+
+/** A line item as older app versions wrote it; any field may be missing or mistyped. */
+interface LegacyProductItem {
+  name?: unknown;
+  quantity?: unknown;
+  unitPrice?: unknown;
+  total?: unknown;
+  [key: string]: unknown;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toText = (value: unknown): string =>
+  typeof value === "string" ? value : "";
+
+const deriveStatus = (totalAmount: number, amountPaid: number) =>
+  amountPaid >= totalAmount ? "paid" : amountPaid > 0 ? "partial" : "pending";
+
+/**
+ * Ordered list of schema migrations. Each entry upgrades data written at
+ * `version - 1` to `version`; never edit a released migration, append a new one.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Normalize records written before schema versioning",
+    migrate: (data) => {
+      const now = new Date().toISOString();
+
+      const customers = data.customers
+        .filter((c) => c && typeof c.id === "string")
+        .map((c) => ({
+          ...c,
+          name: toText(c.name),
+          businessName: toText(c.businessName),
+          mobile: toText(c.mobile),
+          email: toText(c.email),
+          address: toText(c.address),
+          businessType: toText(c.businessType),
+          createdAt: c.createdAt || c.updatedAt || now,
+          updatedAt: c.updatedAt || c.createdAt || now,
+        }));
+
+      const transactions = data.transactions
+        .filter((t) => t && typeof t.id === "string")
+        .map((t) => {
+          const items: (LegacyProductItem | null)[] = Array.isArray(t.products)
+            ? t.products
+            : [];
+          const products = items.map((p) => {
+            const quantity = toNumber(p?.quantity);
+            const unitPrice = toNumber(p?.unitPrice);
+            return {
+              ...p,
+              name: toText(p?.name),
+              quantity,
+              unitPrice,
+              total:
+                p?.total !== undefined
+                  ? toNumber(p.total)
+                  : quantity * unitPrice,
+            };
+          });
+          const totalAmount = toNumber(t.totalAmount);
+          const amountPaid = toNumber(t.amountPaid);
+          return {
+            ...t,
+            customerId: toText(t.customerId),
+            date: t.date || t.createdAt || now,
+            products,
+            totalAmount,
+            amountPaid,
+            status: deriveStatus(totalAmount, amountPaid),
+            createdAt: t.createdAt || t.date || now,
+          };
+        });
+
+      const payments = data.payments
+        .filter((p) => p && typeof p.id === "string")
+        .map((p) => ({
+          ...p,
+          transactionId: toText(p.transactionId),
+          customerId: toText(p.customerId),
+          amount: toNumber(p.amount),
+          date: p.date || now,
+          method: PAYMENT_METHODS.includes(p.method) ? p.method : "other",
+        }));
+
+      const profile = data.profile
+        ? {
+            ...data.profile,
+            name: toText(data.profile.name),
+            businessName: toText(data.profile.businessName),
+            currency: toText(data.profile.currency) || "INR",
+          }
+        : null;
+
+      return { ...data, customers, transactions, payments, profile };
+    },
+  },
+  {
+    version: 2,
+    description: "Store amounts as integer minor units with their currency",
+    migrate: (data) => {
+      // Until now every amount was a float in the profile currency.
+      const currency = toText(data.profile?.currency) || "INR";
+      const toMoney = (value: unknown) =>
+        isMoney(value) ? value : fromMajor(toNumber(value), currency);
+
+      const transactions = data.transactions.map((t) => ({
+        ...t,
+        products: (t.products || []).map((p: LegacyProductItem) => ({
+          ...p,
+          unitPrice: toMoney(p.unitPrice),
+          total: toMoney(p.total),
+        })),
+        totalAmount: toMoney(t.totalAmount),
+        amountPaid: toMoney(t.amountPaid),
+      }));
+
+      const payments = data.payments.map((p) => ({
+        ...p,
+        amount: toMoney(p.amount),
+      }));
+
+      return { ...data, transactions, payments };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export async function getSchemaVersion(
+  repository: Repository = getRepository(),
+): Promise<number> {
+  const version = await repository.getValue<number>(VALUE_KEYS.SCHEMA_VERSION);
+  return typeof version === "number" && Number.isFinite(version) ? version : 0;
+}
+
+/**
+ * Applies every migration newer than `fromVersion` to an in-memory copy of the data.
+ */
+export function migrateData(data: StoredData, fromVersion: number): StoredData {
+  let migrated = data;
+  for (const migration of migrations.filter((m) => m.version > fromVersion)) {
+    try {
+      migrated = migration.migrate(migrated);
+    } catch (error) {
+      throw new MigrationError(
+        `Migration to v${migration.version} (${migration.description}) failed.`,
+        fromVersion,
+        migration.version,
+        error,
+      );
+    }
+  }
+  return migrated;
+}
+
+export async function runMigrations(
+  repository: Repository = getRepository(),
+): Promise<MigrationResult> {
+  await repository.init();
+
+  const fromVersion = await getSchemaVersion(repository);
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Stored data uses schema v${fromVersion}, but this app only understands up to v${CURRENT_SCHEMA_VERSION}. Please update the app.`,
+      fromVersion,
+      fromVersion,
+    );
+  }
+
+  if (fromVersion === CURRENT_SCHEMA_VERSION) {
+    return { fromVersion, toVersion: fromVersion };
+  }
+
+  const pending = migrations.filter((m) => m.version > fromVersion);
+
+  let data: StoredData;
+  try {
+    data = await readAllData(repository);
+  } catch (error) {
+    throw new MigrationError(
+      "Stored data could not be read before migrating.",
+      fromVersion,
+      pending[0].version,
+      error,
+    );
+  }
+
+  const isFreshInstall =
+    !data.profile &&
+    COLLECTIONS.every((collection) => data[collection].length === 0);
+  if (isFreshInstall) {
+    await repository.commit([
+      {
+        type: "setValue",
+        key: VALUE_KEYS.SCHEMA_VERSION,
+        value: CURRENT_SCHEMA_VERSION,
+      },
+    ]);
+    return { fromVersion, toVersion: CURRENT_SCHEMA_VERSION };
+  }
+
+  const snapshot: MigrationSnapshot = {
+    fromVersion,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+  await repository.commit([
+    { type: "setValue", key: VALUE_KEYS.MIGRATION_SNAPSHOT, value: snapshot },
+  ]);
+
+  data = migrateData(data, fromVersion);
+
+  // Nothing is written until every step succeeded, so a failure leaves the old data intact.
+  await repository.commit([
+    ...replaceAllOps(data),
+    {
+      type: "setValue",
+      key: VALUE_KEYS.SCHEMA_VERSION,
+      value: CURRENT_SCHEMA_VERSION,
+    },
+  ]);
+
+  return { fromVersion, toVersion: CURRENT_SCHEMA_VERSION };
+}
+
+let migrationPromise: Promise<MigrationResult> | null = null;
+
+export function ensureMigrated(): Promise<MigrationResult> {
+  if (!migrationPromise) {
+    migrationPromise = runMigrations().catch((error) => {
+      migrationPromise = null;
+      throw error;
+    });
+  }
+  return migrationPromise;
+}
+
+export async function getMigrationSnapshot(
+  repository: Repository = getRepository(),
+): Promise<MigrationSnapshot | null> {
+  return repository.getValue<MigrationSnapshot>(VALUE_KEYS.MIGRATION_SNAPSHOT);
+}
+
+export async function restoreMigrationSnapshot(
+  repository: Repository = getRepository(),
+): Promise<boolean> {
+  const snapshot = await getMigrationSnapshot(repository);
+  if (!snapshot) return false;
+
+  await repository.commit([
+    ...replaceAllOps(snapshot.data),
+    {
+      type: "setValue",
+      key: VALUE_KEYS.SCHEMA_VERSION,
+      value: snapshot.fromVersion,
+    },
+  ]);
+  migrationPromise = null;
+  return true;
+}
@@ -0,0 +1,45 @@
+import {
+  MoneyError,
+  add,
+  fromMajor,
+  money,
+  multiply,
+  parseMoney,
+  roundMinor,
+  toMajor,
+} from "@/utils/money";
+
+describe("paise rounding", () => {
+  it("rounds half a paisa away from zero", () => {
+    expect(roundMinor(0.5)).toBe(1);
+    expect(roundMinor(-0.5)).toBe(-1);
+    expect(roundMinor(2.49)).toBe(2);
+    expect(Object.is(roundMinor(-0.4), 0)).toBe(true);
+  });
+
+  it("converts rupees to paise without float noise", () => {
+    expect(fromMajor(1.005, "INR").minor).toBe(101);
+    expect(fromMajor(0.1 + 0.2, "INR").minor).toBe(30);
+    expect(fromMajor(19.99, "INR").minor).toBe(1999);
+    expect(toMajor(money(1999, "INR"))).toBe(19.99);
+  });
+
+  it("rounds products to whole paise", () => {
+    expect(multiply(money(333, "INR"), 1.5).minor).toBe(500);
+    expect(multiply(money(1999, "INR"), 0.18).minor).toBe(360);
+    expect(multiply(money(-333, "INR"), 1.5).minor).toBe(-500);
+  });
+
+  it("parses typed amounts into paise", () => {
+    expect(parseMoney("1,250.50", "INR")).toEqual(money(125050, "INR"));
+    expect(parseMoney(".5", "INR")).toEqual(money(50, "INR"));
+    expect(parseMoney("12.345", "INR")).toEqual(money(1235, "INR"));
+    expect(parseMoney("12a", "INR")).toBeNull();
+  });
+});
+
+describe("currencies", () => {
+  it("refuses to combine amounts in different currencies", () => {
+    expect(() => add(money(100, "INR"), money(100, "USD"))).toThrow(MoneyError);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * An amount in integer minor units (paise, cents) with its currency. Every
+ * calculation on money goes through the helpers below so rounding happens in
+ * one place and floats never leak into stored data.
+ */
+export interface Money {
+  minor: number;
+  currency: string;
+}
+
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MoneyError";
+  }
+}
+
+const MINOR_DIGITS: Record<string, number> = { INR: 2, USD: 2, EUR: 2, GBP: 2 };
+
+export const minorDigits = (currency: string): number =>
+  MINOR_DIGITS[currency] ?? 2;
+
+const scale = (currency: string) => 10 ** minorDigits(currency);
+
+/** Rounds half away from zero. The only rounding rule used for money. */
+export function roundMinor(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value)) || 0;
+}
+
+export function money(minor: number, currency: string): Money {
+  return { minor: roundMinor(minor), currency };
+}
+
+export const zero = (currency: string): Money => money(0, currency);
+
+export function isMoney(value: unknown): value is Money {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    Number.isInteger((value as Money).minor) &&
+    typeof (value as Money).currency === "string"
+  );
+}
+
+/** Converts a major-unit amount such as 12.5 into Money. */
+export function fromMajor(amount: number, currency: string): Money {
+  // toPrecision drops float noise first, so 1.005 becomes 101 paise and not 100.
+  return money(Number((amount * scale(currency)).toPrecision(15)), currency);
+}
+
+export function toMajor(value: Money): number {
+  return value.minor / scale(value.currency);
+}
+
+/** Parses user input like "1,250.50". Returns null for anything that is not a number. */
+export function parseMoney(text: string, currency: string): Money | null {
+  const cleaned = text.replace(/[,\s]/g, "");
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+  return fromMajor(parseFloat(cleaned), currency);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new MoneyError(`Cannot combine ${a.currency} with ${b.currency}.`);
+  }
+}
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.minor + b.minor, a.currency);
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.minor - b.minor, a.currency);
+}
+
+/** Multiplies by a plain number such as a quantity, rounding the result. */
+export function multiply(value: Money, factor: number): Money {
+  return money(value.minor * factor, value.currency);
+}
+
+export function sum(values: Money[], currency: string): Money {
+  return values.reduce(add, zero(currency));
+}
+
+export function compare(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.minor - b.minor;
+}
+
+export const isZero = (value: Money) => value.minor === 0;
+export const isPositive = (value: Money) => value.minor > 0;
+export const isNegative = (value: Money) => value.minor < 0;
+
+export function min(a: Money, b: Money): Money {
+  return compare(a, b) <= 0 ? a : b;
+}
+
+export function max(a: Money, b: Money): Money {
+  return compare(a, b) >= 0 ? a : b;
+}
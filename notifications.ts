@@ -1,6 +1,11 @@
 import * as Notifications from "expo-notifications";
-import * as FileSystem from "expo-file-system";
+import * as FileSystem from "expo-file-system/legacy";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Customer, Transaction } from "@/types";
+import { Money } from "@/utils/money";
+import { formatCurrency } from "@/utils/format";
+import { pendingOf } from "@/utils/allocation";
+import { daysOverdue, isOverdue } from "@/utils/terms";
 
 const NOTIFICATIONS_ENABLED_KEY = "@cardvault/notifications_enabled";
 
@@ -32,7 +37,10 @@ export async function isNotificationsEnabled(): Promise<boolean> {
 
 export async function setNotificationsEnabled(enabled: boolean): Promise<void> {
   try {
-    await AsyncStorage.setItem(NOTIFICATIONS_ENABLED_KEY, enabled ? "true" : "false");
+    await AsyncStorage.setItem(
+      NOTIFICATIONS_ENABLED_KEY,
+      enabled ? "true" : "false",
+    );
   } catch (error) {
     console.error("Failed to set notifications preference:", error);
   }
@@ -40,8 +48,8 @@ export async function setNotificationsEnabled(enabled: boolean): Promise<void> {
 
 export async function schedulePendingPaymentNotification(
   customerName: string,
-  amount: number,
-  daysOverdue: number
+  amount: Money,
+  daysOverdue: number,
 ): Promise<void> {
   try {
     const enabled = await isNotificationsEnabled();
@@ -49,8 +57,8 @@ export async function schedulePendingPaymentNotification(
 
     const message =
       daysOverdue > 0
-        ? `Payment overdue by ${daysOverdue} days from ${customerName}: ₹${amount}`
-        : `Pending payment from ${customerName}: ₹${amount}`;
+        ? `Payment overdue by ${daysOverdue} days from ${customerName}: ${formatCurrency(amount)}`
+        : `Pending payment from ${customerName}: ${formatCurrency(amount)}`;
 
     await Notifications.scheduleNotificationAsync({
       content: {
@@ -67,27 +75,26 @@ export async function schedulePendingPaymentNotification(
 }
 
 export async function checkAndNotifyPendingPayments(
-  transactions: any[],
-  customers: any[]
+  transactions: Transaction[],
+  customers: Customer[],
 ): Promise<void> {
   try {
     const enabled = await isNotificationsEnabled();
     if (!enabled) return;
 
     const today = new Date();
-    const pendingTransactions = transactions.filter((t) => {
-      const txDate = new Date(t.date);
-      return t.totalAmount > t.amountPaid && txDate < today;
-    });
+    const overdueTransactions = transactions
+      .filter((t) => isOverdue(t, today))
+      .sort((a, b) => daysOverdue(b, today) - daysOverdue(a, today));
 
-    for (const tx of pendingTransactions.slice(0, 3)) {
+    for (const tx of overdueTransactions.slice(0, 3)) {
       const customer = customers.find((c) => c.id === tx.customerId);
       if (customer) {
-        const daysOverdue = Math.floor(
-          (today.getTime() - new Date(tx.date).getTime()) / (1000 * 60 * 60 * 24)
+        await schedulePendingPaymentNotification(
+          customer.name,
+          pendingOf(tx),
+          daysOverdue(tx, today),
         );
-        const pendingAmount = tx.totalAmount - tx.amountPaid;
-        await schedulePendingPaymentNotification(customer.name, pendingAmount, daysOverdue - 30);
       }
     }
   } catch (error) {
@@ -100,7 +107,8 @@ export async function requestNotificationPermissions(): Promise<boolean> {
     const { status } = await Notifications.getPermissionsAsync();
 
     if (status !== "granted") {
-      const { status: newStatus } = await Notifications.requestPermissionsAsync();
+      const { status: newStatus } =
+        await Notifications.requestPermissionsAsync();
       return newStatus === "granted";
     }
 
@@ -0,0 +1,80 @@
+import { apportion, discountOff, priceLines } from "@/utils/pricing";
+import { money } from "@/utils/money";
+
+const line = (name: string, unitPrice: number, quantity = 1) => ({
+  name,
+  quantity,
+  unitPrice: money(unitPrice, "INR"),
+});
+
+describe("apportion", () => {
+  it("hands leftover paise to the largest remainders", () => {
+    // Exactly 49.95, 29.97, 19.98 and 0.10 paise; the three paise left over
+    // go to the three largest fractions.
+    const shares = apportion(money(100, "INR"), [
+      money(500, "INR"),
+      money(300, "INR"),
+      money(200, "INR"),
+      money(1, "INR"),
+    ]);
+
+    expect(shares.map((s) => s.minor)).toEqual([50, 30, 20, 0]);
+  });
+});
+
+describe("priceLines", () => {
+  it("splits a bill discount across lines so the shares add up to it", () => {
+    const bill = priceLines(
+      [line("Rice", 100), line("Dal", 100), line("Oil", 100)],
+      {
+        currency: "INR",
+        discount: { type: "flat", amount: money(100, "INR") },
+        inclusive: false,
+        interState: false,
+      },
+    );
+
+    const shares = bill.items.map((item) => item.billDiscountShare?.minor);
+    expect(shares).toEqual([34, 33, 33]);
+    expect(bill.items.map((item) => item.total.minor)).toEqual([66, 67, 67]);
+    expect(bill.discountAmount.minor).toBe(100);
+    expect(bill.totalAmount.minor).toBe(200);
+  });
+
+  it("takes line and bill discounts off before GST", () => {
+    const bill = priceLines(
+      [
+        {
+          ...line("Soap", 5000, 2),
+          discount: { type: "percent", percent: 10 },
+          taxRate: 18,
+        },
+      ],
+      {
+        currency: "INR",
+        discount: { type: "flat", amount: money(1000, "INR") },
+        inclusive: false,
+        interState: false,
+      },
+    );
+
+    const [item] = bill.items;
+    expect(item.discountAmount?.minor).toBe(1000);
+    expect(item.billDiscountShare?.minor).toBe(1000);
+    expect(item.taxableValue?.minor).toBe(8000);
+    expect(item.cgst?.minor).toBe(720);
+    expect(item.sgst?.minor).toBe(720);
+    expect(bill.totalAmount.minor).toBe(9440);
+  });
+});
+
+describe("discountOff", () => {
+  it("never takes off more than the amount", () => {
+    expect(
+      discountOff(money(500, "INR"), {
+        type: "flat",
+        amount: money(800, "INR"),
+      }).minor,
+    ).toBe(500);
+  });
+});
@@ -0,0 +1,140 @@
+import { Discount, ProductItem } from "@/types";
+import {
+  Money,
+  min,
+  money,
+  multiply,
+  subtract,
+  sum,
+  zero,
+} from "@/utils/money";
+import { formatCurrency } from "@/utils/format";
+import { computeLineTax } from "@/utils/gst";
+
+/*
+ * How a bill is priced, in this order:
+ *   1. quantity × unit price
+ *   2. less the line's own discount
+ *   3. less the line's share of the bill discount, split by the lines' value after step 2
+ *   4. plus GST on what is left, or GST taken out of it when prices include GST
+ * Discounts always come off before tax, so GST is charged on the discounted value.
+ */
+
+/** What `discount` takes off `amount`. Never more than the amount itself. */
+export function discountOff(amount: Money, discount?: Discount): Money {
+  if (!discount || amount.minor <= 0) return zero(amount.currency);
+  const off =
+    discount.type === "percent"
+      ? money((amount.minor * discount.percent) / 100, amount.currency)
+      : money(discount.amount.minor, amount.currency);
+  return off.minor > 0 ? min(off, amount) : zero(amount.currency);
+}
+
+export const describeDiscount = (discount: Discount): string =>
+  discount.type === "percent"
+    ? `${discount.percent}%`
+    : formatCurrency(discount.amount);
+
+/**
+ * Splits `total` across `weights` in proportion to them. Leftover minor units
+ * go to the largest remainders, so the shares always add up to `total`.
+ */
+export function apportion(total: Money, weights: Money[]): Money[] {
+  const weightTotal = weights.reduce((acc, w) => acc + Math.max(w.minor, 0), 0);
+  if (weightTotal === 0) return weights.map(() => zero(total.currency));
+
+  const exact = weights.map(
+    (w) => (total.minor * Math.max(w.minor, 0)) / weightTotal,
+  );
+  const shares = exact.map(Math.floor);
+  let left = total.minor - shares.reduce((acc, s) => acc + s, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (left <= 0) return;
+      shares[index] += 1;
+      left -= 1;
+    });
+  return shares.map((minor) => money(minor, total.currency));
+}
+
+export interface LineInput {
+  productId?: string;
+  name: string;
+  quantity: number;
+  unitPrice: Money;
+  costPrice?: Money;
+  discount?: Discount;
+  /** GST rate in percent; leave out for an untaxed line. */
+  taxRate?: number;
+  hsnCode?: string;
+}
+
+export interface PricedBill {
+  items: ProductItem[];
+  /** What the bill discount came to. Zero without one. */
+  discountAmount: Money;
+  totalAmount: Money;
+}
+
+/** Prices a bill's lines: discounts first, then GST. See the top of this file. */
+export function priceLines(
+  lines: LineInput[],
+  options: {
+    currency: string;
+    discount?: Discount;
+    inclusive: boolean;
+    interState: boolean;
+  },
+): PricedBill {
+  const { currency } = options;
+  const lineDiscounts = lines.map((line) =>
+    discountOff(multiply(line.unitPrice, line.quantity), line.discount),
+  );
+  const afterLineDiscounts = lines.map((line, i) =>
+    subtract(multiply(line.unitPrice, line.quantity), lineDiscounts[i]),
+  );
+  const discountAmount = discountOff(
+    sum(afterLineDiscounts, currency),
+    options.discount,
+  );
+  const shares = apportion(discountAmount, afterLineDiscounts);
+
+  const items = lines.map((line, i): ProductItem => {
+    const amount = subtract(afterLineDiscounts[i], shares[i]);
+    const item: ProductItem = {
+      productId: line.productId,
+      name: line.name,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      costPrice: line.costPrice,
+      total: amount,
+      hsnCode: line.hsnCode,
+      discount: line.discount,
+      discountAmount: line.discount ? lineDiscounts[i] : undefined,
+      billDiscountShare: options.discount ? shares[i] : undefined,
+    };
+    if (line.taxRate === undefined) return item;
+    const tax = computeLineTax(amount, line.taxRate, options);
+    return { ...item, ...tax, taxRate: line.taxRate };
+  });
+
+  return {
+    items,
+    discountAmount,
+    totalAmount: sum(
+      items.map((item) => item.total),
+      currency,
+    ),
+  };
+}
+
+/** The amount taken off a line by discounts, its share of the bill discount included. */
+export const lineDiscountGiven = (item: ProductItem): Money =>
+  sum(
+    [item.discountAmount, item.billDiscountShare].filter(
+      (d): d is Money => !!d,
+    ),
+    item.total.currency,
+  );
@@ -0,0 +1,37 @@
+import { Quotation, QuotationStatus } from "@/types";
+
+/** How long a new quote's prices hold unless the validity date is changed. */
+export const QUOTATION_VALIDITY_DAYS = 15;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/** The default validity date for a quote made on `date`. */
+export function validUntilFor(date: string): string {
+  const validUntil = new Date(date);
+  validUntil.setDate(validUntil.getDate() + QUOTATION_VALIDITY_DAYS);
+  return validUntil.toISOString();
+}
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/**
+ * The status to show for a quotation: its stored status, or "expired" once
+ * the day after its validity date has begun. Accepted quotes never expire.
+ */
+export function quotationStatus(
+  quotation: Quotation,
+  now: Date = new Date(),
+): QuotationStatus {
+  if (quotation.status === "accepted") return "accepted";
+  const daysLeft =
+    (startOfDay(new Date(quotation.validUntil)) - startOfDay(now)) / DAY_MS;
+  return daysLeft < 0 ? "expired" : quotation.status;
+}
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  accepted: "Accepted",
+  expired: "Expired",
+};
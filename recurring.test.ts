@@ -0,0 +1,72 @@
+import { firstCycleFrom, isCycleDue, nextCycleDate } from "@/utils/recurring";
+import { money } from "@/utils/money";
+import { RecurringTemplate } from "@/types";
+
+// Local dates, as the schedule follows the phone's calendar.
+const at = (year: number, month: number, day: number) =>
+  new Date(year, month - 1, day, 10).toISOString();
+
+const monthly = (startDate: string): RecurringTemplate => ({
+  id: "rt1",
+  customerId: "c1",
+  products: [],
+  totalAmount: money(50000, "INR"),
+  frequency: "monthly",
+  startDate,
+  nextDate: startDate,
+  mode: "confirm",
+  createdAt: startDate,
+  updatedAt: startDate,
+});
+
+describe("nextCycleDate", () => {
+  it("falls back to the last day of shorter months and returns to the 31st", () => {
+    const template = monthly(at(2026, 1, 31));
+    const dates = [template.startDate];
+    for (let i = 0; i < 4; i++) {
+      dates.push(nextCycleDate(template, dates[dates.length - 1]));
+    }
+
+    expect(dates).toEqual([
+      at(2026, 1, 31),
+      at(2026, 2, 28),
+      at(2026, 3, 31),
+      at(2026, 4, 30),
+      at(2026, 5, 31),
+    ]);
+  });
+
+  it("lands on 29 February in a leap year and rolls over the year end", () => {
+    const template = monthly(at(2027, 12, 30));
+
+    expect(nextCycleDate(template, template.startDate)).toBe(at(2028, 1, 30));
+    expect(nextCycleDate(template, at(2028, 1, 30))).toBe(at(2028, 2, 29));
+  });
+
+  it("adds the interval for weekly and custom schedules", () => {
+    const start = at(2026, 1, 28);
+
+    expect(
+      nextCycleDate({ frequency: "weekly", startDate: start }, start),
+    ).toBe(at(2026, 2, 4));
+    expect(
+      nextCycleDate(
+        { frequency: "custom", intervalDays: 10, startDate: start },
+        start,
+      ),
+    ).toBe(at(2026, 2, 7));
+  });
+});
+
+describe("firstCycleFrom", () => {
+  it("skips the cycles missed while paused, keeping the month-end day", () => {
+    const template = monthly(at(2026, 1, 31));
+
+    const next = firstCycleFrom(template, new Date(2026, 3, 15));
+
+    expect(next).toBe(at(2026, 4, 30));
+    expect(
+      isCycleDue({ ...template, nextDate: next }, new Date(2026, 3, 15)),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { RecurringTemplate } from "@/types";
+import { formatDate } from "@/utils/format";
+
+export const RECURRENCE_FREQUENCIES: {
+  key: RecurringTemplate["frequency"];
+  label: string;
+}[] = [
+  { key: "weekly", label: "Weekly" },
+  { key: "monthly", label: "Monthly" },
+  { key: "custom", label: "Every N Days" },
+];
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(year, month + 1, 0).getDate();
+
+/**
+ * The cycle after the one on `date`. Monthly cycles stay on the start date's
+ * day of the month, falling back to the last day of shorter months.
+ */
+export function nextCycleDate(
+  template: Pick<RecurringTemplate, "frequency" | "intervalDays" | "startDate">,
+  date: string,
+): string {
+  const next = new Date(date);
+  if (template.frequency === "monthly") {
+    const day = new Date(template.startDate).getDate();
+    const year =
+      next.getMonth() === 11 ? next.getFullYear() + 1 : next.getFullYear();
+    const month = (next.getMonth() + 1) % 12;
+    next.setFullYear(year, month, Math.min(day, daysInMonth(year, month)));
+  } else {
+    const days =
+      template.frequency === "weekly"
+        ? 7
+        : Math.max(template.intervalDays || 1, 1);
+    next.setDate(next.getDate() + days);
+  }
+  return next.toISOString();
+}
+
+/** Whether the template has run past its end date, so no cycles are left. */
+export const isFinished = (template: RecurringTemplate): boolean =>
+  !!template.endDate &&
+  startOfDay(new Date(template.nextDate)) >
+    startOfDay(new Date(template.endDate));
+
+/** Whether the template's next cycle is today or earlier and should be made now. */
+export const isCycleDue = (
+  template: RecurringTemplate,
+  now: Date = new Date(),
+): boolean =>
+  !template.paused &&
+  !isFinished(template) &&
+  startOfDay(new Date(template.nextDate)) <= startOfDay(now);
+
+/** The first cycle on or after today, for a template resumed after missing some. */
+export function firstCycleFrom(
+  template: RecurringTemplate,
+  now: Date = new Date(),
+): string {
+  let date = template.nextDate;
+  while (startOfDay(new Date(date)) < startOfDay(now)) {
+    date = nextCycleDate(template, date);
+  }
+  return date;
+}
+
+export function describeSchedule(template: RecurringTemplate): string {
+  const every =
+    template.frequency === "custom"
+      ? `Every ${template.intervalDays} day${template.intervalDays === 1 ? "" : "s"}`
+      : RECURRENCE_FREQUENCIES.find((f) => f.key === template.frequency)!.label;
+  return template.endDate
+    ? `${every} until ${formatDate(template.endDate)}`
+    : every;
+}
@@ -0,0 +1,172 @@
+import { createDefaultRepository } from "@/utils/defaultRepository";
+
+export type CollectionName =
+  | "customers"
+  | "transactions"
+  | "payments"
+  | "credits"
+  | "products"
+  | "stock"
+  | "returns"
+  | "quotations"
+  | "recurring"
+  | "purchases"
+  | "expenses"
+  | "changes";
+
+export const COLLECTIONS: CollectionName[] = [
+  "customers",
+  "transactions",
+  "payments",
+  "credits",
+  "products",
+  "stock",
+  "returns",
+  "quotations",
+  "recurring",
+  "purchases",
+  "expenses",
+  "changes",
+];
+
+export interface StoredRecord {
+  id: string;
+  customerId?: string;
+  transactionId?: string;
+  date?: string;
+  /** Set while the record is in the trash. */
+  deletedAt?: string;
+}
+
+export interface RecordQuery {
+  customerId?: string;
+  transactionId?: string;
+  from?: string;
+  to?: string;
+}
+
+export type WriteOp =
+  | { type: "put"; collection: CollectionName; record: StoredRecord }
+  | { type: "remove"; collection: CollectionName; id: string }
+  | { type: "clear"; collection: CollectionName }
+  | { type: "setValue"; key: string; value: unknown };
+
+/** A put of any stored record type, so literals with the record's own fields type-check. */
+export const putOp = <T extends StoredRecord>(
+  collection: CollectionName,
+  record: T,
+): WriteOp => ({
+  type: "put",
+  collection,
+  record,
+});
+
+/**
+ * Persistence backend behind `storage`. Lists come back newest first; `put`
+ * of a new id inserts at the front and `put` of an existing id updates it in
+ * place. Every `commit` is all-or-nothing.
+ */
+export interface Repository {
+  readonly name: string;
+  init(): Promise<void>;
+  list<T extends StoredRecord>(
+    collection: CollectionName,
+    query?: RecordQuery,
+  ): Promise<T[]>;
+  get<T extends StoredRecord>(
+    collection: CollectionName,
+    id: string,
+  ): Promise<T | null>;
+  getValue<T>(key: string): Promise<T | null>;
+  commit(ops: WriteOp[]): Promise<void>;
+}
+
+export type StoredData = { [K in CollectionName]: Record<string, any>[] } & {
+  profile: Record<string, any> | null;
+};
+
+export const VALUE_KEYS = {
+  PROFILE: "profile",
+  SCHEMA_VERSION: "schema_version",
+  MIGRATION_SNAPSHOT: "migration_snapshot",
+  TRASH_RETENTION_DAYS: "trash_retention_days",
+};
+
+export function matchesQuery(
+  record: StoredRecord,
+  query?: RecordQuery,
+): boolean {
+  if (!query) return true;
+  if (query.customerId !== undefined && record.customerId !== query.customerId)
+    return false;
+  if (
+    query.transactionId !== undefined &&
+    record.transactionId !== query.transactionId
+  ) {
+    return false;
+  }
+  if (query.from && (!record.date || record.date < query.from)) return false;
+  if (query.to && (!record.date || record.date > query.to)) return false;
+  return true;
+}
+
+export async function readAllData(repository: Repository): Promise<StoredData> {
+  const [lists, profile] = await Promise.all([
+    Promise.all(COLLECTIONS.map((collection) => repository.list(collection))),
+    repository.getValue<Record<string, any>>(VALUE_KEYS.PROFILE),
+  ]);
+  const data = { profile } as StoredData;
+  COLLECTIONS.forEach((collection, index) => {
+    data[collection] = lists[index];
+  });
+  return data;
+}
+
+/**
+ * Ops that replace a collection with `records`. Records are put oldest first
+ * so each backend ends up with the same newest-first order as the input.
+ */
+export function replaceCollectionOps(
+  collection: CollectionName,
+  records: StoredRecord[],
+): WriteOp[] {
+  return [
+    { type: "clear", collection },
+    ...[...records]
+      .reverse()
+      .map((record): WriteOp => ({ type: "put", collection, record })),
+  ];
+}
+
+export function replaceAllOps(data: StoredData): WriteOp[] {
+  const ops: WriteOp[] = [];
+  COLLECTIONS.forEach((collection) => {
+    ops.push(
+      ...replaceCollectionOps(
+        collection,
+        (data[collection] || []) as StoredRecord[],
+      ),
+    );
+  });
+  if (data.profile) {
+    ops.push({
+      type: "setValue",
+      key: VALUE_KEYS.PROFILE,
+      value: data.profile,
+    });
+  }
+  return ops;
+}
+
+let activeRepository: Repository | null = null;
+
+export function getRepository(): Repository {
+  if (!activeRepository) {
+    activeRepository = createDefaultRepository();
+  }
+  return activeRepository;
+}
+
+export function setRepository(repository: Repository): void {
+  activeRepository = repository;
+}
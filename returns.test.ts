@@ -0,0 +1,73 @@
+import { buildReturnItems, returnableQuantities } from "@/utils/returns";
+import { money } from "@/utils/money";
+import { SalesReturn, Transaction } from "@/types";
+
+const NOW = "2026-01-15T10:00:00.000Z";
+
+const transaction: Transaction = {
+  id: "t1",
+  customerId: "c1",
+  date: NOW,
+  products: [
+    {
+      name: "Fan",
+      quantity: 3,
+      unitPrice: money(3334, "INR"),
+      total: money(10000, "INR"),
+      taxableValue: money(8475, "INR"),
+      cgst: money(762, "INR"),
+      sgst: money(763, "INR"),
+      taxRate: 18,
+    },
+  ],
+  totalAmount: money(10000, "INR"),
+  amountPaid: money(0, "INR"),
+  status: "pending",
+  createdAt: NOW,
+};
+
+const salesReturn = (items: SalesReturn["items"]): SalesReturn => ({
+  id: "r1",
+  transactionId: "t1",
+  customerId: "c1",
+  date: NOW,
+  items,
+  amount: money(0, "INR"),
+  appliedAmount: money(0, "INR"),
+  createdAt: NOW,
+});
+
+describe("buildReturnItems", () => {
+  it("credits a partial return its share of each amount", () => {
+    const [item] = buildReturnItems(transaction, [1], []);
+
+    expect(item).toMatchObject({
+      lineIndex: 0,
+      quantity: 1,
+      total: money(3333, "INR"),
+      taxableValue: money(2825, "INR"),
+      cgst: money(254, "INR"),
+      sgst: money(254, "INR"),
+    });
+  });
+
+  it("gives the last return whatever is left, so the returns add up to the sale", () => {
+    const first = buildReturnItems(transaction, [1], []);
+
+    const [rest] = buildReturnItems(transaction, [2], [salesReturn(first)]);
+
+    expect(rest.total.minor + first[0].total.minor).toBe(10000);
+    expect(rest.taxableValue!.minor + first[0].taxableValue!.minor).toBe(8475);
+    expect(rest.cgst!.minor + first[0].cgst!.minor).toBe(762);
+    expect(rest.sgst!.minor + first[0].sgst!.minor).toBe(763);
+  });
+
+  it("cuts a return down to what is left to return", () => {
+    const first = buildReturnItems(transaction, [2], []);
+    const returns = [salesReturn(first)];
+
+    expect(returnableQuantities(transaction, returns)).toEqual([1]);
+    expect(buildReturnItems(transaction, [5], returns)[0].quantity).toBe(1);
+    expect(buildReturnItems(transaction, [0], returns)).toEqual([]);
+  });
+});
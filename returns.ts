@@ -0,0 +1,98 @@
+import { ProductItem, ReturnItem, SalesReturn, Transaction } from "@/types";
+import { money, subtract, sum, zero } from "@/utils/money";
+
+/** The amounts on a line that a return takes its share of. */
+const PRORATED_FIELDS = [
+  "total",
+  "taxableValue",
+  "cgst",
+  "sgst",
+  "igst",
+  "discountAmount",
+  "billDiscountShare",
+] as const;
+
+/** Items already returned from a transaction, oldest return first. */
+export const returnedItems = (
+  transactionId: string,
+  returns: SalesReturn[],
+): ReturnItem[] =>
+  returns
+    .filter((r) => r.transactionId === transactionId && !r.deletedAt)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap((r) => r.items);
+
+/** How much of each line can still be returned, by line index. */
+export function returnableQuantities(
+  tx: Transaction,
+  returns: SalesReturn[],
+): number[] {
+  const earlier = returnedItems(tx.id, returns);
+  return tx.products.map(
+    (line, index) =>
+      line.quantity -
+      earlier
+        .filter((i) => i.lineIndex === index)
+        .reduce((total, i) => total + i.quantity, 0),
+  );
+}
+
+/**
+ * The returned part of `line`, its amounts in proportion to `quantity`.
+ * Returning the last of a line takes whatever is left of each amount, so a
+ * line returned in several goes adds back up to exactly what was sold.
+ */
+function returnItem(
+  line: ProductItem,
+  lineIndex: number,
+  quantity: number,
+  earlier: ReturnItem[],
+): ReturnItem {
+  const before = earlier.filter((i) => i.lineIndex === lineIndex);
+  const left =
+    line.quantity - before.reduce((total, i) => total + i.quantity, 0);
+  const item: ReturnItem = { ...line, lineIndex, quantity };
+  PRORATED_FIELDS.forEach((field) => {
+    const value = line[field];
+    if (!value) return;
+    const returned = sum(
+      before.map((i) => i[field] || zero(value.currency)),
+      value.currency,
+    );
+    item[field] =
+      quantity >= left
+        ? subtract(value, returned)
+        : money((value.minor * quantity) / line.quantity, value.currency);
+  });
+  return item;
+}
+
+/**
+ * Items for a new return of `quantities` (by line index) from `tx`. Lines
+ * asked for beyond what is left to return are cut down; empty ones are dropped.
+ */
+export function buildReturnItems(
+  tx: Transaction,
+  quantities: number[],
+  returns: SalesReturn[],
+): ReturnItem[] {
+  const earlier = returnedItems(tx.id, returns);
+  const returnable = returnableQuantities(tx, returns);
+  return tx.products.flatMap((line, index) => {
+    const quantity = Math.min(quantities[index] || 0, returnable[index]);
+    return quantity > 0 ? [returnItem(line, index, quantity, earlier)] : [];
+  });
+}
+
+/** Returns dated within the period. Either end may be left open. */
+export const returnsBetween = (
+  returns: SalesReturn[],
+  startDate?: Date,
+  endDate?: Date,
+): SalesReturn[] =>
+  returns.filter((r) => {
+    const date = new Date(r.date);
+    if (startDate && date < startDate) return false;
+    if (endDate && date > endDate) return false;
+    return !r.deletedAt;
+  });
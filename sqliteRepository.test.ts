@@ -0,0 +1,121 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createSQLiteRepository } from "@/utils/sqliteRepository";
+import { VALUE_KEYS } from "@/utils/repository";
+import { STORAGE_KEYS } from "@/utils/storageKeys";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+// Understands only the statements the repository issues, and ignores list filters.
+jest.mock("expo-sqlite", () => {
+  const databases = new Map<string, any>();
+
+  const createDatabase = () => {
+    const records = new Map<string, { collection: string; data: string }>();
+    const kv = new Map<string, string>();
+    const db = {
+      async execAsync() {},
+      async runAsync(sql: string, params: string[]) {
+        if (sql.includes("INSERT INTO records")) {
+          // Map.set on an existing key keeps its position, as the upsert keeps the rowid.
+          records.set(`${params[0]}/${params[1]}`, {
+            collection: params[0],
+            data: params[5],
+          });
+        } else if (sql.includes("INSERT INTO kv")) {
+          kv.set(params[0], params[1]);
+        } else if (sql.startsWith("DELETE FROM kv")) {
+          kv.delete(params[0]);
+        } else if (sql.includes("AND id = ?")) {
+          records.delete(`${params[0]}/${params[1]}`);
+        } else {
+          records.forEach(
+            (record, key) =>
+              record.collection === params[0] && records.delete(key),
+          );
+        }
+      },
+      async getAllAsync(sql: string, params: string[]) {
+        return Array.from(records.values())
+          .filter((record) => record.collection === params[0])
+          .reverse()
+          .map(({ data }) => ({ data }));
+      },
+      async getFirstAsync(sql: string, params: string[]) {
+        if (sql.includes("FROM kv")) {
+          return kv.has(params[0]) ? { value: kv.get(params[0]) } : null;
+        }
+        const record = records.get(`${params[0]}/${params[1]}`);
+        return record ? { data: record.data } : null;
+      },
+      async withExclusiveTransactionAsync(
+        task: (txn: unknown) => Promise<void>,
+      ) {
+        await task(db);
+      },
+    };
+    return db;
+  };
+
+  return {
+    openDatabaseAsync: async (name: string) => {
+      if (!databases.has(name)) databases.set(name, createDatabase());
+      return databases.get(name);
+    },
+  };
+});
+
+const legacyCustomers = [
+  { id: "c2", name: "Ravi" },
+  { id: "c1", name: "Asha" },
+];
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await AsyncStorage.multiSet([
+    [STORAGE_KEYS.CUSTOMERS, JSON.stringify(legacyCustomers)],
+    [
+      STORAGE_KEYS.PAYMENTS,
+      JSON.stringify([{ id: "p1", customerId: "c1", amount: 500 }]),
+    ],
+    [STORAGE_KEYS.PROFILE, JSON.stringify({ name: "Ravi", currency: "INR" })],
+    [STORAGE_KEYS.SCHEMA_VERSION, "1"],
+  ]);
+});
+
+describe("importLegacyData", () => {
+  it("copies the AsyncStorage lists, profile and schema version on first open", async () => {
+    const repository = createSQLiteRepository("import.db");
+
+    await repository.init();
+
+    expect(await repository.list("customers")).toEqual(legacyCustomers);
+    expect(await repository.get("payments", "p1")).toMatchObject({
+      amount: 500,
+    });
+    expect(await repository.getValue(VALUE_KEYS.PROFILE)).toEqual({
+      name: "Ravi",
+      currency: "INR",
+    });
+    expect(await repository.getValue(VALUE_KEYS.SCHEMA_VERSION)).toBe(1);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.CUSTOMERS)).toBe(
+      JSON.stringify(legacyCustomers),
+    );
+  });
+
+  it("imports only once", async () => {
+    await createSQLiteRepository("once.db").init();
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.CUSTOMERS,
+      JSON.stringify([{ id: "c3" }]),
+    );
+
+    const repository = createSQLiteRepository("once.db");
+    await repository.init();
+
+    expect(await repository.list("customers")).toEqual(legacyCustomers);
+  });
+});
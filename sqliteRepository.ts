@@ -0,0 +1,208 @@
+import * as SQLite from "expo-sqlite";
+import {
+  CollectionName,
+  RecordQuery,
+  Repository,
+  StoredRecord,
+  WriteOp,
+  VALUE_KEYS,
+  readAllData,
+  replaceAllOps,
+} from "@/utils/repository";
+import { createAsyncStorageRepository } from "@/utils/asyncStorageRepository";
+
+const DATABASE_NAME = "cardvault.db";
+const LEGACY_IMPORT_KEY = "legacy_json_imported_at";
+
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS records (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  customer_id TEXT,
+  transaction_id TEXT,
+  date TEXT,
+  data TEXT NOT NULL,
+  PRIMARY KEY (collection, id)
+);
+CREATE INDEX IF NOT EXISTS idx_records_customer ON records (collection, customer_id);
+CREATE INDEX IF NOT EXISTS idx_records_transaction ON records (collection, transaction_id);
+CREATE INDEX IF NOT EXISTS idx_records_date ON records (collection, date);
+CREATE TABLE IF NOT EXISTS kv (
+  key TEXT PRIMARY KEY NOT NULL,
+  value TEXT NOT NULL
+);
+`;
+
+// ON CONFLICT ... DO UPDATE keeps the rowid, so updated records hold their position.
+const UPSERT_RECORD = `
+INSERT INTO records (collection, id, customer_id, transaction_id, date, data)
+VALUES (?, ?, ?, ?, ?, ?)
+ON CONFLICT (collection, id) DO UPDATE SET
+  customer_id = excluded.customer_id,
+  transaction_id = excluded.transaction_id,
+  date = excluded.date,
+  data = excluded.data
+`;
+
+async function applyOp(db: SQLite.SQLiteDatabase, op: WriteOp): Promise<void> {
+  switch (op.type) {
+    case "put":
+      await db.runAsync(UPSERT_RECORD, [
+        op.collection,
+        op.record.id,
+        op.record.customerId ?? null,
+        op.record.transactionId ?? null,
+        op.record.date ?? null,
+        JSON.stringify(op.record),
+      ]);
+      break;
+    case "remove":
+      await db.runAsync("DELETE FROM records WHERE collection = ? AND id = ?", [
+        op.collection,
+        op.id,
+      ]);
+      break;
+    case "clear":
+      await db.runAsync("DELETE FROM records WHERE collection = ?", [
+        op.collection,
+      ]);
+      break;
+    case "setValue":
+      if (op.value === null) {
+        await db.runAsync("DELETE FROM kv WHERE key = ?", [op.key]);
+      } else {
+        await db.runAsync(
+          "INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+          [op.key, JSON.stringify(op.value)],
+        );
+      }
+      break;
+  }
+}
+
+/**
+ * SQLite backend. Records live in one table keyed by collection and id, with
+ * `customerId`, `transactionId` and `date` copied into indexed columns so
+ * per-customer and per-invoice lookups do not scan every row.
+ */
+export function createSQLiteRepository(
+  databaseName: string = DATABASE_NAME,
+): Repository {
+  let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  const getDatabase = () => {
+    if (!databasePromise) {
+      databasePromise = SQLite.openDatabaseAsync(databaseName).then(
+        async (db) => {
+          await db.execAsync(SCHEMA);
+          return db;
+        },
+      );
+    }
+    return databasePromise;
+  };
+
+  const repository: Repository = {
+    name: "sqlite",
+
+    async init() {
+      await getDatabase();
+      await importLegacyData(repository);
+    },
+
+    async list<T extends StoredRecord>(
+      collection: CollectionName,
+      query?: RecordQuery,
+    ) {
+      const db = await getDatabase();
+      const conditions = ["collection = ?"];
+      const params: string[] = [collection];
+
+      if (query?.customerId !== undefined) {
+        conditions.push("customer_id = ?");
+        params.push(query.customerId);
+      }
+      if (query?.transactionId !== undefined) {
+        conditions.push("transaction_id = ?");
+        params.push(query.transactionId);
+      }
+      if (query?.from) {
+        conditions.push("date >= ?");
+        params.push(query.from);
+      }
+      if (query?.to) {
+        conditions.push("date <= ?");
+        params.push(query.to);
+      }
+
+      const rows = await db.getAllAsync<{ data: string }>(
+        `SELECT data FROM records WHERE ${conditions.join(" AND ")} ORDER BY rowid DESC`,
+        params,
+      );
+      return rows.map((row) => JSON.parse(row.data) as T);
+    },
+
+    async get<T extends StoredRecord>(collection: CollectionName, id: string) {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ data: string }>(
+        "SELECT data FROM records WHERE collection = ? AND id = ?",
+        [collection, id],
+      );
+      return row ? (JSON.parse(row.data) as T) : null;
+    },
+
+    async getValue<T>(key: string) {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ value: string }>(
+        "SELECT value FROM kv WHERE key = ?",
+        [key],
+      );
+      return row ? (JSON.parse(row.value) as T) : null;
+    },
+
+    async commit(ops: WriteOp[]) {
+      if (ops.length === 0) return;
+      const db = await getDatabase();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const op of ops) {
+          await applyOp(txn, op);
+        }
+      });
+    },
+  };
+
+  return repository;
+}
+
+/**
+ * One-time copy of the JSON arrays written by earlier versions into SQLite.
+ * The stored schema version comes along, so pending migrations still run
+ * afterwards. The old AsyncStorage keys are left in place as a fallback.
+ */
+async function importLegacyData(repository: Repository): Promise<void> {
+  const importedAt = await repository.getValue<string>(LEGACY_IMPORT_KEY);
+  if (importedAt) return;
+
+  const legacy = createAsyncStorageRepository();
+  await legacy.init();
+  const [data, schemaVersion] = await Promise.all([
+    readAllData(legacy),
+    legacy.getValue<number>(VALUE_KEYS.SCHEMA_VERSION),
+  ]);
+
+  const ops = replaceAllOps(data);
+  if (schemaVersion !== null) {
+    ops.push({
+      type: "setValue",
+      key: VALUE_KEYS.SCHEMA_VERSION,
+      value: schemaVersion,
+    });
+  }
+  ops.push({
+    type: "setValue",
+    key: LEGACY_IMPORT_KEY,
+    value: new Date().toISOString(),
+  });
+  await repository.commit(ops);
+}
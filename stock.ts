@@ -0,0 +1,110 @@
+import { Product, ProductItem, StockMovement } from "@/types";
+import { Money, multiply, sum } from "@/utils/money";
+
+/** Parses a stock quantity such as "12.5". Returns null for anything that is not a number. */
+export function parseQuantity(text: string): number | null {
+  const cleaned = text.replace(/[,\s]/g, "");
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+export function getStockOnHand(
+  productId: string,
+  movements: StockMovement[],
+): number {
+  return movements
+    .filter((m) => m.productId === productId)
+    .reduce((total, m) => total + m.quantity, 0);
+}
+
+/** Stock on hand for every product that has movements. */
+export function getStockLevels(
+  movements: StockMovement[],
+): Map<string, number> {
+  const levels = new Map<string, number>();
+  movements.forEach((m) => {
+    levels.set(m.productId, (levels.get(m.productId) || 0) + m.quantity);
+  });
+  return levels;
+}
+
+export const isLowStock = (product: Product, onHand: number): boolean =>
+  !!product.trackStock &&
+  product.lowStockThreshold !== undefined &&
+  onHand <= product.lowStockThreshold;
+
+/** Tracked, active products at or below their low-stock threshold, lowest first. */
+export function getLowStockProducts(
+  products: Product[],
+  movements: StockMovement[],
+): { product: Product; onHand: number }[] {
+  const levels = getStockLevels(movements);
+  return products
+    .filter((p) => p.active)
+    .map((product) => ({ product, onHand: levels.get(product.id) || 0 }))
+    .filter(({ product, onHand }) => isLowStock(product, onHand))
+    .sort((a, b) => a.onHand - b.onHand);
+}
+
+/**
+ * Quantity of each catalog product sold by `after` minus that sold by
+ * `before`. Pass `[]` as `before` for a new sale or as `after` for a removed one.
+ */
+export function soldQuantityChange(
+  before: ProductItem[],
+  after: ProductItem[],
+): Map<string, number> {
+  const change = new Map<string, number>();
+  const count = (items: ProductItem[], sign: number) =>
+    items.forEach((item) => {
+      if (!item.productId) return;
+      change.set(
+        item.productId,
+        (change.get(item.productId) || 0) + sign * item.quantity,
+      );
+    });
+  count(before, -1);
+  count(after, 1);
+  change.forEach((quantity, productId) => {
+    if (quantity === 0) change.delete(productId);
+  });
+  return change;
+}
+
+export interface StockValuationRow {
+  product: Product;
+  onHand: number;
+  /** Stock on hand at cost, or null when the product has no cost price. */
+  value: Money | null;
+}
+
+/**
+ * Stock on hand of every tracked product valued at its cost price. Products
+ * without a cost price are listed unvalued and left out of the total, and
+ * negative stock counts as nothing towards it.
+ */
+export function getStockValuation(
+  products: Product[],
+  movements: StockMovement[],
+  currency: string,
+): { rows: StockValuationRow[]; total: Money; unvalued: number } {
+  const levels = getStockLevels(movements);
+  const rows = products
+    .filter((p) => p.trackStock)
+    .map((product) => {
+      const onHand = levels.get(product.id) || 0;
+      const value = product.costPrice
+        ? multiply(product.costPrice, Math.max(onHand, 0))
+        : null;
+      return { product, onHand, value };
+    })
+    .sort((a, b) => a.product.name.localeCompare(b.product.name));
+  return {
+    rows,
+    total: sum(
+      rows.flatMap((r) => (r.value ? [r.value] : [])),
+      currency,
+    ),
+    unvalued: rows.filter((r) => !r.value).length,
+  };
+}
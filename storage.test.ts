@@ -0,0 +1,281 @@
+import { storage } from "@/utils/storage";
+import { setRepository } from "@/utils/repository";
+import { createMemoryRepository } from "@/utils/memoryRepository";
+import { money } from "@/utils/money";
+import { getCreditBalance } from "@/utils/analytics";
+import { Customer, RecurringTemplate, Transaction } from "@/types";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+const NOW = "2026-01-15T10:00:00.000Z";
+
+const customer: Customer = {
+  id: "c1",
+  name: "Asha",
+  businessName: "Asha Stores",
+  mobile: "9876543210",
+  email: "",
+  address: "",
+  businessType: "",
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+const transaction: Transaction = {
+  id: "t1",
+  customerId: "c1",
+  date: NOW,
+  products: [],
+  totalAmount: money(100000, "INR"),
+  amountPaid: money(0, "INR"),
+  status: "pending",
+  createdAt: NOW,
+};
+
+const newCustomer = (name: string) => ({
+  name,
+  businessName: "",
+  mobile: "",
+  email: "",
+  address: "",
+  businessType: "",
+});
+
+const payment = (minor: number) => ({
+  transactionId: "t1",
+  customerId: "c1",
+  amount: money(minor, "INR"),
+  date: NOW,
+  method: "cash" as const,
+});
+
+beforeEach(() => {
+  setRepository(
+    createMemoryRepository({
+      customers: [customer],
+      transactions: [transaction],
+    }),
+  );
+});
+
+describe("concurrent writes", () => {
+  it("keeps every customer added in parallel", async () => {
+    const names = Array.from({ length: 20 }, (_, i) => `Customer ${i}`);
+
+    await Promise.all(
+      names.map((name) => storage.addCustomer(newCustomer(name))),
+    );
+
+    const saved = await storage.getCustomers();
+    expect(saved).toHaveLength(names.length + 1);
+    expect(saved.map((c) => c.name)).toEqual(expect.arrayContaining(names));
+    const created = (await storage.getChangeLog()).filter(
+      (e) => e.action === "create",
+    );
+    expect(created).toHaveLength(names.length);
+  });
+
+  it("keeps every payment added in parallel", async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, () => storage.addPayment(payment(20000))),
+    );
+
+    expect(await storage.getPayments()).toHaveLength(5);
+    const [tx] = await storage.getTransactions();
+    expect(tx.amountPaid.minor).toBe(100000);
+    expect(tx.status).toBe("paid");
+  });
+
+  it("sends parallel overpayments to credit without losing any of them", async () => {
+    await Promise.all(
+      Array.from({ length: 3 }, () => storage.addPayment(payment(50000))),
+    );
+
+    const payments = await storage.getPayments();
+    const paid = payments.reduce((total, p) => total + p.amount.minor, 0);
+    expect(paid).toBe(100000);
+    const credit = getCreditBalance("c1", await storage.getCredits(), "INR");
+    expect(credit.minor).toBe(50000);
+  });
+
+  it("keeps customers and payments written side by side", async () => {
+    await Promise.all([
+      storage.addCustomer(newCustomer("Ravi")),
+      storage.addPayment(payment(30000)),
+      storage.addCustomer(newCustomer("Meena")),
+      storage.addPayment(payment(30000)),
+    ]);
+
+    expect(await storage.getCustomers()).toHaveLength(3);
+    const [tx] = await storage.getTransactions();
+    expect(tx.amountPaid.minor).toBe(60000);
+    expect(tx.status).toBe("partial");
+  });
+});
+
+describe("receivePayment", () => {
+  it("caps each allocation at what is owed and credits the rest", async () => {
+    await storage.addPayment(payment(70000));
+
+    const created = await storage.receivePayment(
+      { customerId: "c1", method: "cash", date: NOW },
+      [{ transactionId: "t1", amount: money(50000, "INR") }],
+      money(10000, "INR"),
+    );
+
+    expect(created.map((p) => p.amount.minor)).toEqual([30000]);
+    const [tx] = await storage.getTransactions();
+    expect(tx.status).toBe("paid");
+    const credit = getCreditBalance("c1", await storage.getCredits(), "INR");
+    expect(credit.minor).toBe(30000);
+  });
+});
+
+describe("updateTransaction", () => {
+  it("refuses a total below what has been paid", async () => {
+    await storage.addPayment(payment(70000));
+
+    const updated = await storage.updateTransaction("t1", {
+      totalAmount: money(50000, "INR"),
+    });
+
+    expect(updated).toBeNull();
+    const [tx] = await storage.getTransactions();
+    expect(tx.totalAmount.minor).toBe(100000);
+  });
+
+  it("refuses edits once goods have been returned", async () => {
+    setRepository(
+      createMemoryRepository({
+        customers: [customer],
+        transactions: [transaction],
+        returns: [
+          { id: "r1", transactionId: "t1", customerId: "c1", date: NOW },
+        ],
+      }),
+    );
+
+    expect(
+      await storage.updateTransaction("t1", { notes: "Edited" }),
+    ).toBeNull();
+  });
+});
+
+describe("addReturn", () => {
+  it("settles the balance with a partial return and credits the rest", async () => {
+    const sale: Transaction = {
+      ...transaction,
+      products: [
+        {
+          name: "Chair",
+          quantity: 4,
+          unitPrice: money(25000, "INR"),
+          total: money(100000, "INR"),
+        },
+      ],
+    };
+    setRepository(
+      createMemoryRepository({ customers: [customer], transactions: [sale] }),
+    );
+    await storage.addPayment(payment(70000));
+
+    const salesReturn = await storage.addReturn("t1", [2]);
+
+    expect(salesReturn?.amount.minor).toBe(50000);
+    expect(salesReturn?.appliedAmount.minor).toBe(30000);
+    const [tx] = await storage.getTransactions();
+    expect(tx.status).toBe("paid");
+    const credit = getCreditBalance("c1", await storage.getCredits(), "INR");
+    expect(credit.minor).toBe(20000);
+  });
+});
+
+describe("change log", () => {
+  it("records product creates and updates", async () => {
+    const product = await storage.addProduct({
+      name: "Rice 25kg",
+      defaultPrice: money(120000, "INR"),
+      active: true,
+    });
+    await storage.updateProduct(product.id, {
+      defaultPrice: money(125000, "INR"),
+    });
+
+    const entries = (await storage.getChangeLog()).filter(
+      (e) => e.entityId === product.id,
+    );
+    expect(entries.map((e) => e.action).sort()).toEqual(["create", "update"]);
+    const update = entries.find((e) => e.action === "update");
+    expect(update?.changes.map((c) => c.field)).toEqual(["defaultPrice"]);
+  });
+
+  it("records stock adjustments", async () => {
+    const movement = await storage.adjustStock(
+      "p1",
+      -2,
+      "adjustment",
+      "Damaged",
+    );
+
+    const [entry] = (await storage.getChangeLog()).filter(
+      (e) => e.entityId === movement.id,
+    );
+    expect(entry).toMatchObject({ entityType: "stock", action: "create" });
+  });
+
+  it("records skipping, pausing and deleting a recurring order", async () => {
+    const template: RecurringTemplate = {
+      id: "rt1",
+      customerId: "c1",
+      products: [],
+      totalAmount: money(50000, "INR"),
+      frequency: "monthly",
+      startDate: NOW,
+      nextDate: NOW,
+      mode: "confirm",
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    setRepository(
+      createMemoryRepository({ customers: [customer], recurring: [template] }),
+    );
+
+    await storage.skipRecurringCycle("rt1");
+    await storage.setRecurringPaused("rt1", true);
+    await storage.deleteRecurringTemplate("rt1");
+
+    const entries = (await storage.getChangeLog()).filter(
+      (e) => e.entityId === "rt1",
+    );
+    expect(entries.map((e) => e.action).sort()).toEqual([
+      "purge",
+      "update",
+      "update",
+    ]);
+    expect(entries.every((e) => e.customerId === "c1")).toBe(true);
+  });
+
+  it("records expense creates, updates and deletes", async () => {
+    const expense = await storage.addExpense({
+      category: "rent",
+      amount: money(1500000, "INR"),
+      date: NOW,
+      method: "bank",
+    });
+    await storage.updateExpense(expense.id, { amount: money(1600000, "INR") });
+    await storage.deleteExpense(expense.id);
+
+    const entries = (await storage.getChangeLog()).filter(
+      (e) => e.entityId === expense.id,
+    );
+    expect(entries.map((e) => e.action).sort()).toEqual([
+      "create",
+      "purge",
+      "update",
+    ]);
+  });
+});
@@ -1,181 +1,2680 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Customer, Transaction, Payment } from "@/types";
-
-const STORAGE_KEYS = {
-  CUSTOMERS: "@cardvault/customers",
-  TRANSACTIONS: "@cardvault/transactions",
-  PAYMENTS: "@cardvault/payments",
-  PROFILE: "@cardvault/profile",
-};
+import {
+  Customer,
+  Transaction,
+  Payment,
+  CreditEntry,
+  ChangeLogEntry,
+  Discount,
+  Expense,
+  Product,
+  ProductItem,
+  PurchaseBill,
+  Quotation,
+  RecurrenceSchedule,
+  RecurringTemplate,
+  SalesReturn,
+  StockMovement,
+  SupplierPayment,
+} from "@/types";
+import { ensureMigrated } from "@/utils/migrations";
+import {
+  COLLECTIONS,
+  getRepository,
+  readAllData,
+  replaceAllOps,
+  replaceCollectionOps,
+  StoredData,
+  StoredRecord,
+  VALUE_KEYS,
+  WriteOp,
+  putOp,
+} from "@/utils/repository";
+import { runExclusive } from "@/utils/writeQueue";
+import { publishChange, registerLoader, StoreTopic } from "@/utils/dataStore";
+import { diffFields } from "@/utils/changeLog";
+import {
+  deriveStatus,
+  IntegrityIssue,
+  repairData,
+  scanIntegrity,
+  sumPayments,
+} from "@/utils/integrity";
+import {
+  Money,
+  compare,
+  fromMajor,
+  isPositive,
+  max,
+  min,
+  money,
+  subtract,
+  sum,
+  toMajor,
+  zero,
+} from "@/utils/money";
+import { Allocation, openTransactions, pendingOf } from "@/utils/allocation";
+import { getCreditBalance } from "@/utils/analytics";
+import { customerTerms, dueDateFor } from "@/utils/terms";
+import { ProductCluster, normalizeProductName } from "@/utils/catalog";
+import { soldQuantityChange } from "@/utils/stock";
+import { buildReturnItems } from "@/utils/returns";
+import { firstCycleFrom, isCycleDue, nextCycleDate } from "@/utils/recurring";
 
 export interface UserProfile {
   name: string;
   businessName: string;
   currency: string;
+  /** The business's own GSTIN. GST is only asked for once this is set. */
+  gstin?: string;
+  /** GST state code of the business, compared with the customer's to pick IGST. */
+  state?: string;
 }
 
+const DEFAULT_PROFILE: UserProfile = {
+  name: "",
+  businessName: "",
+  currency: "INR",
+};
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isActive = (record: { deletedAt?: string }) => !record.deletedAt;
+
+/** What to do with a transaction's payments when it is deleted. */
+export type AttachedPaymentHandling = "block" | "cascade" | "credit";
+
 export const generateId = (): string => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
+/**
+ * Commits through the active repository and tells the data store which
+ * collections changed, so hooks like `useCustomers` refresh themselves.
+ */
+async function commit(ops: WriteOp[]): Promise<void> {
+  await getRepository().commit(ops);
+
+  const topics: StoreTopic[] = [];
+  ops.forEach((op) => {
+    if (op.type !== "setValue") {
+      topics.push(op.collection);
+      if (op.collection === "customers") topics.push("trash");
+    } else if (op.key === VALUE_KEYS.PROFILE) {
+      topics.push("profile");
+    }
+  });
+  publishChange(topics);
+}
+
+/**
+ * Builds the history entry for a change. It goes into the same commit as the
+ * change itself, so the log can never disagree with the data.
+ */
+async function logChange(
+  entry: Omit<ChangeLogEntry, "id" | "date" | "actor">,
+): Promise<WriteOp> {
+  const profile = await getRepository().getValue<UserProfile>(
+    VALUE_KEYS.PROFILE,
+  );
+  const record: ChangeLogEntry = {
+    ...entry,
+    id: generateId(),
+    date: new Date().toISOString(),
+    ...(profile?.name ? { actor: profile.name } : {}),
+  };
+  return { type: "put", collection: "changes", record };
+}
+
+const ENTITY_TYPES = {
+  customers: "customer",
+  transactions: "transaction",
+  payments: "payment",
+} as const;
+
+/**
+ * Ops that turn `before` into `after` record by record, each with its history entry.
+ */
+async function syncCollectionOps(
+  collection: keyof typeof ENTITY_TYPES,
+  before: Record<string, any>[],
+  after: Record<string, any>[],
+): Promise<WriteOp[]> {
+  const beforeById = new Map(before.map((record) => [record.id, record]));
+  const afterIds = new Set(after.map((record) => record.id));
+  const entityType = ENTITY_TYPES[collection];
+  const ops: WriteOp[] = [];
+
+  for (const record of [...after].reverse()) {
+    const previous = beforeById.get(record.id) || null;
+    const changes = diffFields(previous, record);
+    if (changes.length === 0) continue;
+    ops.push(
+      { type: "put", collection, record: record as StoredRecord },
+      await logChange({
+        entityType,
+        entityId: record.id,
+        action: previous
+          ? "update"
+          : entityType === "payment"
+            ? "payment"
+            : "create",
+        customerId: collection === "customers" ? record.id : record.customerId,
+        transactionId:
+          collection === "transactions" ? record.id : record.transactionId,
+        changes,
+      }),
+    );
+  }
+  for (const record of before) {
+    if (afterIds.has(record.id)) continue;
+    ops.push(
+      { type: "remove", collection, id: record.id },
+      await logChange({
+        entityType,
+        entityId: record.id,
+        action: "purge",
+        customerId: collection === "customers" ? record.id : record.customerId,
+        transactionId:
+          collection === "transactions" ? record.id : record.transactionId,
+        changes: diffFields(record, null),
+      }),
+    );
+  }
+  return ops;
+}
+
+/**
+ * Ops that bring a transaction's `amountPaid` and `status` in line with
+ * `payments`, which must be the transaction's full payment list after the change.
+ */
+async function recomputeTransactionOps(
+  transactionId: string,
+  payments: Payment[],
+): Promise<WriteOp[]> {
+  const tx = await getRepository().get<Transaction>(
+    "transactions",
+    transactionId,
+  );
+  if (!tx) return [];
+
+  const amountPaid = sumPayments(payments, tx.amountPaid.currency);
+  const updated: Transaction = {
+    ...tx,
+    amountPaid,
+    status: deriveStatus(tx.totalAmount, amountPaid),
+  };
+  const changes = diffFields(tx, updated);
+  if (changes.length === 0) return [];
+  return [
+    { type: "put", collection: "transactions", record: updated },
+    await logChange({
+      entityType: "transaction",
+      entityId: tx.id,
+      action: "update",
+      customerId: tx.customerId,
+      transactionId: tx.id,
+      changes,
+    }),
+  ];
+}
+
+/** Voided payments, reversal entries and reversed payments are closed to further changes. */
+const isOpenPayment = (payment: Payment) =>
+  !payment.voidedAt &&
+  !payment.reversalOf &&
+  !payment.reversedBy &&
+  isActive(payment);
+
+/** Payments made from credit can only be voided, which hands the credit back. */
+const isEditablePayment = (payment: Payment) =>
+  isOpenPayment(payment) && payment.method !== "credit";
+
+/**
+ * Replaces one payment and recomputes its transaction, all in one commit.
+ * `extra` carries records created alongside, such as a reversal entry.
+ */
+async function paymentChangeOps(
+  before: Payment,
+  after: Payment,
+  action: ChangeLogEntry["action"],
+  extra: Payment[] = [],
+): Promise<WriteOp[]> {
+  const siblings = await getRepository().list<Payment>("payments", {
+    transactionId: before.transactionId,
+  });
+  const payments = [
+    ...siblings.map((p) => (p.id === after.id ? after : p)),
+    ...extra,
+  ];
+
+  const ops: WriteOp[] = [
+    { type: "put", collection: "payments", record: after },
+    await logChange({
+      entityType: "payment",
+      entityId: after.id,
+      action,
+      customerId: after.customerId,
+      transactionId: after.transactionId,
+      changes: diffFields(before, after),
+    }),
+  ];
+  for (const record of extra) {
+    ops.push(...(await newPaymentOps(record)));
+  }
+  ops.push(...(await recomputeTransactionOps(before.transactionId, payments)));
+  return ops;
+}
+
+/** A new payment with its history entry. */
+async function newPaymentOps(payment: Payment): Promise<WriteOp[]> {
+  return [
+    { type: "put", collection: "payments", record: payment },
+    await logChange({
+      entityType: "payment",
+      entityId: payment.id,
+      action: "payment",
+      customerId: payment.customerId,
+      transactionId: payment.transactionId,
+      changes: diffFields(null, payment),
+    }),
+  ];
+}
+
+/** A new credit entry with its history entry. */
+async function newCreditOps(
+  fields: Omit<CreditEntry, "id" | "date">,
+): Promise<{ ops: WriteOp[]; credit: CreditEntry }> {
+  const credit: CreditEntry = {
+    ...fields,
+    id: generateId(),
+    date: new Date().toISOString(),
+  };
+  const ops: WriteOp[] = [
+    { type: "put", collection: "credits", record: credit },
+    await logChange({
+      entityType: "credit",
+      entityId: credit.id,
+      action: "create",
+      customerId: credit.customerId,
+      transactionId: credit.transactionId,
+      changes: diffFields(null, credit),
+    }),
+  ];
+  return { ops, credit };
+}
+
+/**
+ * Pays up to `limit` of `tx` from the customer's credit: a negative credit
+ * entry plus a payment that points at it. Null when there is nothing to apply.
+ */
+async function applyCreditOps(
+  tx: Transaction,
+  limit: Money,
+): Promise<{ ops: WriteOp[]; payment: Payment } | null> {
+  const credits = await getRepository().list<CreditEntry>("credits", {
+    customerId: tx.customerId,
+  });
+  const amount = min(
+    getCreditBalance(tx.customerId, credits, limit.currency),
+    limit,
+  );
+  if (!isPositive(amount)) return null;
+
+  const { ops, credit } = await newCreditOps({
+    customerId: tx.customerId,
+    amount: money(-amount.minor, amount.currency),
+    source: "applied",
+    transactionId: tx.id,
+  });
+  const payment: Payment = {
+    id: generateId(),
+    transactionId: tx.id,
+    customerId: tx.customerId,
+    amount,
+    date: credit.date,
+    method: "credit",
+    notes: "Paid from credit",
+    creditId: credit.id,
+  };
+  return { ops: [...ops, ...(await newPaymentOps(payment))], payment };
+}
+
+/**
+ * Stock movements for a change in what a transaction sold: `before` and
+ * `after` are its product lines either side of the change. Only products
+ * that track stock move.
+ */
+async function stockOps(
+  transaction: Transaction,
+  before: ProductItem[],
+  after: ProductItem[],
+  reason: StockMovement["reason"],
+): Promise<WriteOp[]> {
+  const change = soldQuantityChange(before, after);
+  if (change.size === 0) return [];
+  const products = await getRepository().list<Product>("products");
+  const tracked = new Set(
+    products.filter((p) => p.trackStock).map((p) => p.id),
+  );
+  const date = new Date().toISOString();
+  const ops: WriteOp[] = [];
+  change.forEach((sold, productId) => {
+    if (!tracked.has(productId)) return;
+    const movement: StockMovement = {
+      id: generateId(),
+      productId,
+      quantity: -sold,
+      date,
+      reason,
+      transactionId: transaction.id,
+    };
+    ops.push({ type: "put", collection: "stock", record: movement });
+  });
+  return ops;
+}
+
+/** Ops that apply `updates` to a quotation, with its history entry. */
+async function quotationUpdateOps(
+  existing: Quotation,
+  updates: Partial<Quotation>,
+): Promise<{ ops: WriteOp[]; quotation: Quotation }> {
+  const quotation: Quotation = {
+    ...existing,
+    ...updates,
+    updatedAt: new Date().toISOString(),
+  };
+  const changes = diffFields(existing, quotation);
+  const ops: WriteOp[] = [
+    { type: "put", collection: "quotations", record: quotation },
+  ];
+  if (changes.length > 0) {
+    ops.push(
+      await logChange({
+        entityType: "quotation",
+        entityId: existing.id,
+        action: "update",
+        customerId: existing.customerId,
+        changes,
+      }),
+    );
+  }
+  return { ops, quotation };
+}
+
+/**
+ * Ops that add a new transaction: the record and its history entry, any
+ * amount paid up front as a payment (and above the total as credit), credit
+ * applied if asked for, and the stock it takes.
+ */
+async function newTransactionOps(
+  transaction: Omit<Transaction, "id" | "createdAt">,
+  options: { applyCredit?: boolean } = {},
+): Promise<{ ops: WriteOp[]; transaction: Transaction }> {
+  const currency = transaction.totalAmount.currency;
+  const customer = await getRepository().get<Customer>(
+    "customers",
+    transaction.customerId,
+  );
+  const base: Transaction = {
+    ...transaction,
+    id: generateId(),
+    dueDate:
+      transaction.dueDate ||
+      dueDateFor(transaction.date, customerTerms(customer)),
+    createdAt: new Date().toISOString(),
+  };
+  const ops: WriteOp[] = [];
+  const payments: Payment[] = [];
+
+  // Money taken at the time of sale is a payment like any other, so
+  // `amountPaid` always equals the sum of the transaction's payments.
+  const upfront = min(transaction.amountPaid, transaction.totalAmount);
+  if (isPositive(upfront)) {
+    const upfrontPayment: Payment = {
+      id: generateId(),
+      transactionId: base.id,
+      customerId: base.customerId,
+      amount: upfront,
+      date: base.date,
+      method: "other",
+      notes: "Paid at time of sale",
+    };
+    payments.push(upfrontPayment);
+    ops.push(...(await newPaymentOps(upfrontPayment)));
+  }
+
+  const overpaid = subtract(transaction.amountPaid, upfront);
+  if (isPositive(overpaid)) {
+    const { ops: creditOps } = await newCreditOps({
+      customerId: base.customerId,
+      amount: overpaid,
+      source: "overpayment",
+      transactionId: base.id,
+      notes: "Paid above the total at time of sale",
+    });
+    ops.push(...creditOps);
+  }
+
+  if (options.applyCredit) {
+    const pending = subtract(base.totalAmount, sumPayments(payments, currency));
+    const applied = await applyCreditOps(base, pending);
+    if (applied) {
+      payments.push(applied.payment);
+      ops.push(...applied.ops);
+    }
+  }
+
+  const amountPaid = sumPayments(payments, currency);
+  const newTransaction: Transaction = {
+    ...base,
+    amountPaid,
+    status: deriveStatus(base.totalAmount, amountPaid),
+  };
+  return {
+    transaction: newTransaction,
+    ops: [
+      { type: "put", collection: "transactions", record: newTransaction },
+      await logChange({
+        entityType: "transaction",
+        entityId: newTransaction.id,
+        action: "create",
+        customerId: newTransaction.customerId,
+        transactionId: newTransaction.id,
+        changes: diffFields(null, newTransaction),
+      }),
+      ...ops,
+      ...(await stockOps(newTransaction, [], newTransaction.products, "sale")),
+    ],
+  };
+}
+
+/**
+ * Ops that make the template's next cycle into a transaction, dated on the
+ * cycle, and move the template on to the cycle after.
+ */
+async function recurringCycleOps(
+  template: RecurringTemplate,
+): Promise<{ ops: WriteOp[]; transaction: Transaction }> {
+  const { ops, transaction } = await newTransactionOps(
+    {
+      customerId: template.customerId,
+      date: template.nextDate,
+      products: template.products,
+      totalAmount: template.totalAmount,
+      amountPaid: zero(template.totalAmount.currency),
+      status: "pending",
+      pricesIncludeTax: template.pricesIncludeTax,
+      discount: template.discount,
+      discountAmount: template.discountAmount,
+      recurringTemplateId: template.id,
+      notes: template.notes,
+    },
+    { applyCredit: true },
+  );
+  const advanced: RecurringTemplate = {
+    ...template,
+    nextDate: nextCycleDate(template, template.nextDate),
+    updatedAt: new Date().toISOString(),
+  };
+  ops.push({ type: "put", collection: "recurring", record: advanced });
+  return { ops, transaction };
+}
+
+/** `bill` with `payments`, and the paid amount and status that follow from them. */
+function withSupplierPayments(
+  bill: PurchaseBill,
+  payments: SupplierPayment[],
+): PurchaseBill {
+  const amountPaid = sum(
+    payments.map((p) => p.amount),
+    bill.totalAmount.currency,
+  );
+  return {
+    ...bill,
+    payments,
+    amountPaid,
+    status: deriveStatus(bill.totalAmount, amountPaid),
+  };
+}
+
+async function purgeOps(customerIds: string[]): Promise<WriteOp[]> {
+  const repository = getRepository();
+  const ops: WriteOp[] = [];
+  for (const customerId of customerIds) {
+    const [
+      transactions,
+      payments,
+      credits,
+      returns,
+      quotations,
+      recurring,
+      purchases,
+    ] = await Promise.all([
+      repository.list<Transaction>("transactions", { customerId }),
+      repository.list<Payment>("payments", { customerId }),
+      repository.list<CreditEntry>("credits", { customerId }),
+      repository.list<SalesReturn>("returns", { customerId }),
+      repository.list<Quotation>("quotations", { customerId }),
+      repository.list<RecurringTemplate>("recurring", { customerId }),
+      repository.list<PurchaseBill>("purchases", { customerId }),
+    ]);
+    const customer = await repository.get<Customer>("customers", customerId);
+    ops.push(
+      await logChange({
+        entityType: "customer",
+        entityId: customerId,
+        action: "purge",
+        customerId,
+        changes: diffFields(customer, null),
+      }),
+      { type: "remove", collection: "customers", id: customerId },
+      ...transactions.map(
+        (t): WriteOp => ({
+          type: "remove",
+          collection: "transactions",
+          id: t.id,
+        }),
+      ),
+      ...payments.map(
+        (p): WriteOp => ({ type: "remove", collection: "payments", id: p.id }),
+      ),
+      ...credits.map(
+        (c): WriteOp => ({ type: "remove", collection: "credits", id: c.id }),
+      ),
+      ...returns.map(
+        (r): WriteOp => ({ type: "remove", collection: "returns", id: r.id }),
+      ),
+      ...quotations.map(
+        (q): WriteOp => ({
+          type: "remove",
+          collection: "quotations",
+          id: q.id,
+        }),
+      ),
+      ...recurring.map(
+        (r): WriteOp => ({ type: "remove", collection: "recurring", id: r.id }),
+      ),
+      ...purchases.map(
+        (p): WriteOp => ({ type: "remove", collection: "purchases", id: p.id }),
+      ),
+    );
+  }
+  return ops;
+}
+
 export const storage = {
   async getCustomers(): Promise<Customer[]> {
+    await ensureMigrated();
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.CUSTOMERS);
-      return data ? JSON.parse(data) : [];
+      return (await getRepository().list<Customer>("customers")).filter(
+        isActive,
+      );
     } catch {
       return [];
     }
   },
 
+  async getCustomer(id: string): Promise<Customer | null> {
+    await ensureMigrated();
+    try {
+      const customer = await getRepository().get<Customer>("customers", id);
+      return customer && isActive(customer) ? customer : null;
+    } catch {
+      return null;
+    }
+  },
+
   async saveCustomers(customers: Customer[]): Promise<void> {
-    await AsyncStorage.setItem(STORAGE_KEYS.CUSTOMERS, JSON.stringify(customers));
+    await ensureMigrated();
+    await commit(replaceCollectionOps("customers", customers));
   },
 
-  async addCustomer(customer: Omit<Customer, "id" | "createdAt" | "updatedAt">): Promise<Customer> {
-    const customers = await this.getCustomers();
-    const newCustomer: Customer = {
-      ...customer,
-      id: generateId(),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    customers.unshift(newCustomer);
-    await this.saveCustomers(customers);
-    return newCustomer;
+  async addCustomer(
+    customer: Omit<Customer, "id" | "createdAt" | "updatedAt">,
+  ): Promise<Customer> {
+    await ensureMigrated();
+    return runExclusive(["customers", "changes"], async () => {
+      const newCustomer: Customer = {
+        ...customer,
+        id: generateId(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      await commit([
+        { type: "put", collection: "customers", record: newCustomer },
+        await logChange({
+          entityType: "customer",
+          entityId: newCustomer.id,
+          action: "create",
+          customerId: newCustomer.id,
+          changes: diffFields(null, newCustomer),
+        }),
+      ]);
+      return newCustomer;
+    });
   },
 
-  async updateCustomer(id: string, updates: Partial<Customer>): Promise<Customer | null> {
-    const customers = await this.getCustomers();
-    const index = customers.findIndex((c) => c.id === id);
-    if (index === -1) return null;
+  async updateCustomer(
+    id: string,
+    updates: Partial<Customer>,
+  ): Promise<Customer | null> {
+    await ensureMigrated();
+    return runExclusive(["customers", "changes"], async () => {
+      const repository = getRepository();
+      const existing = await repository.get<Customer>("customers", id);
+      if (!existing) return null;
 
-    customers[index] = {
-      ...customers[index],
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
-    await this.saveCustomers(customers);
-    return customers[index];
+      const updated: Customer = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      const changes = diffFields(existing, updated);
+      const ops: WriteOp[] = [
+        { type: "put", collection: "customers", record: updated },
+      ];
+      if (changes.length > 0) {
+        ops.push(
+          await logChange({
+            entityType: "customer",
+            entityId: id,
+            action: "update",
+            customerId: id,
+            changes,
+          }),
+        );
+      }
+      await commit(ops);
+      return updated;
+    });
   },
 
+  /**
+   * Moves a customer to the trash. Their transactions and payments are
+   * stamped with the same `deletedAt`, so a restore brings back exactly what
+   * this call hid.
+   */
   async deleteCustomer(id: string): Promise<void> {
-    const customers = await this.getCustomers();
-    const filtered = customers.filter((c) => c.id !== id);
-    await this.saveCustomers(filtered);
+    await ensureMigrated();
+    const keys = [
+      "customers",
+      "transactions",
+      "payments",
+      "credits",
+      "returns",
+      "quotations",
+      "recurring",
+      "purchases",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const repository = getRepository();
+      const customer = await repository.get<Customer>("customers", id);
+      if (!customer || customer.deletedAt) return;
 
-    const transactions = await this.getTransactions();
-    const filteredTx = transactions.filter((t) => t.customerId !== id);
-    await this.saveTransactions(filteredTx);
+      const deletedAt = new Date().toISOString();
+      const [
+        transactions,
+        payments,
+        credits,
+        returns,
+        quotations,
+        recurring,
+        purchases,
+      ] = await Promise.all([
+        repository.list<Transaction>("transactions", { customerId: id }),
+        repository.list<Payment>("payments", { customerId: id }),
+        repository.list<CreditEntry>("credits", { customerId: id }),
+        repository.list<SalesReturn>("returns", { customerId: id }),
+        repository.list<Quotation>("quotations", { customerId: id }),
+        repository.list<RecurringTemplate>("recurring", { customerId: id }),
+        repository.list<PurchaseBill>("purchases", { customerId: id }),
+      ]);
 
-    const payments = await this.getPayments();
-    const filteredPay = payments.filter((p) => p.customerId !== id);
-    await this.savePayments(filteredPay);
+      const ops: WriteOp[] = [
+        {
+          type: "put",
+          collection: "customers",
+          record: { ...customer, deletedAt },
+        },
+        await logChange({
+          entityType: "customer",
+          entityId: id,
+          action: "delete",
+          customerId: id,
+          changes: [
+            { field: "deletedAt", before: undefined, after: deletedAt },
+          ],
+        }),
+      ];
+      transactions.filter(isActive).forEach((t) => {
+        ops.push({
+          type: "put",
+          collection: "transactions",
+          record: { ...t, deletedAt },
+        });
+      });
+      payments.filter(isActive).forEach((p) => {
+        ops.push({
+          type: "put",
+          collection: "payments",
+          record: { ...p, deletedAt },
+        });
+      });
+      credits.filter(isActive).forEach((c) => {
+        ops.push({
+          type: "put",
+          collection: "credits",
+          record: { ...c, deletedAt },
+        });
+      });
+      returns.filter(isActive).forEach((r) => {
+        ops.push({
+          type: "put",
+          collection: "returns",
+          record: { ...r, deletedAt },
+        });
+      });
+      quotations.filter(isActive).forEach((q) => {
+        ops.push({
+          type: "put",
+          collection: "quotations",
+          record: { ...q, deletedAt },
+        });
+      });
+      recurring.filter(isActive).forEach((r) => {
+        ops.push({
+          type: "put",
+          collection: "recurring",
+          record: { ...r, deletedAt },
+        });
+      });
+      purchases.filter(isActive).forEach((p) => {
+        ops.push({
+          type: "put",
+          collection: "purchases",
+          record: { ...p, deletedAt },
+        });
+      });
+      await commit(ops);
+    });
+  },
+
+  async getTrashedCustomers(): Promise<Customer[]> {
+    await ensureMigrated();
+    try {
+      const customers = await getRepository().list<Customer>("customers");
+      return customers
+        .filter((c) => !isActive(c))
+        .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+    } catch {
+      return [];
+    }
+  },
+
+  async restoreCustomer(id: string): Promise<void> {
+    await ensureMigrated();
+    const keys = [
+      "customers",
+      "transactions",
+      "payments",
+      "credits",
+      "returns",
+      "quotations",
+      "recurring",
+      "purchases",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const repository = getRepository();
+      const customer = await repository.get<Customer>("customers", id);
+      if (!customer || !customer.deletedAt) return;
+
+      const { deletedAt } = customer;
+      const [
+        transactions,
+        payments,
+        credits,
+        returns,
+        quotations,
+        recurring,
+        purchases,
+      ] = await Promise.all([
+        repository.list<Transaction>("transactions", { customerId: id }),
+        repository.list<Payment>("payments", { customerId: id }),
+        repository.list<CreditEntry>("credits", { customerId: id }),
+        repository.list<SalesReturn>("returns", { customerId: id }),
+        repository.list<Quotation>("quotations", { customerId: id }),
+        repository.list<RecurringTemplate>("recurring", { customerId: id }),
+        repository.list<PurchaseBill>("purchases", { customerId: id }),
+      ]);
+      const undelete = <T extends { deletedAt?: string }>(record: T): T => {
+        const { deletedAt: _, ...rest } = record;
+        return rest as T;
+      };
+
+      await commit([
+        { type: "put", collection: "customers", record: undelete(customer) },
+        await logChange({
+          entityType: "customer",
+          entityId: id,
+          action: "restore",
+          customerId: id,
+          changes: [
+            { field: "deletedAt", before: deletedAt, after: undefined },
+          ],
+        }),
+        ...transactions
+          .filter((t) => t.deletedAt === deletedAt)
+          .map(
+            (t): WriteOp => ({
+              type: "put",
+              collection: "transactions",
+              record: undelete(t),
+            }),
+          ),
+        ...payments
+          .filter((p) => p.deletedAt === deletedAt)
+          .map(
+            (p): WriteOp => ({
+              type: "put",
+              collection: "payments",
+              record: undelete(p),
+            }),
+          ),
+        ...credits
+          .filter((c) => c.deletedAt === deletedAt)
+          .map(
+            (c): WriteOp => ({
+              type: "put",
+              collection: "credits",
+              record: undelete(c),
+            }),
+          ),
+        ...returns
+          .filter((r) => r.deletedAt === deletedAt)
+          .map(
+            (r): WriteOp => ({
+              type: "put",
+              collection: "returns",
+              record: undelete(r),
+            }),
+          ),
+        ...quotations
+          .filter((q) => q.deletedAt === deletedAt)
+          .map(
+            (q): WriteOp => ({
+              type: "put",
+              collection: "quotations",
+              record: undelete(q),
+            }),
+          ),
+        ...recurring
+          .filter((r) => r.deletedAt === deletedAt)
+          .map(
+            (r): WriteOp => ({
+              type: "put",
+              collection: "recurring",
+              record: undelete(r),
+            }),
+          ),
+        ...purchases
+          .filter((p) => p.deletedAt === deletedAt)
+          .map(
+            (p): WriteOp => ({
+              type: "put",
+              collection: "purchases",
+              record: undelete(p),
+            }),
+          ),
+      ]);
+    });
+  },
+
+  /** Permanently removes a trashed customer and everything recorded against them. */
+  async purgeCustomer(id: string): Promise<void> {
+    await ensureMigrated();
+    const keys = [
+      "customers",
+      "transactions",
+      "payments",
+      "credits",
+      "returns",
+      "quotations",
+      "recurring",
+      "purchases",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const customer = await getRepository().get<Customer>("customers", id);
+      if (!customer || !customer.deletedAt) return;
+      await commit(await purgeOps([id]));
+    });
+  },
+
+  async getTrashRetentionDays(): Promise<number> {
+    await ensureMigrated();
+    try {
+      const days = await getRepository().getValue<number>(
+        VALUE_KEYS.TRASH_RETENTION_DAYS,
+      );
+      return typeof days === "number" && days > 0
+        ? days
+        : DEFAULT_TRASH_RETENTION_DAYS;
+    } catch {
+      return DEFAULT_TRASH_RETENTION_DAYS;
+    }
+  },
+
+  async setTrashRetentionDays(days: number): Promise<void> {
+    await ensureMigrated();
+    await commit([
+      { type: "setValue", key: VALUE_KEYS.TRASH_RETENTION_DAYS, value: days },
+    ]);
+  },
+
+  /** Permanently removes customers that have been in the trash longer than the retention period. */
+  async purgeExpiredTrash(): Promise<number> {
+    const retentionDays = await storage.getTrashRetentionDays();
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+    const keys = [
+      "customers",
+      "transactions",
+      "payments",
+      "credits",
+      "returns",
+      "quotations",
+      "recurring",
+      "purchases",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const customers = await getRepository().list<Customer>("customers");
+      const expired = customers
+        .filter((c) => c.deletedAt && c.deletedAt < cutoff)
+        .map((c) => c.id);
+      if (expired.length > 0) {
+        await commit(await purgeOps(expired));
+      }
+      return expired.length;
+    });
   },
 
   async getTransactions(): Promise<Transaction[]> {
+    await ensureMigrated();
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
-      return data ? JSON.parse(data) : [];
+      return (await getRepository().list<Transaction>("transactions")).filter(
+        isActive,
+      );
     } catch {
       return [];
     }
   },
 
   async saveTransactions(transactions: Transaction[]): Promise<void> {
-    await AsyncStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(transactions));
+    await ensureMigrated();
+    await commit(replaceCollectionOps("transactions", transactions));
   },
 
+  /**
+   * Adds a transaction. `amountPaid` is what was paid at the time of sale;
+   * anything above the total goes to the customer's credit. With
+   * `applyCredit`, the customer's existing credit then pays what it can.
+   * With `repeat`, the transaction also becomes the first cycle of a new
+   * recurring template that makes the same order on that schedule.
+   */
   async addTransaction(
-    transaction: Omit<Transaction, "id" | "createdAt">
+    transaction: Omit<Transaction, "id" | "createdAt">,
+    options: {
+      applyCredit?: boolean;
+      fromQuotationId?: string;
+      repeat?: RecurrenceSchedule;
+    } = {},
   ): Promise<Transaction> {
-    const transactions = await this.getTransactions();
-    const newTransaction: Transaction = {
-      ...transaction,
-      id: generateId(),
-      createdAt: new Date().toISOString(),
-    };
-    transactions.unshift(newTransaction);
-    await this.saveTransactions(transactions);
-    return newTransaction;
+    await ensureMigrated();
+    const keys = [
+      "transactions",
+      "payments",
+      "credits",
+      "products",
+      "stock",
+      "quotations",
+      "recurring",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const templateId = options.repeat ? generateId() : undefined;
+      const { ops, transaction: newTransaction } = await newTransactionOps(
+        { ...transaction, recurringTemplateId: templateId },
+        options,
+      );
+
+      // A transaction made from a quote accepts it, in the same commit.
+      const quotationId = options.fromQuotationId;
+      const quotation = quotationId
+        ? await getRepository().get<Quotation>("quotations", quotationId)
+        : null;
+      if (quotation && isActive(quotation)) {
+        const accepted = await quotationUpdateOps(quotation, {
+          status: "accepted",
+          transactionId: newTransaction.id,
+        });
+        ops.push(...accepted.ops);
+      }
+
+      if (options.repeat && templateId) {
+        const now = new Date().toISOString();
+        const schedule = { ...options.repeat, startDate: newTransaction.date };
+        const template: RecurringTemplate = {
+          ...schedule,
+          id: templateId,
+          customerId: newTransaction.customerId,
+          products: newTransaction.products,
+          totalAmount: newTransaction.totalAmount,
+          pricesIncludeTax: newTransaction.pricesIncludeTax,
+          discount: newTransaction.discount,
+          discountAmount: newTransaction.discountAmount,
+          notes: newTransaction.notes,
+          nextDate: nextCycleDate(schedule, newTransaction.date),
+          createdAt: now,
+          updatedAt: now,
+        };
+        ops.push(
+          { type: "put", collection: "recurring", record: template },
+          await logChange({
+            entityType: "recurring",
+            entityId: templateId,
+            action: "create",
+            customerId: template.customerId,
+            changes: diffFields(null, template),
+          }),
+        );
+      }
+
+      await commit(ops);
+      return newTransaction;
+    });
   },
 
+  /**
+   * Updates a transaction. `amountPaid` and `status` always follow from its
+   * payments, so updates to them are ignored. Returns null without saving
+   * when goods have been returned against the transaction, or when the new
+   * total is less than what has already been paid.
+   */
   async updateTransaction(
     id: string,
-    updates: Partial<Transaction>
+    updates: Partial<Transaction>,
   ): Promise<Transaction | null> {
-    const transactions = await this.getTransactions();
-    const index = transactions.findIndex((t) => t.id === id);
-    if (index === -1) return null;
+    await ensureMigrated();
+    const keys = [
+      "transactions",
+      "payments",
+      "returns",
+      "products",
+      "stock",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const repository = getRepository();
+      const existing = await repository.get<Transaction>("transactions", id);
+      if (!existing) return null;
+      const returns = await repository.list<SalesReturn>("returns", {
+        transactionId: id,
+      });
+      if (returns.some(isActive)) return null;
 
-    transactions[index] = { ...transactions[index], ...updates };
-    await this.saveTransactions(transactions);
-    return transactions[index];
+      const payments = await repository.list<Payment>("payments", {
+        transactionId: id,
+      });
+      const merged: Transaction = { ...existing, ...updates };
+      const amountPaid = sumPayments(payments, merged.totalAmount.currency);
+      if (compare(merged.totalAmount, amountPaid) < 0) return null;
+      const updated: Transaction = {
+        ...merged,
+        amountPaid,
+        status: deriveStatus(merged.totalAmount, amountPaid),
+      };
+      const changes = diffFields(existing, updated);
+      const ops: WriteOp[] = [
+        { type: "put", collection: "transactions", record: updated },
+      ];
+      if (changes.length > 0) {
+        ops.push(
+          await logChange({
+            entityType: "transaction",
+            entityId: id,
+            action: "update",
+            customerId: updated.customerId,
+            transactionId: id,
+            changes,
+          }),
+        );
+      }
+      ops.push(
+        ...(await stockOps(
+          updated,
+          existing.products,
+          updated.products,
+          "sale-edited",
+        )),
+      );
+      await commit(ops);
+      return updated;
+    });
+  },
+
+  /**
+   * Permanently deletes a transaction. If it has payments, `handling` decides
+   * what happens to them: "block" leaves everything in place and returns
+   * false, "cascade" deletes them too, and "credit" deletes them and keeps
+   * the money they add up to as credit for the customer. Credit that paid
+   * for the transaction goes back to the customer either way. A transaction
+   * with returns is never deleted.
+   */
+  async deleteTransaction(
+    id: string,
+    handling: AttachedPaymentHandling = "block",
+  ): Promise<boolean> {
+    await ensureMigrated();
+    const keys = [
+      "transactions",
+      "payments",
+      "credits",
+      "returns",
+      "products",
+      "stock",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const repository = getRepository();
+      const transaction = await repository.get<Transaction>("transactions", id);
+      if (!transaction) return false;
+      const returns = await repository.list<SalesReturn>("returns", {
+        transactionId: id,
+      });
+      if (returns.some(isActive)) return false;
+
+      const payments = await repository.list<Payment>("payments", {
+        transactionId: id,
+      });
+      if (payments.length > 0 && handling === "block") return false;
+
+      const removeOps = async (
+        collection: "transactions" | "payments",
+        record: Transaction | Payment,
+      ): Promise<WriteOp[]> => [
+        { type: "remove", collection, id: record.id },
+        await logChange({
+          entityType: collection === "transactions" ? "transaction" : "payment",
+          entityId: record.id,
+          action: "purge",
+          customerId: transaction.customerId,
+          transactionId: id,
+          changes: diffFields(record, null),
+        }),
+      ];
+
+      const ops: WriteOp[] = [
+        ...(await removeOps("transactions", transaction)),
+        ...(await stockOps(
+          transaction,
+          transaction.products,
+          [],
+          "sale-deleted",
+        )),
+      ];
+      for (const payment of payments) {
+        ops.push(...(await removeOps("payments", payment)));
+      }
+
+      const currency = transaction.amountPaid.currency;
+      const fromCredit = sumPayments(
+        payments.filter((p) => p.method === "credit"),
+        currency,
+      );
+      const paidDirectly = subtract(
+        sumPayments(payments, currency),
+        fromCredit,
+      );
+      if (isPositive(fromCredit)) {
+        const { ops: creditOps } = await newCreditOps({
+          customerId: transaction.customerId,
+          amount: fromCredit,
+          source: "returned",
+          transactionId: id,
+          notes: "Credit used on a deleted transaction",
+        });
+        ops.push(...creditOps);
+      }
+      if (handling === "credit" && isPositive(paidDirectly)) {
+        const { ops: creditOps } = await newCreditOps({
+          customerId: transaction.customerId,
+          amount: paidDirectly,
+          source: "deleted-transaction",
+          transactionId: id,
+          notes: "Payments kept from a deleted transaction",
+        });
+        ops.push(...creditOps);
+      }
+
+      await commit(ops);
+      return true;
+    });
   },
 
   async getPayments(): Promise<Payment[]> {
+    await ensureMigrated();
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.PAYMENTS);
-      return data ? JSON.parse(data) : [];
+      return (await getRepository().list<Payment>("payments")).filter(isActive);
     } catch {
       return [];
     }
   },
 
   async savePayments(payments: Payment[]): Promise<void> {
-    await AsyncStorage.setItem(STORAGE_KEYS.PAYMENTS, JSON.stringify(payments));
+    await ensureMigrated();
+    await commit(replaceCollectionOps("payments", payments));
   },
 
-  async addPayment(payment: Omit<Payment, "id">): Promise<Payment> {
-    const payments = await this.getPayments();
-    const newPayment: Payment = {
-      ...payment,
-      id: generateId(),
-    };
-    payments.unshift(newPayment);
-    await this.savePayments(payments);
-
-    const transactions = await this.getTransactions();
-    const txIndex = transactions.findIndex((t) => t.id === payment.transactionId);
-    if (txIndex !== -1) {
-      const tx = transactions[txIndex];
-      const newAmountPaid = tx.amountPaid + payment.amount;
-      transactions[txIndex] = {
-        ...tx,
-        amountPaid: newAmountPaid,
-        status:
-          newAmountPaid >= tx.totalAmount
-            ? "paid"
-            : newAmountPaid > 0
-              ? "partial"
-              : "pending",
+  /**
+   * Records a payment on one transaction. Anything above what the
+   * transaction still owes goes to the customer's credit. Returns null when
+   * the whole amount went to credit.
+   */
+  async addPayment(payment: Omit<Payment, "id">): Promise<Payment | null> {
+    await ensureMigrated();
+    return runExclusive(
+      ["payments", "transactions", "credits", "changes"],
+      async () => {
+        const repository = getRepository();
+        const { currency } = payment.amount;
+        const tx = await repository.get<Transaction>(
+          "transactions",
+          payment.transactionId,
+        );
+        const existing = await repository.list<Payment>("payments", {
+          transactionId: payment.transactionId,
+        });
+        const owed = tx
+          ? max(
+              subtract(tx.totalAmount, sumPayments(existing, currency)),
+              zero(currency),
+            )
+          : payment.amount;
+        const applied = min(payment.amount, owed);
+        const overpaid = subtract(payment.amount, applied);
+
+        const ops: WriteOp[] = [];
+        let newPayment: Payment | null = null;
+        if (isPositive(applied)) {
+          newPayment = { ...payment, id: generateId(), amount: applied };
+          ops.push(
+            ...(await newPaymentOps(newPayment)),
+            ...(await recomputeTransactionOps(payment.transactionId, [
+              ...existing,
+              newPayment,
+            ])),
+          );
+        }
+        if (isPositive(overpaid)) {
+          const { ops: creditOps } = await newCreditOps({
+            customerId: payment.customerId,
+            amount: overpaid,
+            source: "overpayment",
+            transactionId: payment.transactionId,
+          });
+          ops.push(...creditOps);
+        }
+
+        if (ops.length > 0) await commit(ops);
+        return newPayment;
+      },
+    );
+  },
+
+  /**
+   * Pays as much of a transaction as the customer's credit allows. Returns
+   * the payment made from credit, or null if there was nothing to apply.
+   */
+  async applyCredit(transactionId: string): Promise<Payment | null> {
+    await ensureMigrated();
+    return runExclusive(
+      ["payments", "transactions", "credits", "changes"],
+      async () => {
+        const repository = getRepository();
+        const tx = await repository.get<Transaction>(
+          "transactions",
+          transactionId,
+        );
+        if (!tx || !isActive(tx)) return null;
+
+        const existing = await repository.list<Payment>("payments", {
+          transactionId,
+        });
+        const owed = subtract(
+          tx.totalAmount,
+          sumPayments(existing, tx.totalAmount.currency),
+        );
+        const applied = await applyCreditOps(tx, owed);
+        if (!applied) return null;
+
+        await commit([
+          ...applied.ops,
+          ...(await recomputeTransactionOps(transactionId, [
+            ...existing,
+            applied.payment,
+          ])),
+        ]);
+        return applied.payment;
+      },
+    );
+  },
+
+  /**
+   * Records a lump sum from a customer as one payment per allocation, all
+   * sharing a `receiptId`. Allocations to other customers' transactions are
+   * skipped. `advance` is the part not allocated to anything, which goes to
+   * the customer's credit along with any allocation above what its
+   * transaction still owes. Returns the payments that were created.
+   */
+  async receivePayment(
+    receipt: Pick<Payment, "customerId" | "method" | "date" | "notes">,
+    allocations: Allocation[],
+    advance?: Money,
+  ): Promise<Payment[]> {
+    await ensureMigrated();
+    return runExclusive(
+      ["payments", "transactions", "credits", "changes"],
+      async () => {
+        const repository = getRepository();
+        const receiptId = generateId();
+        const created: Payment[] = [];
+        const unapplied: Money[] = advance ? [advance] : [];
+        const ops: WriteOp[] = [];
+
+        for (const allocation of allocations) {
+          if (!isPositive(allocation.amount)) continue;
+          const tx = await repository.get<Transaction>(
+            "transactions",
+            allocation.transactionId,
+          );
+          if (!tx || tx.customerId !== receipt.customerId || !isActive(tx))
+            continue;
+
+          const { currency } = allocation.amount;
+          const existing = [
+            ...(await repository.list<Payment>("payments", {
+              transactionId: tx.id,
+            })),
+            // Not committed yet, so a second allocation to the same transaction must see it.
+            ...created.filter((p) => p.transactionId === tx.id),
+          ];
+          const owed = max(
+            subtract(tx.totalAmount, sumPayments(existing, currency)),
+            zero(currency),
+          );
+          const applied = min(allocation.amount, owed);
+          unapplied.push(subtract(allocation.amount, applied));
+          if (!isPositive(applied)) continue;
+
+          const payment: Payment = {
+            ...receipt,
+            id: generateId(),
+            transactionId: tx.id,
+            amount: applied,
+            receiptId,
+          };
+          ops.push(
+            ...(await newPaymentOps(payment)),
+            ...(await recomputeTransactionOps(tx.id, [...existing, payment])),
+          );
+          created.push(payment);
+        }
+
+        const credit =
+          unapplied.length > 0 ? sum(unapplied, unapplied[0].currency) : null;
+        if (credit && isPositive(credit)) {
+          const { ops: creditOps } = await newCreditOps({
+            customerId: receipt.customerId,
+            amount: credit,
+            source: created.length > 0 ? "overpayment" : "advance",
+            receiptId,
+            notes: receipt.notes,
+          });
+          ops.push(...creditOps);
+        }
+
+        if (ops.length > 0) await commit(ops);
+        return created;
+      },
+    );
+  },
+
+  /**
+   * Corrects a payment's amount, method, date or notes. Returns null if the
+   * payment does not exist or has been voided or reversed.
+   */
+  async updatePayment(
+    id: string,
+    updates: Partial<Pick<Payment, "amount" | "method" | "date" | "notes">>,
+  ): Promise<Payment | null> {
+    await ensureMigrated();
+    return runExclusive(["payments", "transactions", "changes"], async () => {
+      const existing = await getRepository().get<Payment>("payments", id);
+      if (!existing || !isEditablePayment(existing)) return null;
+
+      const updated: Payment = { ...existing, ...updates };
+      if (diffFields(existing, updated).length === 0) return existing;
+      await commit(await paymentChangeOps(existing, updated, "update"));
+      return updated;
+    });
+  },
+
+  /**
+   * Marks a payment entered by mistake as void. The record stays in the
+   * payment history but no longer counts towards the amount paid. A payment
+   * made from credit hands that credit back.
+   */
+  async voidPayment(id: string): Promise<void> {
+    await ensureMigrated();
+    return runExclusive(
+      ["payments", "transactions", "credits", "changes"],
+      async () => {
+        const existing = await getRepository().get<Payment>("payments", id);
+        if (!existing || !isOpenPayment(existing)) return;
+
+        const voided: Payment = {
+          ...existing,
+          voidedAt: new Date().toISOString(),
+        };
+        const ops = await paymentChangeOps(existing, voided, "void");
+        if (existing.method === "credit") {
+          const { ops: creditOps } = await newCreditOps({
+            customerId: existing.customerId,
+            amount: existing.amount,
+            source: "returned",
+            transactionId: existing.transactionId,
+            notes: "Credit returned from a voided payment",
+          });
+          ops.push(...creditOps);
+        }
+        await commit(ops);
+      },
+    );
+  },
+
+  /**
+   * Cancels a payment that did happen but was refunded or bounced, by adding
+   * an entry for the opposite amount. Both records stay in the history.
+   */
+  async reversePayment(id: string): Promise<Payment | null> {
+    await ensureMigrated();
+    return runExclusive(["payments", "transactions", "changes"], async () => {
+      const existing = await getRepository().get<Payment>("payments", id);
+      if (!existing || !isEditablePayment(existing)) return null;
+
+      const reversal: Payment = {
+        id: generateId(),
+        transactionId: existing.transactionId,
+        customerId: existing.customerId,
+        amount: money(-existing.amount.minor, existing.amount.currency),
+        date: new Date().toISOString(),
+        method: existing.method,
+        notes: "Reversal",
+        reversalOf: existing.id,
       };
-      await this.saveTransactions(transactions);
+      const reversed: Payment = { ...existing, reversedBy: reversal.id };
+      await commit(
+        await paymentChangeOps(existing, reversed, "reverse", [reversal]),
+      );
+      return reversal;
+    });
+  },
+
+  async getCredits(): Promise<CreditEntry[]> {
+    await ensureMigrated();
+    try {
+      return (await getRepository().list<CreditEntry>("credits")).filter(
+        isActive,
+      );
+    } catch {
+      return [];
     }
+  },
 
-    return newPayment;
+  async getReturns(): Promise<SalesReturn[]> {
+    await ensureMigrated();
+    try {
+      return (await getRepository().list<SalesReturn>("returns")).filter(
+        isActive,
+      );
+    } catch {
+      return [];
+    }
+  },
+
+  /**
+   * Records goods brought back from a transaction. `quantities` is how many
+   * of each line came back, by line index. The return's value goes to the
+   * customer's credit and pays off what the transaction still owes; returned
+   * stock goes back on hand. Returns null when nothing is left to return.
+   */
+  async addReturn(
+    transactionId: string,
+    quantities: number[],
+    reason?: string,
+  ): Promise<SalesReturn | null> {
+    await ensureMigrated();
+    const keys = [
+      "transactions",
+      "payments",
+      "credits",
+      "returns",
+      "products",
+      "stock",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const repository = getRepository();
+      const tx = await repository.get<Transaction>(
+        "transactions",
+        transactionId,
+      );
+      if (!tx || !isActive(tx)) return null;
+
+      const returns = await repository.list<SalesReturn>("returns", {
+        transactionId,
+      });
+      const items = buildReturnItems(tx, quantities, returns);
+      if (items.length === 0) return null;
+
+      const currency = tx.totalAmount.currency;
+      const amount = sum(
+        items.map((i) => i.total),
+        currency,
+      );
+      const payments = await repository.list<Payment>("payments", {
+        transactionId,
+      });
+      const owed = max(
+        subtract(tx.totalAmount, sumPayments(payments, currency)),
+        zero(currency),
+      );
+      const appliedAmount = min(amount, owed);
+      const salesReturn: SalesReturn = {
+        id: generateId(),
+        transactionId,
+        customerId: tx.customerId,
+        date: new Date().toISOString(),
+        items,
+        amount,
+        appliedAmount,
+        reason,
+        createdAt: new Date().toISOString(),
+      };
+
+      const { ops: creditOps } = await newCreditOps({
+        customerId: tx.customerId,
+        amount,
+        source: "return",
+        transactionId,
+        returnId: salesReturn.id,
+        notes: reason,
+      });
+      const ops: WriteOp[] = [
+        { type: "put", collection: "returns", record: salesReturn },
+        await logChange({
+          entityType: "return",
+          entityId: salesReturn.id,
+          action: "create",
+          customerId: tx.customerId,
+          transactionId,
+          changes: diffFields(null, salesReturn),
+        }),
+        ...creditOps,
+        ...(await stockOps(tx, items, [], "return")),
+      ];
+
+      // The credit is not committed yet, so it is applied here rather than by applyCreditOps.
+      if (isPositive(appliedAmount)) {
+        const { ops: appliedOps, credit } = await newCreditOps({
+          customerId: tx.customerId,
+          amount: money(-appliedAmount.minor, currency),
+          source: "applied",
+          transactionId,
+          returnId: salesReturn.id,
+        });
+        const payment: Payment = {
+          id: generateId(),
+          transactionId,
+          customerId: tx.customerId,
+          amount: appliedAmount,
+          date: credit.date,
+          method: "credit",
+          notes: "Settled by a return",
+          creditId: credit.id,
+        };
+        ops.push(
+          ...appliedOps,
+          ...(await newPaymentOps(payment)),
+          ...(await recomputeTransactionOps(transactionId, [
+            ...payments,
+            payment,
+          ])),
+        );
+      }
+
+      await commit(ops);
+      return salesReturn;
+    });
+  },
+
+  async getQuotations(): Promise<Quotation[]> {
+    await ensureMigrated();
+    try {
+      return (await getRepository().list<Quotation>("quotations")).filter(
+        isActive,
+      );
+    } catch {
+      return [];
+    }
+  },
+
+  async addQuotation(
+    quotation: Omit<Quotation, "id" | "createdAt" | "updatedAt">,
+  ): Promise<Quotation> {
+    await ensureMigrated();
+    return runExclusive(["quotations", "changes"], async () => {
+      const now = new Date().toISOString();
+      const newQuotation: Quotation = {
+        ...quotation,
+        id: generateId(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await commit([
+        { type: "put", collection: "quotations", record: newQuotation },
+        await logChange({
+          entityType: "quotation",
+          entityId: newQuotation.id,
+          action: "create",
+          customerId: newQuotation.customerId,
+          changes: diffFields(null, newQuotation),
+        }),
+      ]);
+      return newQuotation;
+    });
+  },
+
+  async updateQuotation(
+    id: string,
+    updates: Partial<Quotation>,
+  ): Promise<Quotation | null> {
+    await ensureMigrated();
+    return runExclusive(["quotations", "changes"], async () => {
+      const existing = await getRepository().get<Quotation>("quotations", id);
+      if (!existing) return null;
+      const { ops, quotation } = await quotationUpdateOps(existing, updates);
+      await commit(ops);
+      return quotation;
+    });
+  },
+
+  /** Permanently deletes a quotation. The transaction it was converted into stays. */
+  async deleteQuotation(id: string): Promise<void> {
+    await ensureMigrated();
+    return runExclusive(["quotations", "changes"], async () => {
+      const quotation = await getRepository().get<Quotation>("quotations", id);
+      if (!quotation) return;
+      await commit([
+        { type: "remove", collection: "quotations", id },
+        await logChange({
+          entityType: "quotation",
+          entityId: id,
+          action: "purge",
+          customerId: quotation.customerId,
+          changes: diffFields(quotation, null),
+        }),
+      ]);
+    });
+  },
+
+  async getRecurringTemplates(): Promise<RecurringTemplate[]> {
+    await ensureMigrated();
+    try {
+      return (
+        await getRepository().list<RecurringTemplate>("recurring")
+      ).filter(isActive);
+    } catch {
+      return [];
+    }
+  },
+
+  /**
+   * Makes every due cycle of the templates set to create automatically,
+   * catching up on cycles missed while the app was closed. Returns how many
+   * transactions were made.
+   */
+  async runDueRecurrences(now: Date = new Date()): Promise<number> {
+    await ensureMigrated();
+    const keys = [
+      "transactions",
+      "payments",
+      "credits",
+      "products",
+      "stock",
+      "recurring",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const templates =
+        await getRepository().list<RecurringTemplate>("recurring");
+      let created = 0;
+      for (let template of templates.filter(
+        (t) => isActive(t) && t.mode === "auto",
+      )) {
+        // One commit per cycle, so credit applied to one is seen by the next.
+        while (isCycleDue(template, now)) {
+          const { ops } = await recurringCycleOps(template);
+          await commit(ops);
+          template = {
+            ...template,
+            nextDate: nextCycleDate(template, template.nextDate),
+          };
+          created += 1;
+        }
+      }
+      return created;
+    });
+  },
+
+  /** Makes a template's due cycle into a transaction now. Returns null if none is due. */
+  async createRecurringTransaction(
+    templateId: string,
+  ): Promise<Transaction | null> {
+    await ensureMigrated();
+    const keys = [
+      "transactions",
+      "payments",
+      "credits",
+      "products",
+      "stock",
+      "recurring",
+      "changes",
+    ];
+    return runExclusive(keys, async () => {
+      const template = await getRepository().get<RecurringTemplate>(
+        "recurring",
+        templateId,
+      );
+      if (!template || !isActive(template) || !isCycleDue(template))
+        return null;
+      const { ops, transaction } = await recurringCycleOps(template);
+      await commit(ops);
+      return transaction;
+    });
+  },
+
+  /** Moves a template on to its following cycle without making a transaction. */
+  async skipRecurringCycle(templateId: string): Promise<void> {
+    await ensureMigrated();
+    return runExclusive(["recurring", "changes"], async () => {
+      const template = await getRepository().get<RecurringTemplate>(
+        "recurring",
+        templateId,
+      );
+      if (!template) return;
+      const skipped: RecurringTemplate = {
+        ...template,
+        nextDate: nextCycleDate(template, template.nextDate),
+        updatedAt: new Date().toISOString(),
+      };
+      await commit([
+        { type: "put", collection: "recurring", record: skipped },
+        await logChange({
+          entityType: "recurring",
+          entityId: templateId,
+          action: "update",
+          customerId: template.customerId,
+          changes: diffFields(template, skipped),
+        }),
+      ]);
+    });
+  },
+
+  /**
+   * Pauses or resumes a template. Cycles that fell while it was paused are
+   * skipped on resume rather than made all at once.
+   */
+  async setRecurringPaused(templateId: string, paused: boolean): Promise<void> {
+    await ensureMigrated();
+    return runExclusive(["recurring", "changes"], async () => {
+      const template = await getRepository().get<RecurringTemplate>(
+        "recurring",
+        templateId,
+      );
+      if (!template) return;
+      const updated: RecurringTemplate = {
+        ...template,
+        paused,
+        nextDate: paused ? template.nextDate : firstCycleFrom(template),
+        updatedAt: new Date().toISOString(),
+      };
+      const ops: WriteOp[] = [
+        { type: "put", collection: "recurring", record: updated },
+      ];
+      const changes = diffFields(template, updated);
+      if (changes.length > 0) {
+        ops.push(
+          await logChange({
+            entityType: "recurring",
+            entityId: templateId,
+            action: "update",
+            customerId: template.customerId,
+            changes,
+          }),
+        );
+      }
+      await commit(ops);
+    });
+  },
+
+  /** Stops a template for good. Transactions already made from it are kept. */
+  async deleteRecurringTemplate(templateId: string): Promise<void> {
+    await ensureMigrated();
+    return runExclusive(["recurring", "changes"], async () => {
+      const template = await getRepository().get<RecurringTemplate>(
+        "recurring",
+        templateId,
+      );
+      if (!template) return;
+      await commit([
+        { type: "remove", collection: "recurring", id: templateId },
+        await logChange({
+          entityType: "recurring",
+          entityId: templateId,
+          action: "purge",
+          customerId: template.customerId,
+          changes: diffFields(template, null),
+        }),
+      ]);
+    });
+  },
+
+  async getPurchases(): Promise<PurchaseBill[]> {
+    await ensureMigrated();
+    try {
+      return (await getRepository().list<PurchaseBill>("purchases")).filter(
+        isActive,
+      );
+    } catch {
+      return [];
+    }
+  },
+
+  /**
+   * Adds a bill from a supplier. `paidNow` is recorded as the bill's first
+   * payment, up to its total. The due date follows the supplier's terms
+   * unless one is given.
+   */
+  async addPurchase(
+    purchase: Omit<
+      PurchaseBill,
+      "id" | "amountPaid" | "status" | "payments" | "createdAt" | "updatedAt"
+    >,
+    paidNow?: Money,
+  ): Promise<PurchaseBill> {
+    await ensureMigrated();
+    return runExclusive(["purchases", "changes"], async () => {
+      const supplier = await getRepository().get<Customer>(
+        "customers",
+        purchase.customerId,
+      );
+      const now = new Date().toISOString();
+      const upfront = paidNow ? min(paidNow, purchase.totalAmount) : undefined;
+      const payments: SupplierPayment[] =
+        upfront && isPositive(upfront)
+          ? [
+              {
+                id: generateId(),
+                amount: upfront,
+                date: purchase.date,
+                method: "other",
+                notes: "Paid at time of purchase",
+              },
+            ]
+          : [];
+      const newPurchase = withSupplierPayments(
+        {
+          ...purchase,
+          id: generateId(),
+          dueDate:
+            purchase.dueDate ||
+            dueDateFor(purchase.date, customerTerms(supplier)),
+          amountPaid: zero(purchase.totalAmount.currency),
+          status: "pending",
+          payments: [],
+          createdAt: now,
+          updatedAt: now,
+        },
+        payments,
+      );
+      await commit([
+        { type: "put", collection: "purchases", record: newPurchase },
+        await logChange({
+          entityType: "purchase",
+          entityId: newPurchase.id,
+          action: "create",
+          customerId: newPurchase.customerId,
+          changes: diffFields(null, newPurchase),
+        }),
+      ]);
+      return newPurchase;
+    });
+  },
+
+  /**
+   * Updates a purchase bill. Returns null if the bill does not exist or the
+   * new total is less than what has already been paid on it.
+   */
+  async updatePurchase(
+    id: string,
+    updates: Partial<
+      Pick<
+        PurchaseBill,
+        "billNumber" | "date" | "dueDate" | "products" | "totalAmount" | "notes"
+      >
+    >,
+  ): Promise<PurchaseBill | null> {
+    await ensureMigrated();
+    return runExclusive(["purchases", "changes"], async () => {
+      const existing = await getRepository().get<PurchaseBill>("purchases", id);
+      if (!existing || !isActive(existing)) return null;
+      const updated = withSupplierPayments(
+        { ...existing, ...updates, updatedAt: new Date().toISOString() },
+        existing.payments,
+      );
+      if (isPositive(subtract(updated.amountPaid, updated.totalAmount)))
+        return null;
+
+      const changes = diffFields(existing, updated);
+      const ops: WriteOp[] = [
+        { type: "put", collection: "purchases", record: updated },
+      ];
+      if (changes.length > 0) {
+        ops.push(
+          await logChange({
+            entityType: "purchase",
+            entityId: id,
+            action: "update",
+            customerId: existing.customerId,
+            changes,
+          }),
+        );
+      }
+      await commit(ops);
+      return updated;
+    });
+  },
+
+  /** Permanently deletes a purchase bill along with the payments made on it. */
+  async deletePurchase(id: string): Promise<void> {
+    await ensureMigrated();
+    return runExclusive(["purchases", "changes"], async () => {
+      const purchase = await getRepository().get<PurchaseBill>("purchases", id);
+      if (!purchase) return;
+      await commit([
+        { type: "remove", collection: "purchases", id },
+        await logChange({
+          entityType: "purchase",
+          entityId: id,
+          action: "purge",
+          customerId: purchase.customerId,
+          changes: diffFields(purchase, null),
+        }),
+      ]);
+    });
+  },
+
+  /**
+   * Records money paid to a supplier. It goes to `purchaseId` when given,
+   * otherwise over the supplier's open bills oldest first. Returns the bills
+   * that were paid, or null without recording anything when the amount is
+   * more than those bills still owe.
+   */
+  async paySupplier(
+    supplierId: string,
+    payment: Omit<SupplierPayment, "id" | "receiptId">,
+    purchaseId?: string,
+  ): Promise<PurchaseBill[] | null> {
+    await ensureMigrated();
+    return runExclusive(["purchases", "changes"], async () => {
+      const bills = (
+        await getRepository().list<PurchaseBill>("purchases", {
+          customerId: supplierId,
+        })
+      ).filter(
+        (b) => isActive(b) && (purchaseId === undefined || b.id === purchaseId),
+      );
+      const owed = sum(
+        openTransactions(bills).map(pendingOf),
+        payment.amount.currency,
+      );
+      if (compare(payment.amount, owed) > 0) return null;
+
+      const receiptId = generateId();
+      const paid: PurchaseBill[] = [];
+      const ops: WriteOp[] = [];
+      let remaining = payment.amount;
+      for (const bill of openTransactions(bills)) {
+        if (!isPositive(remaining)) break;
+        const share = min(remaining, pendingOf(bill));
+        const updated = withSupplierPayments(
+          { ...bill, updatedAt: new Date().toISOString() },
+          [
+            ...bill.payments,
+            { ...payment, id: generateId(), amount: share, receiptId },
+          ],
+        );
+        ops.push(
+          { type: "put", collection: "purchases", record: updated },
+          await logChange({
+            entityType: "purchase",
+            entityId: bill.id,
+            action: "payment",
+            customerId: supplierId,
+            changes: diffFields(bill, updated),
+          }),
+        );
+        paid.push(updated);
+        remaining = subtract(remaining, share);
+      }
+
+      if (ops.length > 0) await commit(ops);
+      return paid;
+    });
+  },
+
+  async getExpenses(): Promise<Expense[]> {
+    await ensureMigrated();
+    try {
+      return await getRepository().list<Expense>("expenses");
+    } catch {
+      return [];
+    }
+  },
+
+  async addExpense(
+    expense: Omit<Expense, "id" | "createdAt" | "updatedAt">,
+  ): Promise<Expense> {
+    await ensureMigrated();
+    return runExclusive(["expenses", "changes"], async () => {
+      const now = new Date().toISOString();
+      const newExpense: Expense = {
+        ...expense,
+        id: generateId(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await commit([
+        { type: "put", collection: "expenses", record: newExpense },
+        await logChange({
+          entityType: "expense",
+          entityId: newExpense.id,
+          action: "create",
+          changes: diffFields(null, newExpense),
+        }),
+      ]);
+      return newExpense;
+    });
+  },
+
+  async updateExpense(
+    id: string,
+    updates: Partial<Omit<Expense, "id" | "createdAt" | "updatedAt">>,
+  ): Promise<Expense | null> {
+    await ensureMigrated();
+    return runExclusive(["expenses", "changes"], async () => {
+      const existing = await getRepository().get<Expense>("expenses", id);
+      if (!existing) return null;
+      const updated: Expense = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      const ops: WriteOp[] = [
+        { type: "put", collection: "expenses", record: updated },
+      ];
+      const changes = diffFields(existing, updated);
+      if (changes.length > 0) {
+        ops.push(
+          await logChange({
+            entityType: "expense",
+            entityId: id,
+            action: "update",
+            changes,
+          }),
+        );
+      }
+      await commit(ops);
+      return updated;
+    });
+  },
+
+  async deleteExpense(id: string): Promise<void> {
+    await ensureMigrated();
+    return runExclusive(["expenses", "changes"], async () => {
+      const existing = await getRepository().get<Expense>("expenses", id);
+      if (!existing) return;
+      await commit([
+        { type: "remove", collection: "expenses", id },
+        await logChange({
+          entityType: "expense",
+          entityId: id,
+          action: "purge",
+          changes: diffFields(existing, null),
+        }),
+      ]);
+    });
+  },
+
+  async getProducts(): Promise<Product[]> {
+    await ensureMigrated();
+    try {
+      return await getRepository().list<Product>("products");
+    } catch {
+      return [];
+    }
+  },
+
+  async addProduct(
+    product: Omit<Product, "id" | "createdAt" | "updatedAt">,
+  ): Promise<Product> {
+    await ensureMigrated();
+    return runExclusive(["products", "changes"], async () => {
+      const now = new Date().toISOString();
+      const newProduct: Product = {
+        ...product,
+        id: generateId(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await commit([
+        { type: "put", collection: "products", record: newProduct },
+        await logChange({
+          entityType: "product",
+          entityId: newProduct.id,
+          action: "create",
+          changes: diffFields(null, newProduct),
+        }),
+      ]);
+      return newProduct;
+    });
+  },
+
+  /**
+   * Updates a catalog product. Transactions keep the name and price they were
+   * sold at; only new lines pick up the change.
+   */
+  async updateProduct(
+    id: string,
+    updates: Partial<Product>,
+  ): Promise<Product | null> {
+    await ensureMigrated();
+    return runExclusive(["products", "changes"], async () => {
+      const existing = await getRepository().get<Product>("products", id);
+      if (!existing) return null;
+      const updated: Product = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      const ops: WriteOp[] = [
+        { type: "put", collection: "products", record: updated },
+      ];
+      const changes = diffFields(existing, updated);
+      if (changes.length > 0) {
+        ops.push(
+          await logChange({
+            entityType: "product",
+            entityId: id,
+            action: "update",
+            changes,
+          }),
+        );
+      }
+      await commit(ops);
+      return updated;
+    });
+  },
+
+  /**
+   * Turns clusters of free-text product names into catalog products and
+   * links every matching transaction line to them. Clusters that already
+   * have a `productId` only get their lines linked. Returns how many lines
+   * were linked.
+   */
+  async createProductsFromClusters(
+    clusters: ProductCluster[],
+  ): Promise<number> {
+    await ensureMigrated();
+    return runExclusive(["products", "transactions", "changes"], async () => {
+      const repository = getRepository();
+      const now = new Date().toISOString();
+      const ops: WriteOp[] = [];
+      const productIds = new Map<string, string>();
+
+      for (const cluster of clusters) {
+        if (cluster.productId) {
+          productIds.set(cluster.key, cluster.productId);
+          continue;
+        }
+        const product: Product = {
+          id: generateId(),
+          name: cluster.name,
+          defaultPrice: cluster.lastPrice,
+          active: true,
+          createdAt: now,
+          updatedAt: now,
+        };
+        productIds.set(cluster.key, product.id);
+        ops.push(
+          { type: "put", collection: "products", record: product },
+          await logChange({
+            entityType: "product",
+            entityId: product.id,
+            action: "create",
+            changes: diffFields(null, product),
+          }),
+        );
+      }
+
+      let linked = 0;
+      const transactions = await repository.list<Transaction>("transactions");
+      for (const tx of transactions) {
+        let changed = false;
+        const products = tx.products.map((item) => {
+          const productId = item.productId
+            ? undefined
+            : productIds.get(normalizeProductName(item.name));
+          if (!productId) return item;
+          changed = true;
+          linked += 1;
+          return { ...item, productId };
+        });
+        if (!changed) continue;
+        const updated: Transaction = { ...tx, products };
+        ops.push(
+          { type: "put", collection: "transactions", record: updated },
+          await logChange({
+            entityType: "transaction",
+            entityId: tx.id,
+            action: "update",
+            customerId: tx.customerId,
+            transactionId: tx.id,
+            changes: diffFields(tx, updated),
+          }),
+        );
+      }
+
+      await commit(ops);
+      return linked;
+    });
+  },
+
+  async getStockMovements(): Promise<StockMovement[]> {
+    await ensureMigrated();
+    try {
+      return await getRepository().list<StockMovement>("stock");
+    } catch {
+      return [];
+    }
+  },
+
+  /** Records stock received or a manual correction. `quantity` is signed. */
+  async adjustStock(
+    productId: string,
+    quantity: number,
+    reason: "received" | "return" | "adjustment",
+    notes?: string,
+  ): Promise<StockMovement> {
+    await ensureMigrated();
+    return runExclusive(["stock", "changes"], async () => {
+      const movement: StockMovement = {
+        id: generateId(),
+        productId,
+        quantity,
+        date: new Date().toISOString(),
+        reason,
+        notes,
+      };
+      await commit([
+        { type: "put", collection: "stock", record: movement },
+        await logChange({
+          entityType: "stock",
+          entityId: movement.id,
+          action: "create",
+          changes: diffFields(null, movement),
+        }),
+      ]);
+      return movement;
+    });
   },
 
   async getProfile(): Promise<UserProfile> {
+    await ensureMigrated();
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.PROFILE);
-      return data ? JSON.parse(data) : { name: "", businessName: "", currency: "INR" };
+      const profile = await getRepository().getValue<UserProfile>(
+        VALUE_KEYS.PROFILE,
+      );
+      return profile || { ...DEFAULT_PROFILE };
     } catch {
-      return { name: "", businessName: "", currency: "INR" };
+      return { ...DEFAULT_PROFILE };
     }
   },
 
   async saveProfile(profile: UserProfile): Promise<void> {
-    await AsyncStorage.setItem(STORAGE_KEYS.PROFILE, JSON.stringify(profile));
+    await ensureMigrated();
+    return runExclusive(["profile"], async () => {
+      await commit([
+        { type: "setValue", key: VALUE_KEYS.PROFILE, value: profile },
+      ]);
+    });
+  },
+
+  /**
+   * Switches the ledger currency. Amounts keep their face value and are
+   * relabelled, matching how the currency setting has always behaved; minor
+   * units are rescaled when the two currencies use a different number of
+   * decimal places.
+   */
+  async setCurrency(currency: string): Promise<void> {
+    await ensureMigrated();
+    const keys = [
+      "transactions",
+      "payments",
+      "credits",
+      "products",
+      "returns",
+      "quotations",
+      "recurring",
+      "purchases",
+      "expenses",
+      "profile",
+    ];
+    return runExclusive(keys, async () => {
+      const repository = getRepository();
+      const [
+        profile,
+        transactions,
+        payments,
+        credits,
+        products,
+        returns,
+        quotations,
+        recurring,
+        purchases,
+        expenses,
+      ] = await Promise.all([
+        repository.getValue<UserProfile>(VALUE_KEYS.PROFILE),
+        repository.list<Transaction>("transactions"),
+        repository.list<Payment>("payments"),
+        repository.list<CreditEntry>("credits"),
+        repository.list<Product>("products"),
+        repository.list<SalesReturn>("returns"),
+        repository.list<Quotation>("quotations"),
+        repository.list<RecurringTemplate>("recurring"),
+        repository.list<PurchaseBill>("purchases"),
+        repository.list<Expense>("expenses"),
+      ]);
+      const relabel = (value: Money): Money =>
+        fromMajor(toMajor(value), currency);
+      const relabelOptional = (value?: Money) =>
+        value ? relabel(value) : undefined;
+      const relabelDiscount = (discount?: Discount): Discount | undefined =>
+        discount?.type === "flat"
+          ? { ...discount, amount: relabel(discount.amount) }
+          : discount;
+      const relabelLine = <T extends ProductItem>(p: T): T => ({
+        ...p,
+        unitPrice: relabel(p.unitPrice),
+        costPrice: relabelOptional(p.costPrice),
+        total: relabel(p.total),
+        taxableValue: relabelOptional(p.taxableValue),
+        cgst: relabelOptional(p.cgst),
+        sgst: relabelOptional(p.sgst),
+        igst: relabelOptional(p.igst),
+        discount: relabelDiscount(p.discount),
+        discountAmount: relabelOptional(p.discountAmount),
+        billDiscountShare: relabelOptional(p.billDiscountShare),
+      });
+
+      await commit([
+        ...transactions.map((t) =>
+          putOp("transactions", {
+            ...t,
+            products: t.products.map(relabelLine),
+            discount: relabelDiscount(t.discount),
+            discountAmount: relabelOptional(t.discountAmount),
+            totalAmount: relabel(t.totalAmount),
+            amountPaid: relabel(t.amountPaid),
+          }),
+        ),
+        ...payments.map((p) =>
+          putOp("payments", { ...p, amount: relabel(p.amount) }),
+        ),
+        ...credits.map((c) =>
+          putOp("credits", { ...c, amount: relabel(c.amount) }),
+        ),
+        ...products.map((p) =>
+          putOp("products", {
+            ...p,
+            defaultPrice: relabel(p.defaultPrice),
+            costPrice: relabelOptional(p.costPrice),
+          }),
+        ),
+        ...returns.map((r) =>
+          putOp("returns", {
+            ...r,
+            items: r.items.map(relabelLine),
+            amount: relabel(r.amount),
+            appliedAmount: relabel(r.appliedAmount),
+          }),
+        ),
+        ...quotations.map((q) =>
+          putOp("quotations", {
+            ...q,
+            products: q.products.map(relabelLine),
+            discount: relabelDiscount(q.discount),
+            discountAmount: relabelOptional(q.discountAmount),
+            totalAmount: relabel(q.totalAmount),
+          }),
+        ),
+        ...recurring.map((r) =>
+          putOp("recurring", {
+            ...r,
+            products: r.products.map(relabelLine),
+            discount: relabelDiscount(r.discount),
+            discountAmount: relabelOptional(r.discountAmount),
+            totalAmount: relabel(r.totalAmount),
+          }),
+        ),
+        ...purchases.map((p) =>
+          putOp("purchases", {
+            ...p,
+            products: p.products.map(relabelLine),
+            totalAmount: relabel(p.totalAmount),
+            amountPaid: relabel(p.amountPaid),
+            payments: p.payments.map((payment) => ({
+              ...payment,
+              amount: relabel(payment.amount),
+            })),
+          }),
+        ),
+        ...expenses.map((e) =>
+          putOp("expenses", { ...e, amount: relabel(e.amount) }),
+        ),
+        {
+          type: "setValue",
+          key: VALUE_KEYS.PROFILE,
+          value: { ...DEFAULT_PROFILE, ...profile, currency },
+        },
+      ]);
+    });
   },
 
   async getCustomerTransactions(customerId: string): Promise<Transaction[]> {
-    const transactions = await this.getTransactions();
-    return transactions.filter((t) => t.customerId === customerId);
+    await ensureMigrated();
+    try {
+      return (
+        await getRepository().list<Transaction>("transactions", { customerId })
+      ).filter(isActive);
+    } catch {
+      return [];
+    }
   },
 
   async getCustomerPayments(customerId: string): Promise<Payment[]> {
-    const payments = await this.getPayments();
-    return payments.filter((p) => p.customerId === customerId);
+    await ensureMigrated();
+    try {
+      return (
+        await getRepository().list<Payment>("payments", { customerId })
+      ).filter(isActive);
+    } catch {
+      return [];
+    }
+  },
+
+  async getTransactionPayments(transactionId: string): Promise<Payment[]> {
+    await ensureMigrated();
+    try {
+      return (
+        await getRepository().list<Payment>("payments", { transactionId })
+      ).filter(isActive);
+    } catch {
+      return [];
+    }
+  },
+
+  /** Scans every record, trashed ones included, for broken references and amounts. */
+  async checkIntegrity(): Promise<IntegrityIssue[]> {
+    await ensureMigrated();
+    return runExclusive(COLLECTIONS, async () =>
+      scanIntegrity(await readAllData(getRepository())),
+    );
+  },
+
+  /**
+   * Repairs the issues with the given ids, re-scanning first so a stale list
+   * cannot undo newer edits. With `dryRun` nothing is written; either way the
+   * report of fixes comes back.
+   */
+  async repairIntegrity(
+    issueIds: string[],
+    options: { dryRun?: boolean } = {},
+  ): Promise<string[]> {
+    await ensureMigrated();
+    return runExclusive(COLLECTIONS, async () => {
+      const data = await readAllData(getRepository());
+      const issues = scanIntegrity(data).filter((issue) =>
+        issueIds.includes(issue.id),
+      );
+      const {
+        data: repaired,
+        report,
+        rewrittenCollections,
+      } = repairData(data, issues, generateId);
+      if (options.dryRun || report.length === 0) return report;
+
+      const ops: WriteOp[] = [];
+      for (const collection of [
+        "customers",
+        "transactions",
+        "payments",
+      ] as const) {
+        if (rewrittenCollections.includes(collection)) {
+          // Duplicate ids cannot be told apart by put/remove, so rewrite the list.
+          ops.push(
+            ...replaceCollectionOps(
+              collection,
+              repaired[collection] as StoredRecord[],
+            ),
+          );
+        } else {
+          const before = data[collection];
+          ops.push(
+            ...(await syncCollectionOps(
+              collection,
+              before,
+              repaired[collection],
+            )),
+          );
+        }
+      }
+      await commit(ops);
+      return report;
+    });
+  },
+
+  async getChangeLog(): Promise<ChangeLogEntry[]> {
+    await ensureMigrated();
+    try {
+      return await getRepository().list<ChangeLogEntry>("changes");
+    } catch {
+      return [];
+    }
+  },
+
+  /**
+   * Writes a whole data set in one commit. "replace" swaps out everything;
+   * "merge" upserts by id and keeps the current profile if one is set.
+   */
+  async importData(data: StoredData, mode: "merge" | "replace"): Promise<void> {
+    await ensureMigrated();
+    return runExclusive([...COLLECTIONS, "profile"], async () => {
+      if (mode === "replace") {
+        await commit(replaceAllOps(data));
+        return;
+      }
+
+      const ops: WriteOp[] = [];
+      COLLECTIONS.forEach((collection) => {
+        [...data[collection]].reverse().forEach((record) => {
+          ops.push({ type: "put", collection, record: record as StoredRecord });
+        });
+      });
+
+      const currentProfile = await getRepository().getValue<UserProfile>(
+        VALUE_KEYS.PROFILE,
+      );
+      const hasProfile =
+        currentProfile && (currentProfile.name || currentProfile.businessName);
+      if (data.profile && !hasProfile) {
+        ops.push({
+          type: "setValue",
+          key: VALUE_KEYS.PROFILE,
+          value: data.profile,
+        });
+      }
+      await commit(ops);
+    });
   },
 };
+
+registerLoader("customers", () => storage.getCustomers());
+registerLoader("transactions", () => storage.getTransactions());
+registerLoader("payments", () => storage.getPayments());
+registerLoader("credits", () => storage.getCredits());
+registerLoader("products", () => storage.getProducts());
+registerLoader("stock", () => storage.getStockMovements());
+registerLoader("returns", () => storage.getReturns());
+registerLoader("quotations", () => storage.getQuotations());
+registerLoader("recurring", () => storage.getRecurringTemplates());
+registerLoader("purchases", () => storage.getPurchases());
+registerLoader("expenses", () => storage.getExpenses());
+registerLoader("profile", () => storage.getProfile());
+registerLoader("trash", () => storage.getTrashedCustomers());
+registerLoader("changes", () => storage.getChangeLog());
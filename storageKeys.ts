@@ -0,0 +1,19 @@
+export const STORAGE_KEYS = {
+  CUSTOMERS: "@cardvault/customers",
+  TRANSACTIONS: "@cardvault/transactions",
+  PAYMENTS: "@cardvault/payments",
+  CREDITS: "@cardvault/credits",
+  PRODUCTS: "@cardvault/products",
+  STOCK: "@cardvault/stock",
+  RETURNS: "@cardvault/returns",
+  QUOTATIONS: "@cardvault/quotations",
+  RECURRING: "@cardvault/recurring",
+  PURCHASES: "@cardvault/purchases",
+  EXPENSES: "@cardvault/expenses",
+  CHANGES: "@cardvault/changes",
+  PROFILE: "@cardvault/profile",
+  SCHEMA_VERSION: "@cardvault/schema_version",
+  MIGRATION_SNAPSHOT: "@cardvault/migration_snapshot",
+  WRITE_JOURNAL: "@cardvault/write_journal",
+  TRASH_RETENTION_DAYS: "@cardvault/trash_retention_days",
+};
@@ -0,0 +1,67 @@
+import { Bill, Customer, PaymentStatus, PaymentTerms } from "@/types";
+import { pendingOf } from "@/utils/allocation";
+import { isPositive } from "@/utils/money";
+
+export const PAYMENT_TERMS: {
+  key: PaymentTerms;
+  label: string;
+  days: number;
+}[] = [
+  { key: "due-on-receipt", label: "Due on Receipt", days: 0 },
+  { key: "net-7", label: "Net 7", days: 7 },
+  { key: "net-15", label: "Net 15", days: 15 },
+  { key: "net-30", label: "Net 30", days: 30 },
+  { key: "net-60", label: "Net 60", days: 60 },
+];
+
+/** Used for customers without terms of their own, and for transactions without a due date. */
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = "net-30";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const termsOf = (terms: PaymentTerms = DEFAULT_PAYMENT_TERMS) =>
+  PAYMENT_TERMS.find((t) => t.key === terms) ||
+  PAYMENT_TERMS.find((t) => t.key === DEFAULT_PAYMENT_TERMS)!;
+
+export const termsLabel = (terms?: PaymentTerms): string =>
+  termsOf(terms).label;
+
+export const customerTerms = (
+  customer: Customer | null | undefined,
+): PaymentTerms => customer?.paymentTerms || DEFAULT_PAYMENT_TERMS;
+
+/** The due date for a transaction made on `date` under `terms`. */
+export function dueDateFor(date: string, terms?: PaymentTerms): string {
+  const due = new Date(date);
+  due.setDate(due.getDate() + termsOf(terms).days);
+  return due.toISOString();
+}
+
+/** A transaction's due date; older records without one get the default terms. */
+export const dueDateOf = (transaction: Bill): string =>
+  transaction.dueDate || dueDateFor(transaction.date);
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/**
+ * Whole days an unpaid balance is past its due date, counted in calendar
+ * days so a balance due today is not overdue. 0 when nothing is overdue.
+ */
+export function daysOverdue(transaction: Bill, now: Date = new Date()): number {
+  if (!isPositive(pendingOf(transaction))) return 0;
+  const days = Math.round(
+    (startOfDay(now) - startOfDay(new Date(dueDateOf(transaction)))) / DAY_MS,
+  );
+  return Math.max(days, 0);
+}
+
+export const isOverdue = (transaction: Bill, now: Date = new Date()): boolean =>
+  daysOverdue(transaction, now) > 0;
+
+/** The status to show for a transaction: its stored status, or "overdue". */
+export const paymentStatus = (
+  transaction: Bill,
+  now: Date = new Date(),
+): PaymentStatus =>
+  isOverdue(transaction, now) ? "overdue" : transaction.status;
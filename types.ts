@@ -1,5 +1,12 @@
 import { NavigatorScreenParams } from "@react-navigation/native";
-import { Customer, Transaction } from "@/types";
+import {
+  Customer,
+  Expense,
+  Product,
+  PurchaseBill,
+  Quotation,
+  Transaction,
+} from "@/types";
 
 export type RootStackParamList = {
   MainTabs: NavigatorScreenParams<MainTabParamList>;
@@ -19,8 +26,31 @@ export type RootStackParamList = {
   };
   CustomerDetail: { customerId: string };
   EditCustomer: { customer: Customer };
-  AddTransaction: { customerId: string };
+  /**
+   * Pass `transaction` to edit it instead of adding a new one. A `quotation`
+   * fills in the new transaction and is accepted when it is saved. With
+   * `asQuotation` the form makes a quotation instead, or edits `quotation`.
+   */
+  AddTransaction: {
+    customerId: string;
+    transaction?: Transaction;
+    quotation?: Quotation;
+    asQuotation?: boolean;
+  };
   TransactionDetail: { transaction: Transaction; customerName: string };
+  ReceivePayment: { customerId: string };
+  /** Pass `product` to edit it instead of adding a new one. */
+  ProductForm: { product?: Product };
+  StockAdjust: { productId: string };
+  SalesReturn: { transaction: Transaction };
+  QuotationDetail: { quotationId: string; customerName: string };
+  SupplierDetail: { supplierId: string };
+  /** Pass `purchase` to edit it instead of adding a new one. */
+  AddPurchase: { supplierId: string; purchase?: PurchaseBill };
+  /** Pass `purchaseId` to pay that bill only instead of the oldest bills first. */
+  PaySupplier: { supplierId: string; purchaseId?: string };
+  /** Pass `expense` to edit it instead of adding a new one. */
+  AddExpense: { expense?: Expense };
 };
 
 export type MainTabParamList = {
@@ -44,4 +74,9 @@ export type AnalyticsStackParamList = {
 
 export type ProfileStackParamList = {
   ProfileMain: undefined;
+  Trash: undefined;
+  Diagnostics: undefined;
+  ProductCatalog: undefined;
+  CatalogImport: undefined;
+  StockReport: undefined;
 };
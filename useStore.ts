@@ -0,0 +1,348 @@
+import { useCallback, useRef, useSyncExternalStore } from "react";
+import { getStoreValue, subscribe, StoreTopic } from "@/utils/dataStore";
+import { UserProfile } from "@/utils/storage";
+import {
+  Customer,
+  PartyType,
+  Transaction,
+  Payment,
+  CreditEntry,
+  ChangeLogEntry,
+  Expense,
+  Product,
+  PurchaseBill,
+  Quotation,
+  RecurringTemplate,
+  SalesReturn,
+  StockMovement,
+} from "@/types";
+
+const EMPTY: never[] = [];
+
+const DEFAULT_PROFILE: UserProfile = {
+  name: "",
+  businessName: "",
+  currency: "INR",
+};
+
+const shallowEqualArrays = <T>(a: T[], b: T[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+/**
+ * Subscribes to one store topic and re-renders only when the selected
+ * slice changes. `selectorKey` must change whenever `select` would.
+ */
+function useStoreSelector<T, S>(
+  topic: StoreTopic,
+  selectorKey: string,
+  select: (value: T | undefined) => S,
+  isEqual: (a: S, b: S) => boolean = Object.is,
+): S {
+  const lastRef = useRef<{
+    source: T | undefined;
+    key: string;
+    selected: S;
+  } | null>(null);
+
+  const subscribeToTopic = useCallback(
+    (listener: () => void) => subscribe(topic, listener),
+    [topic],
+  );
+
+  const getSnapshot = () => {
+    const source = getStoreValue<T>(topic);
+    const last = lastRef.current;
+    if (last && last.source === source && last.key === selectorKey) {
+      return last.selected;
+    }
+    const selected = select(source);
+    if (last && last.key === selectorKey && isEqual(last.selected, selected)) {
+      lastRef.current = { source, key: selectorKey, selected: last.selected };
+      return last.selected;
+    }
+    lastRef.current = { source, key: selectorKey, selected };
+    return selected;
+  };
+
+  return useSyncExternalStore(subscribeToTopic, getSnapshot, getSnapshot);
+}
+
+export interface CustomerFilter {
+  /** Customers saved before suppliers existed have no party type and count as customers. */
+  partyType?: PartyType;
+}
+
+export function useCustomers(filter: CustomerFilter = {}): Customer[] {
+  const { partyType } = filter;
+  return useStoreSelector<Customer[], Customer[]>(
+    "customers",
+    partyType ?? "all",
+    (value) => {
+      if (!value) return EMPTY;
+      return partyType === undefined
+        ? value
+        : value.filter((c) => (c.partyType || "customer") === partyType);
+    },
+    shallowEqualArrays,
+  );
+}
+
+/**
+ * `undefined` while customers are still loading, `null` if the id is unknown.
+ */
+export function useCustomer(id: string): Customer | null | undefined {
+  return useStoreSelector<Customer[], Customer | null | undefined>(
+    "customers",
+    id,
+    (value) => (value ? value.find((c) => c.id === id) || null : undefined),
+  );
+}
+
+export interface TransactionFilter {
+  customerId?: string;
+}
+
+export function useTransactions(filter: TransactionFilter = {}): Transaction[] {
+  const { customerId } = filter;
+  return useStoreSelector<Transaction[], Transaction[]>(
+    "transactions",
+    customerId ?? "all",
+    (value) => {
+      if (!value) return EMPTY;
+      return customerId === undefined
+        ? value
+        : value.filter((t) => t.customerId === customerId);
+    },
+    shallowEqualArrays,
+  );
+}
+
+export function useTransaction(id: string): Transaction | null | undefined {
+  return useStoreSelector<Transaction[], Transaction | null | undefined>(
+    "transactions",
+    id,
+    (value) => (value ? value.find((t) => t.id === id) || null : undefined),
+  );
+}
+
+export interface PaymentFilter {
+  customerId?: string;
+  transactionId?: string;
+}
+
+export function usePayments(filter: PaymentFilter = {}): Payment[] {
+  const { customerId, transactionId } = filter;
+  return useStoreSelector<Payment[], Payment[]>(
+    "payments",
+    `${customerId ?? "*"}:${transactionId ?? "*"}`,
+    (value) => {
+      if (!value) return EMPTY;
+      return value.filter(
+        (p) =>
+          (customerId === undefined || p.customerId === customerId) &&
+          (transactionId === undefined || p.transactionId === transactionId),
+      );
+    },
+    shallowEqualArrays,
+  );
+}
+
+export interface CreditFilter {
+  customerId?: string;
+}
+
+export function useCredits(filter: CreditFilter = {}): CreditEntry[] {
+  const { customerId } = filter;
+  return useStoreSelector<CreditEntry[], CreditEntry[]>(
+    "credits",
+    customerId ?? "all",
+    (value) => {
+      if (!value) return EMPTY;
+      return customerId === undefined
+        ? value
+        : value.filter((c) => c.customerId === customerId);
+    },
+    shallowEqualArrays,
+  );
+}
+
+export interface ProductFilter {
+  /** Only products that can be picked for new transactions. */
+  activeOnly?: boolean;
+}
+
+export function useProducts(filter: ProductFilter = {}): Product[] {
+  const { activeOnly = false } = filter;
+  return useStoreSelector<Product[], Product[]>(
+    "products",
+    activeOnly ? "active" : "all",
+    (value) => {
+      if (!value) return EMPTY;
+      return activeOnly ? value.filter((p) => p.active) : value;
+    },
+    shallowEqualArrays,
+  );
+}
+
+export interface StockFilter {
+  productId?: string;
+}
+
+export function useStockMovements(filter: StockFilter = {}): StockMovement[] {
+  const { productId } = filter;
+  return useStoreSelector<StockMovement[], StockMovement[]>(
+    "stock",
+    productId ?? "all",
+    (value) => {
+      if (!value) return EMPTY;
+      return productId === undefined
+        ? value
+        : value.filter((m) => m.productId === productId);
+    },
+    shallowEqualArrays,
+  );
+}
+
+export interface ReturnFilter {
+  customerId?: string;
+  transactionId?: string;
+}
+
+export function useReturns(filter: ReturnFilter = {}): SalesReturn[] {
+  const { customerId, transactionId } = filter;
+  return useStoreSelector<SalesReturn[], SalesReturn[]>(
+    "returns",
+    `${customerId ?? "*"}:${transactionId ?? "*"}`,
+    (value) => {
+      if (!value) return EMPTY;
+      return value.filter(
+        (r) =>
+          (customerId === undefined || r.customerId === customerId) &&
+          (transactionId === undefined || r.transactionId === transactionId),
+      );
+    },
+    shallowEqualArrays,
+  );
+}
+
+export interface QuotationFilter {
+  customerId?: string;
+}
+
+export function useQuotations(filter: QuotationFilter = {}): Quotation[] {
+  const { customerId } = filter;
+  return useStoreSelector<Quotation[], Quotation[]>(
+    "quotations",
+    customerId ?? "all",
+    (value) => {
+      if (!value) return EMPTY;
+      return customerId === undefined
+        ? value
+        : value.filter((q) => q.customerId === customerId);
+    },
+    shallowEqualArrays,
+  );
+}
+
+export function useQuotation(id: string): Quotation | null | undefined {
+  return useStoreSelector<Quotation[], Quotation | null | undefined>(
+    "quotations",
+    id,
+    (value) => (value ? value.find((q) => q.id === id) || null : undefined),
+  );
+}
+
+export interface RecurringFilter {
+  customerId?: string;
+}
+
+export function useRecurringTemplates(
+  filter: RecurringFilter = {},
+): RecurringTemplate[] {
+  const { customerId } = filter;
+  return useStoreSelector<RecurringTemplate[], RecurringTemplate[]>(
+    "recurring",
+    customerId ?? "all",
+    (value) => {
+      if (!value) return EMPTY;
+      return customerId === undefined
+        ? value
+        : value.filter((r) => r.customerId === customerId);
+    },
+    shallowEqualArrays,
+  );
+}
+
+export interface PurchaseFilter {
+  customerId?: string;
+}
+
+export function usePurchases(filter: PurchaseFilter = {}): PurchaseBill[] {
+  const { customerId } = filter;
+  return useStoreSelector<PurchaseBill[], PurchaseBill[]>(
+    "purchases",
+    customerId ?? "all",
+    (value) => {
+      if (!value) return EMPTY;
+      return customerId === undefined
+        ? value
+        : value.filter((p) => p.customerId === customerId);
+    },
+    shallowEqualArrays,
+  );
+}
+
+export function usePurchase(id: string): PurchaseBill | null | undefined {
+  return useStoreSelector<PurchaseBill[], PurchaseBill | null | undefined>(
+    "purchases",
+    id,
+    (value) => (value ? value.find((p) => p.id === id) || null : undefined),
+  );
+}
+
+export function useExpenses(): Expense[] {
+  return useStoreSelector<Expense[], Expense[]>(
+    "expenses",
+    "all",
+    (value) => value || EMPTY,
+  );
+}
+
+export function useProfile(): UserProfile {
+  return useStoreSelector<UserProfile, UserProfile>(
+    "profile",
+    "profile",
+    (value) => value || DEFAULT_PROFILE,
+  );
+}
+
+export function useTrashedCustomers(): Customer[] {
+  return useStoreSelector<Customer[], Customer[]>(
+    "trash",
+    "all",
+    (value) => value || EMPTY,
+  );
+}
+
+export interface ChangeLogFilter {
+  customerId?: string;
+  transactionId?: string;
+}
+
+export function useChangeLog(filter: ChangeLogFilter = {}): ChangeLogEntry[] {
+  const { customerId, transactionId } = filter;
+  return useStoreSelector<ChangeLogEntry[], ChangeLogEntry[]>(
+    "changes",
+    `${customerId ?? "*"}:${transactionId ?? "*"}`,
+    (value) => {
+      if (!value) return EMPTY;
+      return value.filter(
+        (entry) =>
+          (customerId === undefined || entry.customerId === customerId) &&
+          (transactionId === undefined ||
+            entry.transactionId === transactionId),
+      );
+    },
+    shallowEqualArrays,
+  );
+}
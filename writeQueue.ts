@@ -0,0 +1,31 @@
+const queueTails = new Map<string, Promise<void>>();
+
+/**
+ * Runs `task` once every earlier task holding any of `keys` has settled.
+ * All keys are claimed synchronously, so tasks spanning several keys keep
+ * their call order and can never deadlock each other. Tasks must not call
+ * back into `runExclusive` for a key they already hold.
+ */
+export function runExclusive<T>(
+  keys: string[],
+  task: () => Promise<T>,
+): Promise<T> {
+  const waitFor = keys.map((key) => queueTails.get(key) ?? Promise.resolve());
+
+  const result = Promise.all(waitFor).then(() => task());
+  const settled = result.then(
+    () => undefined,
+    () => undefined,
+  );
+
+  keys.forEach((key) => queueTails.set(key, settled));
+  settled.then(() => {
+    keys.forEach((key) => {
+      if (queueTails.get(key) === settled) {
+        queueTails.delete(key);
+      }
+    });
+  });
+
+  return result;
+}